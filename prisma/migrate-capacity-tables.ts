@@ -0,0 +1,173 @@
+// 프로바이더별 용량 테이블 → 프로바이더 공통 테이블 데이터 이전
+// azure_capacity_probes / azure_spot_signals / azure_capacity_scores (provider='azure')
+// aws_capacity_probes / aws_capacity_scores (provider='aws')
+//
+// prisma db push는 스키마에서 빠진 이전 테이블을 데이터와 함께 삭제하므로 push 전에 실행:
+//   npm run db:migrate-capacity && npx prisma db push
+// 공통 테이블이 없으면 만들고, 이전 테이블에 있는 컬럼만 옮긴 뒤 이전 테이블을 삭제한다.
+// 이미 옮긴 행(같은 id / 같은 조합의 스코어)은 건너뛰므로 여러 번 실행해도 안전하다.
+import { Prisma, PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+// 공통 테이블 (schema.prisma의 CapacityProbe / SpotSignal / CapacityScore와 동일)
+const TARGET_TABLES = [
+  `CREATE TABLE IF NOT EXISTS "capacity_probes" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "provider" TEXT NOT NULL,
+    "region" TEXT NOT NULL,
+    "instance_type" TEXT NOT NULL,
+    "probe_kind" TEXT NOT NULL,
+    "success" BOOLEAN,
+    "error_code" TEXT,
+    "error_class" TEXT,
+    "provision_ms" INTEGER,
+    "placement_score" INTEGER,
+    "availability_zone" TEXT,
+    "test_instance_id" TEXT,
+    "account_id" TEXT,
+    "cleaned_up" BOOLEAN NOT NULL DEFAULT true,
+    "cleaned_up_at" DATETIME,
+    "cleanup_attempts" INTEGER NOT NULL DEFAULT 0,
+    "cleanup_error" TEXT,
+    "cost" REAL,
+    "metadata" JSONB
+  )`,
+  `CREATE INDEX IF NOT EXISTS "capacity_probes_provider_region_instance_type_timestamp_idx" ON "capacity_probes"("provider", "region", "instance_type", "timestamp")`,
+  `CREATE INDEX IF NOT EXISTS "capacity_probes_provider_probe_kind_region_instance_type_timestamp_idx" ON "capacity_probes"("provider", "probe_kind", "region", "instance_type", "timestamp")`,
+  `CREATE INDEX IF NOT EXISTS "capacity_probes_account_id_timestamp_idx" ON "capacity_probes"("account_id", "timestamp")`,
+  `CREATE INDEX IF NOT EXISTS "capacity_probes_cleaned_up_timestamp_idx" ON "capacity_probes"("cleaned_up", "timestamp")`,
+  `CREATE TABLE IF NOT EXISTS "spot_signals" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "provider" TEXT NOT NULL,
+    "region" TEXT NOT NULL,
+    "instance_type" TEXT NOT NULL,
+    "spot_price" REAL NOT NULL,
+    "on_demand_price" REAL NOT NULL,
+    "price_ratio" REAL NOT NULL,
+    "volatility" REAL,
+    "eviction_rate" REAL,
+    "eviction_source" TEXT,
+    "eviction_samples" REAL,
+    "market_stress" REAL NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS "spot_signals_provider_region_instance_type_timestamp_idx" ON "spot_signals"("provider", "region", "instance_type", "timestamp")`,
+  `CREATE TABLE IF NOT EXISTS "capacity_scores" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "provider" TEXT NOT NULL,
+    "region" TEXT NOT NULL,
+    "instance_type" TEXT NOT NULL,
+    "score" REAL NOT NULL,
+    "score_lower" REAL,
+    "score_upper" REAL,
+    "label" TEXT NOT NULL,
+    "confidence" REAL NOT NULL,
+    "sample_count" INTEGER NOT NULL,
+    "success_rate" REAL,
+    "avg_provision_ms" INTEGER,
+    "capacity_error_rate" REAL,
+    "spot_stress" REAL,
+    "placement_score" REAL,
+    "reservation_rate" REAL,
+    "calculated_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "window_start" DATETIME NOT NULL,
+    "window_end" DATETIME NOT NULL
+  )`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS "capacity_scores_provider_region_instance_type_key" ON "capacity_scores"("provider", "region", "instance_type")`,
+  `CREATE INDEX IF NOT EXISTS "capacity_scores_provider_label_score_idx" ON "capacity_scores"("provider", "label", "score")`
+]
+
+interface LegacyTable {
+  source: string
+  target: string
+  provider: 'azure' | 'aws'
+  renamed?: Record<string, string> // 이전 컬럼 → 공통 컬럼
+  defaults?: Record<string, string> // 이전 테이블에 없을 때 채울 SQL 값 (초기 스키마에는 없던 컬럼)
+}
+
+const LEGACY_TABLES: LegacyTable[] = [
+  {
+    source: 'azure_capacity_probes',
+    target: 'capacity_probes',
+    provider: 'azure',
+    renamed: { vm_size: 'instance_type', subscription_id: 'account_id' },
+    defaults: { probe_kind: `'vm_create'` }
+  },
+  {
+    source: 'azure_spot_signals',
+    target: 'spot_signals',
+    provider: 'azure',
+    renamed: { vm_size: 'instance_type' }
+  },
+  {
+    source: 'azure_capacity_scores',
+    target: 'capacity_scores',
+    provider: 'azure',
+    renamed: { vm_size: 'instance_type' }
+  },
+  { source: 'aws_capacity_probes', target: 'capacity_probes', provider: 'aws' },
+  { source: 'aws_capacity_scores', target: 'capacity_scores', provider: 'aws' }
+]
+
+async function main() {
+  console.log('🚚 Migrating provider-specific capacity tables...')
+
+  const tables = await prisma.$queryRaw<{ name: string }[]>`SELECT name FROM sqlite_master WHERE type = 'table'`
+  const existing = new Set(tables.map(table => table.name))
+  const pending = LEGACY_TABLES.filter(table => existing.has(table.source))
+
+  if (pending.length === 0) {
+    console.log('✅ Nothing to migrate (no legacy capacity tables)')
+    return
+  }
+
+  await prisma.$transaction(async (tx) => {
+    for (const statement of TARGET_TABLES) {
+      await tx.$executeRawUnsafe(statement)
+    }
+
+    for (const table of pending) {
+      const sourceColumns = await columnNames(tx, table.source)
+      const targetColumns = new Set(await columnNames(tx, table.target))
+
+      const mapping = new Map<string, string>([['provider', `'${table.provider}'`]])
+      for (const column of sourceColumns) {
+        const target = table.renamed?.[column] ?? column
+        if (targetColumns.has(target) && !mapping.has(target)) {
+          mapping.set(target, `"${column}"`)
+        }
+      }
+      for (const [column, value] of Object.entries(table.defaults || {})) {
+        if (!mapping.has(column)) mapping.set(column, value)
+      }
+
+      const columns = Array.from(mapping.keys())
+      const copied = await tx.$executeRawUnsafe(
+        `INSERT OR IGNORE INTO "${table.target}" (${columns.map(column => `"${column}"`).join(', ')}) ` +
+        `SELECT ${Array.from(mapping.values()).join(', ')} FROM "${table.source}"`
+      )
+      await tx.$executeRawUnsafe(`DROP TABLE "${table.source}"`)
+
+      console.log(`📦 ${table.source} → ${table.target} (provider=${table.provider}): ${copied} rows`)
+    }
+  })
+
+  console.log('✅ Capacity tables migrated. Run `npx prisma db push` to sync the rest of the schema.')
+}
+
+async function columnNames(tx: Prisma.TransactionClient, table: string): Promise<string[]> {
+  const columns = await tx.$queryRawUnsafe<{ name: string }[]>(`PRAGMA table_info("${table}")`)
+  return columns.map(column => column.name)
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ Error during capacity table migration:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
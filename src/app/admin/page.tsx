@@ -19,9 +19,11 @@ import {
   TrendingUp,
   Download,
   Zap,
-  Home
+  Home,
+  Trash2
 } from "lucide-react"
 import Link from "next/link"
+import { CurrencySelector, ExchangeRateInfo, usePricingPreferences } from "@/components/pricing-preferences"
 
 interface PriceUpdateData {
   instanceId: string
@@ -44,9 +46,54 @@ interface AdminStats {
   }
 }
 
+interface ProbeBudgetPeriod {
+  capUsd: number
+  spentUsd: number
+  accruingUsd: number
+  remainingUsd: number
+  periodStart: string
+  utilization: number
+}
+
+interface ProbeBudgetStatus {
+  subscriptionId: string
+  caps: {
+    dailyCapUsd: number
+    monthlyCapUsd: number
+    source: 'database' | 'env'
+    updatedBy: string | null
+    updatedAt: string | null
+  }
+  daily: ProbeBudgetPeriod
+  monthly: ProbeBudgetPeriod
+  pendingCleanup: number
+  oldestPendingCleanupAt: string | null
+  exhausted: boolean
+}
+
+interface PendingCleanupProbe {
+  id: string
+  timestamp: string
+  region: string
+  vmSize: string
+  testInstanceId: string
+  subscriptionId: string | null
+  cleanupAttempts: number
+  cleanupError: string | null
+}
+
+interface ProbeBudgetData {
+  createsRealVms: boolean
+  budgets: ProbeBudgetStatus[]
+  pendingCleanup: PendingCleanupProbe[]
+}
+
 export default function AdminPage() {
   const [priceData, setPriceData] = useState<PriceUpdateData[]>([])
   const [stats, setStats] = useState<AdminStats | null>(null)
+  // 가격 표시 통화 (입력 / 저장은 USD, 관리 화면은 세전 금액)
+  const pricingPreferences = usePricingPreferences()
+  const { formatNetPrice: formatPrice } = pricingPreferences
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [syncing, setSyncing] = useState(false)
@@ -54,11 +101,108 @@ export default function AdminPage() {
   const [gcpSyncing, setGcpSyncing] = useState(false)
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
   const [editingPrices, setEditingPrices] = useState<Record<string, number>>({})
+  const [probeBudget, setProbeBudget] = useState<ProbeBudgetData | null>(null)
+  const [budgetCaps, setBudgetCaps] = useState<Record<string, { daily: string; monthly: string }>>({})
+  const [budgetSaving, setBudgetSaving] = useState<string | null>(null)
+  const [reaping, setReaping] = useState(false)
 
   useEffect(() => {
     loadPriceData()
+    loadProbeBudget()
   }, [])
 
+  const loadProbeBudget = async () => {
+    try {
+      const response = await fetch('/api/admin/probe-budget')
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to load probe budget')
+      }
+
+      const data: ProbeBudgetData = result.data
+      setProbeBudget(data)
+      setBudgetCaps(Object.fromEntries(data.budgets.map(budget => [
+        budget.subscriptionId,
+        { daily: String(budget.caps.dailyCapUsd), monthly: String(budget.caps.monthlyCapUsd) }
+      ])))
+    } catch (error) {
+      console.error('Probe budget load error:', error)
+      setProbeBudget(null)
+    }
+  }
+
+  const saveProbeBudget = async (subscriptionId: string) => {
+    const caps = budgetCaps[subscriptionId]
+    if (!caps) return
+
+    try {
+      setBudgetSaving(subscriptionId)
+      setMessage(null)
+
+      const response = await fetch('/api/admin/probe-budget', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          subscriptionId,
+          dailyCapUsd: parseFloat(caps.daily),
+          monthlyCapUsd: parseFloat(caps.monthly)
+        })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to update probe budget')
+      }
+
+      await loadProbeBudget()
+      setMessage({ type: 'success', text: result.message })
+    } catch (error) {
+      console.error('Probe budget update error:', error)
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : '프로브 예산 변경 중 오류가 발생했습니다.'
+      })
+    } finally {
+      setBudgetSaving(null)
+    }
+  }
+
+  const runProbeReaper = async () => {
+    try {
+      setReaping(true)
+      setMessage(null)
+
+      const response = await fetch('/api/admin/jobs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ job: 'probe_reaper', params: { minAgeMinutes: 0 } })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to run probe reaper')
+      }
+
+      await loadProbeBudget()
+      setMessage({ type: 'success', text: result.message })
+    } catch (error) {
+      console.error('Probe reaper error:', error)
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : '테스트 VM 정리 중 오류가 발생했습니다.'
+      })
+    } finally {
+      setReaping(false)
+    }
+  }
+
   const loadPriceData = async () => {
     try {
       setLoading(true)
@@ -148,6 +292,9 @@ export default function AdminPage() {
         body: JSON.stringify({
           updates: changedItems.map(item => ({
             instanceId: item.instanceId,
+            provider: item.provider,
+            region: item.region,
+            instanceName: item.instanceName,
             newPrice: item.newPrice,
             currency: item.currency
           }))
@@ -189,11 +336,12 @@ export default function AdminPage() {
       setSyncing(true)
       setMessage(null)
 
-      const response = await fetch('/api/admin/sync-aws-prices', {
+      const response = await fetch('/api/admin/sync-prices/aws', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-        }
+        },
+        body: JSON.stringify({ dryRun: false })
       })
 
       const result = await response.json()
@@ -226,7 +374,7 @@ export default function AdminPage() {
       setAzureSyncing(true)
       setMessage(null)
 
-      const response = await fetch('/api/admin/sync-azure-prices', {
+      const response = await fetch('/api/admin/sync-prices/azure', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -267,7 +415,7 @@ export default function AdminPage() {
       setGcpSyncing(true)
       setMessage(null)
 
-      const response = await fetch('/api/admin/sync-gcp-prices', {
+      const response = await fetch('/api/admin/sync-prices/gcp', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -303,15 +451,13 @@ export default function AdminPage() {
     }
   }
 
-  const formatPrice = (price: number) => {
-    return `$${price.toFixed(3)}`
-  }
-
   const getProviderColor = (provider: string) => {
     switch (provider) {
       case 'AWS': return 'bg-orange-100 text-orange-800'
       case 'AZURE': return 'bg-blue-100 text-blue-800'
       case 'GCP': return 'bg-green-100 text-green-800'
+      case 'OCI': return 'bg-rose-100 text-rose-800'
+      case 'ALIBABA': return 'bg-amber-100 text-amber-800'
       default: return 'bg-gray-100 text-gray-800'
     }
   }
@@ -338,13 +484,17 @@ export default function AdminPage() {
               GPU 인스턴스 가격 관리 및 시스템 모니터링
             </p>
           </div>
-          <Button asChild variant="outline">
-            <Link href="/">
-              <Home className="w-4 h-4 mr-2" />
-              홈으로
-            </Link>
-          </Button>
+          <div className="flex items-center space-x-3">
+            <CurrencySelector state={pricingPreferences} className="w-32" />
+            <Button asChild variant="outline">
+              <Link href="/">
+                <Home className="w-4 h-4 mr-2" />
+                홈으로
+              </Link>
+            </Button>
+          </div>
         </div>
+        <ExchangeRateInfo state={pricingPreferences} className="" />
 
         {/* 알림 메시지 */}
         {message && (
@@ -365,6 +515,7 @@ export default function AdminPage() {
             <TabsTrigger value="prices">가격 관리</TabsTrigger>
             <TabsTrigger value="stats">통계</TabsTrigger>
             <TabsTrigger value="automation">자동화</TabsTrigger>
+            <TabsTrigger value="probe-budget">프로브 예산</TabsTrigger>
           </TabsList>
 
           <TabsContent value="stats" className="space-y-4">
@@ -608,6 +759,182 @@ export default function AdminPage() {
             </div>
           </TabsContent>
 
+          <TabsContent value="probe-budget" className="space-y-4">
+            {/* Azure 용량 프로브 예산 */}
+            <div className="flex justify-between items-center">
+              <div className="space-y-1">
+                <h2 className="text-2xl font-semibold">Azure 용량 프로브 예산</h2>
+                <p className="text-sm text-muted-foreground">
+                  실제 테스트 VM을 만드는 프로브의 구독별 일/월 지출 한도와 정리되지 않은 VM을 관리합니다.
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={loadProbeBudget}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  새로고침
+                </Button>
+                <Button variant="outline" onClick={runProbeReaper} disabled={reaping}>
+                  {reaping ? (
+                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4 mr-2" />
+                  )}
+                  {reaping ? '정리 중...' : '테스트 VM 정리 실행'}
+                </Button>
+              </div>
+            </div>
+
+            {!probeBudget ? (
+              <Card>
+                <CardContent className="py-6 text-sm text-muted-foreground">
+                  프로브 예산 현황을 불러올 수 없습니다.
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                {!probeBudget.createsRealVms && (
+                  <Alert>
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      실제 VM 생성이 비활성화되어 있어 프로브 비용이 발생하지 않습니다. (AZURE_SUBSCRIPTION_ID 미설정 또는 데모 모드)
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {probeBudget.budgets.map((budget) => {
+                  const caps = budgetCaps[budget.subscriptionId] || { daily: '', monthly: '' }
+
+                  return (
+                    <Card key={budget.subscriptionId}>
+                      <CardHeader>
+                        <CardTitle className="flex items-center gap-2 text-base">
+                          <span className="font-mono">{budget.subscriptionId}</span>
+                          {budget.exhausted ? (
+                            <Badge variant="destructive" className="text-xs">예산 소진</Badge>
+                          ) : (
+                            <Badge variant="secondary" className="text-xs">정상</Badge>
+                          )}
+                          <Badge variant="outline" className="text-xs">
+                            {budget.caps.source === 'database' ? '관리자 설정' : '환경 변수 기본값'}
+                          </Badge>
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          {([['오늘 (UTC)', budget.daily], ['이번 달 (UTC)', budget.monthly]] as const).map(([label, period]) => (
+                            <div key={label} className="space-y-1">
+                              <div className="text-sm text-muted-foreground">{label}</div>
+                              <div className="text-xl font-bold">
+                                ${period.spentUsd.toFixed(2)} / ${period.capUsd.toFixed(2)}
+                              </div>
+                              <div className="h-2 bg-gray-100 rounded">
+                                <div
+                                  className={`h-2 rounded ${period.utilization >= 1 ? 'bg-red-500' : period.utilization >= 0.8 ? 'bg-amber-500' : 'bg-green-500'}`}
+                                  style={{ width: `${Math.min(100, period.utilization * 100)}%` }}
+                                />
+                              </div>
+                              <p className="text-xs text-muted-foreground">
+                                잔여 ${period.remainingUsd.toFixed(2)}
+                                {period.accruingUsd > 0 && ` · 미정리 VM 누적 $${period.accruingUsd.toFixed(2)} 포함`}
+                              </p>
+                            </div>
+                          ))}
+
+                          <div className="space-y-1">
+                            <div className="text-sm text-muted-foreground">정리되지 않은 테스트 VM</div>
+                            <div className="text-xl font-bold">{budget.pendingCleanup}개</div>
+                            <p className="text-xs text-muted-foreground">
+                              {budget.oldestPendingCleanupAt
+                                ? `가장 오래된 VM: ${new Date(budget.oldestPendingCleanupAt).toLocaleString('ko-KR')}`
+                                : '모두 정리됨'}
+                            </p>
+                          </div>
+                        </div>
+
+                        <div className="flex flex-wrap items-end gap-2">
+                          <div className="space-y-1">
+                            <label className="text-sm font-medium">일 한도 (USD)</label>
+                            <Input
+                              type="number"
+                              step="0.5"
+                              min="0"
+                              value={caps.daily}
+                              onChange={(e) => setBudgetCaps(prev => ({
+                                ...prev,
+                                [budget.subscriptionId]: { ...caps, daily: e.target.value }
+                              }))}
+                              className="w-32 text-right font-mono"
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <label className="text-sm font-medium">월 한도 (USD)</label>
+                            <Input
+                              type="number"
+                              step="1"
+                              min="0"
+                              value={caps.monthly}
+                              onChange={(e) => setBudgetCaps(prev => ({
+                                ...prev,
+                                [budget.subscriptionId]: { ...caps, monthly: e.target.value }
+                              }))}
+                              className="w-32 text-right font-mono"
+                            />
+                          </div>
+                          <Button
+                            onClick={() => saveProbeBudget(budget.subscriptionId)}
+                            disabled={budgetSaving === budget.subscriptionId}
+                          >
+                            {budgetSaving === budget.subscriptionId ? (
+                              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <Save className="h-4 w-4 mr-2" />
+                            )}
+                            한도 저장
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  )
+                })}
+
+                {probeBudget.pendingCleanup.length > 0 && (
+                  <Card>
+                    <CardContent className="p-0">
+                      <div className="overflow-auto">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>테스트 VM</TableHead>
+                              <TableHead>리전 / VM 크기</TableHead>
+                              <TableHead>생성 시각</TableHead>
+                              <TableHead className="text-right">삭제 시도</TableHead>
+                              <TableHead>마지막 오류</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {probeBudget.pendingCleanup.map((probe) => (
+                              <TableRow key={probe.id}>
+                                <TableCell className="font-mono text-sm">{probe.testInstanceId}</TableCell>
+                                <TableCell className="text-sm">
+                                  {probe.region} / <span className="font-mono">{probe.vmSize}</span>
+                                </TableCell>
+                                <TableCell className="text-sm text-muted-foreground">
+                                  {new Date(probe.timestamp).toLocaleString('ko-KR')}
+                                </TableCell>
+                                <TableCell className="text-right font-mono">{probe.cleanupAttempts}</TableCell>
+                                <TableCell className="text-sm text-red-600">{probe.cleanupError || '-'}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+              </>
+            )}
+          </TabsContent>
+
           <TabsContent value="prices" className="space-y-4">
             {/* 가격 관리 */}
             <div className="flex justify-between items-center">
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { jobScheduler } from '@/lib/scheduled-jobs'
+
+const runJobSchema = z.object({
+  job: z.string().min(1),
+  params: z.record(z.string(), z.unknown()).optional().default({})
+})
+
+// 스케줄 작업 목록 / 다음 실행 / 잠금 / 마지막 실행
+export async function GET() {
+  try {
+    const jobs = await jobScheduler.getStatus()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        schedulerStarted: jobScheduler.isStarted(),
+        jobs
+      }
+    })
+  } catch (error) {
+    console.error('Job status error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: '스케줄 작업 상태를 조회할 수 없습니다.'
+    }, { status: 500 })
+  }
+}
+
+// 작업 즉시 실행 (스케줄과 같은 잠금 사용)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { job, params } = runJobSchema.parse(body)
+
+    if (!jobScheduler.getJob(job)) {
+      return NextResponse.json({
+        success: false,
+        message: `등록되지 않은 작업입니다: ${job}`,
+        data: { jobs: jobScheduler.getJobs().map(definition => definition.name) }
+      }, { status: 404 })
+    }
+
+    const outcome = await jobScheduler.runNow(job, params)
+    const status = outcome.status === 'locked' ? 409 : outcome.status === 'failed' ? 500 : 200
+
+    return NextResponse.json({
+      success: status === 200,
+      message: outcome.status === 'locked'
+        ? `${job} 작업이 이미 실행 중입니다.`
+        : `${job} 작업 ${outcome.status} (${outcome.recordsProcessed}건, ${outcome.attempts}회 시도)`,
+      data: {
+        jobName: outcome.jobName,
+        status: outcome.status,
+        etlLogId: outcome.etlLogId,
+        attempts: outcome.attempts,
+        recordsProcessed: outcome.recordsProcessed,
+        error: outcome.error
+      }
+    }, { status })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: error.issues
+      }, { status: 400 })
+    }
+
+    console.error('Job run error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: '작업 실행에 실패했습니다.'
+    }, { status: 500 })
+  }
+}
@@ -1,46 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
+import { priceHistoryService } from '@/lib/price-history'
+import { toInstanceId } from '@/lib/provider-pricing'
 
 // 가격 업데이트 요청 스키마
 const priceUpdateSchema = z.object({
   updates: z.array(z.object({
     instanceId: z.string(),
+    provider: z.string(),
+    region: z.string(),
+    instanceName: z.string(),
     newPrice: z.number().min(0),
     currency: z.string().default('USD')
   }))
 })
 
-// 실제 가격 데이터 (실제로는 데이터베이스에 저장되어야 함)
-let priceStorage: Record<string, { pricePerHour: number; currency: string; lastUpdated: string }> = {
-  // AWS
-  'aws-p5d.24xlarge': { pricePerHour: 98.32, currency: 'USD', lastUpdated: new Date().toISOString() },
-  'aws-p4d.24xlarge': { pricePerHour: 32.77, currency: 'USD', lastUpdated: new Date().toISOString() },
-  'aws-g5.xlarge': { pricePerHour: 1.006, currency: 'USD', lastUpdated: new Date().toISOString() },
-  'aws-g5.2xlarge': { pricePerHour: 1.89, currency: 'USD', lastUpdated: new Date().toISOString() },
-  
-  // Azure
-  'azure-Standard_ND_H100_v5': { pricePerHour: 89.76, currency: 'USD', lastUpdated: new Date().toISOString() },
-  'azure-Standard_ND96amsr_A100_v4': { pricePerHour: 27.20, currency: 'USD', lastUpdated: new Date().toISOString() },
-  'azure-Standard_ND40rs_v2': { pricePerHour: 19.44, currency: 'USD', lastUpdated: new Date().toISOString() },
-  
-  // GCP
-  'gcp-a3-highgpu-8g': { pricePerHour: 91.45, currency: 'USD', lastUpdated: new Date().toISOString() },
-  'gcp-a2-highgpu-8g': { pricePerHour: 29.89, currency: 'USD', lastUpdated: new Date().toISOString() },
-  'gcp-g2-standard-4': { pricePerHour: 0.736, currency: 'USD', lastUpdated: new Date().toISOString() }
-}
-
-// 가격 업데이트 로그
-interface PriceUpdateLog {
-  id: string
-  instanceId: string
-  oldPrice: number
-  newPrice: number
-  updatedAt: string
-  updatedBy: string
-}
-
-let updateLogs: PriceUpdateLog[] = []
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
@@ -50,9 +24,19 @@ export async function POST(request: NextRequest) {
     const timestamp = new Date().toISOString()
 
     for (const update of updates) {
-      const { instanceId, newPrice, currency } = update
-      
-      if (!priceStorage[instanceId]) {
+      const { instanceId, provider, region, instanceName, newPrice, currency } = update
+
+      // 수동 보정 가격을 PriceHistory에 새 버전으로 기록
+      const recorded = await priceHistoryService.recordManualPrice({
+        providerCode: provider.toLowerCase(),
+        regionCode: region,
+        instanceName,
+        pricePerHour: newPrice,
+        currency,
+        updatedBy: 'admin' // 실제로는 인증된 사용자 정보
+      })
+
+      if (!recorded) {
         results.push({
           instanceId,
           success: false,
@@ -61,24 +45,7 @@ export async function POST(request: NextRequest) {
         continue
       }
 
-      const oldPrice = priceStorage[instanceId].pricePerHour
-      
-      // 가격 업데이트
-      priceStorage[instanceId] = {
-        pricePerHour: newPrice,
-        currency,
-        lastUpdated: timestamp
-      }
-
-      // 로그 기록
-      updateLogs.push({
-        id: `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        instanceId,
-        oldPrice,
-        newPrice,
-        updatedAt: timestamp,
-        updatedBy: 'admin' // 실제로는 인증된 사용자 정보
-      })
+      const oldPrice = recorded.oldPrice ?? newPrice
 
       results.push({
         instanceId,
@@ -86,7 +53,7 @@ export async function POST(request: NextRequest) {
         oldPrice,
         newPrice,
         change: newPrice - oldPrice,
-        changePercent: ((newPrice - oldPrice) / oldPrice) * 100
+        changePercent: oldPrice > 0 ? ((newPrice - oldPrice) / oldPrice) * 100 : 0
       })
     }
 
@@ -99,20 +66,20 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Price update error:', error)
-    
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { 
+        {
           success: false,
-          error: 'Invalid request data', 
-          details: error.errors 
+          error: 'Invalid request data',
+          details: error.issues
         },
         { status: 400 }
       )
     }
 
     return NextResponse.json(
-      { 
+      {
         success: false,
         error: 'Internal server error',
         message: 'Failed to update prices'
@@ -122,27 +89,93 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// 수동 보정 해제 요청 스키마
+const overrideClearSchema = z.object({
+  provider: z.string().min(1),
+  region: z.string().min(1),
+  instanceName: z.string().min(1),
+  purchaseOption: z.string().optional()
+})
+
+// 수동 보정 해제 (다음 조회부터 최신 동기화 가격 사용)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { provider, region, instanceName, purchaseOption } = overrideClearSchema.parse({
+      provider: searchParams.get('provider') || undefined,
+      region: searchParams.get('region') || undefined,
+      instanceName: searchParams.get('instanceName') || undefined,
+      purchaseOption: searchParams.get('purchaseOption') || undefined
+    })
+
+    const cleared = await priceHistoryService.clearManualPrice({
+      providerCode: provider.toLowerCase(),
+      regionCode: region,
+      instanceName,
+      purchaseOption
+    })
+
+    return NextResponse.json({
+      success: true,
+      cleared,
+      message: cleared > 0 ?
+        `${instanceName} 수동 보정 가격이 해제되었습니다.` :
+        '해제할 수동 보정 가격이 없습니다.'
+    })
+
+  } catch (error) {
+    console.error('Price override clear error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to clear price override'
+      },
+      { status: 500 }
+    )
+  }
+}
+
 // 가격 데이터 조회
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const includeLogs = searchParams.get('logs') === 'true'
 
-    const response: any = {
-      prices: priceStorage,
-      lastUpdated: new Date().toISOString()
-    }
+    const latestPrices = await priceHistoryService.getLatestPrices()
+    const prices: Record<string, { pricePerHour: number; currency: string; lastUpdated: string; dataSource: string | null }> = {}
 
-    if (includeLogs) {
-      response.logs = updateLogs.slice(-50) // 최근 50개 로그만
+    for (const price of latestPrices) {
+      prices[toInstanceId({ provider: price.providerCode, instanceName: price.instanceName, region: price.regionCode })] = {
+        pricePerHour: price.pricePerHour,
+        currency: price.currency,
+        lastUpdated: price.effectiveDate.toISOString(),
+        dataSource: price.dataSource
+      }
     }
 
-    return NextResponse.json(response)
+    return NextResponse.json({
+      prices,
+      lastUpdated: new Date().toISOString(),
+      ...(includeLogs && { logs: await priceHistoryService.getManualPriceLogs(50) }) // 최근 50개 로그만
+    })
 
   } catch (error) {
     console.error('Price retrieval error:', error)
     return NextResponse.json(
-      { 
+      {
         success: false,
         error: 'Failed to retrieve prices'
       },
@@ -150,22 +183,3 @@ export async function GET(request: NextRequest) {
     )
   }
 }
-
-// 현재 메모리 내 가격 데이터를 외부에서 접근할 수 있도록 export
-export function getCurrentPrices() {
-  return priceStorage
-}
-
-// 가격 데이터 업데이트 (다른 API에서 사용)
-export function updatePrice(instanceId: string, pricePerHour: number, currency = 'USD') {
-  if (priceStorage[instanceId]) {
-    priceStorage[instanceId] = {
-      pricePerHour,
-      currency,
-      lastUpdated: new Date().toISOString()
-    }
-    return true
-  }
-  return false
-}
-
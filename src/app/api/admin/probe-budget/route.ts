@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { azureCapacityService } from '@/lib/azure-capacity'
+import { azureProbeBudgetService } from '@/lib/azure-probe-budget'
+import { prisma } from '@/lib/prisma'
+
+const updateBudgetSchema = z.object({
+  subscriptionId: z.string().min(1).optional(), // 미지정 시 프로브에 사용하는 구독
+  dailyCapUsd: z.number().min(0),
+  monthlyCapUsd: z.number().min(0),
+  updatedBy: z.string().optional()
+})
+
+// 구독별 프로브 예산 현황 + 정리되지 않은 테스트 VM
+export async function GET() {
+  try {
+    const configured = await prisma.probeBudget.findMany({ select: { subscriptionId: true } })
+    const subscriptionIds = Array.from(new Set([
+      azureCapacityService.getSubscriptionId(),
+      ...configured.map(budget => budget.subscriptionId)
+    ]))
+
+    const [budgets, pendingCleanup] = await Promise.all([
+      Promise.all(subscriptionIds.map(id => azureProbeBudgetService.getStatus(id))),
+      azureCapacityService.getPendingCleanupProbes()
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        createsRealVms: azureCapacityService.createsRealVms(),
+        budgets,
+        pendingCleanup
+      }
+    })
+  } catch (error) {
+    console.error('Probe budget status error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: '프로브 예산 현황을 조회할 수 없습니다.'
+    }, { status: 500 })
+  }
+}
+
+// 예산 한도 변경
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { subscriptionId, dailyCapUsd, monthlyCapUsd, updatedBy } = updateBudgetSchema.parse(body)
+
+    if (dailyCapUsd > monthlyCapUsd) {
+      return NextResponse.json({
+        success: false,
+        message: '일 한도는 월 한도보다 클 수 없습니다.'
+      }, { status: 400 })
+    }
+
+    const targetId = subscriptionId || azureCapacityService.getSubscriptionId()
+    await azureProbeBudgetService.setCaps(targetId, { dailyCapUsd, monthlyCapUsd }, updatedBy || 'admin')
+    const status = await azureProbeBudgetService.getStatus(targetId)
+
+    return NextResponse.json({
+      success: true,
+      message: `${targetId} 프로브 예산을 일 $${dailyCapUsd} / 월 $${monthlyCapUsd}로 변경했습니다.`,
+      data: status
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: error.issues
+      }, { status: 400 })
+    }
+
+    console.error('Probe budget update error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: '프로브 예산을 변경할 수 없습니다.'
+    }, { status: 500 })
+  }
+}
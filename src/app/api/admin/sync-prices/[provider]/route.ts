@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getPricingAdapter, getPricingAdapters, priceSyncService, PriceSyncResult } from '@/lib/price-sync'
+import { priceRepository } from '@/lib/price-repository'
+import { jobScheduler } from '@/lib/scheduled-jobs'
+
+const syncSchema = z.object({
+  regions: z.array(z.string()).optional(),
+  dryRun: z.boolean().optional().default(false),
+})
+
+interface RouteContext {
+  params: Promise<{ provider: string }>
+}
+
+function unknownProvider(provider: string) {
+  return NextResponse.json({
+    success: false,
+    message: `지원하지 않는 프로바이더입니다: ${provider}`,
+    data: { providers: getPricingAdapters().map(adapter => adapter.providerCode) }
+  }, { status: 404 })
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { provider } = await params
+  const adapter = getPricingAdapter(provider)
+  if (!adapter) {
+    return unknownProvider(provider)
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { regions, dryRun } = syncSchema.parse(body)
+
+    console.log(`Starting ${adapter.displayName} price synchronization...`, { regions, dryRun })
+    const syncRegions = regions && regions.length > 0 ? regions : undefined
+    let result: PriceSyncResult
+
+    if (dryRun) {
+      result = await priceSyncService.sync(adapter, { regions: syncRegions, dryRun })
+    } else {
+      // 스케줄러를 통해 실행 (DB 잠금 + 재시도 + EtlLog 기록, 스케줄 실행과 중복 방지)
+      const outcome = await jobScheduler.runNow(`price_sync:${adapter.providerCode}`, { regions: syncRegions })
+
+      if (outcome.status === 'locked') {
+        return NextResponse.json({
+          success: false,
+          message: `${adapter.displayName} 가격 동기화가 이미 실행 중입니다.`
+        }, { status: 409 })
+      }
+      if (!outcome.details) {
+        throw new Error(outcome.error || `${adapter.displayName} 가격 동기화 실패`)
+      }
+      result = outcome.details as PriceSyncResult
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: dryRun
+        ? `${adapter.displayName} 가격 동기화 미리보기: ${result.offers.length}개 오퍼 (실제 업데이트 안함)`
+        : `${adapter.displayName} 가격 동기화 완료: ${result.updated}개 인스턴스 업데이트됨`,
+      data: {
+        provider: result.providerCode,
+        updated: result.updated,
+        failed: result.failed,
+        availablePrices: result.totalCount,
+        regions: result.regions,
+        gpuModels: result.gpuModels,
+        fetchedAt: result.fetchedAt,
+        currency: result.currency,
+        truncated: result.truncated,
+        details: result.details,
+        offers: dryRun ? result.offers : undefined,
+        dryRun
+      }
+    })
+  } catch (error) {
+    console.error(`${adapter.displayName} price sync error:`, error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: `${adapter.displayName} 가격 동기화 중 오류가 발생했습니다.`
+    }, { status: 500 })
+  }
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { provider } = await params
+  const adapter = getPricingAdapter(provider)
+  if (!adapter) {
+    return unknownProvider(provider)
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+
+    if (searchParams.get('dryRun') === 'true') {
+      // 미리보기 모드 (저장 없이 어댑터 조회)
+      const result = await priceSyncService.sync(adapter, {
+        regions: searchParams.get('regions')?.split(',').filter(Boolean),
+        dryRun: true
+      })
+
+      return NextResponse.json({
+        success: true,
+        message: `${adapter.displayName} 가격 데이터 조회 성공`,
+        data: {
+          offers: result.offers,
+          availablePrices: result.totalCount,
+          regions: result.regions,
+          gpuModels: result.gpuModels,
+          dryRun: true
+        }
+      })
+    }
+
+    // 현재 저장된 가격 반환
+    const offers = await priceRepository.getOffers({
+      providerCode: adapter.providerCode,
+      purchaseOption: searchParams.get('purchaseOption') || undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        provider: adapter.providerCode,
+        totalStored: offers.length,
+        offers
+      }
+    })
+  } catch (error) {
+    console.error(`${adapter.displayName} price fetch error:`, error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: `${adapter.displayName} 가격 정보를 조회할 수 없습니다.`
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,112 @@
+// AWS 용량 체크 API (Spot 배치 점수 / ODCR dry-run, 인스턴스를 만들지 않음)
+import { NextRequest, NextResponse } from 'next/server';
+import { awsCapacityService } from '@/lib/aws-capacity';
+import { awsCapacityScoringEngine } from '@/lib/aws-scoring';
+import { z } from 'zod';
+
+const AwsCapacityCheckSchema = z.object({
+  instanceType: z.string().min(1, '인스턴스 타입은 필수입니다'),
+  regions: z.array(z.string().min(1)).min(1, '최소 1개 리전이 필요합니다').max(20),
+  probeKinds: z.array(z.enum(['spot_placement', 'odcr_dry_run'])).min(1).optional().default(['spot_placement', 'odcr_dry_run'])
+});
+
+/**
+ * POST /api/aws/capacity-check
+ * 인스턴스 타입의 리전별 용량 신호 수집 후 스코어 재계산
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validation = AwsCapacityCheckSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        success: false,
+        error: '잘못된 요청 형식',
+        details: validation.error.issues,
+        message: '요청 파라미터를 확인해주세요.'
+      }, { status: 400 });
+    }
+
+    if (!awsCapacityService.isProbeEnabled()) {
+      return NextResponse.json({
+        success: false,
+        error: 'AWS 용량 프로브 비활성화',
+        message: 'AWS_CAPACITY_PROBE_ENABLED=true로 켜거나 AWS_EC2_ENDPOINT로 가짜 EC2 엔드포인트를 지정하세요.'
+      }, { status: 503 });
+    }
+
+    const { instanceType, regions, probeKinds } = validation.data;
+    console.log(`🔍 AWS 용량 체크 시작: ${instanceType} (${regions.join(', ')})`);
+
+    const probes = [
+      ...(probeKinds.includes('spot_placement') ? await awsCapacityService.checkSpotPlacement(instanceType, regions) : []),
+      ...(probeKinds.includes('odcr_dry_run') ?
+        await Promise.all(regions.map(region => awsCapacityService.checkCapacityReservation(region, instanceType))) :
+        [])
+    ];
+    await awsCapacityService.saveProbeResults(probes);
+
+    const scores = [];
+    for (const region of regions) {
+      const score = await awsCapacityScoringEngine.calculateCapacityScore(region, instanceType);
+      await awsCapacityScoringEngine.saveCapacityScore(score);
+      scores.push(score);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        instanceType,
+        probes,
+        scores,
+        message: `${probes.length}개 신호 수집, ${regions.length}개 리전 스코어 갱신`
+      }
+    });
+  } catch (error) {
+    console.error('AWS 용량 체크 API 오류:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'AWS 용량 체크에 실패했습니다.'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/aws/capacity-check?region=&instanceType=&hours=
+ * 최근 프로브 결과 조회
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const region = searchParams.get('region') || undefined;
+    const instanceType = searchParams.get('instanceType') || undefined;
+    const hours = parseInt(searchParams.get('hours') || '24');
+
+    const results = await awsCapacityService.getRecentProbeResults(region, instanceType, hours);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        results,
+        stats: {
+          total: results.length,
+          available: results.filter(r => r.success === true).length,
+          unavailable: results.filter(r => r.success === false).length,
+          ignored: results.filter(r => r.success === null).length
+        },
+        filters: { region: region || null, instanceType: instanceType || null, hours }
+      }
+    });
+  } catch (error) {
+    console.error('AWS 프로브 결과 조회 실패:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'AWS 프로브 결과 조회에 실패했습니다.'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+// AWS 용량 스코어 API
+import { NextRequest, NextResponse } from 'next/server';
+import { awsCapacityScoringEngine } from '@/lib/aws-scoring';
+
+/**
+ * GET /api/aws/capacity-scores?region=&instanceType=&label=&limit=
+ * 저장된 용량 스코어 조회
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const region = searchParams.get('region');
+    const instanceType = searchParams.get('instanceType');
+    const label = searchParams.get('label'); // AVAILABLE, LIMITED, UNAVAILABLE
+    const limit = parseInt(searchParams.get('limit') || '50');
+
+    const scores = await awsCapacityScoringEngine.getStoredScores({ region, instanceType, label, limit });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        scores,
+        filters: {
+          region: region || null,
+          instanceType: instanceType || null,
+          label: label || null,
+          limit
+        },
+        summary: {
+          total: scores.length,
+          byLabel: {
+            AVAILABLE: scores.filter(s => s.label === 'AVAILABLE').length,
+            LIMITED: scores.filter(s => s.label === 'LIMITED').length,
+            UNAVAILABLE: scores.filter(s => s.label === 'UNAVAILABLE').length
+          },
+          avgScore: scores.reduce((sum, s) => sum + s.score, 0) / scores.length || 0
+        }
+      }
+    });
+  } catch (error) {
+    console.error('AWS 용량 스코어 조회 실패:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'AWS 용량 스코어 조회에 실패했습니다.'
+    }, { status: 500 });
+  }
+}
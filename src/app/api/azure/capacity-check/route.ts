@@ -1,19 +1,22 @@
 // Azure 용량 체크 API
 import { NextRequest, NextResponse } from 'next/server';
 import { azureCapacityService } from '@/lib/azure-capacity';
+import { azureProbePlanner } from '@/lib/azure-probe-plan';
 import { z } from 'zod';
 
 // 요청 스키마
 const CapacityCheckSchema = z.object({
   region: z.string().min(1, '리전은 필수입니다'),
   vmSize: z.string().min(1, 'VM 크기는 필수입니다'),
-  force: z.boolean().optional() // 강제 실행 (캐시 무시)
+  force: z.boolean().optional(), // 강제 실행 (캐시 무시)
+  probeKind: z.enum(['vm_create', 'sku_quota']).optional() // sku_quota: VM 생성 없이 SKU 제한 / 쿼터만 조회
 });
 
 const BatchCapacityCheckSchema = z.object({
   regions: z.array(z.string()).min(1, '최소 1개 리전이 필요합니다'),
   vmSizes: z.array(z.string()).min(1, '최소 1개 VM크기가 필요합니다'),
-  force: z.boolean().optional()
+  force: z.boolean().optional(),
+  probeKind: z.enum(['vm_create', 'sku_quota']).optional()
 });
 
 /**
@@ -56,7 +59,8 @@ async function handleSingleCapacityCheck(body: any) {
     }, { status: 400 });
   }
 
-  const { region, vmSize, force } = validation.data;
+  const { region, vmSize, force, probeKind = 'vm_create' } = validation.data;
+  azureProbePlanner.recordQuery(region, vmSize, 'capacity_check');
 
   try {
     // 최근 결과 확인 (캐시)
@@ -64,7 +68,8 @@ async function handleSingleCapacityCheck(body: any) {
       const recentResults = await azureCapacityService.getRecentProbeResults(
         region, 
         vmSize, 
-        1 // 1시간 이내
+        1, // 1시간 이내
+        probeKind
       );
       
       if (recentResults.length > 0) {
@@ -75,6 +80,7 @@ async function handleSingleCapacityCheck(body: any) {
             region,
             vmSize,
             result: {
+              probeKind,
               success: latest.success,
               errorCode: latest.errorCode,
               errorClass: latest.errorClass,
@@ -88,10 +94,28 @@ async function handleSingleCapacityCheck(body: any) {
       }
     }
 
+    // 실제 VM을 만드는 프로브는 예산 확인 (SKU 조회는 비용 없음)
+    const budget = probeKind === 'vm_create' ? await azureCapacityService.checkProbeBudget(region, vmSize) : null;
+    if (budget && !budget.allowed) {
+      return NextResponse.json({
+        success: false,
+        error: '프로브 예산 초과',
+        message: budget.reason,
+        data: {
+          region,
+          vmSize,
+          estimate: budget.estimate,
+          budget: budget.status
+        }
+      }, { status: 429 });
+    }
+
     console.log(`🔍 Azure 용량 체크 시작: ${region}/${vmSize}`);
     
     // 실제 용량 체크 수행
-    const result = await azureCapacityService.checkCapacity(region, vmSize);
+    const result = probeKind === 'sku_quota'
+      ? await azureCapacityService.checkSkuQuota(region, vmSize)
+      : await azureCapacityService.checkCapacity(region, vmSize);
     
     // 결과 저장
     await azureCapacityService.saveProbeResult(result);
@@ -102,10 +126,12 @@ async function handleSingleCapacityCheck(body: any) {
         region,
         vmSize,
         result: {
+          probeKind,
           success: result.success,
           errorCode: result.errorCode,
           errorClass: result.errorClass,
           provisionMs: result.provisionMs,
+          details: result.details,
           timestamp: result.timestamp,
           cached: false
         },
@@ -139,7 +165,7 @@ async function handleBatchCapacityCheck(body: any) {
     }, { status: 400 });
   }
 
-  const { regions, vmSizes, force } = validation.data;
+  const { regions, vmSizes, force, probeKind = 'vm_create' } = validation.data;
   
   // 총 조합 수 제한 (API 남용 방지)
   const totalCombinations = regions.length * vmSizes.length;
@@ -159,13 +185,16 @@ async function handleBatchCapacityCheck(body: any) {
     for (const region of regions) {
       for (const vmSize of vmSizes) {
         try {
+          azureProbePlanner.recordQuery(region, vmSize, 'capacity_check');
+
           // 캐시 확인
           let result;
           if (!force) {
             const recentResults = await azureCapacityService.getRecentProbeResults(
               region, 
               vmSize, 
-              1 // 1시간 이내
+              1, // 1시간 이내
+              probeKind
             );
             
             if (recentResults.length > 0) {
@@ -173,6 +202,7 @@ async function handleBatchCapacityCheck(body: any) {
               result = {
                 region,
                 vmSize,
+                probeKind,
                 success: latest.success,
                 errorCode: latest.errorCode,
                 errorClass: latest.errorClass,
@@ -185,12 +215,15 @@ async function handleBatchCapacityCheck(body: any) {
 
           // 캐시에 없으면 실제 체크
           if (!result) {
-            const probeResult = await azureCapacityService.checkCapacity(region, vmSize);
+            const probeResult = probeKind === 'sku_quota'
+              ? await azureCapacityService.checkSkuQuota(region, vmSize)
+              : await azureCapacityService.checkCapacity(region, vmSize);
             await azureCapacityService.saveProbeResult(probeResult);
             
             result = {
               region,
               vmSize,
+              probeKind,
               success: probeResult.success,
               errorCode: probeResult.errorCode,
               errorClass: probeResult.errorClass,
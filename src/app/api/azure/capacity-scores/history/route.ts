@@ -0,0 +1,105 @@
+// Azure 용량 스코어 이력 API
+import { NextRequest, NextResponse } from 'next/server';
+import { generateDemoScoreHistory, isAzureCapacityDemo } from '@/lib/azure-demo';
+import { capacityScoreHistoryService, resolveHistoryBucket } from '@/lib/capacity-score-history';
+
+// 조회 기간 기본 7일, 최대 90일
+const DEFAULT_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_RANGE_MS = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * GET /api/azure/capacity-scores/history?region=&vmSize=&from=&to=&bucket=
+ * 스코어 이력을 리전/VM 크기별 시계열로 다운샘플링해서 조회
+ * - vmSize는 '*' 글롭 지원 (예: *A100*)
+ * - bucket: 15m, 1h, 3h, 6h, 12h, 1d (생략 시 기간에 맞춰 자동)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const region = searchParams.get('region');
+    const vmSize = searchParams.get('vmSize');
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : new Date();
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : new Date(to.getTime() - DEFAULT_RANGE_MS);
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid time range',
+        message: 'from / to는 ISO 8601 형식이어야 하며 from이 to보다 앞서야 합니다.'
+      }, { status: 400 });
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_MS) {
+      return NextResponse.json({
+        success: false,
+        error: 'Time range too large',
+        message: '최대 90일까지 조회할 수 있습니다.'
+      }, { status: 400 });
+    }
+
+    let bucket: ReturnType<typeof resolveHistoryBucket>;
+    try {
+      bucket = resolveHistoryBucket(searchParams.get('bucket'), from, to);
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid bucket',
+        message: error instanceof Error ? error.message : 'bucket을 확인해주세요.'
+      }, { status: 400 });
+    }
+
+    // 데모 모드에서만 생성된 이력, 그 외에는 CapacityScoreHistory 저장값
+    const demo = isAzureCapacityDemo();
+    const series = demo
+      ? capacityScoreHistoryService.downsample(
+        generateDemoScoreHistory({ region, vmSize, from, to }),
+        from,
+        bucket.bucketMs,
+        row => `${row.region}|${row.instanceType}`
+      )
+      : await capacityScoreHistoryService.getHistory({ provider: 'azure', region, instanceType: vmSize, from, to, bucketMs: bucket.bucketMs });
+
+    const data = series.map(({ key, points }) => {
+      const [seriesRegion, seriesVmSize] = key.split('|');
+      return {
+        region: seriesRegion,
+        vmSize: seriesVmSize,
+        points,
+        summary: {
+          avgScore: Math.round(points.reduce((sum, p) => sum + p.avgScore, 0) / points.length),
+          minScore: Math.min(...points.map(p => p.minScore)),
+          // Available 미만이었던 버킷 수 (용량이 빠듯했던 구간)
+          tightBuckets: points.filter(p => p.label !== 'AVAILABLE').length,
+          buckets: points.length
+        }
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      demo,
+      data: {
+        series: data,
+        filters: {
+          region: region || null,
+          vmSize: vmSize || null,
+          from: from.toISOString(),
+          to: to.toISOString(),
+          bucket: bucket.bucket
+        },
+        summary: {
+          totalSeries: data.length,
+          totalPoints: data.reduce((sum, s) => sum + s.points.length, 0)
+        },
+        message: demo ? '데모 스코어 이력 (실측값 아님)' : '용량 스코어 이력 조회 완료'
+      }
+    });
+  } catch (error) {
+    console.error('Azure 용량 스코어 이력 조회 실패:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: '용량 스코어 이력 조회에 실패했습니다.'
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 // Azure 용량 스코어링 API
 import { NextRequest, NextResponse } from 'next/server';
 import { azureCapacityScoringEngine } from '@/lib/azure-scoring';
+import { generateDemoCapacityScores, isAzureCapacityDemo } from '@/lib/azure-demo';
+import { azureProbePlanner } from '@/lib/azure-probe-plan';
 import { z } from 'zod';
 
 // 요청 스키마
@@ -12,7 +14,8 @@ const ScoreCalculationSchema = z.object({
     successRate: z.number().min(0).max(1).optional(),
     provisionSpeed: z.number().min(0).max(1).optional(),
     capacityStability: z.number().min(0).max(1).optional(),
-    spotMarketHealth: z.number().min(0).max(1).optional()
+    spotMarketHealth: z.number().min(0).max(1).optional(),
+    skuAvailability: z.number().min(0).max(1).optional()
   }).optional()
 });
 
@@ -26,7 +29,8 @@ const BatchScoreCalculationSchema = z.object({
     successRate: z.number().min(0).max(1).optional(),
     provisionSpeed: z.number().min(0).max(1).optional(),
     capacityStability: z.number().min(0).max(1).optional(),
-    spotMarketHealth: z.number().min(0).max(1).optional()
+    spotMarketHealth: z.number().min(0).max(1).optional(),
+    skuAvailability: z.number().min(0).max(1).optional()
   }).optional()
 });
 
@@ -217,16 +221,24 @@ export async function GET(request: NextRequest) {
     const label = searchParams.get('label'); // AVAILABLE, LIMITED, UNAVAILABLE
     const limit = parseInt(searchParams.get('limit') || '50');
 
-    // TODO: 실제 DB 쿼리로 교체
-    // 현재는 모킹 데이터 반환
     console.log(`📊 용량 스코어 조회: region=${region}, vmSize=${vmSize}, minScore=${minScore}`);
+
+    // 특정 조합 조회만 수요 신호로 기록 (전체 목록 조회는 제외)
+    if (region && vmSize) {
+      azureProbePlanner.recordQuery(region, vmSize, 'capacity_scores');
+    }
     
-    const mockScores = generateMockScores(region, vmSize, minScore, label, limit);
+    // 데모 모드에서만 생성된 스코어, 그 외에는 CapacityScore(provider=azure) 저장값
+    const demo = isAzureCapacityDemo();
+    const scores = demo
+      ? generateDemoCapacityScores({ region, vmSize, minScore, label, limit })
+      : await azureCapacityScoringEngine.getStoredScores({ region, vmSize, minScore, label, limit });
     
     return NextResponse.json({
       success: true,
+      demo,
       data: {
-        scores: mockScores,
+        scores,
         filters: {
           region: region || null,
           vmSize: vmSize || null,
@@ -235,15 +247,15 @@ export async function GET(request: NextRequest) {
           limit
         },
         summary: {
-          total: mockScores.length,
+          total: scores.length,
           byLabel: {
-            AVAILABLE: mockScores.filter(s => s.label === 'AVAILABLE').length,
-            LIMITED: mockScores.filter(s => s.label === 'LIMITED').length,
-            UNAVAILABLE: mockScores.filter(s => s.label === 'UNAVAILABLE').length
+            AVAILABLE: scores.filter(s => s.label === 'AVAILABLE').length,
+            LIMITED: scores.filter(s => s.label === 'LIMITED').length,
+            UNAVAILABLE: scores.filter(s => s.label === 'UNAVAILABLE').length
           },
-          avgScore: mockScores.reduce((sum, s) => sum + s.score, 0) / mockScores.length || 0
+          avgScore: scores.reduce((sum, s) => sum + s.score, 0) / scores.length || 0
         },
-        message: '저장된 용량 스코어 조회 완료'
+        message: demo ? '데모 용량 스코어 (실측값 아님)' : '저장된 용량 스코어 조회 완료'
       }
     });
 
@@ -262,11 +274,12 @@ export async function GET(request: NextRequest) {
  * 스코어 분석 생성
  */
 function generateScoreAnalysis(scoreResult: any) {
-  const { score, successRate, avgProvisionMs, capacityErrorRate, spotStress, confidence } = scoreResult;
+  const { scoreLower, scoreUpper, successRate, successRateLower, successRateUpper, avgProvisionMs, capacityErrorRate, spotStress, confidence, effectiveSampleCount } = scoreResult;
   
   return {
     scoreBreakdown: {
-      successRate: `${(successRate * 100).toFixed(1)}%`,
+      scoreInterval: `${scoreLower}-${scoreUpper}점`,
+      successRate: `${(successRate * 100).toFixed(1)}% (${(successRateLower * 100).toFixed(1)}-${(successRateUpper * 100).toFixed(1)}%)`,
       provisionSpeed: `${(avgProvisionMs / 1000).toFixed(1)}초`,
       errorRate: `${(capacityErrorRate * 100).toFixed(1)}%`,
       spotStress: `${(spotStress * 100).toFixed(1)}%`
@@ -275,6 +288,7 @@ function generateScoreAnalysis(scoreResult: any) {
     weaknesses: getWeaknesses(scoreResult),
     reliability: {
       confidence: `${(confidence * 100).toFixed(1)}%`,
+      effectiveSampleCount,
       dataQuality: confidence > 0.7 ? 'high' : confidence > 0.4 ? 'medium' : 'low'
     }
   };
@@ -422,81 +436,3 @@ function generateRankings(scores: any[]) {
   };
 }
 
-/**
- * 모킹 스코어 생성
- */
-function generateMockScores(region?: string | null, vmSize?: string | null, minScore = 0, label?: string | null, limit = 50) {
-  // 실제 instances API에서 사용되는 Azure 리전들
-  const regions = [
-    'australiacentral2',
-    'westus3', 
-    'eastus2',
-    'mexicocentral',
-    'koreacentral',
-    'eastus',
-    'japaneast',
-    'westeurope',
-    'northeurope',
-    'southcentralus'
-  ];
-  
-  // 실제 instances API에서 사용되는 Azure VM 크기들
-  const vmSizes = [
-    'Standard_NC16asT4',
-    'Standard_NV16as_v4',
-    'Standard_NV32as_v4',
-    'Standard_NC4as_T4_v3',
-    'Standard_NC8as_T4_v3',
-    'Standard_NC24ads_A100_v4',
-    'Standard_NC48ads_A100_v4',
-    'Standard_ND96asr_v4'
-  ];
-  
-  const mockScores = [];
-  
-  for (const r of (region ? [region] : regions)) {
-    for (const vm of (vmSize ? [vmSize] : vmSizes)) {
-      // VM 크기별 기본 점수 (더 현실적으로 조정)
-      let baseScore = 60;
-      
-      // GPU 모델별 점수 조정
-      if (vm.includes('A100')) baseScore = 45;
-      else if (vm.includes('V100')) baseScore = 40;
-      else if (vm.includes('T4') || vm.includes('asT4')) baseScore = 70;
-      else if (vm.includes('NV') && vm.includes('v4')) baseScore = 65;
-      else if (vm.includes('ND')) baseScore = 35; // 고성능 GPU
-      
-      // 리전별 조정 (한국 리전은 상대적으로 낮음)
-      if (r === 'koreacentral') baseScore -= 15;
-      else if (r === 'eastus' || r === 'eastus2') baseScore += 5;
-      else if (r === 'westus3') baseScore += 3;
-      else if (r.includes('australia') || r.includes('mexico')) baseScore -= 8;
-      
-      // VM 크기별 조정 (큰 인스턴스일수록 용량 부족)
-      if (vm.includes('48') || vm.includes('64') || vm.includes('96')) baseScore -= 10;
-      else if (vm.includes('32')) baseScore -= 5;
-      else if (vm.includes('16')) baseScore -= 2;
-      
-      // 랜덤 변동 (현실적인 범위)
-      const randomVariation = (Math.random() - 0.5) * 25;
-      const finalScore = Math.max(10, Math.min(95, baseScore + randomVariation));
-      
-      if (finalScore >= minScore) {
-        const scoreLabel = finalScore >= 75 ? 'AVAILABLE' : finalScore >= 40 ? 'LIMITED' : 'UNAVAILABLE';
-        
-        if (!label || label === scoreLabel) {
-          mockScores.push({
-            region: r,
-            vmSize: vm,
-            score: Math.round(finalScore),
-            label: scoreLabel,
-            confidence: Math.max(0.5, Math.min(0.95, 0.6 + Math.random() * 0.3)),
-            calculatedAt: new Date(Date.now() - Math.random() * 4 * 60 * 60 * 1000) // 최근 4시간 내
-          });
-        }
-      }
-    }
-  }
-  
-  return mockScores.slice(0, limit);
-}
@@ -0,0 +1,124 @@
+// Azure 프로브 관심 목록 API (팀별로 프로브 계획에 포함할 리전/VM 조합 관리)
+import { NextRequest, NextResponse } from 'next/server';
+import { azureProbePlanner } from '@/lib/azure-probe-plan';
+import { z } from 'zod';
+
+const WatchlistEntrySchema = z.object({
+  team: z.string().min(1, '팀은 필수입니다'),
+  region: z.string().min(1, '리전은 필수입니다'),
+  vmSize: z.string().min(1, 'VM 크기는 필수입니다'),
+  note: z.string().max(200).optional()
+});
+
+/**
+ * GET /api/azure/probe-watchlist?team=
+ * 관심 목록 조회 (team 미지정 시 전체)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const team = searchParams.get('team');
+
+    const entries = await azureProbePlanner.getWatchlist(team);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        team: team || null,
+        entries,
+        count: entries.length
+      }
+    });
+  } catch (error) {
+    console.error('프로브 관심 목록 조회 오류:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: '프로브 관심 목록을 조회할 수 없습니다.'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/azure/probe-watchlist
+ * 관심 목록 추가 (이미 있으면 메모 갱신)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validation = WatchlistEntrySchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        success: false,
+        error: '잘못된 요청 형식',
+        details: validation.error.issues,
+        message: '요청 파라미터를 확인해주세요.'
+      }, { status: 400 });
+    }
+
+    const entry = await azureProbePlanner.addToWatchlist(validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: entry,
+      message: `${entry.team} 관심 목록에 ${entry.region}/${entry.vmSize}를 추가했습니다.`
+    });
+  } catch (error) {
+    console.error('프로브 관심 목록 추가 오류:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: '프로브 관심 목록에 추가할 수 없습니다.'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/azure/probe-watchlist?team=&region=&vmSize=
+ * 관심 목록 제거
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = WatchlistEntrySchema.omit({ note: true }).safeParse({
+      team: searchParams.get('team'),
+      region: searchParams.get('region'),
+      vmSize: searchParams.get('vmSize')
+    });
+
+    if (!validation.success) {
+      return NextResponse.json({
+        success: false,
+        error: '필수 파라미터 누락',
+        details: validation.error.issues,
+        message: 'team, region, vmSize 파라미터가 필요합니다.'
+      }, { status: 400 });
+    }
+
+    const removed = await azureProbePlanner.removeFromWatchlist(validation.data);
+
+    if (removed === 0) {
+      return NextResponse.json({
+        success: false,
+        message: '관심 목록에 없는 조합입니다.'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: validation.data,
+      message: '관심 목록에서 제거했습니다.'
+    });
+  } catch (error) {
+    console.error('프로브 관심 목록 제거 오류:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: '프로브 관심 목록에서 제거할 수 없습니다.'
+    }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 // Azure GPU VM 추천 API
 import { NextRequest, NextResponse } from 'next/server';
+import { azureProbePlanner } from '@/lib/azure-probe-plan';
 import { azureRecommendationEngine } from '@/lib/azure-recommendations';
 import { z } from 'zod';
 
@@ -35,14 +36,17 @@ export async function POST(request: NextRequest) {
     const recommendationRequest = validation.data;
     
     console.log(`🎯 추천 요청: ${recommendationRequest.originalRegion}/${recommendationRequest.originalVMSize}`);
+    azureProbePlanner.recordQuery(recommendationRequest.originalRegion, recommendationRequest.originalVMSize, 'recommendations');
 
     // Azure capacity scores 가져오기
     const scoresResponse = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/azure/capacity-scores?limit=200`);
     let capacityScores = [];
+    let demo = false;
     
     if (scoresResponse.ok) {
       const scoresData = await scoresResponse.json();
       capacityScores = scoresData.success ? scoresData.data.scores : [];
+      demo = scoresData.demo === true;
     }
 
     // 인스턴스 가격 데이터 가져오기 (옵션)
@@ -68,6 +72,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
+      demo,
       data: recommendations,
       message: `${recommendations.summary.totalAlternatives}개의 대안을 찾았습니다`
     });
@@ -113,14 +118,17 @@ export async function GET(request: NextRequest) {
     };
 
     console.log(`🎯 빠른 추천 요청: ${originalRegion}/${originalVMSize}`);
+    azureProbePlanner.recordQuery(originalRegion, originalVMSize, 'recommendations');
 
     // Azure capacity scores 가져오기
     const scoresResponse = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/azure/capacity-scores?limit=200`);
     let capacityScores = [];
+    let demo = false;
     
     if (scoresResponse.ok) {
       const scoresData = await scoresResponse.json();
       capacityScores = scoresData.success ? scoresData.data.scores : [];
+      demo = scoresData.demo === true;
     }
 
     // 인스턴스 가격 데이터 가져오기 (옵션)
@@ -146,6 +154,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
+      demo,
       data: recommendations,
       message: `${recommendations.summary.totalAlternatives}개의 대안을 찾았습니다`
     });
@@ -0,0 +1,100 @@
+// Azure Spot 중단 관측 API (워크로드가 Spot VM 실행 / 중단 기록을 보고, 실측 중단율 조회)
+import { NextRequest, NextResponse } from 'next/server';
+import { spotEvictionService } from '@/lib/spot-evictions';
+import { z } from 'zod';
+
+const EvictionReportSchema = z.object({
+  region: z.string().min(1, '리전은 필수입니다'),
+  vmSize: z.string().min(1, 'VM 크기는 필수입니다'),
+  workloadId: z.string().min(1).max(200).optional(),
+  startedAt: z.coerce.date(),
+  endedAt: z.coerce.date().nullable().optional(),
+  evicted: z.boolean(),
+  reason: z.string().max(100).optional(),
+  source: z.string().max(100).optional()
+}).refine(report => !report.endedAt || report.endedAt >= report.startedAt, {
+  message: '종료 시각은 시작 시각 이후여야 합니다',
+  path: ['endedAt']
+}).refine(report => !report.evicted || report.endedAt, {
+  message: '중단된 실행은 종료 시각(중단 시각)이 필요합니다',
+  path: ['endedAt']
+});
+
+const EvictionBatchSchema = z.object({
+  observations: z.array(EvictionReportSchema).min(1, '최소 1개 관측이 필요합니다').max(500, '한 번에 최대 500개까지 보고할 수 있습니다')
+});
+
+/**
+ * GET /api/azure/spot-evictions?region=&vmSize=
+ * 리전/VM 크기별 실측 중단율 (관측이 있는 조합만)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const region = searchParams.get('region') || undefined;
+    const vmSize = searchParams.get('vmSize') || undefined;
+
+    const rates = await spotEvictionService.getEmpiricalRates('azure', { region, instanceType: vmSize });
+    const config = spotEvictionService.getConfig();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rates: rates.map(({ instanceType, ...rate }) => ({ ...rate, vmSize: instanceType })),
+        count: rates.length,
+        windowDays: config.windowDays,
+        minEffectiveSamples: config.minEffectiveSamples
+      }
+    });
+  } catch (error) {
+    console.error('Spot 중단율 조회 오류:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Spot 중단율을 조회할 수 없습니다.'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/azure/spot-evictions
+ * Spot 실행 / 중단 관측 보고 (단일 또는 observations 배열)
+ * 실행 시작 시 evicted=false로 보고하고, 종료 시 같은 workloadId로 endedAt / evicted를 다시 보고한다.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validation = EvictionBatchSchema.safeParse(Array.isArray(body?.observations) ? body : { observations: [body] });
+
+    if (!validation.success) {
+      return NextResponse.json({
+        success: false,
+        error: '잘못된 요청 형식',
+        details: validation.error.issues,
+        message: '요청 파라미터를 확인해주세요.'
+      }, { status: 400 });
+    }
+
+    const result = await spotEvictionService.recordObservations(
+      'azure',
+      validation.data.observations.map(({ vmSize, ...report }) => ({ ...report, instanceType: vmSize }))
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result,
+        message: `Spot 중단 관측 ${result.created + result.updated}건 저장 (신규 ${result.created}, 갱신 ${result.updated})`
+      }
+    });
+  } catch (error) {
+    console.error('Spot 중단 관측 저장 오류:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Spot 중단 관측을 저장할 수 없습니다.'
+    }, { status: 500 });
+  }
+}
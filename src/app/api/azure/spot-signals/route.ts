@@ -16,6 +16,20 @@ const BatchSpotSignalSchema = z.object({
   force: z.boolean().optional()
 });
 
+// 통계 창 파라미터 (예: windows=1h,24h,7d), 최대 1주일
+const WINDOW_PATTERN = /^(\d+)(h|d)$/;
+
+function parseWindows(value: string | null): number[] | null {
+  if (!value) return null;
+
+  const hours = value.split(',').map(token => {
+    const match = WINDOW_PATTERN.exec(token.trim());
+    if (!match) return NaN;
+    return parseInt(match[1]) * (match[2] === 'd' ? 24 : 1);
+  });
+  return hours.every(h => h >= 1 && h <= 168) ? hours : [];
+}
+
 /**
  * POST /api/azure/spot-signals
  * Azure Spot 신호 수집 (단일 또는 배치)
@@ -200,7 +214,7 @@ async function handleBatchSpotCollection(body: any) {
 
 /**
  * GET /api/azure/spot-signals
- * 최근 Spot 신호 조회 및 시장 요약
+ * 최근 Spot 신호 조회 및 시장 요약 (summary=true면 리전/VM크기별 windows 창의 변동성 / 추세 / 백분위 구간 포함)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -218,19 +232,34 @@ export async function GET(request: NextRequest) {
     }
 
     if (summary) {
-      // 시장 요약만 조회
-      const marketSummary = await azureSpotService.getMarketSummary();
+      const windows = parseWindows(searchParams.get('windows'));
+      if (windows && windows.length === 0) {
+        return NextResponse.json({
+          success: false,
+          error: 'windows는 1h, 24h, 7d 형식으로 최대 168시간(1주일)까지 가능합니다.',
+        }, { status: 400 });
+      }
+
+      // 시장 요약 + 리전/VM크기별 가격 통계 (저장된 신호 기준)
+      const [marketSummary, statistics] = await Promise.all([
+        azureSpotService.getMarketSummary(),
+        azureSpotService.getSpotStatistics(region || undefined, vmSize || undefined, windows || undefined)
+      ]);
       
       return NextResponse.json({
         success: true,
         data: {
           marketSummary: {
             ...marketSummary,
-            condition: marketSummary.avgMarketStress > 0.6 ? 'high_stress' :
+            condition: marketSummary.totalSignals === 0 ? 'no_data' :
+                      marketSummary.avgMarketStress > 0.6 ? 'high_stress' :
                       marketSummary.avgMarketStress > 0.4 ? 'moderate_stress' : 'low_stress',
-            avgDiscount: `${((1 - marketSummary.avgPriceRatio) * 100).toFixed(1)}%`,
+            avgDiscount: marketSummary.totalSignals > 0 ?
+              `${((1 - marketSummary.avgPriceRatio) * 100).toFixed(1)}%` :
+              null,
             lastUpdated: new Date().toISOString()
           },
+          statistics,
           message: '시장 요약 정보'
         }
       });
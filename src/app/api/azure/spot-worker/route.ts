@@ -1,13 +1,13 @@
 // Azure Spot 신호 수집 백그라운드 워커 API
 import { NextRequest, NextResponse } from 'next/server';
 import { azureSpotService } from '@/lib/azure-spot';
-
-// Spot 워커 실행 설정
-const SPOT_WORKER_CONFIG = {
-  maxRunTimeMinutes: 20,    // 최대 20분 실행
-  batchSizeLimit: 12,       // 한 번에 최대 12개 조합
-  cooldownMinutes: 15,      // 연속 실행 방지 쿨다운
-};
+import {
+  SPOT_WORKER_CONFIG,
+  SpotCollectionResults,
+  createSpotCollectionPlan,
+  isInCooldown
+} from '@/lib/azure-workers';
+import { jobScheduler } from '@/lib/scheduled-jobs';
 
 /**
  * POST /api/azure/spot-worker
@@ -47,7 +47,9 @@ export async function POST(request: NextRequest) {
     if (plan.combinations.length === 0) {
       return NextResponse.json({
         success: true,
-        message: '수집할 조합이 없습니다. 모든 조합이 최근에 수집되었습니다.',
+        message: plan.totalCombinations === 0 ?
+          '수집할 조합이 없습니다. Azure Spot 가격 데이터를 동기화하거나 프로브 관심 목록을 등록하세요.' :
+          '수집할 조합이 없습니다. 모든 조합이 최근에 수집되었습니다.',
         data: {
           plan,
           executionTimeMs: Date.now() - startTime
@@ -67,22 +69,36 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // 실제 수집 실행
-    const results = await executeSpotCollectionPlan(plan, startTime);
-    
-    // 워커 실행 기록 저장
-    await logSpotWorkerRun(results);
+    // 스케줄러를 통해 실행 (DB 잠금 + EtlLog 기록, 스케줄 실행과 중복 방지)
+    const outcome = await jobScheduler.runNow('spot_collection', { maxCombinations });
+
+    if (outcome.status === 'locked') {
+      return NextResponse.json({
+        success: false,
+        message: 'Spot 수집 작업이 이미 실행 중입니다.',
+        data: { executionTimeMs: Date.now() - startTime }
+      }, { status: 409 });
+    }
+
+    const results = (outcome.details as { results?: SpotCollectionResults } | undefined)?.results;
 
     return NextResponse.json({
-      success: true,
-      message: `Spot 워커 실행 완료. ${results.completed}개 조합 수집됨.`,
+      success: outcome.status !== 'failed',
+      message: outcome.status === 'failed' ?
+        `Spot 워커 실행 실패: ${outcome.error || outcome.message}` :
+        `Spot 워커 실행 완료. ${results?.completed ?? 0}개 조합 수집됨.`,
       data: {
         plan,
         results,
-        marketInsights: await generateMarketInsights(results),
+        marketInsights: results ? await generateMarketInsights(results) : null,
+        run: {
+          status: outcome.status,
+          etlLogId: outcome.etlLogId,
+          attempts: outcome.attempts
+        },
         executionTimeMs: Date.now() - startTime
       }
-    });
+    }, { status: outcome.status === 'failed' ? 500 : 200 });
 
   } catch (error) {
     console.error('Azure Spot 워커 실패:', error);
@@ -126,9 +142,12 @@ export async function GET(request: NextRequest) {
         },
         marketSummary: {
           ...marketSummary,
-          condition: marketSummary.avgMarketStress > 0.6 ? 'stressed' :
+          condition: marketSummary.totalSignals === 0 ? 'no_data' :
+                    marketSummary.avgMarketStress > 0.6 ? 'stressed' :
                     marketSummary.avgMarketStress > 0.4 ? 'moderate' : 'calm',
-          avgDiscount: `${((1 - marketSummary.avgPriceRatio) * 100).toFixed(1)}%`
+          avgDiscount: marketSummary.totalSignals > 0 ?
+            `${((1 - marketSummary.avgPriceRatio) * 100).toFixed(1)}%` :
+            null
         },
         nextPlan: plan,
         recommendations: generateWorkerRecommendations(marketSummary, isCurrentlyInCooldown),
@@ -150,129 +169,10 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * 마지막 Spot 워커 실행 시간 조회
+ * 마지막 Spot 워커 실행 시간 조회 (스케줄 실행 포함)
  */
 async function getLastSpotWorkerRun(): Promise<Date | null> {
-  // TODO: Prisma 클라이언트 업데이트 후 활성화
-  // 임시로 현재 시간에서 20분 전으로 설정
-  return new Date(Date.now() - 20 * 60 * 1000);
-}
-
-/**
- * 쿨다운 중인지 확인
- */
-function isInCooldown(lastRun: Date, cooldownMinutes: number): boolean {
-  const cooldownEnds = new Date(lastRun.getTime() + cooldownMinutes * 60 * 1000);
-  return new Date() < cooldownEnds;
-}
-
-/**
- * Spot 수집 계획 수립
- */
-async function createSpotCollectionPlan(maxCombinations: number) {
-  const regions = ['koreacentral', 'eastus', 'japaneast', 'westeurope'];
-  const vmSizes = [
-    'Standard_NC4as_T4_v3',
-    'Standard_NC8as_T4_v3',
-    'Standard_NC24ads_A100_v4',
-    'Standard_NC48ads_A100_v4'
-  ];
-
-  const allCombinations = regions.flatMap(region => 
-    vmSizes.map(vmSize => ({ region, vmSize }))
-  );
-
-  // 최근 30분 이내에 수집된 조합 제외 (실제로는 DB 조회)
-  const recentlyCollected: any[] = []; // TODO: DB에서 조회
-  
-  const recentlyCollectedSet = new Set(
-    recentlyCollected.map(r => `${r.region}:${r.vmSize}`)
-  );
-
-  // 우선순위 기반 필터링 (Spot은 용량 체크보다 더 자주 수집)
-  const pendingCombinations = allCombinations
-    .filter(combo => !recentlyCollectedSet.has(`${combo.region}:${combo.vmSize}`))
-    .map(combo => ({
-      ...combo,
-      priority: calculateSpotPriority(combo.region, combo.vmSize)
-    }))
-    .sort((a, b) => b.priority - a.priority)
-    .slice(0, maxCombinations);
-
-  return {
-    totalCombinations: allCombinations.length,
-    recentlyCollected: recentlyCollected.length,
-    pending: pendingCombinations.length,
-    combinations: pendingCombinations,
-    estimatedDurationMinutes: Math.ceil(pendingCombinations.length * 0.25) // 조합당 15초 가정
-  };
-}
-
-/**
- * Spot 수집 우선순위 계산
- */
-function calculateSpotPriority(region: string, vmSize: string): number {
-  let priority = 100;
-  
-  // 인기 리전 우선순위 높임
-  if (region === 'koreacentral') priority += 25;
-  if (region === 'eastus') priority += 20;
-  if (region === 'japaneast') priority += 15;
-  
-  // 고급 GPU는 Spot 시장 변동이 크므로 우선순위 높임
-  if (vmSize.includes('A100')) priority += 20;
-  if (vmSize.includes('H100')) priority += 25;
-  if (vmSize.includes('T4')) priority += 5;
-  
-  // Spot 특화 가중치
-  priority += 10; // Spot은 기본적으로 중요도 높음
-  
-  return priority;
-}
-
-/**
- * Spot 수집 계획 실행
- */
-async function executeSpotCollectionPlan(plan: any, startTime: number) {
-  const results = {
-    planned: plan.combinations.length,
-    completed: 0,
-    successful: 0,
-    failed: 0,
-    signals: [] as any[],
-    errors: [] as string[]
-  };
-
-  for (const combo of plan.combinations) {
-    try {
-      // 실행 시간 제한 체크
-      const elapsedMinutes = (Date.now() - startTime) / (1000 * 60);
-      if (elapsedMinutes > SPOT_WORKER_CONFIG.maxRunTimeMinutes) {
-        console.log(`⏱️ Spot 워커 최대 실행 시간 초과: ${elapsedMinutes}분`);
-        break;
-      }
-
-      console.log(`📊 Spot 워커 수집: ${combo.region}/${combo.vmSize}`);
-      
-      const signal = await azureSpotService.collectSpotPrice(combo.region, combo.vmSize);
-      await azureSpotService.saveSpotSignal(signal);
-      
-      results.completed++;
-      results.successful++;
-      results.signals.push(signal);
-      
-      // 수집 간격
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-    } catch (error) {
-      console.error(`Spot 워커 수집 실패: ${combo.region}/${combo.vmSize}`, error);
-      results.completed++;
-      results.failed++;
-      results.errors.push(`${combo.region}/${combo.vmSize}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  return results;
+  return jobScheduler.getLastRun('spot_collection');
 }
 
 /**
@@ -327,6 +227,11 @@ function generateWorkerRecommendations(marketSummary: any, inCooldown: boolean)
     recommendations.push('🚀 지금 실행 가능합니다.');
   }
 
+  if (marketSummary.totalSignals === 0) {
+    recommendations.push('📭 최근 수집된 Spot 신호가 없습니다. Azure 가격 동기화 후 워커를 실행하세요.');
+    return recommendations;
+  }
+
   if (marketSummary.avgMarketStress > 0.6) {
     recommendations.push('📊 시장 변동성이 높으니 자주 모니터링하세요.');
   }
@@ -337,22 +242,3 @@ function generateWorkerRecommendations(marketSummary: any, inCooldown: boolean)
 
   return recommendations;
 }
-
-/**
- * Spot 워커 실행 기록 저장
- */
-async function logSpotWorkerRun(results: any) {
-  try {
-    // TODO: Prisma 클라이언트 업데이트 후 활성화
-    console.log('📝 Spot 워커 실행 기록 (모킹):', {
-      completed: results.completed,
-      successful: results.successful,
-      failed: results.failed,
-      errors: results.errors.length
-    });
-  } catch (error) {
-    console.error('Spot 워커 실행 기록 저장 실패:', error);
-  }
-}
-
-
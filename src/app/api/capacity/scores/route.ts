@@ -0,0 +1,75 @@
+// 프로바이더 공통 용량 스코어 API
+import { NextRequest, NextResponse } from 'next/server';
+import { CAPACITY_PROVIDERS, isCapacityProvider } from '@/lib/capacity-errors';
+import { capacityScoreService } from '@/lib/capacity-scores';
+
+/**
+ * GET /api/capacity/scores?provider=&region=&instanceType=&label=&minScore=&limit=
+ * 저장된 용량 스코어 조회 (provider 생략 시 모든 프로바이더)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const providerParam = searchParams.get('provider')?.toLowerCase() || null;
+    const region = searchParams.get('region');
+    const instanceType = searchParams.get('instanceType');
+    const label = searchParams.get('label'); // AVAILABLE, LIMITED, UNAVAILABLE
+    const minScore = Number(searchParams.get('minScore') || '0');
+    const limit = Number(searchParams.get('limit') || '50');
+
+    if (!Number.isFinite(minScore) || !Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid minScore or limit',
+        message: 'minScore는 숫자, limit은 1 이상의 정수여야 합니다.'
+      }, { status: 400 });
+    }
+
+    if (providerParam && !isCapacityProvider(providerParam)) {
+      return NextResponse.json({
+        success: false,
+        error: `Unsupported provider: ${providerParam}`,
+        message: `용량 스코어는 ${CAPACITY_PROVIDERS.join(', ')}만 지원합니다.`
+      }, { status: 400 });
+    }
+
+    const provider = providerParam && isCapacityProvider(providerParam) ? providerParam : null;
+    const scores = await capacityScoreService.getStoredScores({ provider, region, instanceType, label, minScore, limit });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        scores,
+        filters: {
+          provider,
+          region: region || null,
+          instanceType: instanceType || null,
+          label: label || null,
+          minScore,
+          limit
+        },
+        summary: {
+          total: scores.length,
+          providers: CAPACITY_PROVIDERS,
+          byProvider: Object.fromEntries(
+            CAPACITY_PROVIDERS.map(p => [p, scores.filter(s => s.provider === p).length])
+          ),
+          byLabel: {
+            AVAILABLE: scores.filter(s => s.label === 'AVAILABLE').length,
+            LIMITED: scores.filter(s => s.label === 'LIMITED').length,
+            UNAVAILABLE: scores.filter(s => s.label === 'UNAVAILABLE').length
+          },
+          avgScore: scores.reduce((sum, s) => sum + s.score, 0) / scores.length || 0
+        }
+      }
+    });
+  } catch (error) {
+    console.error('용량 스코어 조회 실패:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: '용량 스코어 조회에 실패했습니다.'
+    }, { status: 500 });
+  }
+}
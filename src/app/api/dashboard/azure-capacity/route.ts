@@ -1,5 +1,7 @@
 // Azure 용량 대시보드 API
 import { NextRequest, NextResponse } from 'next/server';
+import { generateDemoScoreHistory, isAzureCapacityDemo } from '@/lib/azure-demo';
+import { capacityScoreHistoryService } from '@/lib/capacity-score-history';
 
 interface RegionSummary {
   region: string;
@@ -11,6 +13,7 @@ interface RegionSummary {
   avgScore: number;
   lastUpdated: string;
   trend: 'up' | 'down' | 'stable';
+  sparkline: Array<number | null>; // 최근 7일 6시간 버킷 평균 점수 (이력 없는 버킷은 null)
 }
 
 interface VMSeriesSummary {
@@ -27,8 +30,21 @@ interface VMSeriesSummary {
     region: string;
     score: number;
   }>;
+  sparkline: Array<number | null>;
 }
 
+interface HistorySeries {
+  region: string;
+  vmSize: string;
+  points: Array<{ bucketStart: Date; avgScore: number }>;
+}
+
+// 스파크라인 이력 범위 / 버킷 (7일, 6시간 → 28포인트)
+const SPARKLINE_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+const SPARKLINE_BUCKET = '6h';
+const SPARKLINE_BUCKET_MS = 6 * 60 * 60 * 1000;
+const BUCKETS_PER_DAY = 4;
+
 interface DashboardAlert {
   id: string;
   type: 'critical' | 'warning' | 'info';
@@ -59,36 +75,52 @@ export async function GET(request: NextRequest) {
   try {
     console.log('🎯 Azure 용량 대시보드 데이터 생성 시작');
 
-    // TODO: 실제 DB에서 데이터 조회로 교체
-    // 현재는 실제 API 기반 모킹 데이터 생성
-    
-    // Azure capacity scores 가져오기
-    const scoresResponse = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/azure/capacity-scores?limit=100`);
+    // Azure capacity scores 가져오기 (CapacityScore 중 azure 저장값, 데모 모드면 데모 스코어)
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const scoresResponse = await fetch(`${baseUrl}/api/azure/capacity-scores?limit=100`);
     let scores = [];
+    let demo = false;
     
     if (scoresResponse.ok) {
       const scoresData = await scoresResponse.json();
       scores = scoresData.success ? scoresData.data.scores : [];
+      demo = scoresData.demo === true;
     }
 
+    // 스코어 이력 (스파크라인 / 24시간 변화량)
+    const historyEnd = new Date();
+    const historyStart = new Date(historyEnd.getTime() - SPARKLINE_RANGE_MS);
+    const history = await loadScoreHistory(historyStart, historyEnd);
+
+    const regionSparklines = buildSparklines(history, series => series.region, historyStart);
+    const vmSeriesSparklines = buildSparklines(history, series => vmSeriesOf(series.vmSize), historyStart);
+    const overallSparkline = buildSparklines(history, () => 'all', historyStart).get('all') || [];
+
     // 대시보드 메트릭 계산
-    const metrics = calculateDashboardMetrics(scores);
+    const metrics = calculateDashboardMetrics(scores, overallSparkline);
     
     // 지역별 요약 생성
-    const regionSummaries = generateRegionSummaries(scores);
+    const regionSummaries = generateRegionSummaries(scores, regionSparklines);
     
     // VM 시리즈별 요약 생성
-    const vmSeriesSummaries = generateVMSeriesSummaries(scores);
+    const vmSeriesSummaries = generateVMSeriesSummaries(scores, vmSeriesSparklines);
     
-    // 알림 생성 (실제로는 DB에서 조회)
+    // 알림 생성 (스코어 계산 시각 기준)
     const alerts = generateAlerts(scores);
 
     return NextResponse.json({
       success: true,
+      demo,
       data: {
         metrics,
         regions: regionSummaries,
         vmSeries: vmSeriesSummaries,
+        sparkline: {
+          from: historyStart.toISOString(),
+          to: historyEnd.toISOString(),
+          bucket: SPARKLINE_BUCKET,
+          overall: overallSparkline
+        },
         alerts,
         lastUpdated: new Date().toISOString()
       },
@@ -106,10 +138,65 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * 스코어 이력을 리전/VM 크기별 6시간 버킷으로 조회 (데모 모드면 생성된 이력, /api/azure/capacity-scores/history와 동일)
+ */
+async function loadScoreHistory(from: Date, to: Date): Promise<HistorySeries[]> {
+  const series = isAzureCapacityDemo()
+    ? capacityScoreHistoryService.downsample(generateDemoScoreHistory({ from, to }), from, SPARKLINE_BUCKET_MS, row => `${row.region}|${row.instanceType}`)
+    : await capacityScoreHistoryService.getHistory({ provider: 'azure', from, to, bucketMs: SPARKLINE_BUCKET_MS });
+
+  return series.map(({ key, points }) => {
+    const [region, vmSize] = key.split('|');
+    return { region, vmSize, points };
+  });
+}
+
+/**
+ * 이력 시리즈를 keyOf별로 묶어 버킷별 평균 점수 배열 생성 (시작 시각부터 6시간 간격)
+ */
+function buildSparklines(history: HistorySeries[], keyOf: (series: HistorySeries) => string, start: Date): Map<string, Array<number | null>> {
+  const bucketCount = Math.ceil(SPARKLINE_RANGE_MS / SPARKLINE_BUCKET_MS);
+  const sums = new Map<string, { sum: number; count: number }[]>();
+
+  history.forEach(series => {
+    const key = keyOf(series);
+    if (!sums.has(key)) {
+      sums.set(key, Array.from({ length: bucketCount }, () => ({ sum: 0, count: 0 })));
+    }
+    series.points.forEach(point => {
+      const index = Math.floor((new Date(point.bucketStart).getTime() - start.getTime()) / SPARKLINE_BUCKET_MS);
+      if (index < 0 || index >= bucketCount) return;
+      sums.get(key)![index].sum += point.avgScore;
+      sums.get(key)![index].count++;
+    });
+  });
+
+  const sparklines = new Map<string, Array<number | null>>();
+  sums.forEach((buckets, key) => {
+    sparklines.set(key, buckets.map(b => b.count > 0 ? Math.round(b.sum / b.count) : null));
+  });
+  return sparklines;
+}
+
+/**
+ * 스파크라인 기준 24시간 변화량 (마지막 값 - 하루 전 값, 비교할 값이 없으면 null)
+ */
+function scoreChange24h(sparkline: Array<number | null>): number | null {
+  const values = sparkline
+    .map((value, index) => ({ value, index }))
+    .filter((point): point is { value: number; index: number } => point.value !== null);
+  if (values.length < 2) return null;
+
+  const latest = values[values.length - 1];
+  const dayAgo = values.filter(point => point.index <= latest.index - BUCKETS_PER_DAY).pop();
+  return dayAgo ? latest.value - dayAgo.value : null;
+}
+
 /**
  * 대시보드 메트릭 계산
  */
-function calculateDashboardMetrics(scores: any[]): DashboardMetrics {
+function calculateDashboardMetrics(scores: any[], overallSparkline: Array<number | null>): DashboardMetrics {
   if (scores.length === 0) {
     return {
       totalRegions: 0,
@@ -132,25 +219,34 @@ function calculateDashboardMetrics(scores: any[]): DashboardMetrics {
   
   // 알림 개수 계산 (스코어 40 이하는 알림)
   const activeAlerts = scores.filter(s => s.score <= 40).length;
+  const since24h = Date.now() - 24 * 60 * 60 * 1000;
 
   return {
     totalRegions: uniqueRegions.size,
     totalVMTypes: uniqueVMTypes.size,
     overallHealthScore: Math.round(avgScore),
     activeAlerts,
-    lastScanTime: new Date().toISOString(),
+    lastScanTime: latestCalculatedAt(scores),
     trendsLast24h: {
-      scoreChange: Math.floor(Math.random() * 10 - 5), // 임시: 실제로는 히스토리 DB에서 계산
-      newAlerts: Math.floor(activeAlerts * 0.3),
-      resolvedAlerts: Math.floor(Math.random() * 5)
+      scoreChange: scoreChange24h(overallSparkline) ?? 0,
+      newAlerts: scores.filter(s => s.score <= 40 && new Date(s.calculatedAt).getTime() >= since24h).length,
+      resolvedAlerts: 0
     }
   };
 }
 
+/**
+ * 가장 최근 스코어 계산 시각
+ */
+function latestCalculatedAt(scores: { calculatedAt: Date }[]): string {
+  const latest = Math.max(...scores.map(s => new Date(s.calculatedAt).getTime()));
+  return new Date(latest).toISOString();
+}
+
 /**
  * 지역별 요약 생성
  */
-function generateRegionSummaries(scores: any[]): RegionSummary[] {
+function generateRegionSummaries(scores: any[], sparklines: Map<string, Array<number | null>>): RegionSummary[] {
   const regionMap = new Map<string, any[]>();
   
   // 지역별로 스코어 그룹화
@@ -187,8 +283,12 @@ function generateRegionSummaries(scores: any[]): RegionSummary[] {
     
     const avgScore = regionScores.reduce((sum, s) => sum + s.score, 0) / totalVMs;
     
-    // 트렌드 계산 (임시: 랜덤)
-    const trend = avgScore >= 65 ? 'up' : avgScore <= 45 ? 'down' : 'stable';
+    // 트렌드 (24시간 변화량 기준, 이력이 없으면 점수 구간 기준)
+    const sparkline = sparklines.get(region) || [];
+    const change = scoreChange24h(sparkline);
+    const trend = change !== null
+      ? (change >= 3 ? 'up' : change <= -3 ? 'down' : 'stable')
+      : (avgScore >= 65 ? 'up' : avgScore <= 45 ? 'down' : 'stable');
 
     summaries.push({
       region,
@@ -198,33 +298,35 @@ function generateRegionSummaries(scores: any[]): RegionSummary[] {
       limitedVMs,
       unavailableVMs,
       avgScore: Math.round(avgScore),
-      lastUpdated: new Date().toISOString(),
-      trend: trend as 'up' | 'down' | 'stable'
+      lastUpdated: latestCalculatedAt(regionScores),
+      trend: trend as 'up' | 'down' | 'stable',
+      sparkline
     });
   });
 
   return summaries.sort((a, b) => b.avgScore - a.avgScore);
 }
 
+/**
+ * VM 크기 → 시리즈 분류
+ */
+function vmSeriesOf(vmSize: string): string {
+  if (vmSize.includes('NC') && vmSize.includes('T4')) return 'NC_T4';
+  if (vmSize.includes('NC') && vmSize.includes('A100')) return 'NC_A100';
+  if (vmSize.includes('ND')) return 'ND_A100';
+  if (vmSize.includes('NV')) return 'NV_v4';
+  return 'Other';
+}
+
 /**
  * VM 시리즈별 요약 생성
  */
-function generateVMSeriesSummaries(scores: any[]): VMSeriesSummary[] {
+function generateVMSeriesSummaries(scores: any[], sparklines: Map<string, Array<number | null>>): VMSeriesSummary[] {
   const seriesMap = new Map<string, any[]>();
   
   // VM 시리즈별로 그룹화
   scores.forEach(score => {
-    let series = 'Other';
-    
-    if (score.vmSize.includes('NC') && score.vmSize.includes('T4')) {
-      series = 'NC_T4';
-    } else if (score.vmSize.includes('NC') && score.vmSize.includes('A100')) {
-      series = 'NC_A100';
-    } else if (score.vmSize.includes('ND')) {
-      series = 'ND_A100';
-    } else if (score.vmSize.includes('NV')) {
-      series = 'NV_v4';
-    }
+    const series = vmSeriesOf(score.vmSize);
     
     if (!seriesMap.has(series)) {
       seriesMap.set(series, []);
@@ -277,7 +379,8 @@ function generateVMSeriesSummaries(scores: any[]): VMSeriesSummary[] {
         limited,
         unavailable
       },
-      topRegions: topRegions.slice(0, 3)
+      topRegions: topRegions.slice(0, 3),
+      sparkline: sparklines.get(series) || []
     });
   });
 
@@ -300,7 +403,7 @@ function generateAlerts(scores: any[]): DashboardAlert[] {
         message: `${score.region}에서 ${score.vmSize} 심각한 용량 부족 (${score.score}점)`,
         region: score.region,
         vmSize: score.vmSize,
-        timestamp: new Date(Date.now() - Math.random() * 3600000).toISOString()
+        timestamp: new Date(score.calculatedAt).toISOString()
       });
     }
   });
@@ -315,7 +418,7 @@ function generateAlerts(scores: any[]): DashboardAlert[] {
         message: `${score.region}에서 ${score.vmSize} 용량 제한 감지 (${score.score}점)`,
         region: score.region,
         vmSize: score.vmSize,
-        timestamp: new Date(Date.now() - Math.random() * 7200000).toISOString()
+        timestamp: new Date(score.calculatedAt).toISOString()
       });
     }
   });
@@ -330,7 +433,7 @@ function generateAlerts(scores: any[]): DashboardAlert[] {
       message: `${best.region}에서 ${best.vmSize} 우수한 성능 확인 (${best.score}점)`,
       region: best.region,
       vmSize: best.vmSize,
-      timestamp: new Date(Date.now() - Math.random() * 1800000).toISOString()
+      timestamp: new Date(best.calculatedAt).toISOString()
     });
   }
 
@@ -1,72 +1,128 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { exchangeRateService } from '@/lib/exchange-rates'
+import { BASE_CURRENCY, COMMON_CURRENCIES, exchangeRateService } from '@/lib/exchange-rates'
+
+// ISO-4217 통화 코드 (소문자도 허용)
+const currencyCode = z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, 'ISO-4217 통화 코드(3자리)여야 합니다')
 
 // 환율 조회 요청 스키마
 const exchangeRateQuerySchema = z.object({
-  from: z.enum(['USD']).default('USD'),
-  to: z.enum(['KRW']).default('KRW'),
-  amount: z.coerce.number().min(0).optional()
+  from: currencyCode.default(BASE_CURRENCY),
+  to: currencyCode.default('KRW'),
+  amount: z.coerce.number().min(0).optional(),
+  historyDays: z.coerce.number().int().min(1).max(365).optional(),
+  // 특정 시점 환율 (가격 effectiveDate 기준 환산, 스냅샷이 없는 날은 가장 가까운 이전 날짜)
+  date: z.coerce.date().optional(),
+  interpolate: z.enum(['true', 'false']).optional()
 })
 
 // 환율 변환 요청 스키마
 const convertRequestSchema = z.object({
-  from: z.enum(['USD', 'KRW']),
-  to: z.enum(['USD', 'KRW']),
+  from: currencyCode,
+  to: currencyCode,
   amount: z.number().min(0)
 })
 
+// 환율표 조회 (환율 API도 저장된 환율도 없으면 503)
+async function loadRateTable() {
+  try {
+    return await exchangeRateService.getRateTable()
+  } catch (error) {
+    console.error('Exchange rate table unavailable:', error)
+    return null
+  }
+}
+
+function unavailableResponse() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Exchange rate unavailable',
+      message: '환율 정보를 가져오는데 실패했습니다. (저장된 환율 없음)'
+    },
+    { status: 503 }
+  )
+}
+
+function unsupportedResponse(currencies: string[]) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Unsupported currency conversion',
+      message: `지원하지 않는 통화입니다: ${currencies.join(', ')}`
+    },
+    { status: 400 }
+  )
+}
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const queryParams = {
-      from: searchParams.get('from') || 'USD',
-      to: searchParams.get('to') || 'KRW',
-      amount: searchParams.get('amount') || undefined
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      amount: searchParams.get('amount') || undefined,
+      historyDays: searchParams.get('historyDays') || undefined,
+      date: searchParams.get('date') || undefined,
+      interpolate: searchParams.get('interpolate') || undefined
     }
 
-    const { from, to, amount } = exchangeRateQuerySchema.parse(queryParams)
+    const { from, to, amount, historyDays, date, interpolate } = exchangeRateQuerySchema.parse(queryParams)
 
-    // 현재 환율 조회
-    const rate = await exchangeRateService.getUSDToKRW()
-    const cachedInfo = exchangeRateService.getCachedRateInfo()
+    const table = await loadRateTable()
+    if (!table) return unavailableResponse()
+
+    const unsupported = [from, to].filter(code => !table.rates[code])
+    if (unsupported.length > 0) return unsupportedResponse(unsupported)
+
+    // 현재 환율 조회 (USD 기준 환율표에서 교차 환율)
+    const { rate, lastUpdated, source, rateDate } = await exchangeRateService.getRate(from, to)
 
     const response: any = {
       success: true,
       from,
       to,
       rate,
-      lastUpdated: cachedInfo?.lastUpdated || new Date().toISOString(),
-      source: cachedInfo?.source || 'api'
+      lastUpdated,
+      source,
+      rateDate,
+      // 통화 선택기에서 쓸 수 있는 통화 목록
+      currencies: COMMON_CURRENCIES.filter(currency => table.rates[currency.code]).map(currency => currency.code)
+    }
+
+    // 시점 환율 (금액 변환도 이 환율 기준)
+    if (date) {
+      response.asOf = await exchangeRateService.getRateAsOf(from, to, date, { interpolate: interpolate === 'true' })
     }
 
     // 금액이 제공된 경우 변환 결과도 포함
     if (amount !== undefined) {
-      if (from === 'USD' && to === 'KRW') {
-        response.convertedAmount = await exchangeRateService.convertUSDToKRW(amount)
-      } else if (from === 'KRW' && to === 'USD') {
-        response.convertedAmount = await exchangeRateService.convertKRWToUSD(amount)
-      }
+      response.convertedAmount = amount * (response.asOf?.rate ?? rate)
+    }
+
+    // 저장된 일별 스냅샷 이력
+    if (historyDays !== undefined) {
+      response.history = await exchangeRateService.getRateHistory(from, to, historyDays)
     }
 
     return NextResponse.json(response)
 
   } catch (error) {
     console.error('Exchange rate API error:', error)
-    
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { 
+        {
           success: false,
-          error: 'Invalid query parameters', 
-          details: error.errors 
+          error: 'Invalid query parameters',
+          details: error.issues
         },
         { status: 400 }
       )
     }
 
     return NextResponse.json(
-      { 
+      {
         success: false,
         error: 'Failed to fetch exchange rate',
         message: '환율 정보를 가져오는데 실패했습니다.'
@@ -81,53 +137,42 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const { from, to, amount } = convertRequestSchema.parse(body)
 
-    let convertedAmount: number
+    const table = await loadRateTable()
+    if (!table) return unavailableResponse()
 
-    if (from === 'USD' && to === 'KRW') {
-      convertedAmount = await exchangeRateService.convertUSDToKRW(amount)
-    } else if (from === 'KRW' && to === 'USD') {
-      convertedAmount = await exchangeRateService.convertKRWToUSD(amount)
-    } else {
-      return NextResponse.json(
-        { 
-          success: false,
-          error: 'Unsupported currency conversion',
-          message: '지원하지 않는 통화 변환입니다.'
-        },
-        { status: 400 }
-      )
-    }
+    const unsupported = [from, to].filter(code => !table.rates[code])
+    if (unsupported.length > 0) return unsupportedResponse(unsupported)
 
-    const rate = await exchangeRateService.getUSDToKRW()
-    const cachedInfo = exchangeRateService.getCachedRateInfo()
+    const { rate, lastUpdated, source, rateDate } = await exchangeRateService.getRate(from, to)
 
     return NextResponse.json({
       success: true,
       from,
       to,
       originalAmount: amount,
-      convertedAmount,
+      convertedAmount: amount * rate,
       rate,
-      lastUpdated: cachedInfo?.lastUpdated || new Date().toISOString(),
-      source: cachedInfo?.source || 'api'
+      lastUpdated,
+      source,
+      rateDate
     })
 
   } catch (error) {
     console.error('Currency conversion API error:', error)
-    
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { 
+        {
           success: false,
-          error: 'Invalid request body', 
-          details: error.errors 
+          error: 'Invalid request body',
+          details: error.issues
         },
         { status: 400 }
       )
     }
 
     return NextResponse.json(
-      { 
+      {
         success: false,
         error: 'Failed to convert currency',
         message: '통화 변환에 실패했습니다.'
@@ -135,4 +180,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
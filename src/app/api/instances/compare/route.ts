@@ -1,28 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import fs from 'fs/promises'
-import path from 'path'
+import { priceRepository, InstanceSpecs } from '@/lib/price-repository'
+import { PURCHASE_OPTIONS, PurchaseOption } from '@/lib/purchase-options'
 
 // 요청 스키마
 const compareRequestSchema = z.object({
-  instanceIds: z.array(z.string()).min(2).max(4)
+  instanceIds: z.array(z.string()).min(2).max(4),
+  purchaseOption: z.enum(PURCHASE_OPTIONS).optional().default('on_demand')
 })
 
-// 인스턴스 스펙 타입
-interface InstanceSpecs {
-  family: string
-  gpuModel: string
-  gpuCount: number
-  gpuMemoryGB: number
-  vcpu: number
-  ramGB: number
-  localSsdGB: number
-  interconnect: string
-  networkPerformance: string
-  nvlinkSupport: boolean
-  migSupport: boolean
-}
-
 interface ComparisonInstance {
   id: string
   provider: string
@@ -35,6 +21,9 @@ interface ComparisonInstance {
     pricePerVcpu: number
     pricePerRamGB: number
     currency: string
+    purchaseOption: PurchaseOption
+    onDemandPricePerHour?: number // 약정/Spot 선택 시 비교 기준
+    savingsPercent?: number // 온디맨드 대비 절감률
   }
   performance: {
     totalGpuMemory: number
@@ -50,44 +39,6 @@ interface ComparisonInstance {
   lastUpdated: string
 }
 
-// 가격 데이터 (실제로는 DB에서 가져와야 함)
-const mockPrices: Record<string, { pricePerHour: number; currency: string; region: string }> = {
-  // AWS
-  'aws-p5d.24xlarge': { pricePerHour: 98.32, currency: 'USD', region: 'ap-northeast-2' },
-  'aws-p4d.24xlarge': { pricePerHour: 32.77, currency: 'USD', region: 'ap-northeast-2' },
-  'aws-g5.xlarge': { pricePerHour: 1.006, currency: 'USD', region: 'ap-northeast-2' },
-  'aws-g5.2xlarge': { pricePerHour: 1.89, currency: 'USD', region: 'ap-northeast-2' },
-  
-  // Azure
-  'azure-Standard_ND_H100_v5': { pricePerHour: 89.76, currency: 'USD', region: 'koreacentral' },
-  'azure-Standard_ND96amsr_A100_v4': { pricePerHour: 27.20, currency: 'USD', region: 'koreacentral' },
-  'azure-Standard_ND40rs_v2': { pricePerHour: 19.44, currency: 'USD', region: 'koreacentral' },
-  
-  // GCP
-  'gcp-a3-highgpu-8g': { pricePerHour: 91.45, currency: 'USD', region: 'asia-northeast1' },
-  'gcp-a2-highgpu-8g': { pricePerHour: 29.89, currency: 'USD', region: 'asia-northeast1' },
-  'gcp-g2-standard-4': { pricePerHour: 0.736, currency: 'USD', region: 'asia-northeast1' }
-}
-
-async function loadInstanceSpecs(): Promise<Record<string, Record<string, InstanceSpecs>>> {
-  try {
-    const dataPath = path.join(process.cwd(), 'data', 'instance-specs.json')
-    const data = await fs.readFile(dataPath, 'utf-8')
-    return JSON.parse(data)
-  } catch (error) {
-    console.error('Failed to load instance specs:', error)
-    return {}
-  }
-}
-
-function parseInstanceId(instanceId: string): { provider: string; instanceName: string } {
-  const [provider, ...nameParts] = instanceId.split('-')
-  return {
-    provider: provider.toLowerCase(),
-    instanceName: nameParts.join('-')
-  }
-}
-
 function calculatePerformanceMetrics(specs: InstanceSpecs): {
   totalGpuMemory: number
   memoryBandwidth: string
@@ -142,25 +93,30 @@ function calculateCostEfficiency(
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { instanceIds } = compareRequestSchema.parse(body)
+    const { instanceIds, purchaseOption } = compareRequestSchema.parse(body)
 
-    // 인스턴스 스펙 데이터 로드
-    const specsData = await loadInstanceSpecs()
+    // 선택한 구매 옵션 가격 + 절감률 계산용 온디맨드 가격
+    const [optionInstances, onDemandInstances] = await Promise.all([
+      priceRepository.getCloudInstances(purchaseOption),
+      purchaseOption === 'on_demand' ? Promise.resolve([]) : priceRepository.getCloudInstances('on_demand')
+    ])
+    const storedInstances = new Map(optionInstances.map(instance => [instance.id, instance]))
+    const onDemandPrices = new Map(onDemandInstances.map(instance => [instance.id, instance.pricePerHour]))
     
     const comparisonData: ComparisonInstance[] = []
     const notFoundInstances: string[] = []
 
     for (const instanceId of instanceIds) {
-      const { provider, instanceName } = parseInstanceId(instanceId)
-      const specs = specsData[provider]?.[instanceName]
-      const priceData = mockPrices[instanceId]
+      // ID는 프로바이더 + 인스턴스 + 리전 단위 (같은 타입도 리전마다 별도 항목)
+      const resolved = storedInstances.get(instanceId)
 
-      if (!specs || !priceData) {
+      if (!resolved) {
         notFoundInstances.push(instanceId)
         continue
       }
 
-      const pricePerHour = priceData.pricePerHour
+      const { specs, pricePerHour } = resolved
+      const onDemandPricePerHour = onDemandPrices.get(instanceId)
       const pricePerGpu = pricePerHour / specs.gpuCount
       const pricePerVcpu = pricePerHour / specs.vcpu
       const pricePerRamGB = pricePerHour / specs.ramGB
@@ -170,20 +126,25 @@ export async function POST(request: NextRequest) {
 
       comparisonData.push({
         id: instanceId,
-        provider: provider.toUpperCase(),
-        region: priceData.region,
-        instanceName,
+        provider: resolved.provider,
+        region: resolved.region,
+        instanceName: resolved.instanceName,
         specs,
         pricing: {
           pricePerHour,
           pricePerGpu,
           pricePerVcpu,
           pricePerRamGB,
-          currency: priceData.currency
+          currency: resolved.currency,
+          purchaseOption,
+          ...(onDemandPricePerHour && {
+            onDemandPricePerHour,
+            savingsPercent: (1 - pricePerHour / onDemandPricePerHour) * 100
+          })
         },
         performance,
         costEfficiency,
-        lastUpdated: new Date().toISOString()
+        lastUpdated: resolved.lastUpdated
       })
     }
 
@@ -241,6 +202,7 @@ export async function POST(request: NextRequest) {
       meta: {
         comparisonId: `cmp_${Date.now()}`,
         currency: 'USD',
+        purchaseOption,
         generatedAt: new Date().toISOString(),
         apiVersion: '1.0.0'
       }
@@ -276,6 +238,7 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const instanceIds = searchParams.get('ids')?.split(',') || []
+    const purchaseOption = searchParams.get('purchaseOption') || undefined
 
     if (instanceIds.length < 2 || instanceIds.length > 4) {
       return NextResponse.json(
@@ -291,7 +254,7 @@ export async function GET(request: NextRequest) {
     const mockRequest = new NextRequest(request.url, {
       method: 'POST',
       headers: request.headers,
-      body: JSON.stringify({ instanceIds })
+      body: JSON.stringify({ instanceIds, purchaseOption })
     })
 
     return await POST(mockRequest)
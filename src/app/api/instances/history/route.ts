@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { BASE_CURRENCY, exchangeRateService } from '@/lib/exchange-rates'
+import { priceHistoryService } from '@/lib/price-history'
+import { PURCHASE_OPTIONS } from '@/lib/purchase-options'
+
+const DAY = 24 * 60 * 60 * 1000
+
+// 가격 이력 조회 스키마
+const historyQuerySchema = z.object({
+  provider: z.string().min(1).transform(value => value.toLowerCase()),
+  region: z.string().min(1),
+  instanceName: z.string().min(1),
+  purchaseOption: z.enum(PURCHASE_OPTIONS).optional().default('on_demand'),
+  currency: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, 'ISO-4217 통화 코드(3자리)여야 합니다').default(BASE_CURRENCY),
+  days: z.coerce.number().int().min(1).max(365).optional().default(90),
+  interpolate: z.enum(['true', 'false']).optional()
+})
+
+function changePercent(first: number, last: number): number | null {
+  return first > 0 ? Math.round((last - first) / first * 1000) / 10 : null
+}
+
+/**
+ * 인스턴스 가격 이력 (각 가격의 effectiveDate에 유효했던 환율로 환산)
+ * 오늘 환율로 일괄 환산하면 환율 변동이 가격 변동처럼 보이므로 시점 환율을 사용한다.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { provider, region, instanceName, purchaseOption, currency, days, interpolate } = historyQuerySchema.parse({
+      provider: searchParams.get('provider') || undefined,
+      region: searchParams.get('region') || undefined,
+      instanceName: searchParams.get('instanceName') || undefined,
+      purchaseOption: searchParams.get('purchaseOption') || undefined,
+      currency: searchParams.get('currency') || undefined,
+      days: searchParams.get('days') || undefined,
+      interpolate: searchParams.get('interpolate') || undefined
+    })
+
+    const history = await priceHistoryService.getPriceHistory({
+      providerCode: provider,
+      regionCode: region,
+      instanceName,
+      purchaseOption,
+      from: new Date(Date.now() - days * DAY)
+    })
+
+    let fxRates
+    try {
+      fxRates = await exchangeRateService.getConversionRates(
+        history.map(point => ({ currency: point.currency, date: point.effectiveDate })),
+        currency,
+        { interpolate: interpolate === 'true' }
+      )
+    } catch (error) {
+      console.error('Price history FX conversion failed:', error)
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Exchange rate unavailable',
+          message: `${currency} 환율 정보를 가져오지 못했습니다.`
+        },
+        { status: 503 }
+      )
+    }
+
+    const points = history.map((point, index) => ({
+      effectiveDate: point.effectiveDate.toISOString(),
+      originalPrice: point.pricePerHour,
+      originalCurrency: point.currency,
+      pricePerHour: point.pricePerHour * fxRates[index].rate,
+      dataSource: point.dataSource,
+      fx: {
+        rate: fxRates[index].rate,
+        rateDate: fxRates[index].rateDate,
+        method: fxRates[index].method
+      }
+    }))
+
+    const first = points[0]
+    const last = points[points.length - 1]
+
+    return NextResponse.json({
+      success: true,
+      instance: { provider, region, instanceName, purchaseOption },
+      currency,
+      points,
+      summary: first && last ? {
+        points: points.length,
+        minPrice: Math.min(...points.map(point => point.pricePerHour)),
+        maxPrice: Math.max(...points.map(point => point.pricePerHour)),
+        // 시점 환율 기준 변동률과 원 통화 기준 변동률 (차이가 환율 효과)
+        changePercent: changePercent(first.pricePerHour, last.pricePerHour),
+        originalChangePercent: first.originalCurrency === last.originalCurrency ?
+          changePercent(first.originalPrice, last.originalPrice) :
+          null
+      } : null
+    })
+
+  } catch (error) {
+    console.error('Price history API error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch price history',
+        message: '가격 이력을 가져오는데 실패했습니다.'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import fs from 'fs/promises'
-import path from 'path'
+import { isCapacityProvider } from '@/lib/capacity-errors'
+import { capacityScoreKey, capacityScoreService, ProviderCapacityScore } from '@/lib/capacity-scores'
+import { BASE_CURRENCY, exchangeRateService } from '@/lib/exchange-rates'
+import { priceRepository, InstanceData } from '@/lib/price-repository'
+import { PURCHASE_OPTIONS, PurchaseOption } from '@/lib/purchase-options'
 
 // 인메모리 캐시 구조
 interface CachedInstanceData {
@@ -20,183 +23,34 @@ const instancesQuerySchema = z.object({
   region: z.string().optional(),
   country: z.string().optional(),
   gpuModel: z.string().optional(),
+  purchaseOption: z.enum(PURCHASE_OPTIONS).optional().default('on_demand'),
   sortBy: z.enum(['pricePerHour', 'pricePerGpu', 'gpuCount', 'vcpu', 'ramGB']).optional().default('pricePerGpu'),
   sortDirection: z.enum(['asc', 'desc']).optional().default('asc'),
   page: z.coerce.number().min(1).optional().default(1),
   limit: z.coerce.number().min(1).max(1000).optional().default(50),
-  search: z.string().optional()
+  search: z.string().optional(),
+  // 용량 스코어 등급 (unknown = 스코어 없음, na = 용량 신호를 수집하지 않는 프로바이더)
+  availability: z.enum(['available', 'limited', 'unavailable', 'unknown', 'na']).optional(),
+  // 표시 통화 (각 가격의 effectiveDate에 유효했던 환율로 환산한 converted 필드 추가)
+  currency: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/).optional().default(BASE_CURRENCY)
 })
 
-// 인스턴스 데이터 타입
-interface InstanceSpecs {
-  family: string
-  gpuModel: string
-  gpuCount: number
-  gpuMemoryGB: number
-  vcpu: number
-  ramGB: number
-  localSsdGB: number
-  interconnect: string
-  networkPerformance: string
-  nvlinkSupport: boolean
-  migSupport: boolean
-}
-
-interface InstanceData {
-  id: string
-  provider: string
-  region: string
-  instanceName: string
-  specs: InstanceSpecs
-  pricePerHour: number
-  pricePerGpu: number
-  currency: string
-  lastUpdated: string
-}
-
-// 동적 가격 데이터 가져오기 (AWS + Azure)
-async function getCurrentPrices(): Promise<Record<string, { pricePerHour: number; currency: string; lastUpdated: string }>> {
-  try {
-    // 기존 AWS 가격 가져오기
-    const awsResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/admin/prices`)
-    const awsData = await awsResponse.json()
-    
-    // Azure 가격 가져오기
-    const azureResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/admin/sync-azure-prices`)
-    const azureData = await azureResponse.json()
-    
-    const combinedPrices: Record<string, { pricePerHour: number; currency: string; lastUpdated: string }> = {}
-    
-    // AWS 가격 추가
-    if (awsData.prices) {
-      Object.assign(combinedPrices, awsData.prices)
-    }
-    
-    // Azure 가격 추가
-    if (azureData.success && azureData.data?.instances) {
-      for (const instance of azureData.data.instances) {
-        const instanceId = `azure-${instance.vmSize.toLowerCase()}-${instance.location.toLowerCase().replace(/\s+/g, '-')}`
-        combinedPrices[instanceId] = {
-          pricePerHour: instance.pricePerHour,
-          currency: instance.currency || 'USD',
-          lastUpdated: instance.effectiveDate || new Date().toISOString()
-        }
-      }
-    }
-    
-    // GCP 가격 가져오기
-    try {
-      const gcpResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/admin/sync-gcp-prices`)
-      const gcpData = await gcpResponse.json()
-      
-      // GCP 가격 추가
-      if (gcpData.success && gcpData.data?.instances) {
-        for (const instance of gcpData.data.instances) {
-          const instanceId = `gcp-${instance.machineType.toLowerCase()}-${instance.region.toLowerCase()}`
-          combinedPrices[instanceId] = {
-            pricePerHour: instance.pricePerHour,
-            currency: instance.currency || 'USD',
-            lastUpdated: instance.effectiveDate || new Date().toISOString()
-          }
-        }
-      }
-    } catch (gcpError) {
-      console.warn('Failed to fetch GCP prices:', gcpError)
-    }
-    
-    return combinedPrices
-  } catch (error) {
-    console.error('Failed to fetch current prices:', error)
-    // 폴백 데이터
-    return {
-      'aws-p5d.24xlarge': { pricePerHour: 98.32, currency: 'USD', lastUpdated: new Date().toISOString() },
-      'aws-p4d.24xlarge': { pricePerHour: 32.77, currency: 'USD', lastUpdated: new Date().toISOString() },
-      'aws-g5.xlarge': { pricePerHour: 1.006, currency: 'USD', lastUpdated: new Date().toISOString() },
-      'aws-g5.2xlarge': { pricePerHour: 1.89, currency: 'USD', lastUpdated: new Date().toISOString() },
-      'azure-Standard_ND_H100_v5': { pricePerHour: 89.76, currency: 'USD', lastUpdated: new Date().toISOString() },
-      'azure-Standard_ND96amsr_A100_v4': { pricePerHour: 27.20, currency: 'USD', lastUpdated: new Date().toISOString() },
-      'azure-Standard_ND40rs_v2': { pricePerHour: 19.44, currency: 'USD', lastUpdated: new Date().toISOString() },
-      'gcp-a3-highgpu-8g': { pricePerHour: 91.45, currency: 'USD', lastUpdated: new Date().toISOString() },
-      'gcp-a2-highgpu-8g': { pricePerHour: 29.89, currency: 'USD', lastUpdated: new Date().toISOString() },
-      'gcp-g2-standard-4': { pricePerHour: 0.736, currency: 'USD', lastUpdated: new Date().toISOString() }
-    }
-  }
-}
-
-// 리전 매핑
-const regionMapping: Record<string, string> = {
-  'aws-p5d.24xlarge': 'ap-northeast-2',
-  'aws-p4d.24xlarge': 'ap-northeast-2',
-  'aws-g5.xlarge': 'ap-northeast-2',
-  'aws-g5.2xlarge': 'ap-northeast-2',
-  'azure-Standard_ND_H100_v5': 'koreacentral',
-  'azure-Standard_ND96amsr_A100_v4': 'koreacentral',
-  'azure-Standard_ND40rs_v2': 'koreacentral',
-  'gcp-a3-highgpu-8g': 'asia-northeast1',
-  'gcp-a2-highgpu-8g': 'asia-northeast1',
-  'gcp-g2-standard-4': 'asia-northeast1'
-}
-
-async function loadInstanceSpecs(): Promise<Record<string, Record<string, InstanceSpecs>>> {
-  try {
-    const dataPath = path.join(process.cwd(), 'data', 'instance-specs.json')
-    const data = await fs.readFile(dataPath, 'utf-8')
-    return JSON.parse(data)
-  } catch (error) {
-    console.error('Failed to load instance specs:', error)
-    return {}
-  }
-}
-
-function generateInstanceId(provider: string, instanceName: string): string {
-  return `${provider.toLowerCase()}-${instanceName}`
-}
-
-// Helper functions for Azure GPU info
-function getGPUMemorySize(gpuModel: string): number {
-  switch (gpuModel) {
-    case 'H100': return 80
-    case 'A100': return 80
-    case 'Tesla V100': return 32
-    case 'Tesla T4': return 16
-    case 'Tesla P100': return 16
-    case 'Tesla P40': return 24
-    case 'Tesla K80': return 24
-    case 'Tesla M60': return 8
-    case 'A10': return 24
-    case 'Radeon MI25': return 16
-    default: return 16
-  }
-}
-
-function getInterconnectType(gpuModel: string): string {
-  switch (gpuModel) {
-    case 'H100':
-    case 'A100':
-    case 'Tesla V100':
-      return 'NVLink'
-    default:
-      return 'PCIe'
-  }
-}
-
-function hasNVLinkSupport(gpuModel: string): boolean {
-  return ['H100', 'A100', 'Tesla V100'].includes(gpuModel)
-}
-
 // 리전 → 국가 매핑 (간단화, 필요 시 확장)
 function mapRegionToCountry(provider: string, region: string): string {
   const r = (region || '').toLowerCase()
   // 공통
   if (r === 'global') return 'Global'
   // Korea
-  if (r.includes('korea') || r === 'ap-northeast-2' || r === 'asia-northeast3') return '대한민국'
+  if (r.includes('korea') || r === 'ap-northeast-2' || r === 'asia-northeast3' || r.includes('seoul') || r.includes('chuncheon')) return '대한민국'
   // Japan
-  if (r.includes('japan') || r === 'ap-northeast-1' || r === 'ap-northeast-3' || r === 'asia-northeast1') return '일본'
+  if (r.includes('japan') || r === 'ap-northeast-1' || r === 'ap-northeast-3' || r === 'asia-northeast1' || r.includes('tokyo') || r.includes('osaka')) return '일본'
   // Singapore
   if (r.includes('singapore') || r === 'ap-southeast-1' || r === 'asia-southeast1') return '싱가포르'
   // Australia
-  if (r.includes('australia') || r === 'ap-southeast-2') return '호주'
+  if (r.includes('australia') || r === 'ap-southeast-2' || r.includes('sydney') || r.includes('melbourne')) return '호주'
+  // Hong Kong / China (Alibaba cn-*)
+  if (r.includes('hongkong')) return '홍콩'
+  if (r.startsWith('cn-')) return '중국'
   // United States
   if (r.includes('us') || r.includes('eastus') || r.includes('westus') || r.includes('centralus') || r.startsWith('us-')) return '미국'
   // United Kingdom
@@ -206,26 +60,18 @@ function mapRegionToCountry(provider: string, region: string): string {
   // France
   if (r.includes('france') || r === 'eu-west-3') return '프랑스'
   // Germany
-  if (r.includes('germany') || r.includes('german') || r.startsWith('europe-west3')) return '독일'
+  if (r.includes('germany') || r.includes('german') || r.startsWith('europe-west3') || r.includes('frankfurt') || r === 'eu-central-1') return '독일'
   // Canada
   if (r.includes('canada') || r.startsWith('ca-') || r.includes('northcentralus') === false && r.includes('canadacentral')) return '캐나다'
   // India
-  if (r.includes('india') || r.includes('centralindia') || r.includes('southindia') || r === 'asia-south1') return '인도'
+  if (r.includes('india') || r.includes('centralindia') || r.includes('southindia') || r === 'asia-south1' || r.includes('mumbai')) return '인도'
   // Default
   return '기타'
 }
 
-function getBaseUrl(request?: NextRequest): string {
-  // 우선순위: 명시적 BASE_URL > 요청 origin > Vercel URL
-  if (process.env.NEXT_PUBLIC_BASE_URL) return process.env.NEXT_PUBLIC_BASE_URL
-  if (request) return request.nextUrl.origin
-  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`
-  return 'http://localhost:3000'
-}
-
 // 캐시된 인스턴스 데이터 로드 함수
-async function getCachedInstances(baseUrl: string): Promise<InstanceData[]> {
-  const cacheKey = 'all_instances'
+async function getCachedInstances(purchaseOption: PurchaseOption): Promise<InstanceData[]> {
+  const cacheKey = `all_instances:${purchaseOption}`
   const cached = instanceCache.get(cacheKey)
   const now = Date.now()
 
@@ -236,187 +82,72 @@ async function getCachedInstances(baseUrl: string): Promise<InstanceData[]> {
   }
 
   console.log('Loading fresh instance data...')
-  
-  // 모든 인스턴스 데이터 생성
-  const allInstances: InstanceData[] = []
-  
-  // 세 개의 API를 병렬로 호출하여 성능 개선
-  const [awsData, azureData, gcpData] = await Promise.allSettled([
-    fetch(`${baseUrl}/api/admin/sync-aws-prices?dryRun=true`).then(r => r.json()),
-    fetch(`${baseUrl}/api/admin/sync-azure-prices?dryRun=true`).then(r => r.json()),
-    fetch(`${baseUrl}/api/admin/sync-gcp-prices?dryRun=true`).then(r => r.json())
-  ])
-
-  // AWS 인스턴스 추가
-  if (awsData.status === 'fulfilled' && awsData.value.success && awsData.value.data?.instances) {
-    for (const awsInstance of awsData.value.data.instances) {
-      const instanceId = `aws-${awsInstance.instanceType.toLowerCase()}-${awsInstance.region.toLowerCase().replace(/\s+/g, '-')}`
-      
-      const specs: InstanceSpecs = {
-        family: awsInstance.instanceType.split('.')[0] || 'Unknown',
-        gpuModel: awsInstance.gpuModel || 'Unknown',
-        gpuCount: awsInstance.gpuCount || 1,
-        gpuMemoryGB: getGPUMemorySize(awsInstance.gpuModel),
-        vcpu: awsInstance.vcpu || 4,
-        ramGB: awsInstance.memory || 28,
-        localSsdGB: 0,
-        interconnect: getInterconnectType(awsInstance.gpuModel),
-        networkPerformance: 'High',
-        nvlinkSupport: hasNVLinkSupport(awsInstance.gpuModel),
-        migSupport: awsInstance.gpuModel === 'A100' || awsInstance.gpuModel === 'H100'
-      }
 
-      allInstances.push({
-        id: instanceId,
-        provider: 'AWS',
-        region: awsInstance.region || 'Unknown',
-        instanceName: awsInstance.instanceType || 'Unknown',
-        specs,
-        pricePerHour: awsInstance.pricePerHour || 0,
-        pricePerGpu: (awsInstance.pricePerHour || 0) / specs.gpuCount,
-        currency: awsInstance.currency || 'USD',
-        lastUpdated: awsInstance.lastUpdated || new Date().toISOString()
-      })
-    }
-  }
+  // 가격 저장소(PriceHistory + GPUaaS)에서 직접 조회
+  const allInstances = await priceRepository.getAllInstances(purchaseOption)
 
-  // Azure 인스턴스 추가
-  if (azureData.status === 'fulfilled' && azureData.value.success && azureData.value.data?.instances) {
-    for (const azureInstance of azureData.value.data.instances) {
-      const instanceId = `azure-${azureInstance.vmSize.toLowerCase()}-${azureInstance.location.toLowerCase().replace(/\s+/g, '-')}`
-      
-      const specs: InstanceSpecs = {
-        family: azureInstance.vmSize ? azureInstance.vmSize.split('_')[1] || 'Unknown' : 'Unknown',
-        gpuModel: azureInstance.gpuModel || 'Unknown',
-        gpuCount: azureInstance.gpuCount || 1,
-        gpuMemoryGB: getGPUMemorySize(azureInstance.gpuModel),
-        vcpu: azureInstance.vcpu || 4,
-        ramGB: azureInstance.ram || 28,
-        localSsdGB: 0,
-        interconnect: getInterconnectType(azureInstance.gpuModel),
-        networkPerformance: 'High',
-        nvlinkSupport: hasNVLinkSupport(azureInstance.gpuModel),
-        migSupport: azureInstance.gpuModel === 'A100' || azureInstance.gpuModel === 'H100'
-      }
-
-      allInstances.push({
-        id: instanceId,
-        provider: 'AZURE',
-        region: azureInstance.location || 'Unknown',
-        instanceName: azureInstance.vmSize || 'Unknown',
-        specs,
-        pricePerHour: azureInstance.pricePerHour || 0,
-        pricePerGpu: (azureInstance.pricePerHour || 0) / specs.gpuCount,
-        currency: azureInstance.currency || 'USD',
-        lastUpdated: azureInstance.effectiveDate || new Date().toISOString()
-      })
-    }
-  }
+  // 캐시에 저장
+  instanceCache.set(cacheKey, {
+    data: allInstances,
+    lastUpdated: now,
+    ttl: CACHE_TTL
+  })
 
-  // GCP 인스턴스 추가 (중복 제거)
-  if (gcpData.status === 'fulfilled' && gcpData.value.success && gcpData.value.data?.instances) {
-    const gcpInstancesMap = new Map()
-    
-    for (const gcpInstance of gcpData.value.data.instances) {
-      const instanceId = `gcp-${gcpInstance.machineType.toLowerCase()}-${gcpInstance.region.toLowerCase()}`
-      
-      // 중복 제거: 같은 instanceId가 이미 있으면 건너뛰기
-      if (gcpInstancesMap.has(instanceId)) {
-        continue
-      }
-      
-      const specs: InstanceSpecs = {
-        family: gcpInstance.machineType.split('-')[0] || 'Unknown',
-        gpuModel: gcpInstance.gpuModel || 'Unknown',
-        gpuCount: gcpInstance.gpuCount || 1,
-        gpuMemoryGB: getGPUMemorySize(gcpInstance.gpuModel),
-        vcpu: gcpInstance.vcpu || 4,
-        ramGB: gcpInstance.memory || 28,
-        localSsdGB: 0,
-        interconnect: getInterconnectType(gcpInstance.gpuModel),
-        networkPerformance: 'High',
-        nvlinkSupport: hasNVLinkSupport(gcpInstance.gpuModel),
-        migSupport: gcpInstance.gpuModel === 'A100' || gcpInstance.gpuModel === 'H100'
-      }
+  console.log(`Loaded ${allInstances.length} instances into cache`)
+  return allInstances
+}
 
-      const instanceData = {
-        id: instanceId,
-        provider: 'GCP',
-        region: gcpInstance.region || 'Unknown',
-        instanceName: gcpInstance.machineType || 'Unknown',
-        specs,
-        pricePerHour: gcpInstance.pricePerHour || 0,
-        pricePerGpu: (gcpInstance.pricePerHour || 0) / specs.gpuCount,
-        currency: gcpInstance.currency || 'USD',
-        lastUpdated: gcpInstance.effectiveDate || new Date().toISOString()
-      }
+// 용량 스코어 조회 결과 (용량 신호를 수집하지 않는 프로바이더는 undefined)
+function findCapacity(instance: InstanceData, scores: Map<string, ProviderCapacityScore>) {
+  if (!isCapacityProvider(instance.provider.toLowerCase())) return undefined
+
+  const score = scores.get(capacityScoreKey(instance.provider, instance.region, instance.instanceName))
+  return score ? {
+    region: score.region,
+    vmSize: score.instanceType,
+    score: score.score,
+    label: score.label,
+    confidence: score.confidence,
+    calculatedAt: score.calculatedAt
+  } : null
+}
 
-      gcpInstancesMap.set(instanceId, instanceData)
-      allInstances.push(instanceData)
-    }
+// 가격 기준일(lastUpdated = effectiveDate) 환율로 환산 (환율을 못 가져오면 converted 없이 원 통화 그대로)
+async function attachConvertedPrices<T extends InstanceData>(instances: T[], currency: string) {
+  if (instances.every(instance => instance.currency === currency)) {
+    return { instances, fxError: null }
   }
 
-  // GPUaaS 인스턴스 추가
   try {
-    const gpuaasRes = await fetch(`${baseUrl}/api/gpuaas/prices`)
-    if (gpuaasRes.ok) {
-      const gpuaasJson = await gpuaasRes.json()
-      if (gpuaasJson.success && gpuaasJson.data?.providers) {
-        const lastUpdated = gpuaasJson.data.lastUpdated || new Date().toISOString()
-
-        const knownTokens = ['H100','A100','V100','T4','L4','A10G','A10','P100','P40','K80','M60']
-        const extractModelToken = (model: string): string => {
-          const upper = String(model || '').toUpperCase()
-          for (const t of knownTokens) if (upper.includes(t)) return t
-          return upper.split(' ')[0]
-        }
+    const rates = await exchangeRateService.getConversionRates(
+      instances.map(instance => ({ currency: instance.currency, date: new Date(instance.lastUpdated) })),
+      currency
+    )
 
-        for (const provider of gpuaasJson.data.providers) {
-          for (const inst of provider.instances || []) {
-            const token = extractModelToken(inst.gpuModel)
-            const specs: InstanceSpecs = {
-              family: provider.slug || 'gpuaas',
-              gpuModel: token || inst.gpuModel || 'Unknown',
-              gpuCount: inst.gpuCount || 1,
-              gpuMemoryGB: getGPUMemorySize(token || inst.gpuModel),
-              vcpu: 0,
-              ramGB: 0,
-              localSsdGB: 0,
-              interconnect: 'N/A',
-              networkPerformance: 'N/A',
-              nvlinkSupport: hasNVLinkSupport(token || inst.gpuModel),
-              migSupport: ['A100','H100'].includes(token)
-            }
-
-            const id = `gpuaas-${(provider.slug || provider.name || 'provider').toLowerCase()}-${(token || 'gpu').toLowerCase()}-${specs.gpuCount}`
-            allInstances.push({
-              id,
-              provider: provider.name || 'GPUaaS',
-              region: 'global',
-              instanceName: `${specs.gpuModel}-${specs.gpuCount}x`,
-              specs,
-              pricePerHour: inst.pricePerHour || 0,
-              pricePerGpu: (inst.pricePerHour || 0) / (specs.gpuCount || 1),
-              currency: inst.currency || 'USD',
-              lastUpdated
-            })
-          }
+    return {
+      instances: instances.map((instance, index) => ({
+        ...instance,
+        converted: {
+          currency,
+          pricePerHour: instance.pricePerHour * rates[index].rate,
+          pricePerGpu: instance.pricePerGpu * rates[index].rate,
+          rate: rates[index].rate,
+          rateDate: rates[index].rateDate,
+          method: rates[index].method
         }
-      }
+      })),
+      fxError: null
     }
-  } catch (e) {
-    console.warn('Failed to append GPUaaS instances:', e)
+  } catch (error) {
+    console.error('Instance price conversion failed:', error)
+    return { instances, fxError: `${currency} 환율 정보를 가져오지 못했습니다.` }
   }
+}
 
-  // 캐시에 저장
-  instanceCache.set(cacheKey, {
-    data: allInstances,
-    lastUpdated: now,
-    ttl: CACHE_TTL
-  })
-
-  console.log(`Loaded ${allInstances.length} instances into cache`)
-  return allInstances
+function matchesAvailability(capacity: ReturnType<typeof findCapacity>, availability: string) {
+  if (capacity === undefined) return availability === 'na'
+  if (capacity === null) return availability === 'unknown'
+  return capacity.label === availability.toUpperCase()
 }
 
 export async function GET(request: NextRequest) {
@@ -428,23 +159,25 @@ export async function GET(request: NextRequest) {
       region: searchParams.get('region') || undefined,
       country: searchParams.get('country') || undefined,
       gpuModel: searchParams.get('gpuModel') || undefined,
+      purchaseOption: searchParams.get('purchaseOption') || undefined,
       sortBy: searchParams.get('sortBy') || undefined,
       sortDirection: searchParams.get('sortDirection') || undefined,
       page: searchParams.get('page') || undefined,
       limit: searchParams.get('limit') || undefined,
-      search: searchParams.get('search') || undefined
+      search: searchParams.get('search') || undefined,
+      availability: searchParams.get('availability') || undefined,
+      currency: searchParams.get('currency') || undefined
     }
 
     // 파라미터 검증
     const validatedParams = instancesQuerySchema.parse(queryParams)
 
     // 캐시된 인스턴스 데이터 로드
-    const baseUrl = getBaseUrl(request)
-    const allInstances = await getCachedInstances(baseUrl)
+    const allInstances = await getCachedInstances(validatedParams.purchaseOption)
 
 
     // 필터링
-    let filteredInstances = allInstances.filter(instance => {
+    const matchedInstances = allInstances.filter(instance => {
       const matchesProvider = !validatedParams.provider || 
         instance.provider.toLowerCase() === validatedParams.provider.toLowerCase()
       
@@ -465,6 +198,12 @@ export async function GET(request: NextRequest) {
       return matchesProvider && matchesRegion && matchesCountry && matchesGpuModel && matchesSearch
     })
 
+    // 용량 스코어 첨부 및 Availability 필터 (페이지네이션 전에 적용)
+    const capacityScores = await capacityScoreService.getScoreMap()
+    const filteredInstances = matchedInstances
+      .map(instance => ({ ...instance, capacity: findCapacity(instance, capacityScores) }))
+      .filter(instance => !validatedParams.availability || matchesAvailability(instance.capacity, validatedParams.availability))
+
     // 정렬
     filteredInstances.sort((a, b) => {
       let aValue: number
@@ -506,7 +245,10 @@ export async function GET(request: NextRequest) {
     const total = filteredInstances.length
     const totalPages = Math.ceil(total / validatedParams.limit)
     const offset = (validatedParams.page - 1) * validatedParams.limit
-    const paginatedInstances = filteredInstances.slice(offset, offset + validatedParams.limit)
+    const converted = await attachConvertedPrices(
+      filteredInstances.slice(offset, offset + validatedParams.limit),
+      validatedParams.currency
+    )
 
     // 고유 값들 추출 (필터링용)
     const uniqueProviders = Array.from(new Set(allInstances.map(i => i.provider)))
@@ -516,7 +258,7 @@ export async function GET(request: NextRequest) {
 
     // 응답 데이터
     const response = {
-      instances: paginatedInstances,
+      instances: converted.instances,
       pagination: {
         page: validatedParams.page,
         limit: validatedParams.limit,
@@ -529,10 +271,14 @@ export async function GET(request: NextRequest) {
         providers: uniqueProviders,
         regions: uniqueRegions,
         countries: uniqueCountries,
-        gpuModels: uniqueGpuModels
+        gpuModels: uniqueGpuModels,
+        capacityProviders: uniqueProviders.filter(p => isCapacityProvider(p.toLowerCase()))
       },
       meta: {
-        currency: 'USD',
+        currency: BASE_CURRENCY,
+        displayCurrency: validatedParams.currency,
+        fxError: converted.fxError,
+        purchaseOption: validatedParams.purchaseOption,
         lastUpdated: new Date().toISOString(),
         apiVersion: '1.0.0'
       }
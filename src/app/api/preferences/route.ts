@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { TAX_RULES } from '@/lib/pricing-presentation'
+import { SESSION_COOKIE, SESSION_MAX_AGE, userPreferenceService } from '@/lib/user-preferences'
+
+// 설정 변경 요청 스키마 (모든 필드 선택, 보낸 필드만 갱신)
+const preferencesUpdateSchema = z.object({
+  currency: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, 'ISO-4217 통화 코드(3자리)여야 합니다').optional(),
+  buyerCountry: z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, 'ISO-3166 국가 코드(2자리)여야 합니다').optional(),
+  includeVat: z.boolean().optional(),
+  vatRate: z.number().min(0).max(0.5).optional(),
+  includeWithholding: z.boolean().optional(),
+  withholdingRate: z.number().min(0).max(0.5).optional(),
+  preferredRegions: z.array(z.string().min(1)).max(50).optional()
+})
+
+// 세션 쿠키가 없으면 발급 (응답에 Set-Cookie)
+function resolveSession(request: NextRequest): { sessionId: string; isNew: boolean } {
+  const existing = request.cookies.get(SESSION_COOKIE)?.value
+  return existing ? { sessionId: existing, isNew: false } : { sessionId: userPreferenceService.createSessionId(), isNew: true }
+}
+
+function withSession(response: NextResponse, session: { sessionId: string; isNew: boolean }) {
+  if (session.isNew) {
+    response.cookies.set(SESSION_COOKIE, session.sessionId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      path: '/',
+      maxAge: SESSION_MAX_AGE
+    })
+  }
+  return response
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = resolveSession(request)
+    const preferences = await userPreferenceService.get(session.isNew ? null : session.sessionId)
+
+    return withSession(NextResponse.json({
+      success: true,
+      preferences,
+      taxRules: TAX_RULES
+    }), session)
+
+  } catch (error) {
+    console.error('Preferences API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load preferences',
+        message: '사용자 설정을 불러오는데 실패했습니다.'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const update = preferencesUpdateSchema.parse(body)
+
+    const session = resolveSession(request)
+    const preferences = await userPreferenceService.update(session.sessionId, update)
+
+    return withSession(NextResponse.json({
+      success: true,
+      preferences
+    }), session)
+
+  } catch (error) {
+    console.error('Preferences update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request body',
+          details: error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update preferences',
+        message: '사용자 설정 저장에 실패했습니다.'
+      },
+      { status: 500 }
+    )
+  }
+}
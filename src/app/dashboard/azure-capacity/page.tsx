@@ -34,6 +34,7 @@ interface RegionStatus {
   avgScore: number;
   lastUpdated: string;
   trend: 'up' | 'down' | 'stable';
+  sparkline: Array<number | null>;
 }
 
 interface VMSeriesStatus {
@@ -50,6 +51,14 @@ interface VMSeriesStatus {
     region: string;
     score: number;
   }>;
+  sparkline: Array<number | null>;
+}
+
+interface SparklineRange {
+  from: string;
+  to: string;
+  bucket: string;
+  overall: Array<number | null>;
 }
 
 interface AlertItem {
@@ -74,14 +83,52 @@ interface DashboardMetrics {
   };
 }
 
+// 점수 스파크라인 (0-100 고정 축, 이력 없는 버킷은 선을 끊음)
+function Sparkline({ values, width = 120, height = 28 }: { values: Array<number | null>; width?: number; height?: number }) {
+  if (values.every(value => value === null)) {
+    return <span className="text-xs text-muted-foreground">이력 없음</span>;
+  }
+
+  const step = values.length > 1 ? width / (values.length - 1) : width;
+  const y = (value: number) => height - (value / 100) * height;
+  const segments: string[] = [];
+  let current = '';
+  values.forEach((value, index) => {
+    if (value === null) {
+      if (current) segments.push(current);
+      current = '';
+      return;
+    }
+    current += `${current ? 'L' : 'M'}${(index * step).toFixed(1)},${y(value).toFixed(1)}`;
+  });
+  if (current) segments.push(current);
+
+  const latest = [...values].reverse().find((value): value is number => value !== null)!;
+  const color = latest >= 75 ? '#22c55e' : latest >= 40 ? '#f59e0b' : '#ef4444';
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+      {/* 등급 경계선 (75 / 40점) */}
+      <line x1={0} x2={width} y1={y(75)} y2={y(75)} stroke="#e5e7eb" strokeDasharray="2 2" />
+      <line x1={0} x2={width} y1={y(40)} y2={y(40)} stroke="#e5e7eb" strokeDasharray="2 2" />
+      {segments.map((d, index) => (
+        <path key={index} d={d} fill="none" stroke={color} strokeWidth={1.5} />
+      ))}
+    </svg>
+  );
+}
+
 export default function AzureCapacityDashboard() {
   const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
   const [regionStatuses, setRegionStatuses] = useState<RegionStatus[]>([]);
   const [vmSeriesStatuses, setVMSeriesStatuses] = useState<VMSeriesStatus[]>([]);
   const [alerts, setAlerts] = useState<AlertItem[]>([]);
+  const [sparklineRange, setSparklineRange] = useState<SparklineRange | null>(null);
   const [loading, setLoading] = useState(true);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [demo, setDemo] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   // 데이터 로드 함수
   const loadDashboardData = async () => {
@@ -98,10 +145,13 @@ export default function AzureCapacityDashboard() {
       const data = await response.json();
       
       if (data.success) {
+        setDemo(data.demo === true);
+        setError(null);
         setMetrics(data.data.metrics);
         setRegionStatuses(data.data.regions);
         setVMSeriesStatuses(data.data.vmSeries);
         setAlerts(data.data.alerts);
+        setSparklineRange(data.data.sparkline);
         setLastUpdate(new Date(data.data.lastUpdated));
       } else {
         throw new Error(data.message || 'API returned error');
@@ -110,12 +160,8 @@ export default function AzureCapacityDashboard() {
     } catch (error) {
       console.error('Dashboard data loading failed:', error);
       
-      // 실패 시 모킹 데이터로 폴백
-      setMetrics(generateMockMetrics());
-      setRegionStatuses(generateMockRegionStatuses());
-      setVMSeriesStatuses(generateMockVMSeriesStatuses());
-      setAlerts(generateMockAlerts());
-      setLastUpdate(new Date());
+      // 실패 시 가짜 데이터로 채우지 않고 오류 표시
+      setError(error instanceof Error ? error.message : 'Unknown error');
     } finally {
       setLoading(false);
     }
@@ -168,7 +214,14 @@ export default function AzureCapacityDashboard() {
       {/* 헤더 */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold">Azure 용량 모니터링 대시보드</h1>
+          <h1 className="text-3xl font-bold flex items-center gap-3">
+            Azure 용량 모니터링 대시보드
+            {demo && (
+              <Badge variant="outline" className="border-amber-500 text-amber-600">
+                데모 데이터
+              </Badge>
+            )}
+          </h1>
           <p className="text-muted-foreground mt-2">
             실시간 GPU VM 가용성 모니터링 및 분석
           </p>
@@ -215,6 +268,26 @@ export default function AzureCapacityDashboard() {
         마지막 업데이트: {lastUpdate.toLocaleString('ko-KR')}
       </div>
 
+      {demo && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+          <AlertTriangle className="w-4 h-4" />
+          데모 모드(AZURE_CAPACITY_DEMO)로 생성된 값입니다. 실제 용량 측정 결과가 아닙니다.
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800">
+          <XCircle className="w-4 h-4" />
+          대시보드 데이터를 불러오지 못했습니다: {error}
+        </div>
+      )}
+
+      {!loading && !error && metrics?.totalRegions === 0 && (
+        <div className="rounded-md border p-3 text-sm text-muted-foreground">
+          아직 계산된 용량 스코어가 없습니다. 용량 체크 / Spot 워커 실행 후 스코어를 계산하세요.
+        </div>
+      )}
+
       {loading && !metrics ? (
         <div className="flex items-center justify-center py-12">
           <div className="text-center">
@@ -375,6 +448,11 @@ export default function AzureCapacityDashboard() {
                             </div>
                           </div>
                           
+                          <div className="flex items-center justify-between">
+                            <span className="text-xs text-muted-foreground">7일 추이</span>
+                            <Sparkline values={region.sparkline} />
+                          </div>
+                          
                           <div className="text-xs text-muted-foreground">
                             업데이트: {new Date(region.lastUpdated).toLocaleTimeString('ko-KR')}
                           </div>
@@ -410,9 +488,12 @@ export default function AzureCapacityDashboard() {
                         <CardContent className="space-y-4">
                           <div className="flex items-center justify-between">
                             <span className="text-sm font-medium">평균 스코어</span>
-                            <span className={`text-lg font-bold ${getHealthColor(series.avgScore)}`}>
-                              {series.avgScore}점
-                            </span>
+                            <div className="flex items-center gap-3">
+                              <Sparkline values={series.sparkline} />
+                              <span className={`text-lg font-bold ${getHealthColor(series.avgScore)}`}>
+                                {series.avgScore}점
+                              </span>
+                            </div>
                           </div>
                           
                           <div className="space-y-2">
@@ -547,14 +628,44 @@ export default function AzureCapacityDashboard() {
                     용량 트렌드 분석
                   </CardTitle>
                   <CardDescription>
-                    시간별 용량 변화 및 예측
+                    최근 7일 평균 스코어 변화 (점선: 75 / 40점 등급 경계)
                   </CardDescription>
                 </CardHeader>
-                <CardContent>
-                  <div className="text-center py-12 text-muted-foreground">
-                    <BarChart3 className="w-12 h-12 mx-auto mb-4" />
-                    <h3 className="text-lg font-medium mb-2">트렌드 차트 준비 중</h3>
-                    <p>시간별 용량 변화 차트가 곧 추가될 예정입니다.</p>
+                <CardContent className="space-y-6">
+                  {sparklineRange && (
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="text-sm font-medium">전체 평균</div>
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(sparklineRange.from).toLocaleDateString('ko-KR')} ~ {new Date(sparklineRange.to).toLocaleDateString('ko-KR')} · {sparklineRange.bucket} 버킷
+                        </div>
+                      </div>
+                      <Sparkline values={sparklineRange.overall} width={320} height={48} />
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                      <div className="text-sm font-medium">리전별</div>
+                      {regionStatuses.map((region) => (
+                        <div key={region.region} className="flex items-center justify-between text-sm">
+                          <span className="flex items-center gap-2">
+                            {getTrendIcon(region.trend)}
+                            {region.displayName}
+                          </span>
+                          <Sparkline values={region.sparkline} width={160} />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="space-y-2">
+                      <div className="text-sm font-medium">VM 시리즈별</div>
+                      {vmSeriesStatuses.map((series) => (
+                        <div key={series.series} className="flex items-center justify-between text-sm">
+                          <span>{series.displayName}</span>
+                          <Sparkline values={series.sparkline} width={160} />
+                        </div>
+                      ))}
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -566,99 +677,3 @@ export default function AzureCapacityDashboard() {
   );
 }
 
-// 모킹 데이터 생성 함수들
-function generateMockMetrics(): DashboardMetrics {
-  return {
-    totalRegions: 8,
-    totalVMTypes: 12,
-    overallHealthScore: Math.floor(Math.random() * 30 + 50), // 50-80 사이
-    activeAlerts: Math.floor(Math.random() * 5),
-    lastScanTime: new Date().toISOString(),
-    trendsLast24h: {
-      scoreChange: Math.floor(Math.random() * 10 - 5), // -5 ~ +5
-      newAlerts: Math.floor(Math.random() * 3),
-      resolvedAlerts: Math.floor(Math.random() * 5)
-    }
-  };
-}
-
-function generateMockRegionStatuses(): RegionStatus[] {
-  const regions = [
-    { region: 'eastus2', displayName: 'East US 2' },
-    { region: 'westus3', displayName: 'West US 3' },
-    { region: 'koreacentral', displayName: 'Korea Central' },
-    { region: 'japaneast', displayName: 'Japan East' },
-    { region: 'westeurope', displayName: 'West Europe' },
-    { region: 'australiacentral2', displayName: 'Australia Central 2' }
-  ];
-
-  return regions.map(r => {
-    const totalVMs = Math.floor(Math.random() * 10 + 5);
-    const availableVMs = Math.floor(Math.random() * totalVMs * 0.5);
-    const unavailableVMs = Math.floor(Math.random() * (totalVMs - availableVMs) * 0.3);
-    const limitedVMs = totalVMs - availableVMs - unavailableVMs;
-
-    return {
-      ...r,
-      totalVMs,
-      availableVMs,
-      limitedVMs,
-      unavailableVMs,
-      avgScore: Math.floor(Math.random() * 40 + 40), // 40-80
-      lastUpdated: new Date(Date.now() - Math.random() * 300000).toISOString(), // 최근 5분 내
-      trend: ['up', 'down', 'stable'][Math.floor(Math.random() * 3)] as 'up' | 'down' | 'stable'
-    };
-  });
-}
-
-function generateMockVMSeriesStatuses(): VMSeriesStatus[] {
-  const series = [
-    { series: 'NC_T4', displayName: 'NC T4 Series (Tesla T4)' },
-    { series: 'NC_A100', displayName: 'NC A100 Series (NVIDIA A100)' },
-    { series: 'ND_A100', displayName: 'ND A100 Series (NVIDIA A100)' },
-    { series: 'NV_v4', displayName: 'NV v4 Series (AMD Radeon Instinct MI25)' }
-  ];
-
-  return series.map(s => {
-    const totalInstances = Math.floor(Math.random() * 20 + 10);
-    const available = Math.floor(Math.random() * totalInstances * 0.4);
-    const unavailable = Math.floor(Math.random() * totalInstances * 0.2);
-    const limited = totalInstances - available - unavailable;
-
-    return {
-      ...s,
-      totalInstances,
-      avgScore: Math.floor(Math.random() * 40 + 35), // 35-75
-      distribution: {
-        available,
-        limited,
-        unavailable
-      },
-      topRegions: [
-        { region: 'eastus2', score: Math.floor(Math.random() * 20 + 70) },
-        { region: 'westus3', score: Math.floor(Math.random() * 20 + 60) },
-        { region: 'westeurope', score: Math.floor(Math.random() * 20 + 50) }
-      ].sort((a, b) => b.score - a.score)
-    };
-  });
-}
-
-function generateMockAlerts(): AlertItem[] {
-  const alertTemplates = [
-    { type: 'critical', message: 'Korea Central 리전에서 A100 시리즈 용량 부족 감지' },
-    { type: 'warning', message: 'Japan East 리전에서 T4 시리즈 성능 저하' },
-    { type: 'info', message: 'West Europe 리전에서 새로운 VM 타입 가용' },
-    { type: 'critical', message: 'Australia Central에서 모든 ND 시리즈 Unavailable' },
-    { type: 'warning', message: 'East US 2에서 Spot 가격 급등 감지' }
-  ];
-
-  const numAlerts = Math.floor(Math.random() * 4); // 0-3개 알림
-  return alertTemplates.slice(0, numAlerts).map((template, idx) => ({
-    id: `alert-${idx}`,
-    type: template.type as 'critical' | 'warning' | 'info',
-    message: template.message,
-    region: Math.random() > 0.5 ? ['eastus2', 'koreacentral', 'japaneast'][Math.floor(Math.random() * 3)] : undefined,
-    vmSize: Math.random() > 0.5 ? ['Standard_NC4as_T4_v3', 'Standard_NC24ads_A100_v4'][Math.floor(Math.random() * 2)] : undefined,
-    timestamp: new Date(Date.now() - Math.random() * 3600000).toISOString() // 최근 1시간 내
-  }));
-}
@@ -7,8 +7,10 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { ArrowLeft, Loader2, TrendingUp, TrendingDown, Minus, ExternalLink, RefreshCw, Home } from "lucide-react"
+import { ArrowLeft, Loader2, TrendingUp, TrendingDown, Minus, ExternalLink, Home } from "lucide-react"
 import Link from "next/link"
+import { PURCHASE_OPTIONS, PURCHASE_OPTION_LABELS, PurchaseOption, isPurchaseOption } from "@/lib/purchase-options"
+import { CurrencySelector, ExchangeRateInfo, TaxToggle, usePricingPreferences } from "@/components/pricing-preferences"
 
 interface InstanceSpecs {
   family: string
@@ -36,6 +38,9 @@ interface ComparisonInstance {
     pricePerVcpu: number
     pricePerRamGB: number
     currency: string
+    purchaseOption: PurchaseOption
+    onDemandPricePerHour?: number
+    savingsPercent?: number
   }
   performance: {
     totalGpuMemory: number
@@ -80,24 +85,13 @@ interface ComparisonResponse {
   }
 }
 
-interface ExchangeRateData {
-  success: boolean
-  from: string
-  to: string
-  rate: number
-  lastUpdated: string
-  source: string
-}
-
-type Currency = 'USD' | 'KRW'
-
-async function fetchComparison(instanceIds: string[]): Promise<ComparisonResponse> {
+async function fetchComparison(instanceIds: string[], purchaseOption: PurchaseOption): Promise<ComparisonResponse> {
   const response = await fetch('/api/instances/compare', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ instanceIds }),
+    body: JSON.stringify({ instanceIds, purchaseOption }),
   })
 
   if (!response.ok) {
@@ -107,16 +101,6 @@ async function fetchComparison(instanceIds: string[]): Promise<ComparisonRespons
   return response.json()
 }
 
-async function fetchExchangeRate(): Promise<ExchangeRateData> {
-  const response = await fetch('/api/exchange-rates')
-  
-  if (!response.ok) {
-    throw new Error('Failed to fetch exchange rate')
-  }
-  
-  return response.json()
-}
-
 export const dynamic = 'force-dynamic'
 
 function CompareContent() {
@@ -126,39 +110,19 @@ function CompareContent() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   
-  // 환율 관련 상태
-  const [selectedCurrency, setSelectedCurrency] = useState<Currency>('USD')
-  const [exchangeRate, setExchangeRate] = useState<ExchangeRateData | null>(null)
-  const [rateLoading, setRateLoading] = useState(false)
+  // 통화 / 환율 / 세금 표시 상태 (세션 설정 공유)
+  const pricingPreferences = usePricingPreferences()
+  const { formatPrice, displayCurrency, taxLabel } = pricingPreferences
 
   const instanceIdsParam = searchParams.get('ids')
   const instanceIds = instanceIdsParam?.split(',') || []
+  const purchaseOptionParam = searchParams.get('purchaseOption') || 'on_demand'
+  const purchaseOption: PurchaseOption = isPurchaseOption(purchaseOptionParam) ? purchaseOptionParam : 'on_demand'
 
-  // 환율 로드
-  useEffect(() => {
-    const loadExchangeRate = async () => {
-      try {
-        setRateLoading(true)
-        const rateData = await fetchExchangeRate()
-        setExchangeRate(rateData)
-      } catch (error) {
-        console.error('Failed to load exchange rate:', error)
-        // 환율 로드 실패 시 기본값 사용
-        setExchangeRate({
-          success: true,
-          from: 'USD',
-          to: 'KRW',
-          rate: 1300,
-          lastUpdated: new Date().toISOString(),
-          source: 'fallback'
-        })
-      } finally {
-        setRateLoading(false)
-      }
-    }
-
-    loadExchangeRate()
-  }, [])
+  // 구매 옵션 변경 시 URL 갱신 (공유 가능한 비교 링크 유지)
+  const handlePurchaseOptionChange = (value: PurchaseOption) => {
+    router.replace(`/instances/compare?ids=${instanceIdsParam || ''}&purchaseOption=${value}`)
+  }
 
   useEffect(() => {
     if (!instanceIdsParam) {
@@ -184,7 +148,7 @@ function CompareContent() {
         setLoading(true)
         setError(null)
         console.log('Fetching comparison for:', instanceIds)
-        const data = await fetchComparison(instanceIds)
+        const data = await fetchComparison(instanceIds, purchaseOption)
         console.log('Comparison data received:', data)
         setComparisonData(data)
       } catch (err) {
@@ -196,39 +160,19 @@ function CompareContent() {
     }
 
     loadComparison()
-  }, [instanceIdsParam]) // instanceIds 대신 instanceIdsParam 사용
+  }, [instanceIdsParam, purchaseOption]) // instanceIds 대신 instanceIdsParam 사용
 
   const getProviderColor = (provider: string) => {
     switch (provider) {
       case 'AWS': return 'bg-orange-100 text-orange-800'
       case 'AZURE': return 'bg-blue-100 text-blue-800'
       case 'GCP': return 'bg-green-100 text-green-800'
+      case 'OCI': return 'bg-rose-100 text-rose-800'
+      case 'ALIBABA': return 'bg-amber-100 text-amber-800'
       default: return 'bg-gray-100 text-gray-800'
     }
   }
 
-  const formatPrice = (price: number, currency: Currency = selectedCurrency) => {
-    if (currency === 'USD') {
-      return `$${price.toFixed(3)}`
-    } else {
-      // USD를 KRW로 변환
-      const krwPrice = exchangeRate ? price * exchangeRate.rate : price * 1300
-      return `₩${Math.round(krwPrice).toLocaleString()}`
-    }
-  }
-
-  const refreshExchangeRate = async () => {
-    try {
-      setRateLoading(true)
-      const rateData = await fetchExchangeRate()
-      setExchangeRate(rateData)
-    } catch (error) {
-      console.error('Failed to refresh exchange rate:', error)
-    } finally {
-      setRateLoading(false)
-    }
-  }
-
   const getInstanceDocumentationUrl = (provider: string, instanceName: string) => {
     switch (provider.toLowerCase()) {
       case 'aws':
@@ -247,6 +191,10 @@ function CompareContent() {
           return 'https://cloud.google.com/compute/docs/accelerator-optimized-machines#g2_vms'
         }
         return 'https://cloud.google.com/compute/docs/accelerator-optimized-machines'
+      case 'oci':
+        return 'https://docs.oracle.com/en-us/iaas/Content/Compute/References/computeshapes.htm#gpu-shapes'
+      case 'alibaba':
+        return 'https://www.alibabacloud.com/help/en/ecs/user-guide/gpu-accelerated-compute-optimized-and-vgpu-accelerated-instance-families-1'
       default:
         return '#'
     }
@@ -318,20 +266,25 @@ function CompareContent() {
             </div>
           </div>
           
-          {/* 통화 선택 및 홈 버튼 */}
+          {/* 구매 옵션/통화 선택 및 홈 버튼 */}
           <div className="flex items-center space-x-3">
             <div className="flex items-center space-x-2">
-              <label className="text-sm font-medium">통화:</label>
-              <Select value={selectedCurrency} onValueChange={(value: Currency) => setSelectedCurrency(value)}>
-                <SelectTrigger className="w-24">
+              <label className="text-sm font-medium">구매 옵션:</label>
+              <Select value={purchaseOption} onValueChange={(value: PurchaseOption) => handlePurchaseOptionChange(value)}>
+                <SelectTrigger className="w-40">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="USD">USD</SelectItem>
-                  <SelectItem value="KRW">KRW</SelectItem>
+                  {PURCHASE_OPTIONS.map(option => (
+                    <SelectItem key={option} value={option}>{PURCHASE_OPTION_LABELS[option]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
+            <div className="flex items-center space-x-2">
+              <label className="text-sm font-medium">통화:</label>
+              <CurrencySelector state={pricingPreferences} className="w-32" />
+            </div>
             <Button asChild variant="outline">
               <Link href="/">
                 <Home className="w-4 h-4 mr-2" />
@@ -341,37 +294,11 @@ function CompareContent() {
           </div>
         </div>
 
+        {/* 구매자 국가 / 세금 표시 */}
+        <TaxToggle state={pricingPreferences} />
+
         {/* 환율 정보 */}
-        {selectedCurrency === 'KRW' && exchangeRate && (
-          <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                <span className="text-sm text-blue-800">
-                  환율: 1 USD = ₩{Math.round(exchangeRate.rate).toLocaleString()} KRW
-                </span>
-                <Badge variant="outline" className="text-xs">
-                  {exchangeRate.source === 'api' ? '실시간' : '기본값'}
-                </Badge>
-              </div>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={refreshExchangeRate}
-                disabled={rateLoading}
-                className="text-blue-600 hover:text-blue-700"
-              >
-                {rateLoading ? (
-                  <RefreshCw className="h-3 w-3 animate-spin" />
-                ) : (
-                  <RefreshCw className="h-3 w-3" />
-                )}
-              </Button>
-            </div>
-            <div className="text-xs text-blue-600 mt-1">
-              마지막 업데이트: {new Date(exchangeRate.lastUpdated).toLocaleString('ko-KR')}
-            </div>
-          </div>
-        )}
+        <ExchangeRateInfo state={pricingPreferences} className="" />
 
         {/* 요약 정보 */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -383,7 +310,7 @@ function CompareContent() {
               <div className="text-2xl font-bold">
                 {formatPrice(analysis.summary.priceRange.min)} - {formatPrice(analysis.summary.priceRange.max)}
               </div>
-              <p className="text-xs text-muted-foreground">시간당 ({selectedCurrency})</p>
+              <p className="text-xs text-muted-foreground">시간당 ({displayCurrency}{taxLabel ? `, ${taxLabel}` : ''})</p>
             </CardContent>
           </Card>
 
@@ -514,7 +441,7 @@ function CompareContent() {
 
                   {/* 가격 정보 */}
                   <TableRow className="bg-muted/50">
-                    <TableCell className="font-medium">시간당 가격</TableCell>
+                    <TableCell className="font-medium">시간당 가격 ({PURCHASE_OPTION_LABELS[purchaseOption]})</TableCell>
                     {instances.map((instance) => (
                       <TableCell key={instance.id} className="text-center">
                         <div className="flex items-center justify-center space-x-2">
@@ -530,6 +457,28 @@ function CompareContent() {
                     ))}
                   </TableRow>
 
+                  {purchaseOption !== 'on_demand' && (
+                    <TableRow className="bg-muted/50">
+                      <TableCell className="font-medium">온디맨드 대비</TableCell>
+                      {instances.map((instance) => (
+                        <TableCell key={instance.id} className="text-center">
+                          {instance.pricing.onDemandPricePerHour ? (
+                            <div className="space-y-1">
+                              <div className="font-mono text-green-600">
+                                {instance.pricing.savingsPercent?.toFixed(1)}% 절감
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                온디맨드 {formatPrice(instance.pricing.onDemandPricePerHour)}/h
+                              </div>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">온디맨드 가격 없음</span>
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  )}
+
                   <TableRow className="bg-muted/50">
                     <TableCell className="font-medium">GPU당 가격</TableCell>
                     {instances.map((instance) => (
@@ -227,6 +227,8 @@ export default function InstancesPage() {
       case 'AWS': return 'bg-orange-100 text-orange-800'
       case 'AZURE': return 'bg-blue-100 text-blue-800'
       case 'GCP': return 'bg-green-100 text-green-800'
+      case 'OCI': return 'bg-rose-100 text-rose-800'
+      case 'ALIBABA': return 'bg-amber-100 text-amber-800'
       default: return 'bg-gray-100 text-gray-800'
     }
   }
@@ -259,6 +261,10 @@ export default function InstancesPage() {
           return 'https://cloud.google.com/compute/docs/accelerator-optimized-machines#g2_vms'
         }
         return 'https://cloud.google.com/compute/docs/accelerator-optimized-machines'
+      case 'oci':
+        return 'https://docs.oracle.com/en-us/iaas/Content/Compute/References/computeshapes.htm#gpu-shapes'
+      case 'alibaba':
+        return 'https://www.alibabacloud.com/help/en/ecs/user-guide/gpu-accelerated-compute-optimized-and-vgpu-accelerated-instance-families-1'
       default:
         return '#'
     }
@@ -9,8 +9,10 @@ import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { SimpleSelect, SimpleSelectItem } from "@/components/ui/simple-select"
 import { Input } from "@/components/ui/input"
-import { Search, Filter, ArrowUpDown, ExternalLink, Loader2, RefreshCw, CheckCircle, AlertTriangle, XCircle, Home, Lightbulb } from "lucide-react"
+import { Search, Filter, ArrowUpDown, ExternalLink, Loader2, CheckCircle, AlertTriangle, XCircle, Home, Lightbulb } from "lucide-react"
 import Link from "next/link"
+import { PURCHASE_OPTIONS, PURCHASE_OPTION_LABELS, PurchaseOption } from "@/lib/purchase-options"
+import { CurrencySelector, ExchangeRateInfo, TaxToggle, usePricingPreferences } from "@/components/pricing-preferences"
 
 interface InstanceSpecs {
   family: string
@@ -36,6 +38,17 @@ interface InstanceData {
   pricePerGpu: number
   currency: string
   lastUpdated: string
+  capacity?: CapacityScoreData | null // 용량 신호를 수집하는 프로바이더 행에만 서버가 첨부 (없으면 null)
+  converted?: ConvertedPrice // 표시 통화가 원 통화와 다를 때 서버가 가격 기준일 환율로 환산
+}
+
+interface ConvertedPrice {
+  currency: string
+  pricePerHour: number
+  pricePerGpu: number
+  rate: number
+  rateDate: string
+  method: 'exact' | 'prior' | 'interpolated' | 'next' | 'current'
 }
 
 interface CapacityScoreData {
@@ -61,23 +74,17 @@ interface ApiResponse {
     providers: string[]
     regions: string[]
     gpuModels: string[]
+    capacityProviders: string[] // 용량 신호를 수집하는 프로바이더
   }
   meta: {
     currency: string
+    displayCurrency: string
+    fxError: string | null
     lastUpdated: string
     apiVersion: string
   }
 }
 
-interface ExchangeRateData {
-  success: boolean
-  from: string
-  to: string
-  rate: number
-  lastUpdated: string
-  source: string
-}
-
 // GPUaaS 타입 정의
 // (GPUaaS는 서버에서 병합됨)
 
@@ -85,11 +92,14 @@ async function fetchInstances(params: {
   provider?: string
   region?: string
   gpuModel?: string
+  purchaseOption?: string
   sortBy?: string
   sortDirection?: string
   page?: number
   limit?: number
   search?: string
+  availability?: string
+  currency?: string
 }): Promise<ApiResponse> {
   const searchParams = new URLSearchParams()
   
@@ -108,35 +118,8 @@ async function fetchInstances(params: {
   return response.json()
 }
 
-async function fetchExchangeRate(): Promise<ExchangeRateData> {
-  const response = await fetch('/api/exchange-rates')
-  
-  if (!response.ok) {
-    throw new Error('Failed to fetch exchange rate')
-  }
-  
-  return response.json()
-}
-
-async function fetchCapacityScores(): Promise<CapacityScoreData[]> {
-  try {
-    const response = await fetch('/api/azure/capacity-scores?limit=50')
-    
-    if (!response.ok) {
-      throw new Error('Failed to fetch capacity scores')
-    }
-    
-    const data = await response.json()
-    return data.success ? data.data.scores : []
-  } catch (error) {
-    console.error('Failed to fetch capacity scores:', error)
-    return []
-  }
-}
-
 type SortField = 'pricePerHour' | 'pricePerGpu' | 'gpuCount' | 'vcpu' | 'ramGB'
 type SortDirection = 'asc' | 'desc'
-type Currency = 'USD' | 'KRW'
 
 export default function InstancesPage() {
   const router = useRouter()
@@ -148,19 +131,15 @@ export default function InstancesPage() {
   const [selectedRegion, setSelectedRegion] = useState<string>('all')
   const [selectedGpuModel, setSelectedGpuModel] = useState<string>('all')
   const [selectedAvailability, setSelectedAvailability] = useState<string>('all')
+  const [selectedPurchaseOption, setSelectedPurchaseOption] = useState<PurchaseOption>('on_demand')
   const [sortField, setSortField] = useState<SortField>('pricePerGpu')
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc')
   const [selectedInstances, setSelectedInstances] = useState<string[]>([])
   const [currentPage, setCurrentPage] = useState(1)
   
-  // 환율 관련 상태
-  const [selectedCurrency, setSelectedCurrency] = useState<Currency>('USD')
-  const [exchangeRate, setExchangeRate] = useState<ExchangeRateData | null>(null)
-  const [rateLoading, setRateLoading] = useState(false)
-  
-  // 용량 스코어 관련 상태
-  const [capacityScores, setCapacityScores] = useState<CapacityScoreData[]>([])
-  const [scoresLoading, setScoresLoading] = useState(false)
+  // 통화 / 환율 상태
+  const pricingPreferences = usePricingPreferences()
+  const { currency, displayCurrency, exchangeRate, formatAmount, taxLabel, loaded: preferencesLoaded } = pricingPreferences
 
   // (GPUaaS 클라이언트 상태 제거)
 
@@ -168,52 +147,10 @@ export default function InstancesPage() {
   const providers = apiData?.filters.providers || []
   const regions = apiData?.filters.regions || []
   const gpuModels = apiData?.filters.gpuModels || []
+  const capacityProviders = apiData?.filters.capacityProviders || []
   const allInstances = apiData?.instances || []
   const pagination = apiData?.pagination
 
-  // 환율 로드
-  useEffect(() => {
-    const loadExchangeRate = async () => {
-      try {
-        setRateLoading(true)
-        const rateData = await fetchExchangeRate()
-        setExchangeRate(rateData)
-      } catch (error) {
-        console.error('Failed to load exchange rate:', error)
-        // 환율 로드 실패 시 기본값 사용
-        setExchangeRate({
-          success: true,
-          from: 'USD',
-          to: 'KRW',
-          rate: 1300,
-          lastUpdated: new Date().toISOString(),
-          source: 'fallback'
-        })
-      } finally {
-        setRateLoading(false)
-      }
-    }
-
-    loadExchangeRate()
-  }, [])
-
-  // 용량 스코어 로드
-  useEffect(() => {
-    const loadCapacityScores = async () => {
-      try {
-        setScoresLoading(true)
-        const scores = await fetchCapacityScores()
-        setCapacityScores(scores)
-      } catch (error) {
-        console.error('Failed to load capacity scores:', error)
-      } finally {
-        setScoresLoading(false)
-      }
-    }
-
-    loadCapacityScores()
-  }, [])
-
   // (GPUaaS 클라이언트 로드 제거)
 
   // API 데이터 로드
@@ -227,11 +164,14 @@ export default function InstancesPage() {
           provider: selectedProvider,
           region: selectedRegion,
           gpuModel: selectedGpuModel,
+          purchaseOption: selectedPurchaseOption,
           sortBy: sortField,
           sortDirection: sortDirection,
           page: currentPage,
           limit: 20,
-          search: searchTerm
+          search: searchTerm,
+          availability: selectedAvailability,
+          currency
         })
         
         setApiData(data)
@@ -242,8 +182,11 @@ export default function InstancesPage() {
       }
     }
 
-    loadInstances()
-  }, [selectedProvider, selectedRegion, selectedGpuModel, sortField, sortDirection, currentPage, searchTerm])
+    // 세션 설정(표시 통화)을 읽은 뒤에 한 번만 조회
+    if (preferencesLoaded) {
+      loadInstances()
+    }
+  }, [selectedProvider, selectedRegion, selectedGpuModel, selectedPurchaseOption, sortField, sortDirection, currentPage, searchTerm, selectedAvailability, currency, preferencesLoaded])
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -275,7 +218,7 @@ export default function InstancesPage() {
     }
 
     const queryString = selectedInstances.join(',')
-    router.push(`/instances/compare?ids=${queryString}`)
+    router.push(`/instances/compare?ids=${queryString}&purchaseOption=${selectedPurchaseOption}`)
   }
 
   const getProviderColor = (provider: string) => {
@@ -283,6 +226,8 @@ export default function InstancesPage() {
       case 'AWS': return 'bg-orange-100 text-orange-800'
       case 'AZURE': return 'bg-blue-100 text-blue-800'
       case 'GCP': return 'bg-green-100 text-green-800'
+      case 'OCI': return 'bg-rose-100 text-rose-800'
+      case 'ALIBABA': return 'bg-amber-100 text-amber-800'
       case 'Lambda': return 'bg-purple-100 text-purple-800'
       case 'RunPod': return 'bg-red-100 text-red-800'
       case 'Vast.ai': return 'bg-yellow-100 text-yellow-800'
@@ -292,16 +237,6 @@ export default function InstancesPage() {
     }
   }
 
-  const formatPrice = (price: number, currency: Currency = selectedCurrency) => {
-    if (currency === 'USD') {
-      return `$${price.toFixed(3)}`
-    } else {
-      // USD를 KRW로 변환
-      const krwPrice = exchangeRate ? price * exchangeRate.rate : price * 1300
-      return `₩${Math.round(krwPrice).toLocaleString()}`
-    }
-  }
-
   const getInstanceDocumentationUrl = (provider: string, instanceName: string, region: string) => {
     switch (provider.toLowerCase()) {
       case 'aws':
@@ -320,6 +255,10 @@ export default function InstancesPage() {
           return 'https://cloud.google.com/compute/docs/accelerator-optimized-machines#g2_vms'
         }
         return 'https://cloud.google.com/compute/docs/accelerator-optimized-machines'
+      case 'oci':
+        return 'https://docs.oracle.com/en-us/iaas/Content/Compute/References/computeshapes.htm#gpu-shapes'
+      case 'alibaba':
+        return 'https://www.alibabacloud.com/help/en/ecs/user-guide/gpu-accelerated-compute-optimized-and-vgpu-accelerated-instance-families-1'
       default:
         return '#'
     }
@@ -332,69 +271,32 @@ export default function InstancesPage() {
     }
   }
 
-  const refreshExchangeRate = async () => {
-    try {
-      setRateLoading(true)
-      const rateData = await fetchExchangeRate()
-      setExchangeRate(rateData)
-    } catch (error) {
-      console.error('Failed to refresh exchange rate:', error)
-    } finally {
-      setRateLoading(false)
-    }
-  }
+  // 가격 기준일 환율로 환산된 가격 (환산 값이 없으면 원 통화 그대로) + 세금 설정 적용
+  const formatPrice = (instance: InstanceData, field: 'pricePerHour' | 'pricePerGpu') =>
+    instance.converted ?
+      formatAmount(instance.converted[field], instance.converted.currency) :
+      formatAmount(instance[field], instance.currency)
 
-  // Azure 인스턴스의 용량 스코어 찾기
-  const getCapacityScore = (instance: InstanceData): CapacityScoreData | null => {
-    if (instance.provider !== 'AZURE') return null
-    
-    // 리전명은 이미 Azure 형식으로 오므로 그대로 사용
-    const azureRegion = instance.region.toLowerCase()
-    
-    // VM 크기는 이미 Standard_ 형식으로 오므로 그대로 사용
-    const vmSize = instance.instanceName
-    
-    
-    return capacityScores.find(score => 
-      score.region === azureRegion && score.vmSize === vmSize
-    ) || null
-  }
+  const fxTooltip = (instance: InstanceData) =>
+    instance.converted ? `${instance.converted.rateDate} 환율 적용 (1 ${instance.currency} = ${instance.converted.rate.toFixed(4)} ${instance.converted.currency})` : undefined
 
-  // Availability 필터링된 인스턴스
-  const instances = allInstances.filter(instance => {
-    if (selectedAvailability === 'all') return true
-    
-    const score = getCapacityScore(instance)
-    
-    // Azure가 아닌 경우
-    if (instance.provider !== 'AZURE') {
-      return selectedAvailability === 'na' // N/A 필터
-    }
-    
-    // 스코어가 없는 경우
-    if (!score) {
-      return selectedAvailability === 'unknown' // 미확인 필터
-    }
-    
-    // 스코어 기반 필터링
-    switch (selectedAvailability) {
-      case 'available':
-        return score.label === 'AVAILABLE'
-      case 'limited':
-        return score.label === 'LIMITED'
-      case 'unavailable':
-        return score.label === 'UNAVAILABLE'
-      default:
-        return true
-    }
-  })
+  // 용량 신호를 수집하는 프로바이더 (그 외는 N/A)
+  const hasCapacitySignals = (instance: InstanceData) =>
+    capacityProviders.includes(instance.provider)
+
+  // 인스턴스의 용량 스코어 (/api/instances 응답에 포함)
+  const getCapacityScore = (instance: InstanceData): CapacityScoreData | null =>
+    instance.capacity || null
+
+  // Availability 필터는 서버에서 페이지네이션 전에 적용
+  const instances = allInstances
 
   // Availability 뱃지 렌더링
   const renderAvailabilityBadge = (instance: InstanceData) => {
     const score = getCapacityScore(instance)
     
-    // Azure가 아닌 경우 기본 표시
-    if (instance.provider !== 'AZURE') {
+    // 용량 신호가 없는 프로바이더는 기본 표시
+    if (!hasCapacitySignals(instance)) {
       return (
         <Badge variant="outline" className="text-xs">
           <div className="w-2 h-2 bg-gray-400 rounded-full mr-1"></div>
@@ -476,7 +378,7 @@ export default function InstancesPage() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-7 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-8 gap-4">
               <div className="space-y-2">
                 <label className="text-sm font-medium">검색</label>
                 <div className="relative">
@@ -532,6 +434,19 @@ export default function InstancesPage() {
                 </SimpleSelect>
               </div>
 
+              <div className="space-y-2">
+                <label className="text-sm font-medium">구매 옵션</label>
+                <SimpleSelect 
+                  value={selectedPurchaseOption} 
+                  onValueChange={(value) => { setSelectedPurchaseOption(value as PurchaseOption); setSelectedInstances([]); setCurrentPage(1); }}
+                  placeholder="구매 옵션 선택"
+                >
+                  {PURCHASE_OPTIONS.map(option => (
+                    <SimpleSelectItem key={option} value={option}>{PURCHASE_OPTION_LABELS[option]}</SimpleSelectItem>
+                  ))}
+                </SimpleSelect>
+              </div>
+
               <div className="space-y-2">
                 <label className="text-sm font-medium">Availability</label>
                 <SimpleSelect 
@@ -543,21 +458,14 @@ export default function InstancesPage() {
                   <SimpleSelectItem value="available">🟢 Available</SimpleSelectItem>
                   <SimpleSelectItem value="limited">🟡 Limited</SimpleSelectItem>
                   <SimpleSelectItem value="unavailable">🔴 Unavailable</SimpleSelectItem>
-                  <SimpleSelectItem value="na">⚪ N/A (Non-Azure)</SimpleSelectItem>
+                  <SimpleSelectItem value="na">⚪ N/A (용량 신호 미수집)</SimpleSelectItem>
                   <SimpleSelectItem value="unknown">❓ 미확인</SimpleSelectItem>
                 </SimpleSelect>
               </div>
 
               <div className="space-y-2">
                 <label className="text-sm font-medium">통화</label>
-                <SimpleSelect 
-                  value={selectedCurrency} 
-                  onValueChange={(value) => setSelectedCurrency(value as Currency)}
-                  placeholder="통화 선택"
-                >
-                  <SimpleSelectItem value="USD">USD ($)</SimpleSelectItem>
-                  <SimpleSelectItem value="KRW">KRW (₩)</SimpleSelectItem>
-                </SimpleSelect>
+                <CurrencySelector state={pricingPreferences} />
               </div>
 
               <div className="space-y-2">
@@ -582,37 +490,11 @@ export default function InstancesPage() {
               </div>
             </div>
 
+            {/* 구매자 국가 / 세금 표시 */}
+            <TaxToggle state={pricingPreferences} className="mt-4" />
+
             {/* 환율 정보 */}
-            {selectedCurrency === 'KRW' && exchangeRate && (
-              <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm text-blue-800">
-                      환율: 1 USD = ₩{Math.round(exchangeRate.rate).toLocaleString()} KRW
-                    </span>
-                    <Badge variant="outline" className="text-xs">
-                      {exchangeRate.source === 'api' ? '실시간' : '기본값'}
-                    </Badge>
-                  </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={refreshExchangeRate}
-                    disabled={rateLoading}
-                    className="text-blue-600 hover:text-blue-700"
-                  >
-                    {rateLoading ? (
-                      <RefreshCw className="h-3 w-3 animate-spin" />
-                    ) : (
-                      <RefreshCw className="h-3 w-3" />
-                    )}
-                  </Button>
-                </div>
-                <div className="text-xs text-blue-600 mt-1">
-                  마지막 업데이트: {new Date(exchangeRate.lastUpdated).toLocaleString('ko-KR')}
-                </div>
-              </div>
-            )}
+            <ExchangeRateInfo state={pricingPreferences} />
           </CardContent>
         </Card>
 
@@ -718,7 +600,6 @@ export default function InstancesPage() {
                       <div className="flex items-center justify-center gap-1">
                         <div className="w-2 h-2 bg-green-500 rounded-full"></div>
                         Availability
-                        {scoresLoading && <RefreshCw className="h-3 w-3 animate-spin ml-1" />}
                       </div>
                     </TableHead>
                     <TableHead className="text-center">특성</TableHead>
@@ -762,11 +643,11 @@ export default function InstancesPage() {
                           <div className="text-muted-foreground">{instance.specs.ramGB}GB RAM</div>
                         </div>
                       </TableCell>
-                      <TableCell className="text-right font-mono">
-                        {formatPrice(instance.pricePerHour)}/h
+                      <TableCell className="text-right font-mono" title={fxTooltip(instance)}>
+                        {formatPrice(instance, 'pricePerHour')}/h
                       </TableCell>
-                      <TableCell className="text-right font-mono font-bold">
-                        {formatPrice(instance.pricePerGpu)}/GPU·h
+                      <TableCell className="text-right font-mono font-bold" title={fxTooltip(instance)}>
+                        {formatPrice(instance, 'pricePerGpu')}/GPU·h
                       </TableCell>
                       {/* GPUaaS 전용 셀 제거 */}
                       <TableCell className="text-center">
@@ -892,12 +773,18 @@ export default function InstancesPage() {
                   <span>🔴 Unavailable (39점 이하): 사용 어려움</span>
                 </div>
               </div>
-              <p>※ Availability는 Azure 실시간 용량 모니터링 기반 (용량 체크 + Spot 신호 종합 스코어)</p>
+              <p>※ Availability는 Azure(용량 체크 + Spot 신호) / AWS(Spot 배치 점수 + ODCR dry-run) 용량 모니터링 기반 종합 스코어</p>
               {apiData?.meta && (
                 <p>※ 마지막 업데이트: {new Date(apiData.meta.lastUpdated).toLocaleString('ko-KR')}</p>
               )}
-              {selectedCurrency === 'KRW' && exchangeRate && (
-                <p>※ 환율 정보: {exchangeRate.source === 'api' ? '실시간 API' : '기본값'} 기준</p>
+              {displayCurrency !== 'USD' && exchangeRate && (
+                <p>※ 환율 정보: 각 가격의 기준일에 유효했던 환율 적용 (오늘 기준 가격은 {exchangeRate.source === 'persisted' ? `저장된 환율 (${exchangeRate.rateDate})` : '실시간 API'})</p>
+              )}
+              {taxLabel && (
+                <p>※ 가격은 세전 가격에 {taxLabel} (구매자 국가 기준, 설정은 모든 가격 페이지에 공통 적용)</p>
+              )}
+              {apiData?.meta.fxError && (
+                <p className="text-red-600">※ {apiData.meta.fxError} USD로 표시합니다.</p>
               )}
             </div>
           </>
@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { SimpleSelect, SimpleSelectItem } from "@/components/ui/simple-select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CurrencySelector, ExchangeRateInfo, usePricingPreferences } from "@/components/pricing-preferences"
 import { ArrowRight, BarChart3, Database, Settings, Zap, Search, Filter, RefreshCw, ExternalLink, CheckCircle, AlertTriangle, XCircle } from "lucide-react"
 
 interface InstanceSpecs {
@@ -33,12 +34,13 @@ interface InstanceData {
   pricePerGpu: number
   currency: string
   lastUpdated: string
+  capacity?: CapacityScoreData | null // 용량 신호를 수집하는 프로바이더 행에만 첨부
 }
 
 interface ApiResponse {
   instances: InstanceData[]
   pagination: { page: number; limit: number; total: number; totalPages: number; hasNext: boolean; hasPrev: boolean }
-  filters: { providers: string[]; regions: string[]; gpuModels: string[]; countries: string[] }
+  filters: { providers: string[]; regions: string[]; gpuModels: string[]; countries: string[]; capacityProviders: string[] }
   meta: { currency: string; lastUpdated: string; apiVersion: string }
 }
 
@@ -51,7 +53,7 @@ interface CapacityScoreData {
   calculatedAt: string
 }
 
-async function fetchInstances(params: Partial<{ provider: string; region: string; country: string; gpuModel: string; sortBy: string; sortDirection: string; page: number; limit: number; search: string }>): Promise<ApiResponse> {
+async function fetchInstances(params: Partial<{ provider: string; region: string; country: string; gpuModel: string; sortBy: string; sortDirection: string; page: number; limit: number; search: string; availability: string }>): Promise<ApiResponse> {
   const searchParams = new URLSearchParams()
   Object.entries(params).forEach(([k, v]) => { if (v !== undefined && v !== 'all') searchParams.append(k, String(v)) })
   const res = await fetch(`/api/instances?${searchParams.toString()}`)
@@ -59,17 +61,6 @@ async function fetchInstances(params: Partial<{ provider: string; region: string
   return res.json()
 }
 
-async function fetchCapacityScores(): Promise<CapacityScoreData[]> {
-  try {
-    const response = await fetch('/api/azure/capacity-scores?limit=50')
-    if (!response.ok) throw new Error('Failed to fetch capacity scores')
-    const data = await response.json()
-    return data.success ? data.data.scores : []
-  } catch {
-    return []
-  }
-}
-
 export default function Home() {
   const [keyword, setKeyword] = useState("")
   const [region, setRegion] = useState("all")
@@ -80,32 +71,15 @@ export default function Home() {
   const [results, setResults] = useState<InstanceData[]>([])
   const [regions, setRegions] = useState<string[]>([])
   const [countries, setCountries] = useState<string[]>([])
-  const [scores, setScores] = useState<CapacityScoreData[]>([])
+  const [capacityProviders, setCapacityProviders] = useState<string[]>([])
+  const pricingPreferences = usePricingPreferences()
+  const { formatPrice, displayCurrency, taxLabel } = pricingPreferences
 
   useEffect(() => {
-    fetchInstances({ limit: 1 }).then((d) => { setRegions(d.filters.regions); (d as any).filters?.countries && setCountries((d as any).filters.countries) }).catch(() => {})
-    fetchCapacityScores().then(setScores).catch(() => {})
+    fetchInstances({ limit: 1 }).then((d) => { setRegions(d.filters.regions); (d as any).filters?.countries && setCountries((d as any).filters.countries); setCapacityProviders(d.filters.capacityProviders || []) }).catch(() => {})
   }, [])
 
-  const getCapacity = (inst: InstanceData): CapacityScoreData | null => {
-    if (inst.provider !== 'AZURE') return null
-    const r = inst.region.toLowerCase()
-    const v = inst.instanceName
-    return scores.find(s => s.region === r && s.vmSize === v) || null
-  }
-
-  const filteredByAvailability = (list: InstanceData[]) => {
-    if (availability === 'all') return list
-    return list.filter((i) => {
-      const s = getCapacity(i)
-      if (i.provider !== 'AZURE') return availability === 'na'
-      if (!s) return availability === 'unknown'
-      if (availability === 'available') return s.label === 'AVAILABLE'
-      if (availability === 'limited') return s.label === 'LIMITED'
-      if (availability === 'unavailable') return s.label === 'UNAVAILABLE'
-      return true
-    })
-  }
+  const getCapacity = (inst: InstanceData): CapacityScoreData | null => inst.capacity || null
 
   const search = async () => {
     try {
@@ -113,6 +87,7 @@ export default function Home() {
       const data = await fetchInstances({
         country: country,
         search: keyword.trim() || undefined,
+        availability: availability,
         sortBy: 'pricePerGpu',
         sortDirection: 'asc',
         limit: 100
@@ -122,7 +97,6 @@ export default function Home() {
         const threshold = parseFloat(maxPrice)
         if (!Number.isNaN(threshold)) list = list.filter(i => i.pricePerHour <= threshold)
       }
-      list = filteredByAvailability(list)
       setResults(list)
     } finally {
       setLoading(false)
@@ -172,7 +146,7 @@ export default function Home() {
                     <SimpleSelectItem value="available">🟢 Available</SimpleSelectItem>
                     <SimpleSelectItem value="limited">🟡 Limited</SimpleSelectItem>
                     <SimpleSelectItem value="unavailable">🔴 Unavailable</SimpleSelectItem>
-                    <SimpleSelectItem value="na">⚪ N/A (Non-Azure)</SimpleSelectItem>
+                    <SimpleSelectItem value="na">⚪ N/A (용량 신호 미수집)</SimpleSelectItem>
                     <SimpleSelectItem value="unknown">❓ 미확인</SimpleSelectItem>
                   </SimpleSelect>
                 </div>
@@ -191,7 +165,14 @@ export default function Home() {
         {results.length > 0 && (
           <Card className="w-full">
             <CardHeader>
-              <CardTitle>검색 결과 ({results.length}개)</CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle>
+                  검색 결과 ({results.length}개)
+                  {taxLabel && <span className="ml-2 text-xs font-normal text-muted-foreground">{taxLabel}</span>}
+                </CardTitle>
+                <CurrencySelector state={pricingPreferences} className="w-32" />
+              </div>
+              <ExchangeRateInfo state={pricingPreferences} className="mt-2" />
             </CardHeader>
             <CardContent className="p-0">
               <div className="overflow-auto">
@@ -202,8 +183,8 @@ export default function Home() {
                       <TableHead>리전</TableHead>
                       <TableHead>인스턴스</TableHead>
                       <TableHead>GPU</TableHead>
-                      <TableHead className="text-right">$/h</TableHead>
-                      <TableHead className="text-right">$/GPU·h</TableHead>
+                      <TableHead className="text-right">{displayCurrency}/h</TableHead>
+                      <TableHead className="text-right">{displayCurrency}/GPU·h</TableHead>
                       <TableHead className="text-center">Availability</TableHead>
                       <TableHead className="w-12"></TableHead>
                     </TableRow>
@@ -222,10 +203,10 @@ export default function Home() {
                               <div className="text-xs text-muted-foreground">{i.specs.gpuCount}x {i.specs.gpuMemoryGB}GB</div>
                             </div>
                           </TableCell>
-                          <TableCell className="text-right font-mono">${i.pricePerHour.toFixed(3)}</TableCell>
-                          <TableCell className="text-right font-mono font-bold">${i.pricePerGpu.toFixed(3)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatPrice(i.pricePerHour)}</TableCell>
+                          <TableCell className="text-right font-mono font-bold">{formatPrice(i.pricePerGpu)}</TableCell>
                           <TableCell className="text-center">
-                            {i.provider !== 'AZURE' ? (
+                            {!capacityProviders.includes(i.provider) ? (
                               <Badge variant="outline" className="text-xs"><div className="w-2 h-2 bg-gray-400 rounded-full mr-1 inline-block"></div>N/A</Badge>
                             ) : !score ? (
                               <Badge variant="outline" className="text-xs"><div className="w-2 h-2 bg-gray-400 rounded-full mr-1 inline-block"></div>미확인</Badge>
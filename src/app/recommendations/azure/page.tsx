@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CurrencySelector, ExchangeRateInfo, TaxToggle, usePricingPreferences } from '@/components/pricing-preferences';
 import { 
   AlertTriangle, 
   ArrowRight, 
@@ -89,6 +90,8 @@ function PageContent() {
   const [recommendations, setRecommendations] = useState<RecommendationResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const pricingPreferences = usePricingPreferences();
+  const { formatPrice } = pricingPreferences;
 
   // URL 파라미터로부터 초기값 설정
   useEffect(() => {
@@ -334,15 +337,20 @@ function PageContent() {
                   <Star className="w-5 h-5 mr-2" />
                   추천 요약
                 </span>
-                <Badge 
-                  className={`${getRecommendationStrengthColor(recommendations.summary.recommendationStrength)}`}
-                  variant="outline"
-                >
-                  {recommendations.summary.recommendationStrength === 'strong' && '강한 추천'}
-                  {recommendations.summary.recommendationStrength === 'moderate' && '보통 추천'}
-                  {recommendations.summary.recommendationStrength === 'weak' && '약한 추천'}
-                </Badge>
+                <span className="flex items-center gap-2">
+                  <CurrencySelector state={pricingPreferences} className="w-32 font-normal" />
+                  <Badge 
+                    className={`${getRecommendationStrengthColor(recommendations.summary.recommendationStrength)}`}
+                    variant="outline"
+                  >
+                    {recommendations.summary.recommendationStrength === 'strong' && '강한 추천'}
+                    {recommendations.summary.recommendationStrength === 'moderate' && '보통 추천'}
+                    {recommendations.summary.recommendationStrength === 'weak' && '약한 추천'}
+                  </Badge>
+                </span>
               </CardTitle>
+              <TaxToggle state={pricingPreferences} className="mt-2" />
+              <ExchangeRateInfo state={pricingPreferences} className="mt-2" />
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -452,7 +460,7 @@ function PageContent() {
                                 <div className="flex items-center">
                                   <DollarSign className="w-3 h-3 mr-1" />
                                   <span className="text-sm font-medium">
-                                    ${rec.pricePerHour.toFixed(3)}/h
+                                    {formatPrice(rec.pricePerHour)}/h
                                   </span>
                                 </div>
                               </div>
@@ -13,19 +13,25 @@ interface CapacityScore {
   region: string;
   vmSize: string;
   score: number;
+  scoreLower: number;
+  scoreUpper: number;
   label: 'AVAILABLE' | 'LIMITED' | 'UNAVAILABLE';
   confidence: number;
   successRate: number;
+  successRateLower?: number;
+  successRateUpper?: number;
   avgProvisionMs: number;
   capacityErrorRate: number;
   spotStress: number;
   sampleCount: number;
+  effectiveSampleCount?: number;
   dataFreshness: number;
   calculatedAt: string;
   recommendation?: string;
   alternatives?: string[];
   analysis?: {
     scoreBreakdown: {
+      scoreInterval: string;
       successRate: string;
       provisionSpeed: string;
       errorRate: string;
@@ -233,6 +239,9 @@ export default function AzureScoringTestPage() {
                 {currentScore.score}
               </div>
               <div className="text-lg text-muted-foreground">/ 100점</div>
+              <div className="text-sm text-muted-foreground mt-1">
+                90% 신용구간 {currentScore.scoreLower}-{currentScore.scoreUpper}점
+              </div>
               <div className="mt-2">
                 {renderConfidenceBadge(currentScore.confidence)}
               </div>
@@ -17,6 +17,8 @@ interface SpotSignal {
   priceRatio: number;
   volatility: number;
   evictionRate: number;
+  evictionSource?: 'observed' | 'estimated' | null;
+  evictionSamples?: number | null;
   marketStress: number;
   timestamp: string;
   analysis?: {
@@ -519,7 +521,10 @@ export default function AzureSpotTestPage() {
                       <span>변동성:</span> {(signal.volatility * 100).toFixed(1)}%
                     </div>
                     <div>
-                      <span>예상 중단율:</span> {(signal.evictionRate * 100).toFixed(1)}%
+                      <span>{signal.evictionSource === 'observed' ? '실측 중단율' : '예상 중단율'}:</span> {(signal.evictionRate * 100).toFixed(1)}%
+                      {signal.evictionSource === 'observed' && signal.evictionSamples != null && (
+                        <span> (관측 {signal.evictionSamples.toFixed(1)}건)</span>
+                      )}
                     </div>
                     <div>
                       <span>수집 시간:</span> {new Date(signal.timestamp).toLocaleTimeString()}
@@ -0,0 +1,249 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { SimpleSelect, SimpleSelectItem } from "@/components/ui/simple-select"
+import { RefreshCw } from "lucide-react"
+import { BASE_CURRENCY, COMMON_CURRENCIES, formatPrice as formatCurrency } from "@/lib/currency"
+import {
+  DEFAULT_PRICING_PREFERENCES,
+  PricingPreferences,
+  TAX_RULES,
+  applyTaxes,
+  describeTaxes,
+  getTaxRule
+} from "@/lib/pricing-presentation"
+
+export interface ExchangeRateData {
+  success: boolean
+  from: string
+  to: string
+  rate: number
+  lastUpdated: string
+  source: string
+  rateDate: string
+}
+
+async function fetchExchangeRate(currency: string): Promise<ExchangeRateData> {
+  const response = await fetch(`/api/exchange-rates?from=${BASE_CURRENCY}&to=${currency}`)
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch exchange rate')
+  }
+
+  return response.json()
+}
+
+async function fetchPreferences(): Promise<PricingPreferences> {
+  const response = await fetch('/api/preferences')
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch preferences')
+  }
+
+  return (await response.json()).preferences
+}
+
+async function savePreferences(update: Partial<PricingPreferences>): Promise<PricingPreferences> {
+  const response = await fetch('/api/preferences', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update)
+  })
+
+  if (!response.ok) {
+    throw new Error('Failed to save preferences')
+  }
+
+  return (await response.json()).preferences
+}
+
+/**
+ * 세션 설정(/api/preferences) 기반 통화 / 세금 표시 상태
+ * 모든 가격 페이지가 같은 설정을 공유하고, 환율을 못 가져오면 임의 환율로 환산하지 않고 USD로 표시한다.
+ */
+export function usePricingPreferences() {
+  const [preferences, setPreferences] = useState<PricingPreferences>(DEFAULT_PRICING_PREFERENCES)
+  const [loaded, setLoaded] = useState(false)
+  const [exchangeRate, setExchangeRate] = useState<ExchangeRateData | null>(null)
+  const [rateLoading, setRateLoading] = useState(false)
+  const [rateError, setRateError] = useState<string | null>(null)
+
+  // 저장된 세션 설정 로드
+  useEffect(() => {
+    fetchPreferences()
+      .then(setPreferences)
+      .catch(error => console.error('Failed to load preferences:', error))
+      .finally(() => setLoaded(true))
+  }, [])
+
+  const loadExchangeRate = useCallback(async (target: string) => {
+    if (target === BASE_CURRENCY) {
+      setExchangeRate(null)
+      setRateError(null)
+      return
+    }
+
+    try {
+      setRateLoading(true)
+      setRateError(null)
+      setExchangeRate(await fetchExchangeRate(target))
+    } catch (error) {
+      console.error('Failed to load exchange rate:', error)
+      setExchangeRate(null)
+      setRateError(`${target} 환율을 가져오지 못해 USD로 표시합니다`)
+    } finally {
+      setRateLoading(false)
+    }
+  }, [])
+
+  const currency = preferences.currency
+
+  useEffect(() => {
+    loadExchangeRate(currency)
+  }, [currency, loadExchangeRate])
+
+  // 화면에 먼저 반영하고 서버 응답(국가 기본 세율 반영)으로 다시 맞춤
+  const updatePreferences = (update: Partial<PricingPreferences>) => {
+    setPreferences(prev => ({ ...prev, ...update }))
+    savePreferences(update)
+      .then(setPreferences)
+      .catch(error => console.error('Failed to save preferences:', error))
+  }
+
+  // 실제 표시 통화 (환율이 없으면 USD)
+  const displayCurrency = exchangeRate && exchangeRate.to === currency ? currency : BASE_CURRENCY
+
+  // 이미 표시 통화로 환산된 세전 금액에 세금 적용 후 포맷
+  const formatAmount = (net: number, amountCurrency: string) =>
+    formatCurrency(applyTaxes(net, preferences).total, amountCurrency)
+
+  // USD 세전 가격을 오늘 환율로 환산
+  const toDisplayCurrency = (usdPrice: number) =>
+    displayCurrency === BASE_CURRENCY || !exchangeRate ? usdPrice : usdPrice * exchangeRate.rate
+
+  return {
+    preferences,
+    loaded,
+    updatePreferences,
+    currency,
+    setCurrency: (next: string) => updatePreferences({ currency: next }),
+    displayCurrency,
+    exchangeRate,
+    rateLoading,
+    rateError,
+    refreshExchangeRate: () => loadExchangeRate(currency),
+    taxLabel: describeTaxes(preferences),
+    formatAmount,
+    // USD 가격을 표시 통화로 환산 + 세금 적용
+    formatPrice: (usdPrice: number) => formatAmount(toDisplayCurrency(usdPrice), displayCurrency),
+    // 세금 없이 환산만 (관리 화면 등)
+    formatNetPrice: (usdPrice: number) => formatCurrency(toDisplayCurrency(usdPrice), displayCurrency)
+  }
+}
+
+export type PricingState = ReturnType<typeof usePricingPreferences>
+
+interface PricingControlProps {
+  state: PricingState
+  className?: string
+}
+
+export function CurrencySelector({ state, className }: PricingControlProps) {
+  return (
+    <SimpleSelect
+      value={state.currency}
+      onValueChange={state.setCurrency}
+      placeholder="통화 선택"
+      className={className}
+    >
+      {COMMON_CURRENCIES.map(currency => (
+        <SimpleSelectItem key={currency.code} value={currency.code}>{currency.label}</SimpleSelectItem>
+      ))}
+    </SimpleSelect>
+  )
+}
+
+// 구매자 국가 + VAT / 원천징수 포함 토글
+export function TaxToggle({ state, className }: PricingControlProps) {
+  const { preferences, updatePreferences } = state
+  const rule = getTaxRule(preferences.buyerCountry)
+
+  return (
+    <div className={`flex flex-wrap items-center gap-3 text-sm ${className || ''}`}>
+      <SimpleSelect
+        value={preferences.buyerCountry}
+        onValueChange={buyerCountry => updatePreferences({ buyerCountry })}
+        placeholder="구매자 국가"
+        className="w-32"
+      >
+        {TAX_RULES.map(taxRule => (
+          <SimpleSelectItem key={taxRule.country} value={taxRule.country}>{taxRule.name}</SimpleSelectItem>
+        ))}
+      </SimpleSelect>
+      <label className="flex items-center gap-1 whitespace-nowrap">
+        <input
+          type="checkbox"
+          checked={preferences.includeVat}
+          onChange={event => updatePreferences({ includeVat: event.target.checked })}
+        />
+        {rule.vatLabel} 포함 ({Math.round(preferences.vatRate * 1000) / 10}%)
+      </label>
+      {preferences.withholdingRate > 0 && (
+        <label className="flex items-center gap-1 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={preferences.includeWithholding}
+            onChange={event => updatePreferences({ includeWithholding: event.target.checked })}
+          />
+          원천징수 gross-up ({Math.round(preferences.withholdingRate * 1000) / 10}%)
+        </label>
+      )}
+    </div>
+  )
+}
+
+// 선택 통화가 USD가 아닐 때 적용 환율 / 출처 / 새로고침 표시
+export function ExchangeRateInfo({ state, className = 'mt-4' }: PricingControlProps) {
+  const { currency, exchangeRate, rateLoading, rateError, refreshExchangeRate } = state
+
+  if (currency === BASE_CURRENCY) return null
+
+  return (
+    <div className={`${className} p-3 border rounded-lg ${rateError ? 'bg-red-50 border-red-200' : 'bg-blue-50 border-blue-200'}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {rateError ? (
+            <span className="text-sm text-red-800">{rateError}</span>
+          ) : exchangeRate ? (
+            <>
+              <span className="text-sm text-blue-800">
+                환율: 1 {BASE_CURRENCY} = {formatCurrency(exchangeRate.rate, currency)} {currency}
+              </span>
+              <Badge variant="outline" className="text-xs">
+                {exchangeRate.source === 'persisted' ? `저장된 환율 (${exchangeRate.rateDate})` : '실시간'}
+              </Badge>
+            </>
+          ) : (
+            <span className="text-sm text-blue-800">환율 불러오는 중...</span>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={refreshExchangeRate}
+          disabled={rateLoading}
+          className="text-blue-600 hover:text-blue-700"
+        >
+          <RefreshCw className={`h-3 w-3 ${rateLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+      {exchangeRate && !rateError && (
+        <div className="text-xs text-blue-600 mt-1">
+          마지막 업데이트: {new Date(exchangeRate.lastUpdated).toLocaleString('ko-KR')}
+        </div>
+      )}
+    </div>
+  )
+}
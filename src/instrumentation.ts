@@ -0,0 +1,8 @@
+// Next.js 서버 시작 훅: 작업 스케줄러 기동 (Node.js 런타임에서만)
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+  if (process.env.JOB_SCHEDULER_ENABLED === 'false') return
+
+  const { jobScheduler } = await import('./lib/scheduled-jobs')
+  jobScheduler.start()
+}
@@ -0,0 +1,262 @@
+// Alibaba Cloud ECS 가격 서비스
+// ECS DescribePrice API (RPC, 서명 V1): https://www.alibabacloud.com/help/en/ecs/developer-reference/api-ecs-2014-05-26-describeprice
+// 리전 × 인스턴스 타입마다 종량제(PayAsYouGo) 시간당 가격을 조회한다.
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import { BASE_CURRENCY } from './currency'
+import { loadProviderSpecs } from './instance-specs'
+import { FetchOffersOptions, InstanceOffer, ProviderPricingAdapter, ProviderPricingResponse } from './provider-pricing'
+
+interface AlibabaGPUInstance {
+  instanceType: string
+  family: string
+  region: string
+  pricePerHour: number
+  originalPrice: number
+  currency: string
+  effectiveDate: string
+  gpuModel: string
+  gpuCount: number
+  vcpu: number
+  ram: number
+}
+
+interface AlibabaPricingResponse {
+  success: boolean
+  data?: {
+    instances: AlibabaGPUInstance[]
+    totalCount: number
+    fetchedAt: string
+    currency: string
+    regions: string[]
+    gpuModels: string[]
+  }
+  error?: string
+  message?: string
+}
+
+export interface AlibabaPricingServiceOptions {
+  endpoint?: string
+  accessKeyId?: string
+  accessKeySecret?: string
+  fixtureFile?: string // { [regionId]: { [instanceType]: DescribePrice 응답 } }
+}
+
+// DescribePrice 응답 (필요한 필드만)
+interface DescribePriceResponse {
+  PriceInfo?: {
+    Price?: {
+      OriginalPrice?: number
+      DiscountPrice?: number
+      TradePrice?: number
+      Currency?: string
+    }
+  }
+  Code?: string
+  Message?: string
+}
+
+// Alibaba Cloud 리전 ID → 리전 이름
+const ALIBABA_REGION_MAPPING: Record<string, string> = {
+  'ap-northeast-2': 'South Korea (Seoul)',
+  'ap-northeast-1': 'Japan (Tokyo)',
+  'ap-southeast-1': 'Singapore',
+  'ap-southeast-5': 'Indonesia (Jakarta)',
+  'cn-hongkong': 'China (Hong Kong)',
+  'cn-shanghai': 'China (Shanghai)',
+  'cn-beijing': 'China (Beijing)',
+  'us-west-1': 'US (Silicon Valley)',
+  'us-east-1': 'US (Virginia)',
+  'eu-central-1': 'Germany (Frankfurt)'
+}
+
+export class AlibabaPricingService implements ProviderPricingAdapter {
+  readonly providerCode = 'alibaba'
+  readonly displayName = 'Alibaba Cloud'
+  private readonly endpoint: string
+  private readonly accessKeyId?: string
+  private readonly accessKeySecret?: string
+  private readonly fixtureFile?: string
+
+  constructor(options: AlibabaPricingServiceOptions = {}) {
+    this.endpoint = options.endpoint || process.env.ALIBABA_ECS_ENDPOINT || 'https://ecs.aliyuncs.com/'
+    this.accessKeyId = options.accessKeyId || process.env.ALIBABA_CLOUD_ACCESS_KEY_ID
+    this.accessKeySecret = options.accessKeySecret || process.env.ALIBABA_CLOUD_ACCESS_KEY_SECRET
+    this.fixtureFile = options.fixtureFile || process.env.ALIBABA_PRICE_FILE || undefined
+    console.log('Alibaba Pricing Service initialized (ECS DescribePrice)')
+  }
+
+  /**
+   * Alibaba Cloud GPU 인스턴스 가격 조회
+   */
+  async fetchGPUPrices(regions?: string[]): Promise<AlibabaPricingResponse> {
+    try {
+      const fixture = this.fixtureFile
+        ? JSON.parse(await fs.readFile(this.fixtureFile, 'utf-8')) as Record<string, Record<string, DescribePriceResponse>>
+        : null
+
+      if (!fixture && (!this.accessKeyId || !this.accessKeySecret)) {
+        throw new Error('ALIBABA_CLOUD_ACCESS_KEY_ID / ALIBABA_CLOUD_ACCESS_KEY_SECRET 환경 변수가 필요합니다.')
+      }
+
+      const instanceTypes = await loadProviderSpecs('alibaba')
+      const targetRegions = regions && regions.length > 0
+        ? regions.filter(region => ALIBABA_REGION_MAPPING[region])
+        : Object.keys(ALIBABA_REGION_MAPPING)
+      const fetchedAt = new Date().toISOString()
+      const instances: AlibabaGPUInstance[] = []
+
+      for (const region of targetRegions) {
+        for (const [instanceType, specs] of Object.entries(instanceTypes)) {
+          let response: DescribePriceResponse | undefined
+          try {
+            response = fixture
+              ? fixture[region]?.[instanceType]
+              : await this.describePrice(region, instanceType)
+          } catch (error) {
+            // 리전에서 판매하지 않는 타입은 InvalidInstanceType 등으로 실패하므로 건너뛴다
+            console.warn(`Alibaba price not available for ${instanceType} in ${region}:`, error instanceof Error ? error.message : error)
+            continue
+          }
+
+          const price = response?.PriceInfo?.Price
+          const tradePrice = price?.TradePrice ?? price?.OriginalPrice
+          if (!price || !tradePrice || tradePrice <= 0) continue
+
+          instances.push({
+            instanceType,
+            region,
+            pricePerHour: tradePrice,
+            originalPrice: price.OriginalPrice ?? tradePrice,
+            currency: price.Currency || BASE_CURRENCY, // 중국 사이트 계정은 CNY
+            effectiveDate: fetchedAt,
+            family: specs.family,
+            gpuModel: specs.gpuModel,
+            gpuCount: specs.gpuCount,
+            vcpu: specs.vcpu,
+            ram: specs.ramGB
+          })
+        }
+      }
+
+      // 응답 통화는 항목 통화를 그대로 따름 (가격은 항목별 통화로 저장되고 조회 시 환산)
+      const currencies = Array.from(new Set(instances.map(i => i.currency))).sort()
+
+      return {
+        success: true,
+        data: {
+          instances: instances.sort((a, b) => a.pricePerHour - b.pricePerHour),
+          totalCount: instances.length,
+          fetchedAt,
+          currency: currencies.join(', ') || BASE_CURRENCY,
+          regions: Array.from(new Set(instances.map(i => i.region))).sort(),
+          gpuModels: Array.from(new Set(instances.map(i => i.gpuModel))).sort()
+        }
+      }
+    } catch (error) {
+      console.error('Alibaba pricing fetch error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        message: 'Alibaba Cloud 가격 조회에 실패했습니다.'
+      }
+    }
+  }
+
+  /**
+   * 정규화된 오퍼 조회 (ProviderPricingAdapter)
+   */
+  async fetchOffers(options: FetchOffersOptions = {}): Promise<ProviderPricingResponse> {
+    const result = await this.fetchGPUPrices(options.regions)
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error, message: result.message }
+    }
+
+    const offers: InstanceOffer[] = result.data.instances.map(instance => ({
+      provider: this.providerCode,
+      region: instance.region,
+      instanceName: instance.instanceType,
+      purchaseOption: 'on_demand',
+      pricePerHour: instance.pricePerHour,
+      currency: instance.currency,
+      familyCode: instance.family,
+      gpuModel: instance.gpuModel,
+      gpuCount: instance.gpuCount,
+      vcpu: instance.vcpu,
+      ramGb: instance.ram,
+      raw: instance
+    }))
+    await options.onProgress?.(offers.length)
+
+    return {
+      success: true,
+      data: {
+        offers,
+        totalCount: offers.length,
+        fetchedAt: result.data.fetchedAt,
+        currency: result.data.currency,
+        regions: result.data.regions,
+        gpuModels: result.data.gpuModels
+      }
+    }
+  }
+
+  /**
+   * DescribePrice 호출 (종량제 1시간 가격)
+   */
+  private async describePrice(regionId: string, instanceType: string): Promise<DescribePriceResponse> {
+    const params: Record<string, string> = {
+      Action: 'DescribePrice',
+      Version: '2014-05-26',
+      Format: 'JSON',
+      RegionId: regionId,
+      ResourceType: 'instance',
+      InstanceType: instanceType,
+      PriceUnit: 'Hour',
+      Period: '1',
+      AccessKeyId: this.accessKeyId!,
+      SignatureMethod: 'HMAC-SHA1',
+      SignatureVersion: '1.0',
+      SignatureNonce: crypto.randomUUID(),
+      Timestamp: new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')
+    }
+
+    const query = this.signParams(params)
+    const response = await fetch(`${this.endpoint}?${query}`, {
+      headers: { 'Accept': 'application/json' }
+    })
+    const data: DescribePriceResponse = await response.json()
+
+    if (!response.ok) {
+      throw new Error(`${data.Code || response.status}: ${data.Message || response.statusText}`)
+    }
+
+    return data
+  }
+
+  /**
+   * RPC 서명 V1: 정렬된 쿼리를 HMAC-SHA1로 서명해 Signature 파라미터를 붙인다
+   */
+  private signParams(params: Record<string, string>): string {
+    const canonicalized = Object.keys(params)
+      .sort()
+      .map(key => `${percentEncode(key)}=${percentEncode(params[key])}`)
+      .join('&')
+    const stringToSign = `GET&${percentEncode('/')}&${percentEncode(canonicalized)}`
+    const signature = crypto
+      .createHmac('sha1', `${this.accessKeySecret}&`)
+      .update(stringToSign)
+      .digest('base64')
+
+    return `${canonicalized}&Signature=${percentEncode(signature)}`
+  }
+}
+
+function percentEncode(value: string): string {
+  return encodeURIComponent(value)
+    .replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+export const alibabaPricingService = new AlibabaPricingService()
+
+export const getAlibabaRegions = () => ALIBABA_REGION_MAPPING
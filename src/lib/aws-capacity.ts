@@ -0,0 +1,314 @@
+// AWS 용량 확인 서비스 (AzureCapacityService 대응)
+// 실제 인스턴스를 만들지 않는 두 가지 신호만 사용하므로 비용 / 예산 / 정리 작업이 없다.
+// - Spot Placement Score: 리전별 Spot 배치 가능성 1-10
+// - ODCR dry-run: 온디맨드 용량 예약 DryRun 응답 (DryRunOperation 통과는 권한 확인일 뿐이므로 신호 없음, 용량 거부만 실패로 기록)
+import { Prisma } from '@prisma/client';
+import { AwsCapacityClient, Ec2CapacityClient } from './aws-ec2-client';
+import { CapacityErrorClass, classifyCapacityError } from './capacity-errors';
+import { priceHistoryService } from './price-history';
+import { prisma } from './prisma';
+
+export type AwsProbeKind = 'spot_placement' | 'odcr_dry_run';
+
+export interface AwsCapacityConfig {
+  enabled: boolean; // AWS_CAPACITY_PROBE_ENABLED=true 또는 AWS_EC2_ENDPOINT 지정 시
+  endpoint: string | null;
+  targetCapacity: number; // Spot Placement Score 목표 인스턴스 수
+}
+
+export interface AwsCapacityProbeResult {
+  region: string;
+  instanceType: string;
+  probeKind: AwsProbeKind;
+  success: boolean | null; // true=여유, false=용량 부족, null=무시된 에러
+  placementScore?: number; // 1-10
+  availabilityZone?: string;
+  errorCode?: string;
+  errorClass: CapacityErrorClass;
+  timestamp: Date;
+  details?: Record<string, unknown>; // metadata에 저장
+}
+
+export interface AwsProbeCycleResult {
+  instanceTypes: number;
+  placementProbes: number;
+  dryRuns: number;
+  combinations: { region: string; instanceType: string }[]; // 새 신호가 저장된 조합 (스코어 재계산 대상)
+  errors: string[];
+}
+
+// Spot 배치 점수가 이 값 미만이면 용량 부족으로 기록
+const PLACEMENT_AVAILABLE_THRESHOLD = 4;
+
+// GetSpotPlacementScores는 한 번에 최대 10개 리전
+const PLACEMENT_REGION_BATCH = 10;
+
+// ODCR dry-run은 조합당 하루 1회 (capacitycheck.md: 예약 가용 체크는 하루 1~2회 가볍게)
+const DRY_RUN_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export class AwsCapacityService {
+  private config: AwsCapacityConfig;
+  private client: AwsCapacityClient | null;
+
+  constructor(config: AwsCapacityConfig, client: AwsCapacityClient | null = null) {
+    this.config = config;
+    this.client = client;
+  }
+
+  isProbeEnabled(): boolean {
+    return this.config.enabled || this.client !== null;
+  }
+
+  /**
+   * 인스턴스 타입의 리전별 Spot 배치 점수 조회 (리전마다 결과 1건)
+   */
+  async checkSpotPlacement(instanceType: string, regions: string[]): Promise<AwsCapacityProbeResult[]> {
+    const client = this.getClient();
+    const results: AwsCapacityProbeResult[] = [];
+
+    for (let i = 0; i < regions.length; i += PLACEMENT_REGION_BATCH) {
+      const batch = regions.slice(i, i + PLACEMENT_REGION_BATCH);
+      const timestamp = new Date();
+
+      try {
+        const scores = await client.getSpotPlacementScores(instanceType, batch, this.config.targetCapacity);
+        const byRegion = new Map(scores.map(score => [score.region, score]));
+
+        for (const region of batch) {
+          const score = byRegion.get(region);
+
+          // 응답에 없는 리전 = 해당 타입을 제공하지 않거나 opt-in 안 된 리전
+          results.push(score ? {
+            region,
+            instanceType,
+            probeKind: 'spot_placement',
+            success: score.score >= PLACEMENT_AVAILABLE_THRESHOLD,
+            placementScore: score.score,
+            errorClass: 'capacity',
+            timestamp,
+            details: { targetCapacity: this.config.targetCapacity }
+          } : {
+            region,
+            instanceType,
+            probeKind: 'spot_placement',
+            success: null,
+            errorCode: 'NoPlacementScore',
+            errorClass: 'ignored',
+            timestamp
+          });
+        }
+      } catch (error) {
+        const errorCode = this.extractErrorCode(error);
+        const errorClass = classifyCapacityError('aws', errorCode);
+        console.error(`❌ Spot 배치 점수 조회 실패: ${instanceType} (${batch.join(', ')})`, error);
+
+        results.push(...batch.map(region => ({
+          region,
+          instanceType,
+          probeKind: 'spot_placement' as const,
+          success: null,
+          errorCode,
+          // 전역 호출 실패는 특정 리전의 용량 신호가 아님
+          errorClass: errorClass === 'capacity' ? 'ignored' as const : errorClass,
+          timestamp
+        })));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * 온디맨드 용량 예약(ODCR) dry-run
+   * - 가용 영역을 지정하지 않으면 인스턴스 타입을 제공하는 가용 영역을 조회해 차례로 시도
+   * - DryRunOperation 통과는 권한 확인일 뿐이므로 success=null (신호 없음)
+   * - 제공하는 모든 가용 영역이 용량 거부할 때만 success=false
+   */
+  async checkCapacityReservation(region: string, instanceType: string, availabilityZone?: string): Promise<AwsCapacityProbeResult> {
+    const base = { region, instanceType, probeKind: 'odcr_dry_run' as const, timestamp: new Date() };
+
+    try {
+      const client = this.getClient();
+      const offeredZones = availabilityZone ? [availabilityZone] : await client.getOfferedAvailabilityZones(region, instanceType);
+      if (offeredZones.length === 0) {
+        return { ...base, success: null, errorCode: 'NotOfferedInRegion', errorClass: 'restriction' };
+      }
+
+      const refusedZones: string[] = [];
+      let result: AwsCapacityProbeResult | null = null;
+      for (const zone of offeredZones) {
+        const dryRun = await client.dryRunCapacityReservation(region, instanceType, zone);
+        const errorCode = dryRun.errorCode || 'DryRunOperation';
+        const errorClass = classifyCapacityError('aws', errorCode);
+
+        result = {
+          ...base,
+          availabilityZone: zone,
+          success: dryRun.wouldSucceed || errorClass !== 'capacity' ? null : false,
+          errorCode,
+          errorClass: dryRun.wouldSucceed ? 'ignored' : errorClass,
+          details: { message: dryRun.message, offeredZones, refusedZones }
+        };
+        // 용량 거부가 아니면 (통과 / 권한 / 쿼터 등) 다른 가용 영역도 결과가 같으므로 중단
+        if (result.success !== false) break;
+        refusedZones.push(zone);
+      }
+      return result!;
+    } catch (error) {
+      const errorCode = this.extractErrorCode(error);
+      const errorClass = classifyCapacityError('aws', errorCode);
+      console.error(`❌ ODCR dry-run 실패: ${region}/${instanceType}`, error);
+      return {
+        ...base,
+        ...(availabilityZone && { availabilityZone }),
+        success: null,
+        errorCode,
+        errorClass: errorClass === 'capacity' ? 'ignored' : errorClass
+      };
+    }
+  }
+
+  /**
+   * 가격 데이터에 있는 AWS 조합에 대해 Spot 배치 점수 + ODCR dry-run 수집
+   * - Spot 배치 점수: 인스턴스 타입별 1회 호출로 모든 리전 조회
+   * - ODCR dry-run: 마지막 dry-run이 하루 이상 지난 조합만, 최대 maxDryRuns개
+   */
+  async runProbeCycle(options: { maxInstanceTypes?: number; maxDryRuns?: number } = {}): Promise<AwsProbeCycleResult> {
+    const { maxInstanceTypes = 10, maxDryRuns = 10 } = options;
+    const result: AwsProbeCycleResult = { instanceTypes: 0, placementProbes: 0, dryRuns: 0, combinations: [], errors: [] };
+
+    const prices = await priceHistoryService.getLatestPrices({ providerCode: 'aws', purchaseOption: 'on_demand' });
+    const regionsByType = new Map<string, string[]>();
+    for (const price of prices) {
+      regionsByType.set(price.instanceName, [...(regionsByType.get(price.instanceName) || []), price.regionCode]);
+    }
+
+    // 마지막 Spot 배치 점수 조회가 오래된 인스턴스 타입부터
+    const lastPlacement = await prisma.capacityProbe.groupBy({
+      by: ['instanceType'],
+      where: { provider: 'aws', probeKind: 'spot_placement' },
+      _max: { timestamp: true }
+    });
+    const lastPlacementAt = new Map(lastPlacement.map(row => [row.instanceType, row._max.timestamp?.getTime() ?? 0]));
+    const instanceTypes = Array.from(regionsByType.keys())
+      .sort((a, b) => (lastPlacementAt.get(a) ?? 0) - (lastPlacementAt.get(b) ?? 0))
+      .slice(0, maxInstanceTypes);
+
+    const touched = new Set<string>();
+    for (const instanceType of instanceTypes) {
+      const probes = await this.checkSpotPlacement(instanceType, regionsByType.get(instanceType)!);
+      await this.saveProbeResults(probes);
+
+      result.instanceTypes++;
+      result.placementProbes += probes.length;
+      probes.forEach(probe => touched.add(`${probe.region}|${probe.instanceType}`));
+      probes
+        .filter(probe => probe.errorClass === 'permission')
+        .slice(0, 1)
+        .forEach(probe => result.errors.push(`${instanceType}: ${probe.errorCode}`));
+    }
+
+    const lastDryRun = await prisma.capacityProbe.groupBy({
+      by: ['region', 'instanceType'],
+      where: { provider: 'aws', probeKind: 'odcr_dry_run', timestamp: { gte: new Date(Date.now() - DRY_RUN_INTERVAL_MS) } },
+      _max: { timestamp: true }
+    });
+    const recentDryRuns = new Set(lastDryRun.map(row => `${row.region}|${row.instanceType}`));
+    const dryRunTargets = instanceTypes
+      .flatMap(instanceType => regionsByType.get(instanceType)!.map(region => ({ region, instanceType })))
+      .filter(combo => !recentDryRuns.has(`${combo.region}|${combo.instanceType}`))
+      .slice(0, maxDryRuns);
+
+    for (const combo of dryRunTargets) {
+      const probe = await this.checkCapacityReservation(combo.region, combo.instanceType);
+      await this.saveProbeResults([probe]);
+
+      result.dryRuns++;
+      touched.add(`${combo.region}|${combo.instanceType}`);
+      if (probe.errorClass === 'permission') {
+        result.errors.push(`${combo.region}/${combo.instanceType}: ${probe.errorCode}`);
+      }
+    }
+
+    result.combinations = Array.from(touched).map(key => {
+      const [region, instanceType] = key.split('|');
+      return { region, instanceType };
+    });
+    return result;
+  }
+
+  /**
+   * 프로브 결과 저장
+   */
+  async saveProbeResults(results: AwsCapacityProbeResult[]): Promise<void> {
+    if (results.length === 0) return;
+
+    try {
+      await prisma.capacityProbe.createMany({
+        data: results.map(result => ({
+          timestamp: result.timestamp,
+          provider: 'aws',
+          region: result.region,
+          instanceType: result.instanceType,
+          probeKind: result.probeKind,
+          success: result.success,
+          placementScore: result.placementScore ?? null,
+          availabilityZone: result.availabilityZone ?? null,
+          errorCode: result.errorCode ?? null,
+          errorClass: result.errorClass,
+          metadata: JSON.parse(JSON.stringify({
+            endpoint: this.config.endpoint,
+            ...result.details
+          })) as Prisma.InputJsonValue
+        }))
+      });
+    } catch (error) {
+      console.error('AWS 프로브 결과 저장 실패:', error);
+    }
+  }
+
+  /**
+   * 최근 프로브 결과 조회
+   */
+  async getRecentProbeResults(
+    region?: string,
+    instanceType?: string,
+    hours: number = 24,
+    probeKind?: AwsProbeKind
+  ) {
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    return await prisma.capacityProbe.findMany({
+      where: {
+        provider: 'aws',
+        timestamp: { gte: since },
+        ...(region && { region }),
+        ...(instanceType && { instanceType }),
+        ...(probeKind && { probeKind })
+      },
+      orderBy: { timestamp: 'desc' }
+    });
+  }
+
+  private getClient(): AwsCapacityClient {
+    if (!this.isProbeEnabled()) {
+      throw new Error('AWS 용량 프로브가 비활성화되어 있습니다. AWS_CAPACITY_PROBE_ENABLED=true로 켜거나 AWS_EC2_ENDPOINT로 가짜 EC2 엔드포인트를 지정하세요.');
+    }
+    if (!this.client) {
+      this.client = new Ec2CapacityClient(this.config.endpoint);
+      console.log(`✅ AWS EC2 클라이언트 초기화 완료 (${this.config.endpoint || 'aws'})`);
+    }
+    return this.client;
+  }
+
+  private extractErrorCode(error: unknown): string {
+    const { name, code } = (error || {}) as { name?: string; code?: string };
+    return code || name || 'UnknownError';
+  }
+}
+
+// 기본 설정으로 초기화된 인스턴스
+export const awsCapacityService = new AwsCapacityService({
+  enabled: process.env.AWS_CAPACITY_PROBE_ENABLED === 'true' || !!process.env.AWS_EC2_ENDPOINT,
+  endpoint: process.env.AWS_EC2_ENDPOINT || null,
+  targetCapacity: parseInt(process.env.AWS_SPOT_PLACEMENT_TARGET || '1', 10)
+});
@@ -0,0 +1,119 @@
+// AWS 용량 신호용 EC2 클라이언트 (Spot Placement Score 조회 / 가용 영역별 제공 여부 / ODCR dry-run)
+// AWS_EC2_ENDPOINT를 지정하면 모든 호출이 해당 엔드포인트로 가므로
+// 로컬 가짜 EC2 엔드포인트(aws-fake-ec2.ts)나 LocalStack으로 실제 계정 없이 실행할 수 있다.
+import {
+  CreateCapacityReservationCommand,
+  DescribeInstanceTypeOfferingsCommand,
+  EC2Client,
+  GetSpotPlacementScoresCommand
+} from '@aws-sdk/client-ec2';
+
+export interface SpotPlacementScore {
+  region: string;
+  availabilityZoneId: string | null; // 단일 가용 영역 조회일 때만
+  score: number; // 1-10 (10 = 배치 가능성 매우 높음)
+}
+
+export interface CapacityReservationDryRun {
+  wouldSucceed: boolean; // DryRunOperation 응답 = 권한 검사 통과 (실제 용량은 확인하지 않음)
+  errorCode: string | null;
+  message: string | null;
+}
+
+export interface AwsCapacityClient {
+  readonly endpoint: string | null; // null이면 실제 AWS
+  getSpotPlacementScores(instanceType: string, regions: string[], targetCapacity: number): Promise<SpotPlacementScore[]>;
+  // 인스턴스 타입을 제공하는 가용 영역 (이름순, 리전에서 제공하지 않으면 빈 배열)
+  getOfferedAvailabilityZones(region: string, instanceType: string): Promise<string[]>;
+  dryRunCapacityReservation(region: string, instanceType: string, availabilityZone: string): Promise<CapacityReservationDryRun>;
+}
+
+// Spot Placement Score API는 리전 목록을 받는 전역 호출이므로 한 리전에서만 호출
+const SPOT_PLACEMENT_API_REGION = 'us-east-1';
+
+/**
+ * @aws-sdk/client-ec2 기반 클라이언트 (SDK 기본 자격 증명 체인 사용)
+ */
+export class Ec2CapacityClient implements AwsCapacityClient {
+  readonly endpoint: string | null;
+  private clients = new Map<string, EC2Client>();
+
+  constructor(endpoint: string | null = null) {
+    this.endpoint = endpoint;
+  }
+
+  async getSpotPlacementScores(instanceType: string, regions: string[], targetCapacity: number): Promise<SpotPlacementScore[]> {
+    const response = await this.getClient(SPOT_PLACEMENT_API_REGION).send(new GetSpotPlacementScoresCommand({
+      InstanceTypes: [instanceType],
+      RegionNames: regions,
+      TargetCapacity: targetCapacity,
+      TargetCapacityUnitType: 'units',
+      SingleAvailabilityZone: false
+    }));
+
+    return (response.SpotPlacementScores || [])
+      .filter(item => item.Region && typeof item.Score === 'number')
+      .map(item => ({
+        region: item.Region!,
+        availabilityZoneId: item.AvailabilityZoneId || null,
+        score: item.Score!
+      }));
+  }
+
+  async getOfferedAvailabilityZones(region: string, instanceType: string): Promise<string[]> {
+    const response = await this.getClient(region).send(new DescribeInstanceTypeOfferingsCommand({
+      LocationType: 'availability-zone',
+      Filters: [{ Name: 'instance-type', Values: [instanceType] }]
+    }));
+
+    return (response.InstanceTypeOfferings || [])
+      .map(offering => offering.Location)
+      .filter((zone): zone is string => !!zone)
+      .sort();
+  }
+
+  async dryRunCapacityReservation(region: string, instanceType: string, availabilityZone: string): Promise<CapacityReservationDryRun> {
+    try {
+      await this.getClient(region).send(new CreateCapacityReservationCommand({
+        DryRun: true,
+        InstanceType: instanceType,
+        InstancePlatform: 'Linux/UNIX',
+        AvailabilityZone: availabilityZone,
+        InstanceCount: 1,
+        EndDateType: 'unlimited'
+      }));
+
+      // DryRun 요청이 성공 응답을 돌려주는 경우는 없지만 통과로 취급
+      return { wouldSucceed: true, errorCode: null, message: null };
+    } catch (error) {
+      const { name, message, $metadata } = error as { name?: string; message?: string; $metadata?: { httpStatusCode?: number } };
+
+      // HTTP 응답이 없는 오류(연결 실패 등)는 호출 측에서 처리
+      if (!$metadata?.httpStatusCode) throw error;
+
+      return {
+        wouldSucceed: name === 'DryRunOperation',
+        errorCode: name || 'UnknownError',
+        message: message || null
+      };
+    }
+  }
+
+  private getClient(region: string): EC2Client {
+    let client = this.clients.get(region);
+    if (!client) {
+      client = new EC2Client({
+        region,
+        ...(this.endpoint && {
+          endpoint: this.endpoint,
+          // 가짜 엔드포인트는 서명을 검증하지 않으므로 자격 증명이 없으면 더미 값 사용
+          ...(!process.env.AWS_ACCESS_KEY_ID && {
+            credentials: { accessKeyId: 'fake', secretAccessKey: 'fake' }
+          })
+        })
+      });
+      this.clients.set(region, client);
+    }
+    return client;
+  }
+}
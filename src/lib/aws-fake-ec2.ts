@@ -0,0 +1,183 @@
+// 로컬 가짜 EC2 엔드포인트 (EC2 Query API 중 GetSpotPlacementScores / DescribeInstanceTypeOfferings / CreateCapacityReservation DryRun만 지원)
+// 실행: npm run aws:fake-ec2 → AWS_EC2_ENDPOINT=http://localhost:4599 로 AWS 용량 프로브를 실제 계정 없이 실행
+// 같은 시나리오면 항상 같은 응답을 돌려주므로 에러 분류 → 프로브 저장 → 스코어링을 재현 가능하게 검증할 수 있다.
+import { createServer, IncomingMessage, Server } from 'http';
+import { matchesPattern } from './azure-compute-client';
+
+export interface FakeSpotPlacementRule {
+  region?: string; // '*' 글롭 지원
+  instanceType?: string;
+  score: number; // 1-10
+}
+
+export interface FakeOfferingRule {
+  region?: string;
+  instanceType?: string;
+  zones: string[]; // 인스턴스 타입을 제공하는 가용 영역 (빈 배열 = 리전에서 미제공)
+}
+
+export interface FakeReservationRule {
+  region?: string;
+  instanceType?: string;
+  errorCode: string; // DryRunOperation(통과), InsufficientInstanceCapacity, InstanceLimitExceeded 등
+}
+
+export interface FakeEc2Scenario {
+  placementScores?: FakeSpotPlacementRule[]; // 첫 번째로 일치하는 규칙 적용
+  defaultPlacementScore?: number; // 기본 5
+  offerings?: FakeOfferingRule[]; // 규칙이 없으면 리전의 a / b / c 가용 영역에서 제공
+  reservations?: FakeReservationRule[];
+  unsupportedRegions?: string[]; // 응답에서 빠지는 리전 (opt-in 안 된 리전 등)
+}
+
+export const DEFAULT_FAKE_EC2_SCENARIO: FakeEc2Scenario = {
+  placementScores: [
+    { instanceType: 'p5*', region: 'us-east-1', score: 2 },
+    { instanceType: 'p5*', score: 4 },
+    { instanceType: 'p4d*', region: 'us-west-2', score: 6 },
+    { instanceType: 'p4*', score: 3 },
+    { instanceType: 'g5*', score: 9 },
+    { instanceType: 'g6*', score: 8 }
+  ],
+  defaultPlacementScore: 7,
+  offerings: [
+    { instanceType: 'p5*', region: 'us-east-1', zones: ['us-east-1a', 'us-east-1f'] },
+    { instanceType: 'p5*', region: 'ap-northeast-2', zones: [] }
+  ],
+  reservations: [
+    { instanceType: 'p5*', region: 'us-east-1', errorCode: 'InsufficientInstanceCapacity' },
+    { instanceType: 'p4de*', errorCode: 'InstanceLimitExceeded' }
+  ]
+};
+
+const XML_NAMESPACE = 'http://ec2.amazonaws.com/doc/2016-11-15/';
+
+// 에러 코드별 HTTP 상태 (EC2와 동일하게 DryRunOperation은 412, 용량 부족은 서버 에러)
+const ERROR_STATUS: Record<string, number> = {
+  DryRunOperation: 412,
+  InsufficientInstanceCapacity: 500,
+  InsufficientCapacity: 500
+};
+
+/**
+ * 가짜 EC2 HTTP 서버 생성 (listen은 호출 측에서)
+ */
+export function createFakeEc2Server(scenario: FakeEc2Scenario = DEFAULT_FAKE_EC2_SCENARIO): Server {
+  return createServer(async (request, response) => {
+    const params = new URLSearchParams(await readBody(request));
+    const action = params.get('Action');
+    const requestId = `fake-${Date.now().toString(36)}`;
+
+    const send = (status: number, xml: string) => {
+      response.writeHead(status, { 'Content-Type': 'text/xml;charset=UTF-8' });
+      response.end(`<?xml version="1.0" encoding="UTF-8"?>\n${xml}`);
+    };
+    const sendError = (code: string, message: string) => send(
+      ERROR_STATUS[code] || 400,
+      `<Response><Errors><Error><Code>${code}</Code><Message>${escapeXml(message)}</Message></Error></Errors><RequestID>${requestId}</RequestID></Response>`
+    );
+
+    if (action === 'GetSpotPlacementScores') {
+      const instanceTypes = listParam(params, 'InstanceType');
+      const regions = listParam(params, 'RegionName')
+        .filter(region => !scenario.unsupportedRegions?.includes(region));
+
+      // 여러 인스턴스 타입을 함께 조회하면 가장 낮은 점수가 전체 점수 (함께 배치되어야 하므로)
+      const items = regions.map(region => {
+        const score = Math.min(...instanceTypes.map(instanceType => placementScore(scenario, region, instanceType)));
+        return `<item><region>${region}</region><score>${score}</score></item>`;
+      });
+
+      return send(200, `<GetSpotPlacementScoresResponse xmlns="${XML_NAMESPACE}"><requestId>${requestId}</requestId><spotPlacementScoreSet>${items.join('')}</spotPlacementScoreSet></GetSpotPlacementScoresResponse>`);
+    }
+
+    if (action === 'DescribeInstanceTypeOfferings') {
+      const region = signingRegion(request) || 'us-east-1';
+      const instanceTypes = filterValues(params, 'instance-type');
+
+      const items = instanceTypes.flatMap(instanceType => {
+        const rule = scenario.offerings?.find(r =>
+          (!r.region || matchesPattern(region, r.region)) &&
+          (!r.instanceType || matchesPattern(instanceType, r.instanceType))
+        );
+        return (rule?.zones ?? ['a', 'b', 'c'].map(suffix => `${region}${suffix}`)).map(zone =>
+          `<item><instanceType>${instanceType}</instanceType><locationType>availability-zone</locationType><location>${zone}</location></item>`
+        );
+      });
+
+      return send(200, `<DescribeInstanceTypeOfferingsResponse xmlns="${XML_NAMESPACE}"><requestId>${requestId}</requestId><instanceTypeOfferingSet>${items.join('')}</instanceTypeOfferingSet></DescribeInstanceTypeOfferingsResponse>`);
+    }
+
+    if (action === 'CreateCapacityReservation') {
+      if (params.get('DryRun') !== 'true') {
+        return sendError('UnsupportedOperation', '가짜 EC2 엔드포인트는 DryRun 요청만 지원합니다.');
+      }
+
+      const region = signingRegion(request) || 'us-east-1';
+      const instanceType = params.get('InstanceType') || '';
+      const rule = scenario.reservations?.find(r =>
+        (!r.region || matchesPattern(region, r.region)) &&
+        (!r.instanceType || matchesPattern(instanceType, r.instanceType))
+      );
+      const code = rule?.errorCode || 'DryRunOperation';
+
+      return sendError(code, code === 'DryRunOperation' ?
+        'Request would have succeeded, but DryRun flag is set.' :
+        `${instanceType} capacity reservation failed in ${params.get('AvailabilityZone') || region}.`);
+    }
+
+    return sendError('InvalidAction', `The action ${action} is not valid for this web service.`);
+  });
+}
+
+function placementScore(scenario: FakeEc2Scenario, region: string, instanceType: string): number {
+  const rule = scenario.placementScores?.find(r =>
+    (!r.region || matchesPattern(region, r.region)) &&
+    (!r.instanceType || matchesPattern(instanceType, r.instanceType))
+  );
+  return Math.max(1, Math.min(10, Math.round(rule?.score ?? scenario.defaultPlacementScore ?? 5)));
+}
+
+// Query API 목록 파라미터 (InstanceType.1, InstanceType.2, ...)
+function listParam(params: URLSearchParams, name: string): string[] {
+  const values: string[] = [];
+  for (let i = 1; params.has(`${name}.${i}`); i++) {
+    values.push(params.get(`${name}.${i}`)!);
+  }
+  return values;
+}
+
+// Query API 필터 값 (Filter.N.Name=name, Filter.N.Value.M)
+function filterValues(params: URLSearchParams, name: string): string[] {
+  for (let i = 1; params.has(`Filter.${i}.Name`); i++) {
+    if (params.get(`Filter.${i}.Name`) === name) return listParam(params, `Filter.${i}.Value`);
+  }
+  return [];
+}
+
+// 엔드포인트가 하나라서 요청 리전은 SigV4 서명 범위(Credential=.../날짜/리전/ec2/aws4_request)에서 읽음
+function signingRegion(request: IncomingMessage): string | null {
+  const match = (request.headers.authorization || '').match(/Credential=[^/]+\/\d{8}\/([^/]+)\/ec2\//);
+  return match ? match[1] : null;
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// tsx로 직접 실행하면 서버 시작
+if (process.argv[1]?.endsWith('aws-fake-ec2.ts')) {
+  const port = parseInt(process.env.FAKE_EC2_PORT || '4599', 10);
+  createFakeEc2Server().listen(port, () => {
+    console.log(`🧪 가짜 EC2 엔드포인트 실행 중: http://localhost:${port} (AWS_EC2_ENDPOINT로 지정)`);
+  });
+}
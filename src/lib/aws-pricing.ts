@@ -1,103 +1,205 @@
+import fs from 'fs/promises'
 import { PricingClient, GetProductsCommand, Filter } from '@aws-sdk/client-pricing'
+import { COMMITMENT_HOURS, PurchaseOption } from './purchase-options'
+import { FetchOffersOptions, InstanceOffer, ProviderPricingAdapter, ProviderPricingResponse } from './provider-pricing'
 
-// AWS Price List API 클라이언트 (Public API - 인증 불필요)
-// Pricing API는 us-east-1에서만 작동하며, 공개 API이므로 credentials 불필요
-const pricingClient = new PricingClient({ 
+// AWS Price List API 클라이언트
+// Pricing API는 us-east-1에서만 작동하며, SDK 기본 자격 증명 체인을 사용
+const pricingClient = new PricingClient({
   region: 'us-east-1'
-  // AWS Price List API는 public API이므로 credentials가 불필요합니다
-  // 하지만 SDK에서 credentials를 요구하므로 anonymous 설정
 })
 
-// 리전 코드를 AWS 위치 이름으로 매핑
+// 리전 코드를 AWS 위치 이름으로 매핑 (상용 리전 전체)
 const AWS_REGION_MAPPING: Record<string, string> = {
   'us-east-1': 'US East (N. Virginia)',
+  'us-east-2': 'US East (Ohio)',
+  'us-west-1': 'US West (N. California)',
   'us-west-2': 'US West (Oregon)',
+  'af-south-1': 'Africa (Cape Town)',
+  'ap-east-1': 'Asia Pacific (Hong Kong)',
+  'ap-south-1': 'Asia Pacific (Mumbai)',
+  'ap-south-2': 'Asia Pacific (Hyderabad)',
   'ap-northeast-1': 'Asia Pacific (Tokyo)',
   'ap-northeast-2': 'Asia Pacific (Seoul)',
-  'eu-west-1': 'Europe (Ireland)',
-  'ap-southeast-1': 'Asia Pacific (Singapore)'
+  'ap-northeast-3': 'Asia Pacific (Osaka)',
+  'ap-southeast-1': 'Asia Pacific (Singapore)',
+  'ap-southeast-2': 'Asia Pacific (Sydney)',
+  'ap-southeast-3': 'Asia Pacific (Jakarta)',
+  'ap-southeast-4': 'Asia Pacific (Melbourne)',
+  'ap-southeast-5': 'Asia Pacific (Malaysia)',
+  'ca-central-1': 'Canada (Central)',
+  'ca-west-1': 'Canada West (Calgary)',
+  'eu-central-1': 'EU (Frankfurt)',
+  'eu-central-2': 'EU (Zurich)',
+  'eu-west-1': 'EU (Ireland)',
+  'eu-west-2': 'EU (London)',
+  'eu-west-3': 'EU (Paris)',
+  'eu-south-1': 'EU (Milan)',
+  'eu-south-2': 'EU (Spain)',
+  'eu-north-1': 'EU (Stockholm)',
+  'il-central-1': 'Israel (Tel Aviv)',
+  'me-south-1': 'Middle East (Bahrain)',
+  'me-central-1': 'Middle East (UAE)',
+  'sa-east-1': 'South America (Sao Paulo)'
 }
 
-// GPU 인스턴스 패밀리 정의
-const GPU_INSTANCE_FAMILIES = ['p3', 'p4', 'p5', 'g4', 'g5', 'g6']
+// Price List의 instanceFamily 속성 중 GPU / ML 가속기 패밀리
+const GPU_INSTANCE_FAMILY_ATTRIBUTES = ['GPU instance', 'Machine Learning ASIC Instances']
+
+// 인스턴스 패밀리(p5e.48xlarge의 p5e) → 가속기 모델
+const GPU_FAMILY_MODELS: Record<string, string> = {
+  'p5en': 'H200',
+  'p5e': 'H200',
+  'p5': 'H100',
+  'p4de': 'A100 80GB',
+  'p4d': 'A100',
+  'p3dn': 'Tesla V100',
+  'p3': 'Tesla V100',
+  'p2': 'Tesla K80',
+  'g6e': 'L40S',
+  'g6': 'L4',
+  'gr6': 'L4',
+  'g5g': 'T4G',
+  'g5': 'A10G',
+  'g4dn': 'Tesla T4',
+  'g4ad': 'Radeon Pro V520',
+  'g3': 'Tesla M60',
+  'trn2': 'Trainium2',
+  'trn1n': 'Trainium',
+  'trn1': 'Trainium',
+  'inf2': 'Inferentia2',
+  'inf1': 'Inferentia',
+  'dl1': 'Gaudi',
+  'dl2q': 'Qualcomm AI 100'
+}
+
+// Price List에 gpu 속성이 없는 가속기 인스턴스의 디바이스 수
+const ACCELERATOR_COUNTS: Record<string, number> = {
+  'trn1.2xlarge': 1,
+  'trn1.32xlarge': 16,
+  'trn1n.32xlarge': 16,
+  'trn2.48xlarge': 16,
+  'inf1.xlarge': 1,
+  'inf1.2xlarge': 1,
+  'inf1.6xlarge': 4,
+  'inf1.24xlarge': 16,
+  'inf2.xlarge': 1,
+  'inf2.8xlarge': 1,
+  'inf2.24xlarge': 6,
+  'inf2.48xlarge': 12
+}
 
-interface AWSPriceData {
+export type AWSPurchaseOption = Extract<PurchaseOption, 'on_demand' | 'reserved_1yr' | 'reserved_3yr'>
+
+export interface AWSGPUInstancePrice {
   instanceType: string
-  region: string
-  pricePerHour: number
+  region: string // 리전 코드 (ap-northeast-2)
+  pricePerHour: number // Reserved는 선결제 포함 시간당 실효 단가
+  purchaseOption: AWSPurchaseOption
   currency: string
-  operatingSystem: string
-  tenancy: string
   lastUpdated: string
+  gpuModel: string
+  gpuCount: number
+  vcpu: number
+  memory: number
+  sku: string
 }
 
-interface AWSPricingResponse {
-  PriceList: Array<{
-    product: {
-      attributes: {
-        instanceType: string
-        location: string
-        operatingSystem: string
-        tenancy: string
-        capacitystatus: string
-      }
-    }
-    terms: {
-      OnDemand?: Record<string, {
-        priceDimensions: Record<string, {
-          pricePerUnit: {
-            USD: string
-          }
-          unit: string
-        }>
-      }>
-    }
+export interface AWSPricingServiceOptions {
+  client?: PricingClient
+  offlineFile?: string // 저장된 Price List bulk JSON (offers/v1.0/aws/AmazonEC2/current/index.json 형식)
+}
+
+// Price List 상품 한 건 (GetProducts PriceList 항목 / bulk JSON 공통 형태)
+interface AWSPriceListProduct {
+  product: {
+    sku: string
+    attributes: Record<string, string | undefined>
+  }
+  terms: {
+    OnDemand?: Record<string, AWSPriceTerm>
+    Reserved?: Record<string, AWSPriceTerm>
+  }
+}
+
+interface AWSPriceTerm {
+  priceDimensions: Record<string, {
+    unit: string
+    pricePerUnit: { USD?: string }
   }>
-  NextToken?: string
+  termAttributes?: {
+    LeaseContractLength?: string
+    OfferingClass?: string
+    PurchaseOption?: string
+  }
+}
+
+// Price List bulk JSON (offer file)
+interface AWSPriceListBulkFile {
+  products: Record<string, AWSPriceListProduct['product']>
+  terms: {
+    OnDemand?: Record<string, Record<string, AWSPriceTerm>>
+    Reserved?: Record<string, Record<string, AWSPriceTerm>>
+  }
 }
 
-export class AWSPricingService {
+export class AWSPricingService implements ProviderPricingAdapter {
+  readonly providerCode = 'aws'
+  readonly displayName = 'AWS'
+  private readonly client: PricingClient
+  private readonly offlineFile?: string
+
+  constructor(options: AWSPricingServiceOptions = {}) {
+    this.client = options.client || pricingClient
+    this.offlineFile = options.offlineFile || process.env.AWS_PRICE_LIST_FILE || undefined
+  }
+
   /**
-   * AWS GPU 인스턴스 가격 조회 (개선된 Public API 버전)
+   * AWS GPU 인스턴스 가격 조회 (Price List GetProducts 전체 페이지 또는 오프라인 bulk 파일)
    */
   async fetchGPUPrices(regions?: string[]): Promise<{
     success: boolean
     data?: {
-      instances: Array<{
-        instanceType: string
-        region: string
-        pricePerHour: number
-        currency: string
-        lastUpdated: string
-        gpuModel: string
-        gpuCount: number
-        vcpu: number
-        memory: number
-      }>
+      instances: AWSGPUInstancePrice[]
       totalCount: number
       regions: string[]
       gpuModels: string[]
+      source: 'api' | 'offline'
     }
     error?: string
     message?: string
   }> {
     try {
-      console.log('Fetching AWS GPU pricing information...')
-      
-      const availableRegions = regions && regions.length > 0 
-        ? regions.filter(r => AWS_REGION_MAPPING[r]) 
-        : Object.keys(AWS_REGION_MAPPING)
+      const regionFilter = regions && regions.length > 0 ? new Set(regions.map(getAWSRegionCode)) : null
+
+      console.log(this.offlineFile
+        ? `Replaying AWS Price List from ${this.offlineFile}...`
+        : 'Fetching AWS GPU pricing information...')
+
+      const products = this.offlineFile
+        ? await this.loadOfflineProducts(this.offlineFile)
+        : await this.fetchGPUProducts(regionFilter ? Array.from(regionFilter) : undefined)
+
+      const instances: AWSGPUInstancePrice[] = []
+      for (const product of products) {
+        for (const price of this.parseAWSPriceItem(product)) {
+          if (!regionFilter || regionFilter.has(price.region)) {
+            instances.push(price)
+          }
+        }
+      }
 
-      const instances = this.getKnownAWSPrices(availableRegions)
       const gpuModels = [...new Set(instances.map(i => i.gpuModel))]
-      
+      const processedRegions = [...new Set(instances.map(i => i.region))]
+
       return {
         success: true,
         data: {
           instances: instances.sort((a, b) => a.pricePerHour - b.pricePerHour),
           totalCount: instances.length,
-          regions: availableRegions.map(r => AWS_REGION_MAPPING[r]).filter(Boolean),
-          gpuModels: gpuModels.sort()
+          regions: processedRegions.sort(),
+          gpuModels: gpuModels.sort(),
+          source: this.offlineFile ? 'offline' : 'api'
         }
       }
     } catch (error) {
@@ -105,142 +207,84 @@ export class AWSPricingService {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
-        message: 'AWS API 호출에 실패했습니다. Known pricing 데이터를 표시합니다.'
+        message: 'AWS Price List 조회에 실패했습니다.'
       }
     }
   }
 
   /**
-   * 알려진 AWS 가격 정보 (2024년 기준)
+   * 정규화된 오퍼 조회 (ProviderPricingAdapter)
    */
-  private getKnownAWSPrices(regions: string[]): Array<{
-    instanceType: string
-    region: string
-    pricePerHour: number
-    currency: string
-    lastUpdated: string
-    gpuModel: string
-    gpuCount: number
-    vcpu: number
-    memory: number
-  }> {
-    const knownPrices = [
-      // P5 Series (H100)
-      { instanceType: 'p5.48xlarge', pricePerHour: 98.32, gpuModel: 'H100', gpuCount: 8, vcpu: 192, memory: 2048 },
-      { instanceType: 'p5.24xlarge', pricePerHour: 49.16, gpuModel: 'H100', gpuCount: 4, vcpu: 96, memory: 1024 },
-      { instanceType: 'p5.12xlarge', pricePerHour: 24.58, gpuModel: 'H100', gpuCount: 2, vcpu: 48, memory: 512 },
-      { instanceType: 'p5.6xlarge', pricePerHour: 12.29, gpuModel: 'H100', gpuCount: 1, vcpu: 24, memory: 256 },
-
-      // P4d Series (A100)
-      { instanceType: 'p4d.24xlarge', pricePerHour: 32.77, gpuModel: 'A100', gpuCount: 8, vcpu: 96, memory: 1152 },
-      { instanceType: 'p4de.24xlarge', pricePerHour: 40.96, gpuModel: 'A100 80GB', gpuCount: 8, vcpu: 96, memory: 1152 },
-
-      // P3 Series (V100)
-      { instanceType: 'p3.16xlarge', pricePerHour: 24.48, gpuModel: 'Tesla V100', gpuCount: 8, vcpu: 64, memory: 488 },
-      { instanceType: 'p3.8xlarge', pricePerHour: 12.24, gpuModel: 'Tesla V100', gpuCount: 4, vcpu: 32, memory: 244 },
-      { instanceType: 'p3.2xlarge', pricePerHour: 3.06, gpuModel: 'Tesla V100', gpuCount: 1, vcpu: 8, memory: 61 },
-
-      // G5 Series (A10G)
-      { instanceType: 'g5.48xlarge', pricePerHour: 16.288, gpuModel: 'A10G', gpuCount: 8, vcpu: 192, memory: 768 },
-      { instanceType: 'g5.24xlarge', pricePerHour: 8.144, gpuModel: 'A10G', gpuCount: 4, vcpu: 96, memory: 384 },
-      { instanceType: 'g5.12xlarge', pricePerHour: 4.072, gpuModel: 'A10G', gpuCount: 4, vcpu: 48, memory: 192 },
-      { instanceType: 'g5.8xlarge', pricePerHour: 2.448, gpuModel: 'A10G', gpuCount: 2, vcpu: 32, memory: 128 },
-      { instanceType: 'g5.4xlarge', pricePerHour: 1.224, gpuModel: 'A10G', gpuCount: 1, vcpu: 16, memory: 64 },
-      { instanceType: 'g5.2xlarge', pricePerHour: 0.752, gpuModel: 'A10G', gpuCount: 1, vcpu: 8, memory: 32 },
-      { instanceType: 'g5.xlarge', pricePerHour: 1.006, gpuModel: 'A10G', gpuCount: 1, vcpu: 4, memory: 16 },
-
-      // G4dn Series (T4)
-      { instanceType: 'g4dn.16xlarge', pricePerHour: 4.352, gpuModel: 'Tesla T4', gpuCount: 1, vcpu: 64, memory: 256 },
-      { instanceType: 'g4dn.12xlarge', pricePerHour: 3.912, gpuModel: 'Tesla T4', gpuCount: 4, vcpu: 48, memory: 192 },
-      { instanceType: 'g4dn.8xlarge', pricePerHour: 2.176, gpuModel: 'Tesla T4', gpuCount: 1, vcpu: 32, memory: 128 },
-      { instanceType: 'g4dn.4xlarge', pricePerHour: 1.088, gpuModel: 'Tesla T4', gpuCount: 1, vcpu: 16, memory: 64 },
-      { instanceType: 'g4dn.2xlarge', pricePerHour: 0.544, gpuModel: 'Tesla T4', gpuCount: 1, vcpu: 8, memory: 32 },
-      { instanceType: 'g4dn.xlarge', pricePerHour: 0.526, gpuModel: 'Tesla T4', gpuCount: 1, vcpu: 4, memory: 16 }
-    ]
-
-    const result = []
-    for (const region of regions) {
-      for (const price of knownPrices) {
-        result.push({
-          ...price,
-          region: AWS_REGION_MAPPING[region] || region,
-          currency: 'USD',
-          lastUpdated: new Date().toISOString()
-        })
-      }
+  async fetchOffers(options: FetchOffersOptions = {}): Promise<ProviderPricingResponse> {
+    const result = await this.fetchGPUPrices(options.regions)
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error, message: result.message }
     }
 
-    return result
+    const offers: InstanceOffer[] = result.data.instances.map(instance => ({
+      provider: this.providerCode,
+      region: instance.region,
+      instanceName: instance.instanceType,
+      purchaseOption: instance.purchaseOption,
+      pricePerHour: instance.pricePerHour,
+      currency: instance.currency,
+      sourceSku: instance.sku,
+      familyCode: instance.instanceType.split('.')[0],
+      gpuModel: instance.gpuModel,
+      gpuCount: instance.gpuCount,
+      vcpu: instance.vcpu,
+      ramGb: instance.memory,
+      raw: instance
+    }))
+    await options.onProgress?.(offers.length)
+
+    return {
+      success: true,
+      data: {
+        offers,
+        totalCount: offers.length,
+        fetchedAt: new Date().toISOString(),
+        currency: 'USD',
+        regions: result.data.regions,
+        gpuModels: result.data.gpuModels,
+        details: { source: result.data.source }
+      }
+    }
   }
 
   /**
-   * Seoul 리전의 GPU 인스턴스 가격 조회 (레거시)
+   * GPU / ML 가속기 패밀리 상품을 GetProducts로 전체 페이지 조회
    */
-  async fetchSeoulGPUPrices(): Promise<AWSPriceData[]> {
-    try {
-      const location = AWS_REGION_MAPPING['ap-northeast-2']
-      const results: AWSPriceData[] = []
+  private async fetchGPUProducts(regions?: string[]): Promise<AWSPriceListProduct[]> {
+    const products: AWSPriceListProduct[] = []
+
+    for (const instanceFamily of GPU_INSTANCE_FAMILY_ATTRIBUTES) {
+      // 리전 지정 시 리전별로 조회해 페이지 수를 줄임
+      for (const regionCode of regions || [undefined]) {
+        console.log(`Fetching AWS prices for ${instanceFamily}${regionCode ? ` in ${regionCode}` : ''}...`)
 
-      // GPU 인스턴스 패밀리별로 가격 조회
-      for (const family of GPU_INSTANCE_FAMILIES) {
-        console.log(`Fetching AWS prices for ${family} family in Seoul...`)
-        
         const filters: Filter[] = [
-          {
-            Type: 'TERM_MATCH',
-            Field: 'ServiceCode',
-            Value: 'AmazonEC2'
-          },
-          {
-            Type: 'TERM_MATCH',
-            Field: 'location',
-            Value: location
-          },
-          {
-            Type: 'TERM_MATCH',
-            Field: 'instanceFamily',
-            Value: family
-          },
-          {
-            Type: 'TERM_MATCH',
-            Field: 'operatingSystem',
-            Value: 'Linux'
-          },
-          {
-            Type: 'TERM_MATCH',
-            Field: 'tenancy',
-            Value: 'Shared'
-          },
-          {
-            Type: 'TERM_MATCH',
-            Field: 'capacitystatus',
-            Value: 'Used'
-          }
+          { Type: 'TERM_MATCH', Field: 'instanceFamily', Value: instanceFamily },
+          { Type: 'TERM_MATCH', Field: 'operatingSystem', Value: 'Linux' },
+          { Type: 'TERM_MATCH', Field: 'tenancy', Value: 'Shared' },
+          { Type: 'TERM_MATCH', Field: 'preInstalledSw', Value: 'NA' },
+          { Type: 'TERM_MATCH', Field: 'capacitystatus', Value: 'Used' },
+          ...(regionCode ? [{ Type: 'TERM_MATCH' as const, Field: 'regionCode', Value: regionCode }] : [])
         ]
 
-        const familyPrices = await this.fetchPricesWithFilters(filters)
-        results.push(...familyPrices)
-        
-        // Rate limiting: AWS API 호출 간격 조절
-        await this.delay(100)
+        products.push(...await this.fetchProductsWithFilters(filters))
       }
-
-      console.log(`Successfully fetched ${results.length} AWS GPU instance prices`)
-      return results
-
-    } catch (error) {
-      console.error('Error fetching AWS prices:', error)
-      
-      // AWS API 사용 불가 시 더미 데이터 반환
-      return this.getDummyAWSPrices()
     }
+
+    console.log(`Successfully fetched ${products.length} AWS GPU products`)
+    return products
   }
 
   /**
-   * 필터를 사용하여 가격 데이터 조회
+   * 필터를 사용하여 상품 조회 (NextToken 페이지네이션)
    */
-  private async fetchPricesWithFilters(filters: Filter[]): Promise<AWSPriceData[]> {
-    const results: AWSPriceData[] = []
+  private async fetchProductsWithFilters(filters: Filter[]): Promise<AWSPriceListProduct[]> {
+    const results: AWSPriceListProduct[] = []
     let nextToken: string | undefined
 
     do {
@@ -251,21 +295,18 @@ export class AWSPricingService {
         NextToken: nextToken
       })
 
-      try {
-        const response = await pricingClient.send(command)
-        const data = response as AWSPricingResponse
+      const response = await this.client.send(command)
 
-        for (const item of data.PriceList || []) {
-          const priceData = this.parseAWSPriceItem(item)
-          if (priceData) {
-            results.push(priceData)
-          }
-        }
+      // SDK v3의 PriceList 항목은 JSON 문자열
+      for (const item of response.PriceList || []) {
+        results.push(typeof item === 'string' ? JSON.parse(item) : item)
+      }
+
+      nextToken = response.NextToken
 
-        nextToken = data.NextToken
-      } catch (error) {
-        console.error('AWS API call failed:', error)
-        break
+      // Rate limiting: AWS API 호출 간격 조절
+      if (nextToken) {
+        await this.delay(100)
       }
     } while (nextToken)
 
@@ -273,73 +314,104 @@ export class AWSPricingService {
   }
 
   /**
-   * AWS API 응답에서 가격 정보 파싱
+   * 저장된 Price List bulk JSON에서 GPU 상품 복원 (오프라인 재생)
+   */
+  private async loadOfflineProducts(filePath: string): Promise<AWSPriceListProduct[]> {
+    const file: AWSPriceListBulkFile = JSON.parse(await fs.readFile(filePath, 'utf-8'))
+    const products: AWSPriceListProduct[] = []
+
+    for (const [sku, product] of Object.entries(file.products || {})) {
+      const attributes = product.attributes || {}
+      if (!GPU_INSTANCE_FAMILY_ATTRIBUTES.includes(attributes.instanceFamily || '')) continue
+      if (attributes.operatingSystem !== 'Linux' || attributes.tenancy !== 'Shared') continue
+      if ((attributes.preInstalledSw || 'NA') !== 'NA' || (attributes.capacitystatus || 'Used') !== 'Used') continue
+
+      products.push({
+        product: { ...product, sku },
+        terms: {
+          OnDemand: file.terms?.OnDemand?.[sku],
+          Reserved: file.terms?.Reserved?.[sku]
+        }
+      })
+    }
+
+    return products
+  }
+
+  /**
+   * Price List 상품에서 OnDemand / Reserved 가격 파싱
    */
-  private parseAWSPriceItem(item: any): AWSPriceData | null {
+  private parseAWSPriceItem(item: AWSPriceListProduct): AWSGPUInstancePrice[] {
     try {
       const attributes = item.product?.attributes
-      if (!attributes) return null
+      if (!attributes?.instanceType) return []
 
+      // instanceFamily 필터를 통과한 GPU / 가속기 상품 (모델 / 개수는 매핑 → 상품 속성 순)
       const instanceType = attributes.instanceType
-      const location = attributes.location
-      const operatingSystem = attributes.operatingSystem
-      const tenancy = attributes.tenancy
+      const gpuModel = getAWSGPUModel(instanceType, attributes)
+      const gpuCount = getAWSAcceleratorCount(instanceType, attributes)
 
-      // GPU 인스턴스만 필터링
-      if (!this.isGPUInstance(instanceType)) {
-        return null
+      if (!gpuModel || !gpuCount) {
+        console.warn(`AWS 가속기 상품 해석 불가 (건너뜀): ${instanceType} sku=${item.product.sku} model=${gpuModel ?? '?'} count=${gpuCount ?? '?'}`)
+        return []
       }
 
-      // On-Demand 가격 추출
-      const onDemandTerms = item.terms?.OnDemand
-      if (!onDemandTerms) return null
+      const base = {
+        instanceType,
+        region: attributes.regionCode || getAWSRegionCode(attributes.location || ''),
+        currency: 'USD',
+        lastUpdated: new Date().toISOString(),
+        gpuModel,
+        gpuCount,
+        vcpu: parseInt(attributes.vcpu || '', 10) || 0,
+        memory: parseFloat((attributes.memory || '').replace(/,/g, '')) || 0,
+        sku: item.product.sku
+      }
 
-      const termKey = Object.keys(onDemandTerms)[0]
-      const priceDimensions = onDemandTerms[termKey]?.priceDimensions
-      if (!priceDimensions) return null
+      const prices: AWSGPUInstancePrice[] = []
 
-      const dimensionKey = Object.keys(priceDimensions)[0]
-      const priceInfo = priceDimensions[dimensionKey]
-      
-      const pricePerHour = parseFloat(priceInfo.pricePerUnit?.USD || '0')
-      if (pricePerHour === 0) return null
+      // On-Demand 가격 추출
+      for (const term of Object.values(item.terms?.OnDemand || {})) {
+        const hourly = this.getHourlyRate(term)
+        if (hourly > 0) {
+          prices.push({ ...base, pricePerHour: hourly, purchaseOption: 'on_demand' })
+          break
+        }
+      }
 
-      return {
-        instanceType,
-        region: this.locationToRegion(location),
-        pricePerHour,
-        currency: 'USD',
-        operatingSystem,
-        tenancy,
-        lastUpdated: new Date().toISOString()
+      // Reserved: standard 약정 중 선결제 포함 시간당 실효 단가가 가장 낮은 옵션
+      for (const lease of ['1yr', '3yr'] as const) {
+        const effectiveRates = Object.values(item.terms?.Reserved || {})
+          .filter(term => term.termAttributes?.LeaseContractLength === lease && term.termAttributes?.OfferingClass === 'standard')
+          .map(term => this.getHourlyRate(term) + this.getUpfrontFee(term) / COMMITMENT_HOURS[lease])
+          .filter(rate => rate > 0)
+
+        if (effectiveRates.length > 0) {
+          prices.push({ ...base, pricePerHour: Math.min(...effectiveRates), purchaseOption: `reserved_${lease}` })
+        }
       }
+
+      return prices
     } catch (error) {
       console.error('Error parsing AWS price item:', error)
-      return null
+      return []
     }
   }
 
   /**
-   * 인스턴스 타입이 GPU 인스턴스인지 확인
+   * 약정의 시간당 요금 (unit: Hrs)
    */
-  private isGPUInstance(instanceType: string): boolean {
-    const gpuFamilies = ['p3', 'p4', 'p5', 'g4', 'g5', 'g6']
-    return gpuFamilies.some(family => instanceType.startsWith(family))
+  private getHourlyRate(term: AWSPriceTerm): number {
+    const dimension = Object.values(term.priceDimensions || {}).find(d => d.unit === 'Hrs')
+    return parseFloat(dimension?.pricePerUnit?.USD || '0') || 0
   }
 
   /**
-   * AWS 위치 이름을 리전 코드로 변환
+   * 약정의 선결제 금액 (unit: Quantity)
    */
-  private locationToRegion(location: string): string {
-    const mapping: Record<string, string> = {
-      'US East (N. Virginia)': 'us-east-1',
-      'US West (Oregon)': 'us-west-2',
-      'Asia Pacific (Tokyo)': 'ap-northeast-1',
-      'Asia Pacific (Seoul)': 'ap-northeast-2',
-      'Europe (Ireland)': 'eu-west-1',
-      'Asia Pacific (Singapore)': 'ap-southeast-1'
-    }
-    return mapping[location] || 'unknown'
+  private getUpfrontFee(term: AWSPriceTerm): number {
+    const dimension = Object.values(term.priceDimensions || {}).find(d => d.unit === 'Quantity')
+    return parseFloat(dimension?.pricePerUnit?.USD || '0') || 0
   }
 
   /**
@@ -348,76 +420,27 @@ export class AWSPricingService {
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms))
   }
+}
 
-  /**
-   * AWS API 사용 불가 시 더미 데이터 (현재 하드코딩된 가격 기반)
-   */
-  private getDummyAWSPrices(): AWSPriceData[] {
-    return [
-      {
-        instanceType: 'p5.48xlarge',
-        region: 'ap-northeast-2',
-        pricePerHour: 98.32,
-        currency: 'USD',
-        operatingSystem: 'Linux',
-        tenancy: 'Shared',
-        lastUpdated: new Date().toISOString()
-      },
-      {
-        instanceType: 'p4d.24xlarge',
-        region: 'ap-northeast-2',
-        pricePerHour: 32.77,
-        currency: 'USD',
-        operatingSystem: 'Linux',
-        tenancy: 'Shared',
-        lastUpdated: new Date().toISOString()
-      },
-      {
-        instanceType: 'g5.xlarge',
-        region: 'ap-northeast-2',
-        pricePerHour: 1.006,
-        currency: 'USD',
-        operatingSystem: 'Linux',
-        tenancy: 'Shared',
-        lastUpdated: new Date().toISOString()
-      },
-      {
-        instanceType: 'g5.2xlarge',
-        region: 'ap-northeast-2',
-        pricePerHour: 1.89,
-        currency: 'USD',
-        operatingSystem: 'Linux',
-        tenancy: 'Shared',
-        lastUpdated: new Date().toISOString()
-      }
-    ]
-  }
-
-  /**
-   * 가격 데이터를 내부 포맷으로 변환
-   */
-  mapToInternalFormat(awsPrices: AWSPriceData[]): Record<string, { pricePerHour: number; currency: string; lastUpdated: string }> {
-    const result: Record<string, { pricePerHour: number; currency: string; lastUpdated: string }> = {}
-
-    for (const price of awsPrices) {
-      // p5.48xlarge -> p5d.24xlarge 매핑 (실제 인스턴스 스펙과 맞춤)
-      let mappedInstanceType = price.instanceType
-      if (price.instanceType === 'p5.48xlarge') {
-        mappedInstanceType = 'p5d.24xlarge'
-      }
+// 싱글톤 인스턴스
+export const awsPricingService = new AWSPricingService()
 
-      const instanceId = `aws-${mappedInstanceType}`
-      result[instanceId] = {
-        pricePerHour: price.pricePerHour,
-        currency: price.currency,
-        lastUpdated: price.lastUpdated
-      }
-    }
 
-    return result
-  }
+// 위치 이름(Asia Pacific (Seoul)) 또는 리전 코드를 리전 코드로 변환
+export const getAWSRegionCode = (location: string): string => {
+  if (AWS_REGION_MAPPING[location]) return location
+  const entry = Object.entries(AWS_REGION_MAPPING).find(([, name]) => name === location)
+  return entry ? entry[0] : location
 }
 
-// 싱글톤 인스턴스
-export const awsPricingService = new AWSPricingService()
+// 인스턴스 타입(p5e.48xlarge)의 가속기 모델
+// 매핑에 없는 새 패밀리는 상품의 physicalProcessor 속성으로 대체, 둘 다 없으면 null
+export const getAWSGPUModel = (instanceType: string, attributes: Record<string, string | undefined> = {}): string | null => {
+  const family = instanceType.split('.')[0]
+  return GPU_FAMILY_MODELS[family] || attributes.physicalProcessor || null
+}
 
+// 가속기 개수 (상품의 gpu 속성 → 매핑 순, 둘 다 없으면 null)
+export const getAWSAcceleratorCount = (instanceType: string, attributes: Record<string, string | undefined> = {}): number | null => {
+  return parseInt(attributes.gpu || '', 10) || ACCELERATOR_COUNTS[instanceType] || null
+}
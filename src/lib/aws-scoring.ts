@@ -0,0 +1,195 @@
+// AWS 용량 스코어링 엔진 (AzureCapacityScoringEngine과 같은 0-100 점수 / 등급 기준)
+import { capacityScoreHistoryService } from './capacity-score-history';
+import { prisma } from './prisma';
+
+export interface AwsCapacityScoreResult {
+  region: string;
+  instanceType: string;
+  score: number; // 0-100 점수
+  label: 'AVAILABLE' | 'LIMITED' | 'UNAVAILABLE';
+  confidence: number; // 0-1 신뢰도
+
+  // 세부 지표들
+  placementScore: number | null; // 평균 Spot 배치 점수 (1-10), 조회 기록 없으면 null
+  reservationRate: number | null; // 용량 판단이 난 ODCR dry-run 중 예약 가능 비율 (0-1), DryRun 통과는 신호 없음이므로 용량 거부가 없으면 null
+  sampleCount: number;
+
+  // 집계 정보
+  windowStart: Date;
+  windowEnd: Date;
+  calculatedAt: Date;
+}
+
+export interface AwsStoredScoreQuery {
+  region?: string | null;
+  instanceType?: string | null;
+  label?: string | null;
+  limit?: number;
+}
+
+export interface AwsScoringWeights {
+  spotPlacement: number; // Spot 배치 점수 가중치
+  capacityReservation: number; // ODCR dry-run 가중치
+}
+
+export class AwsCapacityScoringEngine {
+  // 데이터가 있는 지표의 가중치 합으로 다시 나눔
+  private defaultWeights: AwsScoringWeights = {
+    spotPlacement: 0.6,       // 매 시간 갱신되는 리전별 상대 여유도
+    capacityReservation: 0.4  // 하루 1회, 모든 가용 영역에서 온디맨드 용량 거부된 기록 (통과는 success=null로 제외)
+  };
+
+  private scoreThresholds = {
+    available: 75,   // 75점 이상 = Available
+    limited: 40      // 40점 이상 = Limited, 미만 = Unavailable
+  };
+
+  /**
+   * 단일 리전/인스턴스 타입의 용량 스코어 계산
+   */
+  async calculateCapacityScore(
+    region: string,
+    instanceType: string,
+    windowHours: number = 24,
+    customWeights?: Partial<AwsScoringWeights>
+  ): Promise<AwsCapacityScoreResult> {
+    const weights = { ...this.defaultWeights, ...customWeights };
+    const windowEnd = new Date();
+    const windowStart = new Date(windowEnd.getTime() - windowHours * 60 * 60 * 1000);
+
+    const probes = await prisma.capacityProbe.findMany({
+      where: { provider: 'aws', region, instanceType, timestamp: { gte: windowStart, lte: windowEnd }, success: { not: null } },
+      select: { probeKind: true, success: true, placementScore: true, timestamp: true },
+      orderBy: { timestamp: 'desc' }
+    });
+
+    const placements = probes.filter(p => p.probeKind === 'spot_placement' && p.placementScore !== null);
+    const dryRuns = probes.filter(p => p.probeKind === 'odcr_dry_run');
+
+    if (placements.length === 0 && dryRuns.length === 0) {
+      return {
+        region,
+        instanceType,
+        score: 50,
+        label: 'LIMITED',
+        confidence: 0,
+        placementScore: null,
+        reservationRate: null,
+        sampleCount: 0,
+        windowStart,
+        windowEnd,
+        calculatedAt: new Date()
+      };
+    }
+
+    const placementScore = placements.length > 0
+      ? placements.reduce((sum, p) => sum + p.placementScore!, 0) / placements.length
+      : null;
+    const reservationRate = dryRuns.length > 0
+      ? dryRuns.filter(p => p.success).length / dryRuns.length
+      : null;
+
+    // 배치 점수 1-10 → 0-100
+    const components = [
+      ...(placementScore !== null ? [{ score: ((placementScore - 1) / 9) * 100, weight: weights.spotPlacement }] : []),
+      ...(reservationRate !== null ? [{ score: reservationRate * 100, weight: weights.capacityReservation }] : [])
+    ];
+    const totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+    const score = Math.round(components.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight);
+
+    return {
+      region,
+      instanceType,
+      score,
+      label: this.classifyScore(score),
+      confidence: Math.round(this.calculateConfidence(probes.length, probes[0].timestamp, windowHours) * 100) / 100,
+      placementScore: placementScore !== null ? Math.round(placementScore * 10) / 10 : null,
+      reservationRate,
+      sampleCount: probes.length,
+      windowStart,
+      windowEnd,
+      calculatedAt: new Date()
+    };
+  }
+
+  /**
+   * 신뢰도 계산 (0-1, Spot 배치 점수는 시간당 1회 수집 기준)
+   */
+  private calculateConfidence(sampleCount: number, lastProbeTime: Date, windowHours: number): number {
+    const sampleScore = Math.min(1, sampleCount / windowHours);
+
+    const maxAgeHours = 2; // 2시간 이내가 신선
+    const ageHours = (Date.now() - lastProbeTime.getTime()) / (60 * 60 * 1000);
+    const freshnessScore = Math.max(0, 1 - ageHours / maxAgeHours);
+
+    return sampleScore * 0.6 + freshnessScore * 0.4;
+  }
+
+  /**
+   * 점수 기반 등급 분류
+   */
+  private classifyScore(score: number): 'AVAILABLE' | 'LIMITED' | 'UNAVAILABLE' {
+    if (score >= this.scoreThresholds.available) return 'AVAILABLE';
+    if (score >= this.scoreThresholds.limited) return 'LIMITED';
+    return 'UNAVAILABLE';
+  }
+
+  /**
+   * 스코어 저장 (최신값 upsert + 이력 추가, 표본이 없으면 이전 측정값 유지)
+   */
+  async saveCapacityScore(scoreResult: AwsCapacityScoreResult): Promise<void> {
+    if (scoreResult.sampleCount === 0) {
+      console.log(`⏭️ AWS 용량 스코어 저장 생략 (데이터 없음): ${scoreResult.region}/${scoreResult.instanceType}`);
+      return;
+    }
+
+    const data = {
+      score: scoreResult.score,
+      label: scoreResult.label,
+      confidence: scoreResult.confidence,
+      placementScore: scoreResult.placementScore,
+      reservationRate: scoreResult.reservationRate,
+      sampleCount: scoreResult.sampleCount,
+      calculatedAt: scoreResult.calculatedAt,
+      windowStart: scoreResult.windowStart,
+      windowEnd: scoreResult.windowEnd
+    };
+
+    try {
+      await prisma.capacityScore.upsert({
+        where: {
+          provider_region_instanceType: {
+            provider: 'aws',
+            region: scoreResult.region,
+            instanceType: scoreResult.instanceType
+          }
+        },
+        update: data,
+        create: { provider: 'aws', region: scoreResult.region, instanceType: scoreResult.instanceType, ...data }
+      });
+      await capacityScoreHistoryService.record('aws', { ...data, region: scoreResult.region, instanceType: scoreResult.instanceType });
+      console.log(`💾 AWS 용량 스코어 저장: ${scoreResult.region}/${scoreResult.instanceType} - ${scoreResult.score}점 (${scoreResult.label})`);
+    } catch (error) {
+      console.error('AWS 용량 스코어 저장 실패:', error);
+    }
+  }
+
+  /**
+   * 저장된 용량 스코어 조회 (CapacityScore 중 provider=aws, 점수 높은 순)
+   */
+  async getStoredScores(query: AwsStoredScoreQuery = {}) {
+    return await prisma.capacityScore.findMany({
+      where: {
+        provider: 'aws',
+        ...(query.region && { region: query.region }),
+        ...(query.instanceType && { instanceType: query.instanceType }),
+        ...(query.label && { label: query.label })
+      },
+      orderBy: [{ score: 'desc' }, { calculatedAt: 'desc' }],
+      take: query.limit ?? 50
+    });
+  }
+}
+
+// 기본 인스턴스 내보내기
+export const awsCapacityScoringEngine = new AwsCapacityScoringEngine();
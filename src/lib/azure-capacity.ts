@@ -1,27 +1,14 @@
 // Azure 용량 확인 서비스
-import { ComputeManagementClient } from '@azure/arm-compute';
-import { DefaultAzureCredential } from '@azure/identity';
+import { VirtualMachine } from '@azure/arm-compute';
+import { Prisma } from '@prisma/client';
+import { ArmProbeComputeClient, ProbeComputeClient, QuotaUsage, TestVmDeleteResult } from './azure-compute-client';
+import { CapacityErrorClass, classifyCapacityError } from './capacity-errors';
+import { createDemoComputeClient, isAzureCapacityDemo } from './azure-demo';
+import { azureProbeBudgetService, ProbeBudgetDecision } from './azure-probe-budget';
 import { prisma } from './prisma';
 
-// Azure 에러 코드 매핑 (용량 관련만)
-export const AZURE_CAPACITY_ERRORS = [
-  'AllocationFailed',
-  'SkuNotAvailable', 
-  'InsufficientCapacity',
-  'ZoneNotAvailable',
-  'ResourceUnavailable',
-  'OperationNotAllowed',
-  'InternalError' // 때로는 용량 부족으로 나타남
-] as const;
-
-export const AZURE_IGNORED_ERRORS = [
-  'QuotaExceeded',          // 쿼터 → 무시
-  'AuthorizationFailed',    // 권한 → 무시
-  'InvalidParameter',       // 기타 → 무시
-  'BadRequest',             // 요청 오류 → 무시
-  'Forbidden',              // 권한 → 무시
-  'Unauthorized'            // 권한 → 무시
-] as const;
+// vm_create = 테스트 VM 생성 (비용 발생), sku_quota = SKU 제한 / 쿼터 조회 (비용 없음)
+export type AzureProbeKind = 'vm_create' | 'sku_quota';
 
 export interface AzureCapacityProbeConfig {
   subscriptionId: string;
@@ -29,49 +16,84 @@ export interface AzureCapacityProbeConfig {
   testRegions: string[];
   testVmSizes: string[];
   probeIntervalMinutes: number;
-  maxCostPerMonth: number; // USD
-  enableActualVmCreation: boolean; // false면 모킹
+  enableActualVmCreation: boolean; // false면 데모 모드(AZURE_CAPACITY_DEMO=true)에서만 시나리오 기반 가짜 클라이언트 사용
 }
 
 export interface AzureCapacityProbeResult {
   region: string;
   vmSize: string;
+  probeKind?: AzureProbeKind; // 기본 vm_create
   success: boolean | null; // null = ignored error
   errorCode?: string;
-  errorClass: 'capacity' | 'quota' | 'permission' | 'ignored';
+  errorClass: CapacityErrorClass;
   provisionMs?: number;
-  testInstanceId?: string;
+  testInstanceId?: string; // 생성을 시도한 테스트 VM 이름 (실패해도 기록)
+  cleanupRequired?: boolean; // 삭제할 리소스가 남아 있을 수 있음 (생성 성공 또는 실제 구독에서 생성 실패)
+  subscriptionId?: string; // 실제 VM을 만든 구독 (CapacityProbe.accountId)
   cost?: number;
+  hourlyRateUsd?: number; // 비용 추정에 쓴 시간당 요금
   timestamp: Date;
+  demo?: boolean; // 가짜 클라이언트(데모 / 시뮬레이션) 결과
+  details?: Record<string, unknown>; // metadata로 저장할 추가 정보 (SKU 제한 / 쿼터 등)
+}
+
+// CapacityProbe(provider=azure) 조회 행
+export interface AzureCapacityProbeRecord {
+  id: string;
+  timestamp: Date;
+  region: string;
+  vmSize: string;
+  probeKind: string;
+  success: boolean | null;
+  errorCode: string | null;
+  errorClass: string | null;
+  provisionMs: number | null;
+  testInstanceId: string | null;
+  cleanedUp: boolean;
+  cost: number | null;
+}
+
+export interface ProbeReaperOptions {
+  minAgeMinutes?: number; // 이보다 최근 프로브는 백그라운드 정리 중일 수 있으므로 제외
+  maxAttempts?: number; // 이 횟수만큼 실패하면 수동 정리 대상으로 남김
+  limit?: number;
+}
+
+export interface ProbeReaperResult {
+  checked: number;
+  deleted: number;
+  alreadyGone: number;
+  failed: number;
+  abandoned: number; // 재시도 한도를 넘어 수동 정리가 필요한 VM 수
+  skipped?: string; // Compute 클라이언트가 없어 실행하지 않은 사유
+  errors: string[];
 }
 
 export class AzureCapacityService {
-  private computeClient: ComputeManagementClient | null = null;
+  private computeClient: ProbeComputeClient | null;
   private config: AzureCapacityProbeConfig;
   private isInitialized = false;
 
-  constructor(config: AzureCapacityProbeConfig) {
+  // computeClient를 주입하면 (시나리오 기반 가짜 클라이언트 등) 실제 VM 생성 설정과 무관하게 그 클라이언트로 프로브 / 정리
+  constructor(config: AzureCapacityProbeConfig, computeClient: ProbeComputeClient | null = null) {
     this.config = config;
+    this.computeClient = computeClient;
   }
 
   async initialize(): Promise<void> {
     try {
-      if (this.config.enableActualVmCreation) {
+      if (!this.computeClient && this.config.enableActualVmCreation) {
         // 실제 Azure 연결
-        const credential = new DefaultAzureCredential();
-        this.computeClient = new ComputeManagementClient(
-          credential, 
-          this.config.subscriptionId
-        );
-        
+        this.computeClient = new ArmProbeComputeClient(this.config.subscriptionId);
+      } else if (!this.computeClient && isAzureCapacityDemo()) {
+        this.computeClient = createDemoComputeClient();
+        console.log('🔄 Azure Capacity Service 데모 모드로 초기화 (시나리오 기반 가짜 클라이언트)');
+      }
+
+      if (this.computeClient) {
         // 연결 테스트
-        await this.computeClient.virtualMachines.list(
-          this.config.resourceGroupName || 'gpu-brokerage-test'
-        );
-        
-        console.log('✅ Azure Compute Client 초기화 완료');
-      } else {
-        console.log('🔄 Azure Capacity Service 모킹 모드로 초기화');
+        await this.computeClient.verifyAccess(this.getResourceGroupName());
+        console.log(`✅ Azure Compute Client 초기화 완료 (${this.computeClient.kind})`);
       }
       
       this.isInitialized = true;
@@ -87,47 +109,162 @@ export class AzureCapacityService {
    */
   async checkCapacity(region: string, vmSize: string): Promise<AzureCapacityProbeResult> {
     const startTime = Date.now();
+
+    // 실제 VM 생성도 데모 모드도 아니면 가짜 결과를 만들지 않고 거부
+    if (!this.isProbeEnabled()) {
+      throw new Error('Azure 용량 프로브가 비활성화되어 있습니다. AZURE_SUBSCRIPTION_ID를 설정하거나 AZURE_CAPACITY_DEMO=true로 데모 모드를 켜세요.');
+    }
+
+    // 실제 VM을 만드는 프로브는 예산을 넘으면 거부 (프로브 결과로 저장하지 않음)
+    const budget = await this.checkProbeBudget(region, vmSize);
+    if (budget && !budget.allowed) {
+      throw new Error(`프로브 예산 초과: ${budget.reason}`);
+    }
     
     try {
       if (!this.isInitialized) {
         await this.initialize();
       }
 
-      if (this.config.enableActualVmCreation && this.computeClient) {
-        return await this.actualCapacityCheck(region, vmSize, startTime);
-      } else {
-        return await this.mockCapacityCheck(region, vmSize, startTime);
+      return await this.runCapacityProbe(region, vmSize, startTime, budget?.estimate.hourlyRateUsd);
+    } catch (error) {
+      return this.toFailedResult(region, vmSize, startTime, error);
+    }
+  }
+
+  /**
+   * SKU 제한 / 쿼터 조회로 용량 확인 (VM을 만들지 않으므로 비용 / 예산 / 정리 없음)
+   * - SKU가 리전에 없거나 구독에 제한되면 restriction
+   * - 제공 가용 영역이 모두 제한되면 restriction, 일부만 제한되면 성공 + 제한 영역 기록
+   * - 패밀리 / 리전 vCPU 쿼터 여유가 VM 1대 미만이면 quota
+   */
+  async checkSkuQuota(region: string, vmSize: string): Promise<AzureCapacityProbeResult> {
+    if (!this.isProbeEnabled()) {
+      throw new Error('Azure 용량 프로브가 비활성화되어 있습니다. AZURE_SUBSCRIPTION_ID를 설정하거나 AZURE_CAPACITY_DEMO=true로 데모 모드를 켜세요.');
+    }
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const client = this.computeClient!;
+    const base = {
+      region,
+      vmSize,
+      probeKind: 'sku_quota' as const,
+      timestamp: new Date(),
+      ...(client.kind === 'fake' && { demo: true })
+    };
+
+    try {
+      const sku = await client.getSkuAvailability(region, vmSize);
+      if (!sku.offered) {
+        return { ...base, success: false, errorCode: 'SkuNotAvailable', errorClass: 'restriction' };
+      }
+
+      const locationRestriction = sku.restrictions.find(r => r.type === 'Location');
+      const restrictedZones = Array.from(new Set(sku.restrictions.filter(r => r.type === 'Zone').flatMap(r => r.zones)));
+      const availableZones = sku.zones.filter(zone => !restrictedZones.includes(zone));
+      const zoneDetails = { zones: sku.zones, restrictedZones, family: sku.family, vCpus: sku.vCpus };
+
+      if (locationRestriction) {
+        return {
+          ...base,
+          success: false,
+          errorCode: locationRestriction.reasonCode || 'NotAvailableForSubscription',
+          errorClass: 'restriction',
+          details: zoneDetails
+        };
+      }
+      if (sku.zones.length > 0 && availableZones.length === 0) {
+        return { ...base, success: false, errorCode: 'ZonesRestricted', errorClass: 'restriction', details: zoneDetails };
+      }
+
+      const usages = await client.getQuotaUsage(region);
+      const quota = this.evaluateQuota(usages, sku.family, sku.vCpus);
+      const details = { ...zoneDetails, quota: quota.usage };
+
+      if (quota.exceeded) {
+        return { ...base, success: false, errorCode: quota.exceeded, errorClass: 'quota', details };
       }
+      return { ...base, success: true, errorClass: 'capacity', details };
     } catch (error) {
       const errorCode = this.extractErrorCode(error);
-      const errorClass = this.classifyError(errorCode);
-      
-      return {
-        region,
-        vmSize,
-        success: errorClass === 'capacity' ? false : null,
-        errorCode,
-        errorClass,
-        provisionMs: Date.now() - startTime,
-        timestamp: new Date()
-      };
+      const errorClass = classifyCapacityError('azure', errorCode);
+
+      // 조회 실패(권한 등)는 용량 신호가 아니므로 무시 처리
+      return { ...base, success: null, errorCode, errorClass: errorClass === 'capacity' ? 'ignored' : errorClass };
     }
   }
 
   /**
-   * 실제 Azure VM 생성으로 용량 확인
+   * vCPU 쿼터 여유 확인 (패밀리 쿼터 → 리전 전체 cores 순)
+   */
+  private evaluateQuota(usages: QuotaUsage[], family: string | null, vCpus: number | null) {
+    const required = vCpus ?? 1;
+    const familyUsage = family ? usages.find(u => u.name.toLowerCase() === family.toLowerCase()) : undefined;
+    const regionalUsage = usages.find(u => u.name === 'cores');
+    const headroom = (usage?: QuotaUsage) => usage ? usage.limit - usage.currentValue : null;
+
+    const familyHeadroom = headroom(familyUsage);
+    const regionalHeadroom = headroom(regionalUsage);
+
+    return {
+      exceeded: familyHeadroom !== null && familyHeadroom < required ? 'FamilyQuotaExceeded' :
+        regionalHeadroom !== null && regionalHeadroom < required ? 'RegionalQuotaExceeded' :
+        null,
+      usage: {
+        required,
+        family: familyUsage ? { name: familyUsage.name, current: familyUsage.currentValue, limit: familyUsage.limit } : null,
+        regional: regionalUsage ? { current: regionalUsage.currentValue, limit: regionalUsage.limit } : null
+      }
+    };
+  }
+
+  /**
+   * 프로브 실행 가능 여부 (실제 VM 생성 또는 데모 모드)
+   */
+  isProbeEnabled(): boolean {
+    return this.config.enableActualVmCreation || this.computeClient !== null || isAzureCapacityDemo();
+  }
+
+  /**
+   * 프로브가 실제 비용을 발생시키는지 (예산 적용 대상 여부, 주입된 클라이언트가 우선)
+   */
+  createsRealVms(): boolean {
+    return this.computeClient ? this.computeClient.billable : this.config.enableActualVmCreation;
+  }
+
+  getSubscriptionId(): string {
+    return this.config.subscriptionId;
+  }
+
+  /**
+   * 프로브 예산 확인 (데모 모드처럼 VM을 만들지 않으면 null)
    */
-  private async actualCapacityCheck(
+  async checkProbeBudget(region: string, vmSize: string): Promise<ProbeBudgetDecision | null> {
+    if (!this.createsRealVms()) return null;
+    return azureProbeBudgetService.checkProbe(this.config.subscriptionId, region, vmSize);
+  }
+
+  private getResourceGroupName(): string {
+    return this.config.resourceGroupName || 'gpu-brokerage-test';
+  }
+
+  /**
+   * Compute 클라이언트로 테스트 VM을 생성해 용량 확인 (실제 Azure 또는 가짜 클라이언트)
+   */
+  private async runCapacityProbe(
     region: string, 
     vmSize: string, 
-    startTime: number
+    startTime: number,
+    hourlyRateUsd?: number
   ): Promise<AzureCapacityProbeResult> {
-    const resourceGroupName = this.config.resourceGroupName || 'gpu-brokerage-test';
+    const resourceGroupName = this.getResourceGroupName();
     const vmName = `capacity-test-${Date.now()}`;
     
     try {
       // 최소 VM 설정으로 생성 시도
-      const vmParameters = {
+      const vmParameters: VirtualMachine = {
         location: region,
         hardwareProfile: {
           vmSize: vmSize
@@ -162,136 +299,173 @@ export class AzureCapacityService {
       console.log(`🔍 Azure 용량 체크 시작: ${region}/${vmSize}`);
       
       // VM 생성 시도 (DryRun이 없으므로 실제 생성)
-      const createOperation = await this.computeClient!.virtualMachines.beginCreateOrUpdate(
-        resourceGroupName,
-        vmName,
-        vmParameters
-      );
-
-      // 생성이 시작되면 즉시 취소/삭제 시도
-      const result = await createOperation.pollUntilDone();
-      
-      if (result) {
-        console.log(`✅ VM 생성 성공: ${vmName}, 즉시 삭제 예약`);
-        
-        // 백그라운드에서 즉시 삭제
-        this.cleanupTestVM(resourceGroupName, vmName);
-        
-        return {
-          region,
-          vmSize,
-          success: true,
-          provisionMs: Date.now() - startTime,
-          testInstanceId: vmName,
-          cost: this.estimateTestCost(vmSize),
-          errorClass: 'capacity' as const,
-          timestamp: new Date()
-        };
-      }
-      
-      throw new Error('VM 생성 결과가 null입니다');
-      
-    } catch (error: any) {
-      console.error(`❌ Azure 용량 체크 실패: ${region}/${vmSize}`, error);
-      
-      const errorCode = this.extractErrorCode(error);
-      const errorClass = this.classifyError(errorCode);
-      
+      const client = this.computeClient!;
+      const created = await client.createTestVm(resourceGroupName, vmName, vmParameters);
+      const provisionMs = created.provisionMs ?? Date.now() - startTime;
+
+      // 삭제는 saveProbeResult가 프로브 행을 만든 뒤 백그라운드로 시작 (실패 시 정리 작업이 재시도)
+      console.log(`✅ VM 생성 성공: ${vmName}, 삭제 예약`);
+
+      const billing = client.billable ? {
+        subscriptionId: this.config.subscriptionId,
+        hourlyRateUsd: hourlyRateUsd ?? (await azureProbeBudgetService.estimateProbeCost(region, vmSize)).hourlyRateUsd
+      } : null;
+
       return {
         region,
         vmSize,
-        success: errorClass === 'capacity' ? false : null,
-        errorCode,
-        errorClass,
-        provisionMs: Date.now() - startTime,
-        timestamp: new Date()
+        success: true,
+        provisionMs,
+        testInstanceId: vmName,
+        cleanupRequired: true,
+        ...(billing && {
+          subscriptionId: billing.subscriptionId,
+          cost: azureProbeBudgetService.costForDuration(billing.hourlyRateUsd, provisionMs),
+          hourlyRateUsd: billing.hourlyRateUsd
+        }),
+        errorClass: 'capacity' as const,
+        timestamp: new Date(startTime),
+        ...(client.kind === 'fake' && { demo: true })
       };
+      
+    } catch (error) {
+      console.error(`❌ Azure 용량 체크 실패: ${region}/${vmSize}`, error);
+      return this.toFailedResult(region, vmSize, startTime, error, vmName);
     }
   }
 
   /**
-   * 테스트 VM 정리 (백그라운드)
+   * 생성 실패 → 분류된 프로브 결과 (클라이언트가 보고한 지연 시간 우선)
+   * 생성을 시도했다면 VM 이름을 남기고, 실제 구독에서는 일부 생성된 ARM 리소스가 있을 수 있으므로 정리 대상으로 표시
+   */
+  private toFailedResult(
+    region: string,
+    vmSize: string,
+    startTime: number,
+    error: unknown,
+    vmName?: string
+  ): AzureCapacityProbeResult {
+    const errorCode = this.extractErrorCode(error);
+    const errorClass = classifyCapacityError('azure', errorCode);
+    const reportedMs = (error as { provisionMs?: number } | null)?.provisionMs;
+    const leftovers = !!vmName && !!this.computeClient?.billable;
+
+    return {
+      region,
+      vmSize,
+      success: errorClass === 'capacity' ? false : null,
+      errorCode,
+      errorClass,
+      provisionMs: reportedMs ?? Date.now() - startTime,
+      ...(vmName && { testInstanceId: vmName }),
+      ...(leftovers && { cleanupRequired: true, subscriptionId: this.config.subscriptionId }),
+      timestamp: new Date(),
+      ...(this.computeClient?.kind === 'fake' && { demo: true })
+    };
+  }
+
+  /**
+   * 테스트 VM 삭제 후 정리 완료 / 실제 비용 기록 (실패하면 시도 횟수와 사유만 기록)
    */
-  private async cleanupTestVM(resourceGroupName: string, vmName: string): Promise<void> {
+  private async cleanupProbeVm(probe: {
+    id: string;
+    testInstanceId: string;
+    timestamp: Date;
+    metadata: unknown;
+  }): Promise<TestVmDeleteResult | 'failed'> {
+    const vmName = probe.testInstanceId;
+
     try {
       console.log(`🧹 테스트 VM 삭제 시작: ${vmName}`);
-      
-      // VM 삭제
-      const deleteOperation = await this.computeClient!.virtualMachines.beginDelete(
-        resourceGroupName,
-        vmName
-      );
-      
-      await deleteOperation.pollUntilDone();
-      console.log(`✅ 테스트 VM 삭제 완료: ${vmName}`);
-      
-      // DB에 정리 완료 표시
-      // TODO: Prisma 클라이언트 업데이트 후 활성화
-      // await prisma.azureCapacityProbe.updateMany({
-      //   where: { testInstanceId: vmName },
-      //   data: { cleanedUp: true }
-      // });
-      
+      const outcome = await this.computeClient!.deleteTestVm(this.getResourceGroupName(), vmName);
+      console.log(`✅ 테스트 VM 삭제 완료: ${vmName} (${outcome})`);
+
+      // 이미 없던 VM은 삭제 시점을 알 수 없으므로 지금까지 유지된 것으로 보수적으로 계산
+      const cleanedUpAt = new Date();
+      const hourlyRateUsd = (probe.metadata as { hourlyRateUsd?: number } | null)?.hourlyRateUsd;
+      await prisma.capacityProbe.update({
+        where: { id: probe.id },
+        data: {
+          cleanedUp: true,
+          cleanedUpAt,
+          cleanupError: null,
+          ...(hourlyRateUsd !== undefined && {
+            cost: azureProbeBudgetService.costForDuration(hourlyRateUsd, cleanedUpAt.getTime() - probe.timestamp.getTime())
+          })
+        }
+      });
+      return outcome;
     } catch (error) {
       console.error(`❌ 테스트 VM 삭제 실패: ${vmName}`, error);
+
+      await prisma.capacityProbe.update({
+        where: { id: probe.id },
+        data: {
+          cleanupAttempts: { increment: 1 },
+          cleanupError: error instanceof Error ? error.message : 'Unknown error'
+        }
+      }).catch(updateError => console.error('정리 실패 기록 실패:', updateError));
+      return 'failed';
     }
   }
 
   /**
-   * 모킹된 용량 확인 (개발/테스트용)
+   * 정리되지 않은 테스트 VM 삭제 재시도 (정리 작업 스케줄 작업용)
    */
-  private async mockCapacityCheck(
-    region: string, 
-    vmSize: string, 
-    startTime: number
-  ): Promise<AzureCapacityProbeResult> {
-    // 시뮬레이션 지연
-    await new Promise(resolve => setTimeout(resolve, 2000 + Math.random() * 3000));
-    
-    // 지역/VM 크기별 성공률 시뮬레이션
-    const successProbability = this.getMockSuccessProbability(region, vmSize);
-    const isSuccess = Math.random() < successProbability;
-    
-    if (isSuccess) {
-      return {
-        region,
-        vmSize,
-        success: true,
-        provisionMs: Date.now() - startTime,
-        errorClass: 'capacity' as const,
-        timestamp: new Date()
-      };
-    } else {
-      // 용량 부족 시뮬레이션
-      const mockErrorCodes = ['AllocationFailed', 'SkuNotAvailable', 'InsufficientCapacity'];
-      const errorCode = mockErrorCodes[Math.floor(Math.random() * mockErrorCodes.length)];
-      
-      return {
-        region,
-        vmSize,
-        success: false,
-        errorCode,
-        errorClass: 'capacity' as const,
-        provisionMs: Date.now() - startTime,
-        timestamp: new Date()
-      };
+  async reapUncleanedProbes(options: ProbeReaperOptions = {}): Promise<ProbeReaperResult> {
+    const { minAgeMinutes = 10, maxAttempts = 5, limit = 20 } = options;
+    const result: ProbeReaperResult = {
+      checked: 0,
+      deleted: 0,
+      alreadyGone: 0,
+      failed: 0,
+      abandoned: 0,
+      errors: []
+    };
+
+    const where = {
+      provider: 'azure',
+      cleanedUp: false,
+      testInstanceId: { not: null },
+      timestamp: { lt: new Date(Date.now() - minAgeMinutes * 60 * 1000) }
+    };
+
+    const [candidates, abandoned] = await Promise.all([
+      prisma.capacityProbe.findMany({
+        where: { ...where, cleanupAttempts: { lt: maxAttempts } },
+        select: { id: true, testInstanceId: true, timestamp: true, metadata: true },
+        orderBy: { timestamp: 'asc' },
+        take: limit
+      }),
+      prisma.capacityProbe.count({
+        where: { ...where, cleanupAttempts: { gte: maxAttempts } }
+      })
+    ]);
+    result.abandoned = abandoned;
+
+    if (candidates.length === 0) return result;
+
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+    if (!this.computeClient) {
+      result.skipped = `Compute 클라이언트가 없어 ${candidates.length}개 테스트 VM을 정리할 수 없습니다.`;
+      return result;
     }
-  }
 
-  /**
-   * 모킹 성공률 (지역/VM크기별 차등)
-   */
-  private getMockSuccessProbability(region: string, vmSize: string): number {
-    // H100/A100 등 고급 GPU는 성공률 낮게
-    if (vmSize.includes('H100')) return 0.3;
-    if (vmSize.includes('A100')) return 0.5;
-    if (vmSize.includes('V100')) return 0.7;
-    if (vmSize.includes('T4')) return 0.8;
-    
-    // 인기 리전은 성공률 낮게
-    if (region.includes('eastus') || region.includes('koreacentral')) return 0.6;
-    
-    return 0.8; // 기본 성공률
+    for (const probe of candidates) {
+      result.checked++;
+      const outcome = await this.cleanupProbeVm({ ...probe, testInstanceId: probe.testInstanceId! });
+
+      if (outcome === 'deleted') result.deleted++;
+      else if (outcome === 'not_found') result.alreadyGone++;
+      else {
+        result.failed++;
+        result.errors.push(probe.testInstanceId!);
+      }
+    }
+
+    return result;
   }
 
   /**
@@ -307,71 +481,69 @@ export class AzureCapacityService {
     return 'UnknownError';
   }
 
-  /**
-   * 에러 코드를 카테고리로 분류
-   */
-  private classifyError(errorCode: string): 'capacity' | 'quota' | 'permission' | 'ignored' {
-    if (AZURE_CAPACITY_ERRORS.includes(errorCode as any)) {
-      return 'capacity';
-    }
-    if (AZURE_IGNORED_ERRORS.includes(errorCode as any)) {
-      return 'ignored';
-    }
-    if (errorCode.includes('Quota')) return 'quota';
-    if (errorCode.includes('Authorization') || errorCode.includes('Permission')) {
-      return 'permission';
-    }
-    
-    // 모르는 에러는 일단 용량 관련으로 분류
-    return 'capacity';
-  }
-
-  /**
-   * 테스트 비용 추정 (매우 단순)
-   */
-  private estimateTestCost(vmSize: string): number {
-    // VM 크기별 시간당 비용 추정 (분 단위로 청구 가정)
-    const hourlyRates: Record<string, number> = {
-      'Standard_NC4as_T4_v3': 0.526,
-      'Standard_NC8as_T4_v3': 1.052,
-      'Standard_NC24ads_A100_v4': 3.673,
-      'Standard_NC48ads_A100_v4': 7.346,
-      'Standard_ND96amsr_A100_v4': 27.20,
-      'Standard_ND96isr_H100_v5': 40.00
-    };
-    
-    const hourlyRate = hourlyRates[vmSize] || 1.0;
-    return hourlyRate / 60; // 1분 사용 비용
-  }
-
   /**
    * 프로브 결과를 DB에 저장
    */
   async saveProbeResult(result: AzureCapacityProbeResult): Promise<void> {
     try {
-      // TODO: Prisma 클라이언트 업데이트 후 활성화
-      console.log(`💾 프로브 결과 (모킹): ${result.region}/${result.vmSize} → ${result.success}`);
-      console.log('실제 저장은 Prisma 업데이트 후 활성화됩니다.');
-      
-      // await prisma.azureCapacityProbe.create({
-      //   data: {
-      //     region: result.region,
-      //     vmSize: result.vmSize,
-      //     success: result.success,
-      //     errorCode: result.errorCode,
-      //     errorClass: result.errorClass,
-      //     provisionMs: result.provisionMs,
-      //     testInstanceId: result.testInstanceId,
-      //     cost: result.cost,
-      //     timestamp: result.timestamp,
-      //     cleanedUp: result.success ? false : true
-      //   }
-      // });
+      const probe = await prisma.capacityProbe.create({
+        data: {
+          provider: 'azure',
+          region: result.region,
+          instanceType: result.vmSize,
+          probeKind: result.probeKind || 'vm_create',
+          success: result.success,
+          errorCode: result.errorCode,
+          errorClass: result.errorClass,
+          provisionMs: result.provisionMs,
+          testInstanceId: result.testInstanceId,
+          accountId: result.subscriptionId,
+          cost: result.cost,
+          timestamp: result.timestamp,
+          // 생성된 테스트 VM과 실제 구독에서 생성에 실패한 VM(일부 리소스가 남을 수 있음)만 정리 대상
+          cleanedUp: !(result.testInstanceId && result.cleanupRequired),
+          ...((result.demo || result.hourlyRateUsd !== undefined || result.details) && {
+            metadata: JSON.parse(JSON.stringify({
+              ...result.details,
+              ...(result.demo && { demo: true }),
+              ...(result.hourlyRateUsd !== undefined && { hourlyRateUsd: result.hourlyRateUsd })
+            })) as Prisma.InputJsonValue
+          })
+        }
+      });
+      console.log(`💾 프로브 결과 저장: ${result.region}/${result.vmSize} → ${result.success}`);
+
+      // 테스트 VM은 백그라운드로 즉시 삭제 (이미 없으면 not_found로 정리 완료)
+      if (!probe.cleanedUp && probe.testInstanceId && this.computeClient) {
+        void this.cleanupProbeVm({ ...probe, testInstanceId: probe.testInstanceId });
+      }
     } catch (error) {
       console.error('프로브 결과 저장 실패:', error);
     }
   }
 
+  /**
+   * 정리되지 않은 테스트 VM 목록 (오래된 순)
+   */
+  async getPendingCleanupProbes(limit = 50) {
+    const probes = await prisma.capacityProbe.findMany({
+      where: { provider: 'azure', cleanedUp: false, testInstanceId: { not: null } },
+      select: {
+        id: true,
+        timestamp: true,
+        region: true,
+        instanceType: true,
+        testInstanceId: true,
+        accountId: true,
+        cleanupAttempts: true,
+        cleanupError: true
+      },
+      orderBy: { timestamp: 'asc' },
+      take: limit
+    });
+    return probes.map(({ instanceType, accountId, ...probe }) => ({ ...probe, vmSize: instanceType, subscriptionId: accountId }));
+  }
+
   /**
    * 배치 용량 확인 (여러 리전/VM크기)
    */
@@ -407,41 +579,35 @@ export class AzureCapacityService {
   async getRecentProbeResults(
     region?: string, 
     vmSize?: string, 
-    hours: number = 24
-  ): Promise<any[]> {
-    // TODO: Prisma 클라이언트 업데이트 후 활성화
-    console.log(`📊 최근 결과 조회 (모킹): ${region || 'all'}/${vmSize || 'all'}, ${hours}시간`);
-    
-    // 임시 목업 데이터 반환
-    return [
-      {
-        region: 'koreacentral',
-        vmSize: 'Standard_NC4as_T4_v3',
+    hours: number = 24,
+    probeKind?: AzureProbeKind
+  ): Promise<AzureCapacityProbeRecord[]> {
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const probes = await prisma.capacityProbe.findMany({
+      where: {
+        provider: 'azure',
+        timestamp: { gte: since },
+        ...(region && { region }),
+        ...(vmSize && { instanceType: vmSize }),
+        ...(probeKind && { probeKind })
+      },
+      select: {
+        id: true,
+        timestamp: true,
+        region: true,
+        instanceType: true,
+        probeKind: true,
         success: true,
-        errorClass: 'capacity',
-        provisionMs: 3500,
-        timestamp: new Date()
+        errorCode: true,
+        errorClass: true,
+        provisionMs: true,
+        testInstanceId: true,
+        cleanedUp: true,
+        cost: true
       },
-      {
-        region: 'eastus',
-        vmSize: 'Standard_NC24ads_A100_v4',
-        success: false,
-        errorCode: 'AllocationFailed',
-        errorClass: 'capacity',
-        provisionMs: 2100,
-        timestamp: new Date(Date.now() - 30 * 60 * 1000)
-      }
-    ];
-    
-    // const since = new Date(Date.now() - hours * 60 * 60 * 1000);
-    // return await prisma.azureCapacityProbe.findMany({
-    //   where: {
-    //     timestamp: { gte: since },
-    //     ...(region && { region }),
-    //     ...(vmSize && { vmSize })
-    //   },
-    //   orderBy: { timestamp: 'desc' }
-    // });
+      orderBy: { timestamp: 'desc' }
+    });
+    return probes.map(({ instanceType, ...probe }) => ({ ...probe, vmSize: instanceType }));
   }
 }
 
@@ -457,6 +623,5 @@ export const azureCapacityService = new AzureCapacityService({
     'Standard_NC48ads_A100_v4'
   ],
   probeIntervalMinutes: 15,
-  maxCostPerMonth: 50,
   enableActualVmCreation: process.env.NODE_ENV === 'production' && !!process.env.AZURE_SUBSCRIPTION_ID
 });
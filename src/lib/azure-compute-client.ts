@@ -0,0 +1,397 @@
+// Azure 용량 프로브용 Compute 클라이언트 (테스트 VM 생성 / 삭제, 리소스 SKU 제한 / 쿼터 조회)
+// AzureCapacityService는 이 인터페이스만 사용하므로 시나리오 기반 가짜 클라이언트로
+// 에러 분류 → 프로브 저장 → 스코어링 / 정리 작업을 실제 구독 없이 재현 가능하게 검증할 수 있다.
+import { ComputeManagementClient, ResourceSku, VirtualMachine } from '@azure/arm-compute';
+import { DefaultAzureCredential } from '@azure/identity';
+
+export type TestVmDeleteResult = 'deleted' | 'not_found';
+
+export interface CreateTestVmResult {
+  provisionMs?: number; // 클라이언트가 보고한 프로비저닝 시간 (없으면 호출 측이 실제 경과 시간 측정)
+}
+
+export interface SkuRestriction {
+  type: 'Location' | 'Zone';
+  reasonCode: string | null; // NotAvailableForSubscription, QuotaId
+  zones: string[]; // Zone 제한일 때 제한된 가용 영역
+}
+
+export interface SkuAvailability {
+  offered: boolean; // 리전에 SKU가 존재하는지
+  family: string | null; // 쿼터 패밀리 (standardNCASv3_T4Family 등)
+  vCpus: number | null;
+  zones: string[]; // SKU를 제공하는 가용 영역
+  restrictions: SkuRestriction[];
+}
+
+export interface QuotaUsage {
+  name: string; // cores, standardNCADSA100v4Family 등
+  currentValue: number;
+  limit: number;
+}
+
+export interface ProbeComputeClient {
+  readonly kind: 'azure' | 'fake';
+  readonly billable: boolean; // 실제 비용 발생 여부 (프로브 예산 적용 대상)
+  verifyAccess(resourceGroupName: string): Promise<void>;
+  // 실패 시 code(AllocationFailed 등)를 가진 에러를 던짐
+  createTestVm(resourceGroupName: string, vmName: string, parameters: VirtualMachine): Promise<CreateTestVmResult>;
+  // 이미 없는 VM은 not_found (정리 완료로 취급)
+  deleteTestVm(resourceGroupName: string, vmName: string): Promise<TestVmDeleteResult>;
+  // VM 생성 없이 조회만 하는 (비용 없는) 용량 신호
+  getSkuAvailability(region: string, vmSize: string): Promise<SkuAvailability>;
+  getQuotaUsage(region: string): Promise<QuotaUsage[]>;
+}
+
+const SKU_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * @azure/arm-compute 기반 실제 클라이언트
+ */
+export class ArmProbeComputeClient implements ProbeComputeClient {
+  readonly kind = 'azure' as const;
+  readonly billable = true;
+  private client: ComputeManagementClient;
+  // 리전별 SKU 목록은 크고 자주 바뀌지 않으므로 1시간 캐시
+  private skuCache = new Map<string, { fetchedAt: number; skus: ResourceSku[] }>();
+
+  constructor(subscriptionId: string) {
+    this.client = new ComputeManagementClient(new DefaultAzureCredential(), subscriptionId);
+  }
+
+  async verifyAccess(resourceGroupName: string): Promise<void> {
+    // 첫 페이지만 조회해 자격 증명 / 리소스 그룹 접근 확인
+    await this.client.virtualMachines.list(resourceGroupName).next();
+  }
+
+  async createTestVm(resourceGroupName: string, vmName: string, parameters: VirtualMachine): Promise<CreateTestVmResult> {
+    const operation = await this.client.virtualMachines.beginCreateOrUpdate(resourceGroupName, vmName, parameters);
+    const result = await operation.pollUntilDone();
+
+    if (!result) {
+      throw new Error('VM 생성 결과가 null입니다');
+    }
+    return {};
+  }
+
+  async deleteTestVm(resourceGroupName: string, vmName: string): Promise<TestVmDeleteResult> {
+    try {
+      const operation = await this.client.virtualMachines.beginDelete(resourceGroupName, vmName);
+      await operation.pollUntilDone();
+      return 'deleted';
+    } catch (error) {
+      const { statusCode, code } = (error || {}) as { statusCode?: number; code?: string };
+      if (statusCode === 404 || code === 'ResourceNotFound' || code === 'NotFound') {
+        return 'not_found';
+      }
+      throw error;
+    }
+  }
+
+  async getSkuAvailability(region: string, vmSize: string): Promise<SkuAvailability> {
+    const skus = await this.listRegionSkus(region);
+    const sku = skus.find(s => s.resourceType === 'virtualMachines' && s.name?.toLowerCase() === vmSize.toLowerCase());
+
+    if (!sku) {
+      return { offered: false, family: null, vCpus: null, zones: [], restrictions: [] };
+    }
+
+    const vCpus = sku.capabilities?.find(c => c.name === 'vCPUs')?.value;
+    return {
+      offered: true,
+      family: sku.family || null,
+      vCpus: vCpus ? parseInt(vCpus, 10) : null,
+      zones: sku.locationInfo?.find(info => info.location?.toLowerCase() === region.toLowerCase())?.zones || [],
+      restrictions: (sku.restrictions || []).map(restriction => ({
+        type: restriction.type === 'Zone' ? 'Zone' as const : 'Location' as const,
+        reasonCode: restriction.reasonCode || null,
+        zones: restriction.restrictionInfo?.zones || []
+      }))
+    };
+  }
+
+  async getQuotaUsage(region: string): Promise<QuotaUsage[]> {
+    const usages: QuotaUsage[] = [];
+    for await (const usage of this.client.usageOperations.list(region)) {
+      usages.push({ name: usage.name.value || '', currentValue: usage.currentValue, limit: usage.limit });
+    }
+    return usages;
+  }
+
+  private async listRegionSkus(region: string): Promise<ResourceSku[]> {
+    const cached = this.skuCache.get(region);
+    if (cached && Date.now() - cached.fetchedAt < SKU_CACHE_TTL_MS) return cached.skus;
+
+    const skus: ResourceSku[] = [];
+    for await (const sku of this.client.resourceSkus.list({ filter: `location eq '${region}'` })) {
+      skus.push(sku);
+    }
+    this.skuCache.set(region, { fetchedAt: Date.now(), skus });
+    return skus;
+  }
+}
+
+export type LatencyDistribution =
+  | { kind: 'fixed'; ms: number }
+  | { kind: 'uniform'; minMs: number; maxMs: number }
+  | { kind: 'normal'; meanMs: number; stdDevMs: number; minMs?: number }
+  | { kind: 'lognormal'; medianMs: number; sigma: number };
+
+// 스크립트 항목: 'success' 또는 에러 코드 (AllocationFailed, SkuNotAvailable, QuotaExceeded 등)
+export type ScriptedProbeOutcome = 'success' | string;
+
+export interface ProbeScenarioRule {
+  region?: string; // '*' 와일드카드 지원 (예: 'eastus*'), 생략 시 모든 리전
+  vmSize?: string; // 예: '*A100*'
+  script?: ScriptedProbeOutcome[]; // 리전/VM 조합별로 순서대로 소비, 소진 후에는 확률로 결정
+  repeatScript?: boolean; // true면 스크립트를 반복
+  successRate?: number; // 0-1
+  errorWeights?: Record<string, number>; // 실패 시 에러 코드별 가중치
+  latency?: LatencyDistribution;
+}
+
+// SKU 제한 / 쿼터 시나리오 (일치하는 규칙이 없으면 제한 없음, 쿼터 여유 충분)
+export interface FakeSkuRule {
+  region?: string;
+  vmSize?: string;
+  offered?: boolean; // false면 리전에 SKU 없음
+  restriction?: 'NotAvailableForSubscription' | 'QuotaId'; // 리전(Location) 제한
+  zones?: string[]; // 기본 ['1', '2', '3']
+  restrictedZones?: string[];
+  family?: string; // 기본 `${vmSize}Family`
+  vCpus?: number; // 기본 VM 이름의 숫자 (Standard_NC24ads → 24)
+}
+
+export interface FakeQuotaRule {
+  region?: string;
+  name: string; // 쿼터 이름 (cores 또는 패밀리)
+  currentValue: number;
+  limit: number;
+}
+
+export interface ProbeScenario {
+  seed?: number; // 같은 seed면 같은 결과 순서
+  rules?: ProbeScenarioRule[]; // 첫 번째로 일치하는 규칙 적용
+  defaultSuccessRate?: number;
+  defaultErrorWeights?: Record<string, number>;
+  defaultLatency?: LatencyDistribution;
+  realtime?: boolean; // true면 지연 시간만큼 실제로 대기 (기본은 대기 없이 provisionMs만 보고)
+  billable?: boolean; // true면 프로브 예산 / 비용 집계 대상 (예산 로직 검증용)
+  skus?: FakeSkuRule[];
+  quotas?: FakeQuotaRule[]; // 목록에 없는 패밀리는 쿼터 확인 생략, cores는 기본 limit 350 / 사용 0
+}
+
+export interface FakeTestVm {
+  resourceGroupName: string;
+  vmName: string;
+  vmSize: string;
+  location: string;
+  createdAt: Date;
+}
+
+export interface FakeCreateCall {
+  region: string;
+  vmSize: string;
+  vmName: string;
+  outcome: ScriptedProbeOutcome;
+  latencyMs: number;
+}
+
+const DEFAULT_ERROR_WEIGHTS: Record<string, number> = {
+  AllocationFailed: 1,
+  SkuNotAvailable: 1,
+  InsufficientCapacity: 1
+};
+const DEFAULT_LATENCY: LatencyDistribution = { kind: 'uniform', minMs: 2000, maxMs: 5000 };
+
+/**
+ * 시나리오 기반 가짜 클라이언트
+ * seed 고정 난수 + 스크립트된 에러 순서 + 지연 분포로 프로브 결과를 재현 가능하게 만든다.
+ */
+export class FakeProbeComputeClient implements ProbeComputeClient {
+  readonly kind = 'fake' as const;
+  readonly billable: boolean;
+  readonly vms = new Map<string, FakeTestVm>();
+  readonly createCalls: FakeCreateCall[] = [];
+  readonly deleteCalls: string[] = [];
+  private scenario: ProbeScenario;
+  private random: () => number;
+  private scriptCursors = new Map<string, number>();
+  private deleteFailures = new Map<string, { remaining: number; code: string }>();
+
+  constructor(scenario: ProbeScenario = {}) {
+    this.scenario = scenario;
+    this.billable = scenario.billable ?? false;
+    this.random = seededRandom(scenario.seed ?? 1);
+  }
+
+  /**
+   * 난수 / 스크립트 진행 상태 초기화 (같은 시나리오를 처음부터 다시 재생)
+   */
+  reset(): void {
+    this.random = seededRandom(this.scenario.seed ?? 1);
+    this.scriptCursors.clear();
+    this.createCalls.length = 0;
+    this.deleteCalls.length = 0;
+    this.vms.clear();
+  }
+
+  async verifyAccess(): Promise<void> {}
+
+  async createTestVm(resourceGroupName: string, vmName: string, parameters: VirtualMachine): Promise<CreateTestVmResult> {
+    const region = parameters.location;
+    const vmSize = parameters.hardwareProfile?.vmSize || 'unknown';
+    const rule = this.findRule(region, vmSize);
+
+    const outcome = this.nextScripted(rule, region, vmSize) ?? this.drawOutcome(rule);
+    const latencyMs = Math.round(sampleLatency(rule?.latency ?? this.scenario.defaultLatency ?? DEFAULT_LATENCY, this.random));
+
+    this.createCalls.push({ region, vmSize, vmName, outcome, latencyMs });
+    if (this.scenario.realtime) {
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+    }
+
+    if (outcome !== 'success') {
+      throw Object.assign(new Error(`${outcome}: ${region}/${vmSize} (fake)`), { code: outcome, provisionMs: latencyMs });
+    }
+
+    this.vms.set(vmName, { resourceGroupName, vmName, vmSize, location: region, createdAt: new Date() });
+    return { provisionMs: latencyMs };
+  }
+
+  async deleteTestVm(_resourceGroupName: string, vmName: string): Promise<TestVmDeleteResult> {
+    this.deleteCalls.push(vmName);
+
+    const failure = this.deleteFailures.get(vmName);
+    if (failure && failure.remaining > 0) {
+      failure.remaining--;
+      throw Object.assign(new Error(`테스트 VM 삭제 실패 (fake): ${vmName}`), { code: failure.code });
+    }
+
+    return this.vms.delete(vmName) ? 'deleted' : 'not_found';
+  }
+
+  /**
+   * 테스트 VM을 직접 추가 (정리되지 않은 VM 상황 재현)
+   */
+  seedVm(vm: Omit<FakeTestVm, 'createdAt'> & { createdAt?: Date }): void {
+    this.vms.set(vm.vmName, { ...vm, createdAt: vm.createdAt || new Date() });
+  }
+
+  /**
+   * 다음 times번의 삭제 요청을 실패시킴
+   */
+  failDeletes(vmName: string, times = 1, code = 'InternalServerError'): void {
+    this.deleteFailures.set(vmName, { remaining: times, code });
+  }
+
+  async getSkuAvailability(region: string, vmSize: string): Promise<SkuAvailability> {
+    const rule = this.scenario.skus?.find(sku =>
+      (!sku.region || matchesPattern(region, sku.region)) &&
+      (!sku.vmSize || matchesPattern(vmSize, sku.vmSize))
+    );
+
+    if (rule?.offered === false) {
+      return { offered: false, family: null, vCpus: null, zones: [], restrictions: [] };
+    }
+
+    const restrictions: SkuRestriction[] = [];
+    if (rule?.restriction) {
+      restrictions.push({ type: 'Location', reasonCode: rule.restriction, zones: [] });
+    }
+    if (rule?.restrictedZones && rule.restrictedZones.length > 0) {
+      restrictions.push({ type: 'Zone', reasonCode: 'NotAvailableForSubscription', zones: rule.restrictedZones });
+    }
+
+    return {
+      offered: true,
+      family: rule?.family || `${vmSize}Family`,
+      vCpus: rule?.vCpus ?? (parseInt(vmSize.match(/\d+/)?.[0] || '', 10) || null),
+      zones: rule?.zones || ['1', '2', '3'],
+      restrictions
+    };
+  }
+
+  async getQuotaUsage(region: string): Promise<QuotaUsage[]> {
+    const quotas = (this.scenario.quotas || []).filter(quota => !quota.region || matchesPattern(region, quota.region));
+    const usages = quotas.map(({ name, currentValue, limit }) => ({ name, currentValue, limit }));
+
+    if (!usages.some(usage => usage.name === 'cores')) {
+      usages.push({ name: 'cores', currentValue: 0, limit: 350 });
+    }
+    return usages;
+  }
+
+  private findRule(region: string, vmSize: string): ProbeScenarioRule | undefined {
+    return this.scenario.rules?.find(rule =>
+      (!rule.region || matchesPattern(region, rule.region)) &&
+      (!rule.vmSize || matchesPattern(vmSize, rule.vmSize))
+    );
+  }
+
+  private nextScripted(rule: ProbeScenarioRule | undefined, region: string, vmSize: string): ScriptedProbeOutcome | null {
+    const script = rule?.script;
+    if (!script || script.length === 0) return null;
+
+    const key = `${region}|${vmSize}`;
+    const cursor = this.scriptCursors.get(key) ?? 0;
+    if (cursor >= script.length && !rule.repeatScript) return null;
+
+    this.scriptCursors.set(key, cursor + 1);
+    return script[cursor % script.length];
+  }
+
+  private drawOutcome(rule: ProbeScenarioRule | undefined): ScriptedProbeOutcome {
+    const successRate = rule?.successRate ?? this.scenario.defaultSuccessRate ?? 0.8;
+    if (this.random() < successRate) return 'success';
+
+    const weights = Object.entries(rule?.errorWeights ?? this.scenario.defaultErrorWeights ?? DEFAULT_ERROR_WEIGHTS);
+    const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+    let pick = this.random() * total;
+
+    for (const [code, weight] of weights) {
+      pick -= weight;
+      if (pick < 0) return code;
+    }
+    return weights[weights.length - 1]?.[0] ?? 'AllocationFailed';
+  }
+}
+
+/**
+ * mulberry32 (seed 고정 난수, 0 <= x < 1)
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleLatency(distribution: LatencyDistribution, random: () => number): number {
+  switch (distribution.kind) {
+    case 'fixed':
+      return distribution.ms;
+    case 'uniform':
+      return distribution.minMs + random() * (distribution.maxMs - distribution.minMs);
+    case 'normal':
+      return Math.max(distribution.minMs ?? 0, distribution.meanMs + distribution.stdDevMs * standardNormal(random));
+    case 'lognormal':
+      return distribution.medianMs * Math.exp(distribution.sigma * standardNormal(random));
+  }
+}
+
+// Box-Muller
+function standardNormal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+export function matchesPattern(value: string, pattern: string): boolean {
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+  return regex.test(value);
+}
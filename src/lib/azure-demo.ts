@@ -0,0 +1,182 @@
+// Azure 용량 파이프라인 데모 모드
+// AZURE_CAPACITY_DEMO=true일 때만 시나리오 기반 가짜 프로브 / 시뮬레이션 Spot 가격 / 데모 스코어를 사용한다.
+// 그 외에는 CapacityProbe / SpotSignal / CapacityScore 테이블(provider=azure)만 읽고 쓴다.
+import { FakeProbeComputeClient, matchesPattern, ProbeScenario } from './azure-compute-client';
+
+export function isAzureCapacityDemo(): boolean {
+  return process.env.AZURE_CAPACITY_DEMO === 'true';
+}
+
+export interface DemoCapacityScore {
+  region: string;
+  vmSize: string;
+  score: number;
+  scoreLower: number;
+  scoreUpper: number;
+  label: 'AVAILABLE' | 'LIMITED' | 'UNAVAILABLE';
+  confidence: number;
+  calculatedAt: Date;
+}
+
+export interface DemoCapacityScoreFilters {
+  region?: string | null;
+  vmSize?: string | null;
+  minScore?: number;
+  label?: string | null;
+  limit?: number;
+}
+
+// 데모 스코어 대상 리전 / VM 크기
+const DEMO_REGIONS = [
+  'australiacentral2',
+  'westus3',
+  'eastus2',
+  'mexicocentral',
+  'koreacentral',
+  'eastus',
+  'japaneast',
+  'westeurope',
+  'northeurope',
+  'southcentralus'
+];
+
+const DEMO_VM_SIZES = [
+  'Standard_NC16asT4',
+  'Standard_NV16as_v4',
+  'Standard_NV32as_v4',
+  'Standard_NC4as_T4_v3',
+  'Standard_NC8as_T4_v3',
+  'Standard_NC24ads_A100_v4',
+  'Standard_NC48ads_A100_v4',
+  'Standard_ND96asr_v4'
+];
+
+/**
+ * 데모 용량 스코어 생성 (데모 모드 전용, 실제 측정값 아님)
+ */
+export function generateDemoCapacityScores(filters: DemoCapacityScoreFilters = {}): DemoCapacityScore[] {
+  const { region, vmSize, minScore = 0, label, limit = 50 } = filters;
+  const scores: DemoCapacityScore[] = [];
+
+  for (const r of (region ? [region] : DEMO_REGIONS)) {
+    for (const vm of (vmSize ? [vmSize] : DEMO_VM_SIZES)) {
+      // GPU 모델별 기본 점수
+      let baseScore = 60;
+      if (vm.includes('A100')) baseScore = 45;
+      else if (vm.includes('V100')) baseScore = 40;
+      else if (vm.includes('T4') || vm.includes('asT4')) baseScore = 70;
+      else if (vm.includes('NV') && vm.includes('v4')) baseScore = 65;
+      else if (vm.includes('ND')) baseScore = 35;
+
+      // 리전별 조정
+      if (r === 'koreacentral') baseScore -= 15;
+      else if (r === 'eastus' || r === 'eastus2') baseScore += 5;
+      else if (r === 'westus3') baseScore += 3;
+      else if (r.includes('australia') || r.includes('mexico')) baseScore -= 8;
+
+      // 큰 인스턴스일수록 용량 부족
+      if (vm.includes('48') || vm.includes('64') || vm.includes('96')) baseScore -= 10;
+      else if (vm.includes('32')) baseScore -= 5;
+      else if (vm.includes('16')) baseScore -= 2;
+
+      const randomVariation = (Math.random() - 0.5) * 25;
+      const finalScore = Math.max(10, Math.min(95, baseScore + randomVariation));
+      if (finalScore < minScore) continue;
+
+      const scoreLabel = finalScore >= 75 ? 'AVAILABLE' : finalScore >= 40 ? 'LIMITED' : 'UNAVAILABLE';
+      if (label && label !== scoreLabel) continue;
+
+      // 신뢰도가 낮을수록 넓은 점수 구간
+      const confidence = Math.max(0.5, Math.min(0.95, 0.6 + Math.random() * 0.3));
+      const halfWidth = (1 - confidence) * 40;
+
+      scores.push({
+        region: r,
+        vmSize: vm,
+        score: Math.round(finalScore),
+        scoreLower: Math.round(Math.max(0, finalScore - halfWidth)),
+        scoreUpper: Math.round(Math.min(100, finalScore + halfWidth)),
+        label: scoreLabel,
+        confidence,
+        calculatedAt: new Date(Date.now() - Math.random() * 4 * 60 * 60 * 1000)
+      });
+    }
+  }
+
+  return scores.slice(0, limit);
+}
+
+export interface DemoScoreHistoryRow {
+  region: string;
+  instanceType: string;
+  score: number;
+  scoreLower: number;
+  scoreUpper: number;
+  calculatedAt: Date;
+}
+
+/**
+ * 데모 스코어 이력 (조합별 현재 데모 점수 주변에서 하루 주기로 오르내림, 최대 200포인트)
+ */
+export function generateDemoScoreHistory(filters: { region?: string | null; vmSize?: string | null; from: Date; to: Date }): DemoScoreHistoryRow[] {
+  const { region, vmSize, from, to } = filters;
+  const stepMs = Math.max(60 * 60 * 1000, (to.getTime() - from.getTime()) / 200);
+  const rows: DemoScoreHistoryRow[] = [];
+
+  const current = generateDemoCapacityScores({ region, limit: 1000 })
+    .filter(score => !vmSize || matchesPattern(score.vmSize, vmSize));
+
+  current.forEach((score, index) => {
+    for (let t = from.getTime(); t <= to.getTime(); t += stepMs) {
+      const phase = (t / (24 * 60 * 60 * 1000)) * 2 * Math.PI + index;
+      const value = Math.max(5, Math.min(98, score.score + 12 * Math.sin(phase) + (Math.random() - 0.5) * 6));
+      rows.push({
+        region: score.region,
+        instanceType: score.vmSize,
+        score: Math.round(value),
+        scoreLower: Math.round(Math.max(0, value - (score.score - score.scoreLower))),
+        scoreUpper: Math.round(Math.min(100, value + (score.scoreUpper - score.score))),
+        calculatedAt: new Date(t)
+      });
+    }
+  });
+
+  return rows;
+}
+
+/**
+ * 데모 모드 프로브 시나리오 (고급 GPU / 인기 리전일수록 할당 실패가 잦음)
+ * AZURE_CAPACITY_DEMO_SEED를 지정하면 같은 순서의 결과를 재현한다.
+ */
+export function createDemoProbeScenario(seed?: number): ProbeScenario {
+  const envSeed = parseInt(process.env.AZURE_CAPACITY_DEMO_SEED || '', 10);
+
+  return {
+    seed: seed ?? (Number.isNaN(envSeed) ? Date.now() : envSeed),
+    rules: [
+      { vmSize: '*H100*', successRate: 0.3 },
+      { vmSize: '*A100*', successRate: 0.5 },
+      { vmSize: '*V100*', successRate: 0.7 },
+      { vmSize: '*T4*', successRate: 0.8 },
+      { region: '*eastus*', successRate: 0.6 },
+      { region: '*koreacentral*', successRate: 0.6 }
+    ],
+    defaultSuccessRate: 0.8,
+    defaultErrorWeights: { AllocationFailed: 1, SkuNotAvailable: 1, InsufficientCapacity: 1 },
+    defaultLatency: { kind: 'uniform', minMs: 2000, maxMs: 5000 },
+    realtime: true,
+    billable: false,
+    skus: [
+      { region: 'koreacentral', vmSize: '*H100*', offered: false },
+      { region: 'eastus', vmSize: '*H100*', restrictedZones: ['3'] },
+      { region: 'westeurope', vmSize: '*ND96*', restriction: 'NotAvailableForSubscription' }
+    ],
+    quotas: [
+      { region: 'japaneast', name: 'Standard_ND96amsr_A100_v4Family', currentValue: 96, limit: 96 }
+    ]
+  };
+}
+
+export function createDemoComputeClient(seed?: number): FakeProbeComputeClient {
+  return new FakeProbeComputeClient(createDemoProbeScenario(seed));
+}
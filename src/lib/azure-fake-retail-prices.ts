@@ -0,0 +1,99 @@
+// 로컬 Azure Retail Prices 픽스처 서버 (data/fixtures/azure-retail-prices의 녹화 페이지 재생)
+// 녹화된 NextPageLink는 prices.azure.com을 가리키므로 같은 $skip을 유지한 채 이 서버 주소로 바꿔서 돌려준다.
+// throttle 시나리오로 특정 페이지에 429를 먼저 응답해 재시도 / 백오프 경로를 재현할 수 있다.
+import { readFileSync, readdirSync } from 'fs'
+import { createServer, Server } from 'http'
+import path from 'path'
+
+export const AZURE_RETAIL_PRICES_FIXTURE_DIR = path.join(process.cwd(), 'data', 'fixtures', 'azure-retail-prices')
+
+export interface FakeRetailPricesThrottle {
+  skip: number // 429를 돌려줄 페이지의 $skip
+  times: number // 정상 응답 전까지 429 횟수
+  retryAfterSeconds?: number // 없으면 Retry-After 헤더 생략 (클라이언트 지수 백오프)
+}
+
+export interface FakeRetailPricesScenario {
+  fixtureDir?: string
+  throttle?: FakeRetailPricesThrottle[]
+}
+
+export interface FakeRetailPricesServer {
+  server: Server
+  requests: { skip: number; status: number }[] // 요청 순서대로 기록 (검증용)
+}
+
+interface RecordedPage {
+  Items: unknown[]
+  NextPageLink?: string | null
+  [key: string]: unknown
+}
+
+/**
+ * 픽스처 서버 생성 (listen은 호출 측에서)
+ * 녹화 페이지는 page-1.json, page-2.json ... 순서이며 $skip 값으로 찾는다.
+ */
+export function createFakeRetailPricesServer(scenario: FakeRetailPricesScenario = {}): FakeRetailPricesServer {
+  const pages = loadRecordedPages(scenario.fixtureDir || AZURE_RETAIL_PRICES_FIXTURE_DIR)
+  const throttled = new Map((scenario.throttle || []).map(rule => [rule.skip, { ...rule }]))
+  const requests: FakeRetailPricesServer['requests'] = []
+
+  const server = createServer((request, response) => {
+    const url = new URL(request.url || '/', `http://${request.headers.host}`)
+    const skip = parseInt(url.searchParams.get('$skip') || '0', 10)
+    const page = pages.get(skip)
+
+    const send = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+      requests.push({ skip, status })
+      response.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+      response.end(JSON.stringify(body))
+    }
+
+    const rule = throttled.get(skip)
+    if (rule && rule.times > 0) {
+      rule.times--
+      return send(429, { Error: { Code: 'TooManyRequests', Message: 'Too many requests. Please try again later.' } },
+        rule.retryAfterSeconds ? { 'Retry-After': String(rule.retryAfterSeconds) } : {})
+    }
+
+    if (!page) {
+      return send(404, { Error: { Code: 'NotFound', Message: `No recorded page for $skip=${skip}` } })
+    }
+
+    send(200, {
+      ...page,
+      NextPageLink: page.NextPageLink ? rewriteOrigin(page.NextPageLink, url.origin) : null
+    })
+  })
+
+  return { server, requests }
+}
+
+function loadRecordedPages(fixtureDir: string): Map<number, RecordedPage> {
+  const files = readdirSync(fixtureDir)
+    .filter(file => /^page-\d+\.json$/.test(file))
+    .sort((a, b) => parseInt(a.slice(5), 10) - parseInt(b.slice(5), 10))
+
+  // 첫 페이지는 $skip 없음, 이후 페이지는 앞 페이지 NextPageLink의 $skip
+  const pages = new Map<number, RecordedPage>()
+  let skip = 0
+  for (const file of files) {
+    const page: RecordedPage = JSON.parse(readFileSync(path.join(fixtureDir, file), 'utf-8'))
+    pages.set(skip, page)
+    skip = page.NextPageLink ? parseInt(new URL(page.NextPageLink).searchParams.get('$skip') || '0', 10) : -1
+  }
+  return pages
+}
+
+function rewriteOrigin(link: string, origin: string): string {
+  const url = new URL(link)
+  return `${origin}${url.pathname}${url.search}`
+}
+
+// tsx로 직접 실행하면 서버 시작 (AZURE_RETAIL_PRICES_URL=http://localhost:4600/api/retail/prices)
+if (process.argv[1]?.endsWith('azure-fake-retail-prices.ts')) {
+  const port = parseInt(process.env.FAKE_RETAIL_PRICES_PORT || '4600', 10)
+  createFakeRetailPricesServer().server.listen(port, () => {
+    console.log(`🧪 Azure Retail Prices 픽스처 서버 실행 중: http://localhost:${port}/api/retail/prices`)
+  })
+}
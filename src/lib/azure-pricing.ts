@@ -1,5 +1,11 @@
 // Azure Pricing API 서비스 (REST API 사용)
 // Azure Retail Prices API: https://docs.microsoft.com/en-us/rest/api/cost-management/retail-prices/azure-retail-prices
+import { COMMITMENT_HOURS, PurchaseOption } from './purchase-options'
+import { FetchOffersOptions, InstanceOffer, ProviderPricingAdapter, ProviderPricingResponse } from './provider-pricing'
+
+// Consumption 행은 on_demand / spot (Spot·Low Priority 미터), Reservation 행은 reserved_*,
+// Consumption 행의 savingsPlan 배열은 savings_plan_* 으로 분류
+export type AzurePurchaseOption = PurchaseOption
 
 interface AzureGPUInstance {
   vmSize: string
@@ -8,6 +14,7 @@ interface AzureGPUInstance {
   meterSubCategory: string
   unit: string
   pricePerHour: number
+  purchaseOption?: AzurePurchaseOption // 기본값 on_demand
   currency: string
   effectiveDate: string
   gpuModel?: string
@@ -26,11 +33,36 @@ interface AzurePricingResponse {
     currency: string
     regions: string[]
     gpuModels: string[]
+    pagesFetched?: number
+    truncated?: boolean // 페이지 상한에 도달해 일부 페이지를 읽지 못한 경우
   }
   error?: string
   message?: string
 }
 
+// Retail Prices API 페이지 응답
+interface AzureRetailPricesPage {
+  Items: unknown[]
+  NextPageLink?: string | null
+  Count?: number
+}
+
+export interface AzurePageProgress {
+  page: number
+  itemsFetched: number
+  instancesParsed: number
+}
+
+export interface AzurePricingServiceOptions {
+  baseUrl?: string // 로컬 픽스처 서버 등으로 교체 가능
+  maxPages?: number
+  maxRetries?: number
+}
+
+export interface FetchGPUVMPricesOptions {
+  onPage?: (progress: AzurePageProgress) => void | Promise<void>
+}
+
 // Azure GPU VM 패밀리 매핑 (2024년 최신 버전)
 const AZURE_GPU_FAMILIES: Record<string, Record<string, any>> = {
   // NCv1 Series - NVIDIA Tesla K80
@@ -165,18 +197,25 @@ const AZURE_REGION_MAPPING: Record<string, string> = {
   'koreasouth': 'Korea South'
 }
 
-export class AzurePricingService {
-  private readonly BASE_URL = 'https://prices.azure.com/api/retail/prices'
+export class AzurePricingService implements ProviderPricingAdapter {
+  readonly providerCode = 'azure'
+  readonly displayName = 'Azure'
+  private readonly BASE_URL: string
   private readonly GPU_SERVICE_NAME = 'Virtual Machines'
+  private readonly MAX_PAGES: number
+  private readonly MAX_RETRIES: number
 
-  constructor() {
+  constructor(options: AzurePricingServiceOptions = {}) {
+    this.BASE_URL = options.baseUrl || process.env.AZURE_RETAIL_PRICES_URL || 'https://prices.azure.com/api/retail/prices'
+    this.MAX_PAGES = options.maxPages ?? 50
+    this.MAX_RETRIES = options.maxRetries ?? 5
     console.log('Azure Pricing Service initialized (REST API)')
   }
 
   /**
-   * Azure GPU VM 가격 조회 (REST API)
+   * Azure GPU VM 가격 조회 (REST API, NextPageLink 전체 순회)
    */
-  async fetchGPUVMPrices(regions?: string[]): Promise<AzurePricingResponse> {
+  async fetchGPUVMPrices(regions?: string[], options: FetchGPUVMPricesOptions = {}): Promise<AzurePricingResponse> {
     try {
       const instances: AzureGPUInstance[] = []
       const gpuModels = new Set<string>()
@@ -185,7 +224,7 @@ export class AzurePricingService {
       // GPU VM 관련 필터 생성 (단순화된 필터)
       const filters = [
         `serviceName eq '${this.GPU_SERVICE_NAME}'`,
-        `priceType eq 'Consumption'`,
+        `(priceType eq 'Consumption' or priceType eq 'Reservation')`,
         `(contains(productName, 'NC') or contains(productName, 'ND') or contains(productName, 'NV'))`
       ]
 
@@ -202,34 +241,33 @@ export class AzurePricingService {
       
       console.log('Fetching Azure prices from:', url)
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'GPU-Brokerage/1.0'
+      let nextPageLink: string | null = url
+      let page = 0
+      let itemsFetched = 0
+
+      while (nextPageLink && page < this.MAX_PAGES) {
+        const data = await this.fetchPage(nextPageLink)
+        page++
+
+        // GPU VM 데이터 파싱
+        for (const item of data.Items) {
+          for (const vmInfo of this.parseAzureItem(item)) {
+            instances.push(vmInfo)
+            if (vmInfo.gpuModel) {
+              gpuModels.add(vmInfo.gpuModel)
+            }
+            processedRegions.add(vmInfo.location)
+          }
         }
-      })
+        itemsFetched += data.Items.length
 
-      if (!response.ok) {
-        throw new Error(`Azure API request failed: ${response.status} ${response.statusText}`)
-      }
+        await options.onPage?.({ page, itemsFetched, instancesParsed: instances.length })
 
-      const data = await response.json()
-
-      if (!data.Items || !Array.isArray(data.Items)) {
-        throw new Error('Invalid response format from Azure Pricing API')
+        nextPageLink = data.NextPageLink || null
       }
 
-      // GPU VM 데이터 파싱
-      for (const item of data.Items) {
-        const vmInfo = this.parseAzureItem(item)
-        if (vmInfo) {
-          instances.push(vmInfo)
-          if (vmInfo.gpuModel) {
-            gpuModels.add(vmInfo.gpuModel)
-          }
-          processedRegions.add(vmInfo.location)
-        }
+      if (nextPageLink) {
+        console.warn(`Azure pricing page cap reached (${this.MAX_PAGES} pages), remaining pages skipped`)
       }
 
       // 중복 제거 및 정렬
@@ -243,7 +281,9 @@ export class AzurePricingService {
           fetchedAt: new Date().toISOString(),
           currency: 'USD',
           regions: Array.from(processedRegions).sort(),
-          gpuModels: Array.from(gpuModels).sort()
+          gpuModels: Array.from(gpuModels).sort(),
+          pagesFetched: page,
+          truncated: !!nextPageLink
         }
       }
 
@@ -261,40 +301,187 @@ export class AzurePricingService {
   }
 
   /**
-   * Azure API 응답 아이템 파싱
+   * 정규화된 오퍼 조회 (ProviderPricingAdapter), 페이지마다 누적 항목 수를 onProgress로 전달
+   */
+  async fetchOffers(options: FetchOffersOptions = {}): Promise<ProviderPricingResponse> {
+    const result = await this.fetchGPUVMPrices(options.regions, {
+      onPage: async ({ itemsFetched }) => { await options.onProgress?.(itemsFetched) }
+    })
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error, message: result.message }
+    }
+
+    const offers: InstanceOffer[] = result.data.instances.map(instance => {
+      const gpuModel = instance.gpuModel || 'Unknown'
+
+      return {
+        provider: this.providerCode,
+        region: instance.location.toLowerCase().replace(/\s+/g, ''),
+        instanceName: instance.vmSize,
+        purchaseOption: instance.purchaseOption || 'on_demand',
+        pricePerHour: instance.pricePerHour,
+        currency: instance.currency,
+        sourceSku: instance.meterName,
+        familyCode: instance.vmSize.split('_')[1] || 'Unknown',
+        gpuModel,
+        gpuCount: instance.gpuCount || 1,
+        vcpu: instance.vcpu || 4,
+        ramGb: instance.ram || 28,
+        raw: instance
+      }
+    })
+
+    return {
+      success: true,
+      data: {
+        offers,
+        totalCount: offers.length,
+        fetchedAt: result.data.fetchedAt,
+        currency: result.data.currency,
+        regions: result.data.regions,
+        gpuModels: result.data.gpuModels,
+        truncated: result.data.truncated,
+        details: { pagesFetched: result.data.pagesFetched }
+      }
+    }
+  }
+
+  /**
+   * Retail Prices API 단일 페이지 조회 (429 응답 시 재시도/백오프)
+   */
+  private async fetchPage(url: string): Promise<AzureRetailPricesPage> {
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+          'User-Agent': 'GPU-Brokerage/1.0'
+        }
+      })
+
+      if (response.status === 429 && attempt < this.MAX_RETRIES) {
+        // Retry-After 헤더 우선, 없으면 지수 백오프 (최대 30초)
+        const retryAfterSeconds = Number(response.headers.get('Retry-After'))
+        const delayMs = retryAfterSeconds > 0
+          ? retryAfterSeconds * 1000
+          : Math.min(30000, 1000 * Math.pow(2, attempt))
+
+        console.warn(`Azure API rate limited (429), retrying in ${delayMs}ms (attempt ${attempt + 1}/${this.MAX_RETRIES})`)
+        await this.delay(delayMs)
+        continue
+      }
+
+      if (!response.ok) {
+        throw new Error(`Azure API request failed: ${response.status} ${response.statusText}`)
+      }
+
+      const data = await response.json()
+
+      if (!data.Items || !Array.isArray(data.Items)) {
+        throw new Error('Invalid response format from Azure Pricing API')
+      }
+
+      return data
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms))
+  }
+
+  /**
+   * Azure API 응답 아이템 파싱 (savingsPlan 항목은 별도 인스턴스로 펼침)
    */
-  private parseAzureItem(item: any): AzureGPUInstance | null {
+  private parseAzureItem(item: any): AzureGPUInstance[] {
     try {
       if (!item.productName || !item.skuName || !item.unitPrice) {
-        return null
+        return []
       }
 
-      // VM 크기 추출
-      const vmSize = this.extractVMSizeFromProduct(item.productName, item.skuName)
+      // 구매 옵션 분류 후 SKU 이름에서 Spot / Low Priority 접미사 제거
+      const purchaseOption = this.classifyPurchaseOption(item)
+      const skuName = String(item.skuName).replace(/\s+(Spot|Low Priority)$/i, '')
+
+      // VM 크기 추출 (armSkuName이 있으면 그대로 사용)
+      const vmSize = typeof item.armSkuName === 'string' && item.armSkuName.startsWith('Standard_')
+        ? item.armSkuName
+        : this.extractVMSizeFromProduct(item.productName, skuName)
       if (!vmSize) {
-        return null
+        return []
       }
 
+      // Reservation 행의 unitPrice는 약정 기간 총액이므로 시간당 실효 단가로 환산
+      const unitPrice = parseFloat(item.unitPrice) || 0
+      const pricePerHour = item.priceType === 'Reservation'
+        ? unitPrice / COMMITMENT_HOURS[this.parseTerm(item.reservationTerm) || '1yr']
+        : unitPrice
+
       // GPU 정보 매핑
       const gpuInfo = this.getGPUInfo(vmSize)
 
-      return {
+      const instance: AzureGPUInstance = {
         vmSize,
         location: item.armRegionName || item.location || 'Unknown',
         meterName: item.meterName || item.skuName,
         meterSubCategory: item.productName,
         unit: item.unitOfMeasure || 'Hours',
-        pricePerHour: parseFloat(item.unitPrice) || 0,
+        pricePerHour,
+        purchaseOption,
         currency: item.currencyCode || 'USD',
         effectiveDate: item.effectiveStartDate || new Date().toISOString(),
         ...gpuInfo
       }
+
+      // savingsPlan 단가는 이미 시간당 가격
+      const savingsPlans: AzureGPUInstance[] = []
+      if (purchaseOption === 'on_demand' && Array.isArray(item.savingsPlan)) {
+        for (const plan of item.savingsPlan) {
+          const term = this.parseTerm(plan.term)
+          const planPrice = parseFloat(plan.unitPrice)
+          if (!term || !(planPrice > 0)) continue
+
+          savingsPlans.push({
+            ...instance,
+            pricePerHour: planPrice,
+            purchaseOption: `savings_plan_${term}`
+          })
+        }
+      }
+
+      return [instance, ...savingsPlans]
     } catch (error) {
       console.error('Error parsing Azure item:', error)
-      return null
+      return []
     }
   }
 
+  /**
+   * 약정 기간 문자열 파싱 ('1 Year' → 1yr, '3 Years' → 3yr)
+   */
+  private parseTerm(term?: string): '1yr' | '3yr' | null {
+    if (!term) return null
+    if (term.startsWith('1')) return '1yr'
+    if (term.startsWith('3')) return '3yr'
+    return null
+  }
+
+  /**
+   * 가격 유형 및 미터/SKU 이름으로 구매 옵션 분류
+   */
+  private classifyPurchaseOption(item: {
+    meterName?: string
+    skuName?: string
+    priceType?: string
+    reservationTerm?: string
+  }): AzurePurchaseOption {
+    if (item.priceType === 'Reservation') {
+      return `reserved_${this.parseTerm(item.reservationTerm) || '1yr'}`
+    }
+
+    const names = `${item.meterName || ''} ${item.skuName || ''}`.toLowerCase()
+    return names.includes('spot') || names.includes('low priority') ? 'spot' : 'on_demand'
+  }
+
   /**
    * 제품명과 SKU에서 VM 크기 추출
    */
@@ -327,13 +514,13 @@ export class AzurePricingService {
   }
 
   /**
-   * 중복 인스턴스 제거
+   * 중복 인스턴스 제거 (VM 크기 + 리전 + 구매 옵션 단위, 최저가 유지)
    */
   private removeDuplicateInstances(instances: AzureGPUInstance[]): AzureGPUInstance[] {
     const seen = new Map<string, AzureGPUInstance>()
     
     for (const instance of instances) {
-      const key = `${instance.vmSize}-${instance.location}`
+      const key = `${instance.vmSize}-${instance.location}-${instance.purchaseOption || 'on_demand'}`
       
       if (!seen.has(key) || seen.get(key)!.pricePerHour > instance.pricePerHour) {
         seen.set(key, instance)
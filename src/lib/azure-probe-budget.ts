@@ -0,0 +1,305 @@
+// Azure 용량 프로브 예산 (구독별 일/월 지출 한도)
+// 지출 = 기간 내 프로브 비용 합계 + 아직 정리되지 않은 테스트 VM이 계속 발생시키는 비용
+import { priceHistoryService } from './price-history';
+import { prisma } from './prisma';
+
+const MINUTE = 60 * 1000;
+
+// 테스트 VM은 최소 1분 과금으로 추정
+const MIN_BILLED_MINUTES = 1;
+
+// 사전 추정용 생성~삭제 시간: 최근 정리 완료 프로브 평균 (표본이 부족하면 AZURE_PROBE_ESTIMATED_MINUTES)
+const OBSERVED_DURATION_SAMPLES = 20;
+const MIN_OBSERVED_DURATION_SAMPLES = 3;
+
+// 가격 데이터가 없을 때의 시간당 요금 추정 (USD)
+const FALLBACK_HOURLY_RATES: Record<string, number> = {
+  'Standard_NC4as_T4_v3': 0.526,
+  'Standard_NC8as_T4_v3': 1.052,
+  'Standard_NC24ads_A100_v4': 3.673,
+  'Standard_NC48ads_A100_v4': 7.346,
+  'Standard_ND96amsr_A100_v4': 27.20,
+  'Standard_ND96isr_H100_v5': 40.00
+};
+const DEFAULT_HOURLY_RATE = 1.0;
+
+export interface ProbeBudgetCaps {
+  dailyCapUsd: number;
+  monthlyCapUsd: number;
+  source: 'database' | 'env';
+  updatedBy: string | null;
+  updatedAt: Date | null;
+}
+
+export interface ProbeBudgetPeriod {
+  capUsd: number;
+  spentUsd: number; // 정리 완료 / 진행 중 프로브 비용
+  accruingUsd: number; // 정리되지 않은 VM의 추가 누적 비용 (spentUsd에 포함)
+  remainingUsd: number;
+  periodStart: Date;
+  utilization: number; // 0-1+
+}
+
+export interface ProbeBudgetStatus {
+  subscriptionId: string;
+  caps: ProbeBudgetCaps;
+  daily: ProbeBudgetPeriod;
+  monthly: ProbeBudgetPeriod;
+  pendingCleanup: number; // 정리되지 않은 테스트 VM 수
+  oldestPendingCleanupAt: Date | null;
+  exhausted: boolean;
+}
+
+export interface ProbeCostEstimate {
+  hourlyRateUsd: number;
+  estimatedCostUsd: number;
+  rateSource: 'price_data' | 'fallback';
+  estimatedMinutes: number; // 생성~삭제까지 과금될 것으로 보는 시간
+  durationSource: 'observed' | 'default';
+}
+
+export interface ProbeBudgetDecision {
+  allowed: boolean;
+  reason?: string;
+  estimate: ProbeCostEstimate;
+  status: ProbeBudgetStatus;
+}
+
+export class AzureProbeBudgetService {
+  private defaultDailyCapUsd: number;
+  private defaultMonthlyCapUsd: number;
+  private defaultProbeMinutes: number;
+
+  constructor(defaults: { dailyCapUsd: number; monthlyCapUsd: number; probeMinutes: number }) {
+    this.defaultDailyCapUsd = defaults.dailyCapUsd;
+    this.defaultMonthlyCapUsd = defaults.monthlyCapUsd;
+    this.defaultProbeMinutes = defaults.probeMinutes;
+  }
+
+  /**
+   * 구독의 예산 한도 (DB 설정 우선, 없으면 환경 변수 기본값)
+   */
+  async getCaps(subscriptionId: string): Promise<ProbeBudgetCaps> {
+    const budget = await prisma.probeBudget.findUnique({ where: { subscriptionId } });
+
+    if (budget) {
+      return {
+        dailyCapUsd: budget.dailyCapUsd,
+        monthlyCapUsd: budget.monthlyCapUsd,
+        source: 'database',
+        updatedBy: budget.updatedBy,
+        updatedAt: budget.updatedAt
+      };
+    }
+
+    return {
+      dailyCapUsd: this.defaultDailyCapUsd,
+      monthlyCapUsd: this.defaultMonthlyCapUsd,
+      source: 'env',
+      updatedBy: null,
+      updatedAt: null
+    };
+  }
+
+  /**
+   * 예산 한도 설정
+   */
+  async setCaps(
+    subscriptionId: string,
+    caps: { dailyCapUsd: number; monthlyCapUsd: number },
+    updatedBy?: string
+  ): Promise<ProbeBudgetCaps> {
+    if (caps.dailyCapUsd > caps.monthlyCapUsd) {
+      throw new Error('일 한도는 월 한도보다 클 수 없습니다.');
+    }
+
+    await prisma.probeBudget.upsert({
+      where: { subscriptionId },
+      update: { ...caps, updatedBy: updatedBy ?? null },
+      create: { subscriptionId, ...caps, updatedBy: updatedBy ?? null }
+    });
+
+    return this.getCaps(subscriptionId);
+  }
+
+  /**
+   * 예산 현황 (기간은 UTC 기준 일 / 월)
+   */
+  async getStatus(subscriptionId: string, now: Date = new Date()): Promise<ProbeBudgetStatus> {
+    const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+    const [caps, monthlyProbes] = await Promise.all([
+      this.getCaps(subscriptionId),
+      prisma.capacityProbe.findMany({
+        where: {
+          provider: 'azure',
+          accountId: subscriptionId,
+          OR: [{ timestamp: { gte: monthStart } }, { cleanedUp: false }]
+        },
+        select: { timestamp: true, cost: true, cleanedUp: true, testInstanceId: true, metadata: true }
+      })
+    ]);
+
+    const sumPeriod = (periodStart: Date) => {
+      let spent = 0;
+      let accruing = 0;
+
+      for (const probe of monthlyProbes) {
+        // 정리되지 않은 VM은 생성 시점과 관계없이 현재 기간에 비용을 발생시킴
+        const pending = !probe.cleanedUp && probe.testInstanceId;
+        if (probe.timestamp >= periodStart) {
+          spent += probe.cost ?? 0;
+        }
+        if (pending) {
+          const extra = this.accruedCost(probe, now, periodStart);
+          spent += extra;
+          accruing += extra;
+        }
+      }
+      return { spent, accruing };
+    };
+
+    const daily = sumPeriod(dayStart);
+    const monthly = sumPeriod(monthStart);
+    const pending = monthlyProbes
+      .filter(probe => !probe.cleanedUp && probe.testInstanceId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const toPeriod = (capUsd: number, usage: { spent: number; accruing: number }, periodStart: Date): ProbeBudgetPeriod => ({
+      capUsd,
+      spentUsd: roundUsd(usage.spent),
+      accruingUsd: roundUsd(usage.accruing),
+      remainingUsd: roundUsd(Math.max(0, capUsd - usage.spent)),
+      periodStart,
+      utilization: capUsd > 0 ? Math.round((usage.spent / capUsd) * 1000) / 1000 : 1
+    });
+
+    const dailyPeriod = toPeriod(caps.dailyCapUsd, daily, dayStart);
+    const monthlyPeriod = toPeriod(caps.monthlyCapUsd, monthly, monthStart);
+
+    return {
+      subscriptionId,
+      caps,
+      daily: dailyPeriod,
+      monthly: monthlyPeriod,
+      pendingCleanup: pending.length,
+      oldestPendingCleanupAt: pending[0]?.timestamp || null,
+      exhausted: dailyPeriod.remainingUsd <= 0 || monthlyPeriod.remainingUsd <= 0
+    };
+  }
+
+  /**
+   * 프로브 실행 전 예산 확인 (추정 비용이 남은 일/월 예산을 넘으면 거부)
+   */
+  async checkProbe(subscriptionId: string, region: string, vmSize: string): Promise<ProbeBudgetDecision> {
+    const [estimate, status] = await Promise.all([
+      this.estimateProbeCost(region, vmSize),
+      this.getStatus(subscriptionId)
+    ]);
+
+    const exceeded = [
+      estimate.estimatedCostUsd > status.daily.remainingUsd ? `일 예산 (잔여 $${status.daily.remainingUsd.toFixed(2)} / 한도 $${status.daily.capUsd.toFixed(2)})` : null,
+      estimate.estimatedCostUsd > status.monthly.remainingUsd ? `월 예산 (잔여 $${status.monthly.remainingUsd.toFixed(2)} / 한도 $${status.monthly.capUsd.toFixed(2)})` : null
+    ].filter(Boolean);
+
+    return {
+      allowed: exceeded.length === 0,
+      reason: exceeded.length > 0 ?
+        `${region}/${vmSize} 프로브 추정 비용 $${estimate.estimatedCostUsd.toFixed(4)}이 ${exceeded.join(', ')}을 초과합니다.` :
+        undefined,
+      estimate,
+      status
+    };
+  }
+
+  /**
+   * 프로브 1회 비용 추정 (동기화된 Azure 온디맨드 가격 우선, 생성~삭제 소요 시간만큼 과금)
+   */
+  async estimateProbeCost(region: string, vmSize: string): Promise<ProbeCostEstimate> {
+    const [price, duration] = await Promise.all([
+      priceHistoryService.getLatestPrice({
+        providerCode: 'azure',
+        regionCode: region,
+        instanceName: vmSize,
+        purchaseOption: 'on_demand'
+      }),
+      this.estimateProbeMinutes()
+    ]);
+
+    const fromPriceData = price && price.currency === 'USD' && price.pricePerHour > 0;
+    const hourlyRateUsd = fromPriceData ? price.pricePerHour : FALLBACK_HOURLY_RATES[vmSize] || DEFAULT_HOURLY_RATE;
+
+    return {
+      hourlyRateUsd,
+      estimatedCostUsd: this.costForDuration(hourlyRateUsd, duration.minutes * MINUTE),
+      rateSource: fromPriceData ? 'price_data' : 'fallback',
+      estimatedMinutes: duration.minutes,
+      durationSource: duration.source
+    };
+  }
+
+  /**
+   * 테스트 VM 유지 시간 추정 (최근 정리 완료된 프로브의 평균 생성~삭제 시간, 표본이 부족하면 설정값)
+   */
+  async estimateProbeMinutes(): Promise<{ minutes: number; source: 'observed' | 'default' }> {
+    const recent = await prisma.capacityProbe.findMany({
+      where: {
+        provider: 'azure',
+        probeKind: 'vm_create',
+        testInstanceId: { not: null },
+        cleanedUp: true,
+        cleanedUpAt: { not: null }
+      },
+      orderBy: { timestamp: 'desc' },
+      take: OBSERVED_DURATION_SAMPLES,
+      select: { timestamp: true, cleanedUpAt: true }
+    });
+
+    const durations = recent
+      .map(probe => probe.cleanedUpAt!.getTime() - probe.timestamp.getTime())
+      .filter(duration => duration > 0);
+
+    if (durations.length < MIN_OBSERVED_DURATION_SAMPLES) {
+      return { minutes: this.defaultProbeMinutes, source: 'default' };
+    }
+
+    const average = durations.reduce((sum, duration) => sum + duration, 0) / durations.length;
+    return { minutes: Math.max(MIN_BILLED_MINUTES, Math.ceil(average / MINUTE)), source: 'observed' };
+  }
+
+  /**
+   * VM 유지 시간 기준 비용 (최소 과금 시간 적용)
+   */
+  costForDuration(hourlyRateUsd: number, durationMs: number): number {
+    const billedMinutes = Math.max(MIN_BILLED_MINUTES, Math.ceil(durationMs / MINUTE));
+    return roundUsd((hourlyRateUsd * billedMinutes) / 60);
+  }
+
+  /**
+   * 정리되지 않은 VM의 추가 비용 (저장된 최소 과금 비용 이후 ~ 현재, 기간 시작 이후분만)
+   */
+  private accruedCost(
+    probe: { timestamp: Date; metadata: unknown },
+    now: Date,
+    periodStart: Date
+  ): number {
+    const hourlyRateUsd = (probe.metadata as { hourlyRateUsd?: number } | null)?.hourlyRateUsd ?? DEFAULT_HOURLY_RATE;
+    const billedUntil = probe.timestamp.getTime() + MIN_BILLED_MINUTES * MINUTE;
+    const from = Math.max(billedUntil, periodStart.getTime());
+    const duration = now.getTime() - from;
+
+    return duration > 0 ? (hourlyRateUsd * duration) / (60 * MINUTE) : 0;
+  }
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// 기본 설정으로 초기화된 인스턴스
+export const azureProbeBudgetService = new AzureProbeBudgetService({
+  dailyCapUsd: parseFloat(process.env.AZURE_PROBE_DAILY_BUDGET_USD || '5'),
+  monthlyCapUsd: parseFloat(process.env.AZURE_PROBE_MONTHLY_BUDGET_USD || '50'),
+  probeMinutes: parseFloat(process.env.AZURE_PROBE_ESTIMATED_MINUTES || '10')
+});
@@ -0,0 +1,318 @@
+// Azure 프로브 계획 (용량 체크 / SKU 제한·쿼터 조회 / Spot 수집 대상 조합 선정)
+// 후보 = 동기화된 Azure 가격 데이터의 리전/VM 조합 + 팀별 관심 목록
+// 우선순위 = 마지막 관측 이후 경과 시간 + 결과 변동성 + 사용자 조회 빈도 (+ 관심 목록 가산)
+import type { AzureProbeKind } from './azure-capacity';
+import { priceHistoryService } from './price-history';
+import { prisma } from './prisma';
+
+export type ProbePlanKind = 'capacity' | 'sku' | 'spot';
+
+export interface ProbePlanCandidate {
+  region: string;
+  vmSize: string;
+  priority: number; // 0-120
+  staleness: number; // 0-1, 한 번도 관측하지 않았으면 1
+  volatility: number; // 0-1
+  demand: number; // 0-1, 최근 조회 빈도 (로그 정규화)
+  queryCount: number;
+  watchedBy: string[]; // 관심 목록에 등록한 팀
+  lastObservedAt: Date | null;
+}
+
+export interface ProbePlan {
+  kind: ProbePlanKind;
+  totalCombinations: number;
+  fromPriceData: number;
+  fromWatchlist: number;
+  recentlyObserved: number; // 최소 간격 이내에 이미 관측된 조합 수
+  pending: number;
+  combinations: ProbePlanCandidate[];
+  estimatedDurationMinutes: number;
+}
+
+export interface WatchlistEntry {
+  id: string;
+  team: string;
+  region: string;
+  vmSize: string;
+  note: string | null;
+  createdAt: Date;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// 계획 설정 (용량 체크는 실제 VM을 만들기 때문에 간격이 길고, SKU 조회는 비용이 없어 자주 갱신)
+const PLAN_CONFIG: Record<ProbePlanKind, {
+  minIntervalMs: number; // 이 시간 이내에 관측된 조합은 제외
+  staleAfterMs: number; // 이 시간이 지나면 staleness = 1
+  minutesPerCombination: number;
+}> = {
+  capacity: { minIntervalMs: HOUR, staleAfterMs: 24 * HOUR, minutesPerCombination: 0.5 },
+  sku: { minIntervalMs: HOUR, staleAfterMs: 6 * HOUR, minutesPerCombination: 0.05 },
+  spot: { minIntervalMs: 30 * 60 * 1000, staleAfterMs: 6 * HOUR, minutesPerCombination: 0.25 }
+};
+
+const PRIORITY_WEIGHTS = {
+  staleness: 0.45,
+  volatility: 0.25,
+  demand: 0.30
+};
+const WATCHLIST_BONUS = 20;
+
+const SIGNAL_WINDOW_MS = 7 * 24 * HOUR; // 변동성 / 조회 빈도 집계 기간
+const DEMAND_SATURATION = 50; // 7일 조회 수가 이 값 이상이면 demand = 1
+
+export class AzureProbePlanner {
+  /**
+   * 프로브 계획 수립 (우선순위 높은 순으로 maxCombinations개)
+   */
+  async createPlan(kind: ProbePlanKind, maxCombinations: number): Promise<ProbePlan> {
+    const config = PLAN_CONFIG[kind];
+    const now = Date.now();
+
+    const [priceKeys, watchlist] = await Promise.all([
+      this.getPricedCombinations(kind),
+      prisma.probeWatchlist.findMany({ select: { team: true, region: true, vmSize: true } })
+    ]);
+
+    const watchers = new Map<string, string[]>();
+    for (const entry of watchlist) {
+      const key = comboKey(entry.region, entry.vmSize);
+      watchers.set(key, [...(watchers.get(key) || []), entry.team]);
+    }
+
+    const allKeys = new Set([...priceKeys, ...watchers.keys()]);
+    if (allKeys.size === 0) {
+      return {
+        kind,
+        totalCombinations: 0,
+        fromPriceData: 0,
+        fromWatchlist: 0,
+        recentlyObserved: 0,
+        pending: 0,
+        combinations: [],
+        estimatedDurationMinutes: 0
+      };
+    }
+
+    const since = new Date(now - SIGNAL_WINDOW_MS);
+    const [observations, queryCounts] = await Promise.all([
+      kind === 'spot' ? this.getSpotObservations(since) : this.getProbeObservations(since, kind === 'sku' ? 'sku_quota' : 'vm_create'),
+      this.getQueryCounts(since)
+    ]);
+
+    let recentlyObserved = 0;
+    const candidates: ProbePlanCandidate[] = [];
+
+    for (const key of allKeys) {
+      const [region, vmSize] = key.split('|');
+      const observation = observations.get(key);
+      const lastObservedAt = observation?.lastObservedAt || null;
+
+      if (lastObservedAt && now - lastObservedAt.getTime() < config.minIntervalMs) {
+        recentlyObserved++;
+        continue;
+      }
+
+      const staleness = lastObservedAt ?
+        Math.min(1, (now - lastObservedAt.getTime()) / config.staleAfterMs) :
+        1;
+      const volatility = observation?.volatility ?? 0;
+      const queryCount = queryCounts.get(key) || 0;
+      const demand = Math.min(1, Math.log1p(queryCount) / Math.log1p(DEMAND_SATURATION));
+      const watchedBy = watchers.get(key) || [];
+
+      const priority =
+        100 * (
+          PRIORITY_WEIGHTS.staleness * staleness +
+          PRIORITY_WEIGHTS.volatility * volatility +
+          PRIORITY_WEIGHTS.demand * demand
+        ) +
+        (watchedBy.length > 0 ? WATCHLIST_BONUS : 0);
+
+      candidates.push({
+        region,
+        vmSize,
+        priority: Math.round(priority * 10) / 10,
+        staleness: round3(staleness),
+        volatility: round3(volatility),
+        demand: round3(demand),
+        queryCount,
+        watchedBy,
+        lastObservedAt
+      });
+    }
+
+    // 동점이면 오래된 조합 먼저
+    const combinations = candidates
+      .sort((a, b) =>
+        b.priority - a.priority ||
+        (a.lastObservedAt?.getTime() ?? 0) - (b.lastObservedAt?.getTime() ?? 0)
+      )
+      .slice(0, maxCombinations);
+
+    return {
+      kind,
+      totalCombinations: allKeys.size,
+      fromPriceData: priceKeys.size,
+      fromWatchlist: watchers.size,
+      recentlyObserved,
+      pending: combinations.length,
+      combinations,
+      estimatedDurationMinutes: Math.ceil(combinations.length * config.minutesPerCombination)
+    };
+  }
+
+  /**
+   * 사용자 조회 기록 (요청 처리를 막지 않도록 실패는 로그만 남김)
+   */
+  recordQuery(region: string, vmSize: string, source: string): void {
+    prisma.capacityQueryLog.create({
+      data: { region, vmSize, source }
+    }).catch(error => {
+      console.warn(`용량 조회 기록 실패: ${region}/${vmSize}`, error);
+    });
+  }
+
+  /**
+   * 관심 목록 조회 (team 미지정 시 전체)
+   */
+  async getWatchlist(team?: string | null): Promise<WatchlistEntry[]> {
+    return prisma.probeWatchlist.findMany({
+      where: team ? { team } : undefined,
+      orderBy: [{ team: 'asc' }, { region: 'asc' }, { vmSize: 'asc' }]
+    });
+  }
+
+  /**
+   * 관심 목록 추가 (이미 있으면 메모만 갱신)
+   */
+  async addToWatchlist(entry: { team: string; region: string; vmSize: string; note?: string }): Promise<WatchlistEntry> {
+    return prisma.probeWatchlist.upsert({
+      where: {
+        team_region_vmSize: { team: entry.team, region: entry.region, vmSize: entry.vmSize }
+      },
+      update: { note: entry.note ?? null },
+      create: {
+        team: entry.team,
+        region: entry.region,
+        vmSize: entry.vmSize,
+        note: entry.note ?? null
+      }
+    });
+  }
+
+  /**
+   * 관심 목록 제거 (삭제된 행 수 반환)
+   */
+  async removeFromWatchlist(entry: { team: string; region: string; vmSize: string }): Promise<number> {
+    const { count } = await prisma.probeWatchlist.deleteMany({
+      where: { team: entry.team, region: entry.region, vmSize: entry.vmSize }
+    });
+    return count;
+  }
+
+  /**
+   * 가격 데이터에 있는 Azure 리전/VM 조합 (Spot 계획은 Spot 가격이 있는 조합만)
+   */
+  private async getPricedCombinations(kind: ProbePlanKind): Promise<Set<string>> {
+    const prices = await priceHistoryService.getLatestPrices({
+      providerCode: 'azure',
+      purchaseOption: kind === 'spot' ? 'spot' : 'on_demand'
+    });
+    return new Set(prices.map(price => comboKey(price.regionCode, price.instanceName)));
+  }
+
+  /**
+   * 조합별 마지막 프로브 시각 + 결과 변동성 (프로브 종류별)
+   * 변동성 = 4·p(1-p), p = 성공률 (전부 성공/전부 실패면 0, 반반이면 1)
+   */
+  private async getProbeObservations(since: Date, probeKind: AzureProbeKind) {
+    const [latest, outcomes] = await Promise.all([
+      prisma.capacityProbe.groupBy({
+        by: ['region', 'instanceType'],
+        where: { provider: 'azure', probeKind },
+        _max: { timestamp: true }
+      }),
+      prisma.capacityProbe.groupBy({
+        by: ['region', 'instanceType', 'success'],
+        where: { provider: 'azure', probeKind, timestamp: { gte: since }, success: { not: null } },
+        _count: { _all: true }
+      })
+    ]);
+
+    const counts = new Map<string, { success: number; total: number }>();
+    for (const row of outcomes) {
+      const key = comboKey(row.region, row.instanceType);
+      const current = counts.get(key) || { success: 0, total: 0 };
+      current.total += row._count._all;
+      if (row.success) current.success += row._count._all;
+      counts.set(key, current);
+    }
+
+    const observations = new Map<string, { lastObservedAt: Date | null; volatility: number }>();
+    for (const row of latest) {
+      const key = comboKey(row.region, row.instanceType);
+      const count = counts.get(key);
+      const successRate = count && count.total > 0 ? count.success / count.total : null;
+
+      observations.set(key, {
+        lastObservedAt: row._max.timestamp,
+        volatility: successRate === null ? 0 : 4 * successRate * (1 - successRate)
+      });
+    }
+    return observations;
+  }
+
+  /**
+   * 조합별 마지막 Spot 신호 시각 + 평균 가격 변동성
+   */
+  private async getSpotObservations(since: Date) {
+    const [latest, recent] = await Promise.all([
+      prisma.spotSignal.groupBy({
+        by: ['region', 'instanceType'],
+        where: { provider: 'azure' },
+        _max: { timestamp: true }
+      }),
+      prisma.spotSignal.groupBy({
+        by: ['region', 'instanceType'],
+        where: { provider: 'azure', timestamp: { gte: since } },
+        _avg: { volatility: true }
+      })
+    ]);
+
+    const volatilities = new Map(
+      recent.map(row => [comboKey(row.region, row.instanceType), row._avg.volatility ?? 0])
+    );
+
+    const observations = new Map<string, { lastObservedAt: Date | null; volatility: number }>();
+    for (const row of latest) {
+      const key = comboKey(row.region, row.instanceType);
+      observations.set(key, {
+        lastObservedAt: row._max.timestamp,
+        volatility: Math.min(1, volatilities.get(key) ?? 0)
+      });
+    }
+    return observations;
+  }
+
+  private async getQueryCounts(since: Date): Promise<Map<string, number>> {
+    const rows = await prisma.capacityQueryLog.groupBy({
+      by: ['region', 'vmSize'],
+      where: { timestamp: { gte: since } },
+      _count: { _all: true }
+    });
+    return new Map(rows.map(row => [comboKey(row.region, row.vmSize), row._count._all]));
+  }
+}
+
+function comboKey(region: string, vmSize: string): string {
+  return `${region}|${vmSize}`;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// 싱글톤 인스턴스
+export const azureProbePlanner = new AzureProbePlanner();
@@ -1,6 +1,8 @@
 // Azure 용량 스코어링 엔진
 import { azureCapacityService } from './azure-capacity';
 import { azureSpotService } from './azure-spot';
+import { capacityScoreHistoryService } from './capacity-score-history';
+import { decayWeight, estimateSuccessRate, SuccessRateEstimate, UNIFORM_PRIOR, weightedMean } from './capacity-stats';
 import { prisma } from './prisma';
 
 export interface CapacityScoreInput {
@@ -13,17 +15,23 @@ export interface CapacityScoreResult {
   region: string;
   vmSize: string;
   score: number; // 0-100 점수
+  scoreLower: number; // 점수 신용구간 하한 (성공률 / SKU 가용도 구간을 점수에 반영)
+  scoreUpper: number; // 점수 신용구간 상한
   label: 'AVAILABLE' | 'LIMITED' | 'UNAVAILABLE';
-  confidence: number; // 0-1 신뢰도
+  confidence: number; // 0-1 신뢰도 (성공률 신용구간 폭 기준)
   
   // 세부 지표들
-  successRate: number; // 용량 성공률 (0-1)
+  successRate: number; // 용량 성공률 사후 평균 (0-1)
+  successRateLower: number; // 성공률 신용구간 하한
+  successRateUpper: number; // 성공률 신용구간 상한
   avgProvisionMs: number; // 평균 프로비저닝 시간 (ms)
   capacityErrorRate: number; // 용량 에러 비율 (0-1)
   spotStress: number; // Spot 시장 스트레스 (0-1)
+  skuAvailability: number | null; // SKU 제한 / 쿼터 기준 가용도 (0-1), 조회 기록 없으면 null
   
   // 신뢰도 관련
   sampleCount: number; // 표본 수
+  effectiveSampleCount: number; // 시간 감쇠 가중치를 반영한 표본 수
   dataFreshness: number; // 데이터 신선도 (0-1)
   
   // 집계 정보
@@ -36,19 +44,58 @@ export interface CapacityScoreResult {
   alternatives?: string[];
 }
 
+// 윈도우 내 용량 프로브 집계 (success=null인 무시 에러는 제외)
+// VM 생성 프로브(vm_create)와 SKU 제한 / 쿼터 조회(sku_quota)를 따로 집계
+// 최근 관측일수록 가중치가 큰 지수 감쇠 가중치로 집계하고, 비율은 Beta 사후분포로 추정
+export interface CapacityMetrics {
+  totalProbes: number; // vm_create
+  successfulProbes: number;
+  failedProbes: number;
+  successRate: number; // 사후 평균
+  successEstimate: SuccessRateEstimate;
+  avgProvisionMs: number; // 성공 프로브 기준 가중 평균, 없으면 0
+  errorRate: number; // 용량 에러 비율 사후 평균
+  provisionTimes: number[];
+  skuChecks: number; // sku_quota
+  skuAvailability: number; // 0-1, 조회별 가용도 사후 평균 (제한 / 쿼터 부족 0, 일부 영역 제한은 감점)
+  skuEstimate: SuccessRateEstimate;
+  lastProbeTime: Date | null; // 두 종류 중 가장 최근
+}
+
+// 윈도우 내 Spot 신호 집계 (감쇠 가중 평균)
+export interface SpotMetrics {
+  totalSignals: number;
+  avgPriceRatio: number;
+  avgVolatility: number;
+  avgEvictionRate: number;
+  avgStress: number;
+  lastSignalTime: Date | null;
+}
+
+export interface StoredScoreQuery {
+  region?: string | null;
+  vmSize?: string | null;
+  minScore?: number;
+  label?: string | null;
+  limit?: number;
+}
+
 export interface ScoringWeights {
   successRate: number; // 성공률 가중치
   provisionSpeed: number; // 프로비저닝 속도 가중치
   capacityStability: number; // 용량 안정성 가중치
   spotMarketHealth: number; // Spot 시장 건강도 가중치
+  skuAvailability: number; // SKU 제한 / 쿼터 가중치
 }
 
 export class AzureCapacityScoringEngine {
+  // 데이터가 있는 지표의 가중치 합으로 다시 나누므로 합이 1일 필요는 없음
   private defaultWeights: ScoringWeights = {
     successRate: 0.40,      // 40% - 가장 중요
     provisionSpeed: 0.25,   // 25% - 성능 지표
     capacityStability: 0.20, // 20% - 안정성
-    spotMarketHealth: 0.15  // 15% - 시장 상황
+    spotMarketHealth: 0.15, // 15% - 시장 상황
+    skuAvailability: 0.15   // 비용 없는 SKU 제한 / 쿼터 신호
   };
 
   private scoreThresholds = {
@@ -56,6 +103,12 @@ export class AzureCapacityScoringEngine {
     limited: 40      // 40점 이상 = Limited, 미만 = Unavailable
   };
 
+  // 관측 가중치가 절반이 되는 시간 (6시간 전 프로브는 방금 프로브의 절반만 반영)
+  private decayHalfLifeHours = 6;
+
+  // 성공률 / 점수 신용구간 수준
+  private credibleLevel = 0.9;
+
   /**
    * 단일 리전/VM크기의 용량 스코어 계산
    */
@@ -78,23 +131,21 @@ export class AzureCapacityScoringEngine {
       
       // 2. Spot 신호 데이터 수집
       const spotData = await this.getSpotMetrics(region, vmSize, windowStart, windowEnd);
+
+      // 측정값이 전혀 없으면 점수를 지어내지 않고 데이터 부족으로 반환
+      if (capacityData.totalProbes === 0 && capacityData.skuChecks === 0 && spotData.totalSignals === 0) {
+        return this.getDefaultScore(region, vmSize, windowStart, windowEnd);
+      }
       
-      // 3. 각 지표별 점수 계산
-      const successScore = this.calculateSuccessScore(capacityData);
-      const speedScore = this.calculateSpeedScore(capacityData);
-      const stabilityScore = this.calculateStabilityScore(capacityData);
-      const spotScore = this.calculateSpotScore(spotData);
-      
-      // 4. 가중 평균으로 최종 점수 계산
-      const totalScore = (
-        successScore * weights.successRate +
-        speedScore * weights.provisionSpeed +
-        stabilityScore * weights.capacityStability +
-        spotScore * weights.spotMarketHealth
-      );
+      // 3~4. 지표별 점수의 가중 평균 (데이터가 있는 지표만 반영)
+      // 성공률 / SKU 가용도를 신용구간 하한 / 상한으로 바꿔 넣어 점수 구간도 계산
+      const { successEstimate, skuEstimate } = capacityData;
+      const totalScore = this.calculateWeightedScore(capacityData, spotData, weights, successEstimate.mean, skuEstimate.mean);
+      const scoreLower = this.calculateWeightedScore(capacityData, spotData, weights, successEstimate.lower, skuEstimate.lower);
+      const scoreUpper = this.calculateWeightedScore(capacityData, spotData, weights, successEstimate.upper, skuEstimate.upper);
 
       // 5. 신뢰도 계산
-      const confidence = this.calculateConfidence(capacityData, spotData, windowHours);
+      const confidence = this.calculateConfidence(capacityData);
 
       // 6. 등급 분류
       const label = this.classifyScore(totalScore);
@@ -107,13 +158,19 @@ export class AzureCapacityScoringEngine {
         region,
         vmSize,
         score: Math.round(totalScore),
+        scoreLower: Math.round(scoreLower),
+        scoreUpper: Math.round(scoreUpper),
         label,
         confidence,
         successRate: capacityData.successRate,
+        successRateLower: successEstimate.lower,
+        successRateUpper: successEstimate.upper,
         avgProvisionMs: capacityData.avgProvisionMs,
         capacityErrorRate: capacityData.errorRate,
         spotStress: spotData.avgStress,
-        sampleCount: capacityData.totalProbes + spotData.totalSignals,
+        skuAvailability: capacityData.skuChecks > 0 ? capacityData.skuAvailability : null,
+        sampleCount: capacityData.totalProbes + capacityData.skuChecks + spotData.totalSignals,
+        effectiveSampleCount: Math.round((successEstimate.effectiveSamples + skuEstimate.effectiveSamples) * 10) / 10,
         dataFreshness: this.calculateDataFreshness(capacityData, spotData),
         windowStart,
         windowEnd,
@@ -131,79 +188,119 @@ export class AzureCapacityScoringEngine {
   }
 
   /**
-   * 용량 체크 메트릭 수집
+   * 용량 체크 메트릭 수집 (CapacityProbe, provider=azure)
    */
-  private async getCapacityMetrics(region: string, vmSize: string, start: Date, end: Date) {
-    // TODO: 실제 DB 쿼리로 교체
-    // 현재는 모킹 데이터 반환
-    
-    const mockData = {
-      totalProbes: 24,
-      successfulProbes: 18,
-      failedProbes: 6,
-      successRate: 18 / 24, // 75%
-      avgProvisionMs: 4500,
-      errorRate: 6 / 24, // 25%
-      provisionTimes: [3200, 4100, 5200, 3800, 4700, 3900], // 성공한 케이스들
-      lastProbeTime: new Date(Date.now() - 30 * 60 * 1000) // 30분 전
-    };
+  private async getCapacityMetrics(region: string, vmSize: string, start: Date, end: Date): Promise<CapacityMetrics> {
+    const probes = await prisma.capacityProbe.findMany({
+      where: { provider: 'azure', region, instanceType: vmSize, timestamp: { gte: start, lte: end } },
+      select: { probeKind: true, success: true, errorClass: true, provisionMs: true, timestamp: true, metadata: true },
+      orderBy: { timestamp: 'desc' }
+    });
+
+    // 쿼터/권한 등 무시 에러(success=null)는 용량 판단에서 제외
+    const now = end.getTime();
+    const weighted = probes
+      .filter(p => p.success !== null)
+      .map(p => ({ ...p, weight: decayWeight(p.timestamp, now, this.decayHalfLifeHours) }));
+    const counted = weighted.filter(p => p.probeKind !== 'sku_quota');
+    const skuChecks = weighted.filter(p => p.probeKind === 'sku_quota');
+    const successful = counted.filter(p => p.success === true);
+    const timed = successful.filter(p => typeof p.provisionMs === 'number');
+
+    const sumWeights = (rows: { weight: number }[]) => rows.reduce((sum, p) => sum + p.weight, 0);
+    const countedWeight = sumWeights(counted);
+    const successWeight = sumWeights(successful);
+    const capacityErrorWeight = sumWeights(counted.filter(p => p.success === false && p.errorClass === 'capacity'));
+
+    // SKU 조회는 가용도(0-1)만큼 성공으로 집계
+    const skuSuccessWeight = skuChecks.reduce((sum, p) => sum + p.weight * this.skuCheckAvailability(p.success, p.metadata), 0);
+
+    const successEstimate = estimateSuccessRate(successWeight, countedWeight - successWeight, UNIFORM_PRIOR, this.credibleLevel);
+    const skuEstimate = estimateSuccessRate(skuSuccessWeight, sumWeights(skuChecks) - skuSuccessWeight, UNIFORM_PRIOR, this.credibleLevel);
 
-    // VM 크기별 차등 적용
-    if (vmSize.includes('H100')) {
-      mockData.successRate = 0.3; // H100은 성공률 낮음
-      mockData.avgProvisionMs = 8000;
-    } else if (vmSize.includes('A100')) {
-      mockData.successRate = 0.6; // A100은 중간
-      mockData.avgProvisionMs = 6000;
-    }
+    return {
+      totalProbes: counted.length,
+      successfulProbes: successful.length,
+      failedProbes: counted.length - successful.length,
+      successRate: successEstimate.mean,
+      successEstimate,
+      avgProvisionMs: weightedMean(timed.map(p => p.provisionMs!), timed.map(p => p.weight)),
+      errorRate: estimateSuccessRate(capacityErrorWeight, countedWeight - capacityErrorWeight).mean,
+      provisionTimes: timed.map(p => p.provisionMs!),
+      skuChecks: skuChecks.length,
+      skuAvailability: skuEstimate.mean,
+      skuEstimate,
+      lastProbeTime: probes[0]?.timestamp ?? null
+    };
+  }
 
-    // 리전별 차등 적용
-    if (region === 'koreacentral') {
-      mockData.successRate *= 0.8; // 한국은 조금 더 어려움
-    }
+  /**
+   * SKU 조회 1건의 가용도 (제한 / 쿼터 부족 0, 일부 가용 영역 제한은 제한 비율의 절반만큼 감점)
+   */
+  private skuCheckAvailability(success: boolean | null, metadata: unknown): number {
+    if (!success) return 0;
 
-    return mockData;
+    const { zones = [], restrictedZones = [] } = (metadata || {}) as { zones?: string[]; restrictedZones?: string[] };
+    if (zones.length === 0) return 1;
+    return 1 - 0.5 * (restrictedZones.length / zones.length);
   }
 
   /**
-   * Spot 신호 메트릭 수집
+   * Spot 신호 메트릭 수집 (SpotSignal, provider=azure)
    */
-  private async getSpotMetrics(region: string, vmSize: string, start: Date, end: Date) {
-    // TODO: 실제 DB 쿼리로 교체
-    // 현재는 모킹 데이터 반환
-    
-    const mockData = {
-      totalSignals: 12,
-      avgPriceRatio: 0.65, // 35% 할인
-      avgVolatility: 0.2,
-      avgEvictionRate: 0.15,
-      avgStress: 0.4,
-      lastSignalTime: new Date(Date.now() - 15 * 60 * 1000) // 15분 전
-    };
+  private async getSpotMetrics(region: string, vmSize: string, start: Date, end: Date): Promise<SpotMetrics> {
+    const signals = await prisma.spotSignal.findMany({
+      where: { provider: 'azure', region, instanceType: vmSize, timestamp: { gte: start, lte: end } },
+      select: { priceRatio: true, volatility: true, evictionRate: true, marketStress: true, timestamp: true },
+      orderBy: { timestamp: 'desc' }
+    });
 
-    // VM 크기별 차등 적용
-    if (vmSize.includes('H100')) {
-      mockData.avgStress = 0.8; // H100은 시장 스트레스 높음
-      mockData.avgPriceRatio = 0.9; // 할인 적음
-    } else if (vmSize.includes('A100')) {
-      mockData.avgStress = 0.6; // A100은 중간
-      mockData.avgPriceRatio = 0.7;
-    }
+    const weights = signals.map(s => decayWeight(s.timestamp, end.getTime(), this.decayHalfLifeHours));
+    const average = (values: number[]) => weightedMean(values, weights);
 
-    return mockData;
+    return {
+      totalSignals: signals.length,
+      avgPriceRatio: average(signals.map(s => s.priceRatio)),
+      avgVolatility: average(signals.map(s => s.volatility ?? 0)),
+      avgEvictionRate: average(signals.map(s => s.evictionRate ?? 0)),
+      avgStress: average(signals.map(s => s.marketStress)),
+      lastSignalTime: signals[0]?.timestamp ?? null
+    };
   }
 
   /**
-   * 성공률 점수 계산 (0-100)
+   * 지표별 점수의 가중 평균 (0-100, 데이터가 있는 지표만 반영)
+   * successRate / skuAvailability는 사후 평균 또는 신용구간 경계값
    */
-  private calculateSuccessScore(capacityData: any): number {
-    return capacityData.successRate * 100;
+  private calculateWeightedScore(
+    capacityData: CapacityMetrics,
+    spotData: SpotMetrics,
+    weights: ScoringWeights,
+    successRate: number,
+    skuAvailability: number
+  ): number {
+    const components: { score: number; weight: number }[] = [
+      ...(capacityData.totalProbes > 0 ? [
+        { score: successRate * 100, weight: weights.successRate },
+        { score: this.calculateSpeedScore(capacityData), weight: weights.provisionSpeed },
+        { score: this.calculateStabilityScore(capacityData), weight: weights.capacityStability }
+      ] : []),
+      ...(spotData.totalSignals > 0 ? [{ score: this.calculateSpotScore(spotData), weight: weights.spotMarketHealth }] : []),
+      ...(capacityData.skuChecks > 0 ? [{ score: skuAvailability * 100, weight: weights.skuAvailability }] : [])
+    ];
+    const totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+    return totalWeight > 0
+      ? components.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight
+      : 0;
   }
 
   /**
    * 속도 점수 계산 (0-100)
    */
-  private calculateSpeedScore(capacityData: any): number {
+  private calculateSpeedScore(capacityData: CapacityMetrics): number {
+    // 성공한 프로비저닝이 없으면 속도 점수 없음
+    if (capacityData.provisionTimes.length === 0) return 0;
+
     // 프로비저닝 시간이 짧을수록 높은 점수
     // 3초 = 100점, 10초 = 0점으로 선형 스케일링
     const maxMs = 10000; // 10초
@@ -219,7 +316,7 @@ export class AzureCapacityScoringEngine {
   /**
    * 안정성 점수 계산 (0-100)
    */
-  private calculateStabilityScore(capacityData: any): number {
+  private calculateStabilityScore(capacityData: CapacityMetrics): number {
     // 에러율이 낮을수록 높은 점수
     return (1 - capacityData.errorRate) * 100;
   }
@@ -227,43 +324,43 @@ export class AzureCapacityScoringEngine {
   /**
    * Spot 시장 점수 계산 (0-100)
    */
-  private calculateSpotScore(spotData: any): number {
+  private calculateSpotScore(spotData: SpotMetrics): number {
     // 시장 스트레스가 낮을수록 높은 점수
     return (1 - spotData.avgStress) * 100;
   }
 
   /**
    * 신뢰도 계산 (0-1)
+   * 성공률 신용구간이 사전분포 구간보다 얼마나 좁아졌는지 (VM 생성 프로브가 없으면 SKU 조회 기준)
+   * 감쇠 가중치 때문에 오래된 프로브만 있으면 구간이 넓어져 신뢰도도 낮아짐
+   * Spot 신호는 간접 신호라 신뢰도에 반영하지 않음
    */
-  private calculateConfidence(capacityData: any, spotData: any, windowHours: number): number {
-    // 표본 수 기반 신뢰도
-    const totalSamples = capacityData.totalProbes + spotData.totalSignals;
-    const expectedSamples = windowHours * 2; // 시간당 2개 샘플 예상
-    const sampleScore = Math.min(1, totalSamples / expectedSamples);
-    
-    // 데이터 신선도 기반 신뢰도
-    const maxAgeHours = 2; // 2시간 이내가 신선
-    const capacityAge = (Date.now() - capacityData.lastProbeTime.getTime()) / (1000 * 60 * 60);
-    const spotAge = (Date.now() - spotData.lastSignalTime.getTime()) / (1000 * 60 * 60);
-    const avgAge = (capacityAge + spotAge) / 2;
-    const freshnessScore = Math.max(0, 1 - avgAge / maxAgeHours);
-    
-    // 가중 평균
-    return (sampleScore * 0.6 + freshnessScore * 0.4);
+  private calculateConfidence(capacityData: CapacityMetrics): number {
+    const estimate = capacityData.totalProbes > 0 ? capacityData.successEstimate : capacityData.skuEstimate;
+    const prior = estimateSuccessRate(0, 0, UNIFORM_PRIOR, this.credibleLevel);
+    const narrowing = 1 - (estimate.upper - estimate.lower) / (prior.upper - prior.lower);
+
+    return Math.round(Math.max(0, Math.min(1, narrowing)) * 100) / 100;
   }
 
   /**
    * 데이터 신선도 계산 (0-1)
    */
-  private calculateDataFreshness(capacityData: any, spotData: any): number {
+  private calculateDataFreshness(capacityData: CapacityMetrics, spotData: SpotMetrics): number {
     const maxAgeMinutes = 60; // 1시간 이내가 신선
-    const capacityAge = (Date.now() - capacityData.lastProbeTime.getTime()) / (1000 * 60);
-    const spotAge = (Date.now() - spotData.lastSignalTime.getTime()) / (1000 * 60);
-    const avgAge = (capacityAge + spotAge) / 2;
+    const avgAge = this.averageAgeMinutes(capacityData, spotData, maxAgeMinutes);
     
     return Math.max(0, 1 - avgAge / maxAgeMinutes);
   }
 
+  /**
+   * 마지막 프로브/신호의 평균 경과 시간 (분, 없는 쪽은 maxAgeMinutes)
+   */
+  private averageAgeMinutes(capacityData: CapacityMetrics, spotData: SpotMetrics, maxAgeMinutes: number): number {
+    const ageOf = (time: Date | null) => time ? (Date.now() - time.getTime()) / (1000 * 60) : maxAgeMinutes;
+    return (ageOf(capacityData.lastProbeTime) + ageOf(spotData.lastSignalTime)) / 2;
+  }
+
   /**
    * 점수 기반 등급 분류
    */
@@ -280,7 +377,7 @@ export class AzureCapacityScoringEngine {
   /**
    * 추천사항 생성
    */
-  private generateRecommendation(score: number, capacityData: any, spotData: any): string {
+  private generateRecommendation(score: number, capacityData: CapacityMetrics, spotData: SpotMetrics): string {
     if (score >= 80) {
       return '✅ 지금 바로 사용하기 좋은 상태입니다!';
     } else if (score >= 60) {
@@ -319,20 +416,26 @@ export class AzureCapacityScoringEngine {
   }
 
   /**
-   * 기본 스코어 반환 (오류 시)
+   * 기본 스코어 반환 (데이터 없음 / 오류 시, 신뢰도 0)
    */
   private getDefaultScore(region: string, vmSize: string, start: Date, end: Date): CapacityScoreResult {
     return {
       region,
       vmSize,
       score: 50,
+      scoreLower: 0,
+      scoreUpper: 100,
       label: 'LIMITED',
-      confidence: 0.3,
-      successRate: 0.5,
-      avgProvisionMs: 5000,
-      capacityErrorRate: 0.5,
-      spotStress: 0.5,
+      confidence: 0,
+      successRate: 0,
+      successRateLower: 0,
+      successRateUpper: 1,
+      avgProvisionMs: 0,
+      capacityErrorRate: 0,
+      spotStress: 0,
+      skuAvailability: null,
       sampleCount: 0,
+      effectiveSampleCount: 0,
       dataFreshness: 0,
       windowStart: start,
       windowEnd: end,
@@ -367,53 +470,67 @@ export class AzureCapacityScoringEngine {
   }
 
   /**
-   * 스코어 저장
+   * 스코어 저장 (최신값 upsert + 이력 추가)
    */
   async saveCapacityScore(scoreResult: CapacityScoreResult): Promise<void> {
+    // 표본이 없는 기본 스코어는 저장하지 않음 (이전 측정값 유지)
+    if (scoreResult.sampleCount === 0) {
+      console.log(`⏭️ 용량 스코어 저장 생략 (데이터 없음): ${scoreResult.region}/${scoreResult.vmSize}`);
+      return;
+    }
+
+    const data = {
+      score: scoreResult.score,
+      scoreLower: scoreResult.scoreLower,
+      scoreUpper: scoreResult.scoreUpper,
+      label: scoreResult.label,
+      confidence: scoreResult.confidence,
+      successRate: scoreResult.successRate,
+      avgProvisionMs: Math.round(scoreResult.avgProvisionMs), // Int 컬럼
+      capacityErrorRate: scoreResult.capacityErrorRate,
+      spotStress: scoreResult.spotStress,
+      sampleCount: scoreResult.sampleCount,
+      calculatedAt: scoreResult.calculatedAt,
+      windowStart: scoreResult.windowStart,
+      windowEnd: scoreResult.windowEnd
+    };
+
     try {
-      // TODO: Prisma 클라이언트 업데이트 후 활성화
-      console.log(`💾 용량 스코어 저장 (모킹): ${scoreResult.region}/${scoreResult.vmSize} - ${scoreResult.score}점 (${scoreResult.label})`);
-      
-      // await prisma.azureCapacityScore.upsert({
-      //   where: {
-      //     region_vmSize: {
-      //       region: scoreResult.region,
-      //       vmSize: scoreResult.vmSize
-      //     }
-      //   },
-      //   update: {
-      //     score: scoreResult.score,
-      //     label: scoreResult.label,
-      //     confidence: scoreResult.confidence,
-      //     successRate: scoreResult.successRate,
-      //     avgProvisionMs: scoreResult.avgProvisionMs,
-      //     capacityErrorRate: scoreResult.capacityErrorRate,
-      //     spotStress: scoreResult.spotStress,
-      //     sampleCount: scoreResult.sampleCount,
-      //     calculatedAt: scoreResult.calculatedAt,
-      //     windowStart: scoreResult.windowStart,
-      //     windowEnd: scoreResult.windowEnd
-      //   },
-      //   create: {
-      //     region: scoreResult.region,
-      //     vmSize: scoreResult.vmSize,
-      //     score: scoreResult.score,
-      //     label: scoreResult.label,
-      //     confidence: scoreResult.confidence,
-      //     successRate: scoreResult.successRate,
-      //     avgProvisionMs: scoreResult.avgProvisionMs,
-      //     capacityErrorRate: scoreResult.capacityErrorRate,
-      //     spotStress: scoreResult.spotStress,
-      //     sampleCount: scoreResult.sampleCount,
-      //     calculatedAt: scoreResult.calculatedAt,
-      //     windowStart: scoreResult.windowStart,
-      //     windowEnd: scoreResult.windowEnd
-      //   }
-      // });
+      await prisma.capacityScore.upsert({
+        where: {
+          provider_region_instanceType: {
+            provider: 'azure',
+            region: scoreResult.region,
+            instanceType: scoreResult.vmSize
+          }
+        },
+        update: data,
+        create: { provider: 'azure', region: scoreResult.region, instanceType: scoreResult.vmSize, ...data }
+      });
+      await capacityScoreHistoryService.record('azure', { ...data, region: scoreResult.region, instanceType: scoreResult.vmSize });
+      console.log(`💾 용량 스코어 저장: ${scoreResult.region}/${scoreResult.vmSize} - ${scoreResult.score}점 (${scoreResult.label})`);
     } catch (error) {
       console.error('용량 스코어 저장 실패:', error);
     }
   }
+
+  /**
+   * 저장된 용량 스코어 조회 (CapacityScore 중 provider=azure, 점수 높은 순)
+   */
+  async getStoredScores(query: StoredScoreQuery = {}) {
+    const scores = await prisma.capacityScore.findMany({
+      where: {
+        provider: 'azure',
+        ...(query.region && { region: query.region }),
+        ...(query.vmSize && { instanceType: query.vmSize }),
+        ...(query.label && { label: query.label }),
+        ...(query.minScore && { score: { gte: query.minScore } })
+      },
+      orderBy: [{ score: 'desc' }, { calculatedAt: 'desc' }],
+      take: query.limit ?? 50
+    });
+    return scores.map(({ instanceType, ...score }) => ({ ...score, vmSize: instanceType }));
+  }
 }
 
 // 기본 인스턴스 내보내기
@@ -2,6 +2,9 @@
 import { ComputeManagementClient } from '@azure/arm-compute';
 import { DefaultAzureCredential } from '@azure/identity';
 import { prisma } from './prisma';
+import { priceRepository } from './price-repository';
+import { isAzureCapacityDemo } from './azure-demo';
+import { spotEvictionService } from './spot-evictions';
 
 export interface AzureSpotPriceData {
   region: string;
@@ -20,30 +23,98 @@ export interface AzureSpotSignalResult {
   priceRatio: number;
   volatility: number; // 가격 변동성 (0-1)
   evictionRate: number; // 중단율 (0-1)
+  evictionSource: AzureEvictionSource;
+  evictionSamples: number; // 실측 관측 수 (감쇠 가중치 합, 추정일 때는 부족했던 관측 수)
   marketStress: number; // 시장 혼잡도 (0-1)
   timestamp: Date;
 }
 
+// observed: 워크로드 보고 기반 실측, estimated: 관측 부족으로 가격 비율 추정식 사용
+export type AzureEvictionSource = 'observed' | 'estimated';
+
+// SpotSignal(provider=azure) 조회 행
+export interface AzureSpotSignalRecord {
+  id: string;
+  timestamp: Date;
+  region: string;
+  vmSize: string;
+  spotPrice: number;
+  onDemandPrice: number;
+  priceRatio: number;
+  volatility: number | null;
+  evictionRate: number | null;
+  evictionSource: string | null;
+  evictionSamples: number | null;
+  marketStress: number;
+}
+
+export interface AzureSpotMarketSummary {
+  avgPriceRatio: number;
+  avgVolatility: number;
+  avgEvictionRate: number;
+  avgMarketStress: number;
+  totalSignals: number;
+}
+
+// 시간 창 하나의 Spot 가격 통계 (SpotSignal 행 기준)
+export interface AzureSpotWindowStats {
+  window: string; // 1h, 24h, 7d
+  hours: number;
+  samples: number;
+  meanPrice: number | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+  volatility: number | null; // 변동계수 기반 0-1 (표본 2개 미만이면 null)
+  trend: AzureSpotTrend | null;
+  bands: AzureSpotPriceBands | null;
+  avgPriceRatio: number | null;
+}
+
+export interface AzureSpotTrend {
+  direction: 'rising' | 'falling' | 'stable';
+  changePerHour: number; // 회귀 기울기 / 평균 가격 (시간당 변화율)
+  windowChange: number; // 창 안 첫 관측 ~ 마지막 관측 구간의 변화율 추정
+}
+
+// 가격 백분위 구간
+export interface AzureSpotPriceBands {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface AzureSpotStatistics {
+  region: string;
+  vmSize: string;
+  latestSpotPrice: number;
+  latestTimestamp: Date;
+  windows: AzureSpotWindowStats[];
+}
+
 export interface AzureSpotConfig {
   subscriptionId: string;
   resourceGroupName?: string;
   monitorRegions: string[];
   monitorVmSizes: string[];
   collectionIntervalMinutes: number;
-  enableRealSpotApi: boolean; // false면 모킹
+  enableRealSpotApi: boolean; // false면 Compute API 미연결 (Spot 가격은 PriceHistory 기준)
+  volatilityWindowHours: number; // 신호 수집 시 변동성 계산 창
+  statisticsWindowHours: number[]; // 시장 요약 통계 창 (기본 1h / 24h / 7d)
 }
 
+// 추세 판단 기준: 창 전체 변화율이 ±2% 이내면 stable
+const TREND_STABLE_THRESHOLD = 0.02;
+
 export class AzureSpotService {
   private computeClient: ComputeManagementClient | null = null;
   private config: AzureSpotConfig;
   private isInitialized = false;
 
-  // 온디맨드 가격 캐시 (시간당 가격, USD)
+  // 데모 모드용 온디맨드 가격표 (시간당 가격, USD)
   private onDemandPriceCache: Map<string, number> = new Map();
 
-  // 과거 가격 데이터 캐시 (변동성 계산용)
-  private priceHistory: Map<string, number[]> = new Map();
-
   constructor(config: AzureSpotConfig) {
     this.config = config;
     this.initializeOnDemandPrices();
@@ -61,7 +132,7 @@ export class AzureSpotService {
         
         console.log('✅ Azure Spot Service 실제 API 모드로 초기화');
       } else {
-        console.log('🔄 Azure Spot Service 모킹 모드로 초기화');
+        console.log(`🔄 Azure Spot Service PriceHistory 모드로 초기화${isAzureCapacityDemo() ? ' (데모: 동기화 가격 없으면 시뮬레이션)' : ''}`);
       }
       
       this.isInitialized = true;
@@ -73,7 +144,7 @@ export class AzureSpotService {
   }
 
   /**
-   * 온디맨드 가격 초기화 (실제 값 기반)
+   * 데모 모드용 온디맨드 가격 초기화 (2024년 공시가 기반)
    */
   private initializeOnDemandPrices(): void {
     // Azure GPU VM 온디맨드 시간당 가격 (USD, 2024년 기준)
@@ -122,53 +193,53 @@ export class AzureSpotService {
       await this.initialize();
     }
 
-    try {
-      let spotPriceData: AzureSpotPriceData;
+    // Retail Prices API에서 동기화된 Spot 가격만 사용, 시뮬레이션은 데모 모드 전용
+    let spotPriceData = await this.fetchRealSpotPrice(region, vmSize);
 
-      if (this.config.enableRealSpotApi && this.computeClient) {
-        spotPriceData = await this.fetchRealSpotPrice(region, vmSize);
-      } else {
-        spotPriceData = await this.generateMockSpotPrice(region, vmSize);
+    if (!spotPriceData) {
+      if (!isAzureCapacityDemo()) {
+        throw new Error(`동기화된 Spot/온디맨드 가격이 없습니다: ${region}/${vmSize} (Azure 가격 동기화 필요)`);
       }
-
-      // 시장 신호 분석
-      const signals = await this.analyzeMarketSignals(spotPriceData);
-      
-      return signals;
-
-    } catch (error) {
-      console.error(`Spot 가격 수집 실패: ${region}/${vmSize}`, error);
-      
-      // 오류 시 기본값 반환
-      const onDemandPrice = this.getOnDemandPrice(region, vmSize);
-      return {
-        region,
-        vmSize,
-        spotPrice: onDemandPrice * 0.7, // 기본적으로 30% 할인
-        onDemandPrice,
-        priceRatio: 0.7,
-        volatility: 0.5,
-        evictionRate: 0.1,
-        marketStress: 0.5,
-        timestamp: new Date()
-      };
+      console.warn(`동기화된 Spot 가격 없음, 데모 시뮬레이션 값 사용: ${region}/${vmSize}`);
+      spotPriceData = await this.generateMockSpotPrice(region, vmSize);
     }
+
+    // 시장 신호 분석
+    return await this.analyzeMarketSignals(spotPriceData);
   }
 
   /**
-   * 실제 Azure Spot 가격 API 호출
+   * 실제 Spot 가격 조회 (PriceHistory에 저장된 Retail Prices API Spot 미터)
    */
-  private async fetchRealSpotPrice(region: string, vmSize: string): Promise<AzureSpotPriceData> {
-    // 실제 Azure Spot Pricing API는 복잡하므로 현재는 모킹으로 대체
-    // 향후 Azure Retail Prices API의 Spot 가격 부분을 파싱하여 구현
-    console.log(`🔍 실제 Spot 가격 조회: ${region}/${vmSize}`);
-    
-    // TODO: 실제 Azure Spot Pricing API 연동
-    return this.generateMockSpotPrice(region, vmSize);
+  private async fetchRealSpotPrice(region: string, vmSize: string): Promise<AzureSpotPriceData | null> {
+    const query = { providerCode: 'azure', regionCode: region, instanceName: vmSize };
+    const [spot, onDemand] = await Promise.all([
+      priceRepository.getOffer({ ...query, purchaseOption: 'spot' }),
+      priceRepository.getOffer({ ...query, purchaseOption: 'on_demand' })
+    ]);
+
+    if (!spot) {
+      return null;
+    }
+
+    // 온디맨드 가격이 동기화되지 않았으면 데모 모드에서만 가격표로 대체
+    const onDemandPrice = onDemand?.pricePerHour || (isAzureCapacityDemo() ? this.getOnDemandPrice(region, vmSize) : 0);
+    if (onDemandPrice <= 0) {
+      return null;
+    }
+
+    return {
+      region,
+      vmSize,
+      spotPrice: spot.pricePerHour,
+      onDemandPrice,
+      priceRatio: spot.pricePerHour / onDemandPrice,
+      timestamp: new Date()
+    };
   }
 
   /**
-   * 모킹된 Spot 가격 생성 (현실적인 시뮬레이션)
+   * 모킹된 Spot 가격 생성 (데모 모드 전용 시뮬레이션)
    */
   private async generateMockSpotPrice(region: string, vmSize: string): Promise<AzureSpotPriceData> {
     const onDemandPrice = this.getOnDemandPrice(region, vmSize);
@@ -205,7 +276,7 @@ export class AzureSpotService {
   }
 
   /**
-   * 온디맨드 가격 조회
+   * 데모 모드용 온디맨드 가격 조회
    */
   private getOnDemandPrice(region: string, vmSize: string): number {
     const key = `${region}:${vmSize}`;
@@ -216,31 +287,32 @@ export class AzureSpotService {
    * 시장 신호 분석
    */
   private async analyzeMarketSignals(priceData: AzureSpotPriceData): Promise<AzureSpotSignalResult> {
-    const key = `${priceData.region}:${priceData.vmSize}`;
-    
-    // 과거 가격 히스토리 업데이트
-    if (!this.priceHistory.has(key)) {
-      this.priceHistory.set(key, []);
-    }
-    const history = this.priceHistory.get(key)!;
-    history.push(priceData.spotPrice);
-    
-    // 최근 24개 데이터포인트만 유지 (24시간 가정)
-    if (history.length > 24) {
-      history.shift();
-    }
+    // 저장된 신호(SpotSignal) 기준 변동성 창의 가격 + 현재 가격 (재시작 / 인스턴스 간에도 같은 결과)
+    const since = new Date(priceData.timestamp.getTime() - this.config.volatilityWindowHours * 60 * 60 * 1000);
+    const history = await prisma.spotSignal.findMany({
+      where: {
+        provider: 'azure',
+        region: priceData.region,
+        instanceType: priceData.vmSize,
+        timestamp: { gte: since, lte: priceData.timestamp }
+      },
+      select: { spotPrice: true },
+      orderBy: { timestamp: 'asc' }
+    });
 
     // 가격 변동성 계산 (표준편차 기반)
-    const volatility = this.calculateVolatility(history);
+    const volatility = this.calculateVolatility([...history.map(s => s.spotPrice), priceData.spotPrice]);
 
-    // 중단율 추정 (가격이 높을수록 중단율 낮음)
-    const evictionRate = this.estimateEvictionRate(priceData.priceRatio);
+    // 중단율: 보고된 실측 관측이 충분하면 실측값, 부족하면 가격 비율 추정식
+    const empirical = await spotEvictionService.getEmpiricalRate('azure', priceData.region, priceData.vmSize);
+    const evictionSource: AzureEvictionSource = empirical.sufficient ? 'observed' : 'estimated';
+    const evictionRate = empirical.sufficient ? empirical.rate : this.estimateEvictionRate(priceData.priceRatio);
 
     // 시장 스트레스 계산 (종합 지표)
     const marketStress = this.calculateMarketStress(
       priceData.priceRatio,
       volatility,
-      evictionRate
+      evictionSource === 'observed' ? evictionRate : null
     );
 
     return {
@@ -251,6 +323,8 @@ export class AzureSpotService {
       priceRatio: priceData.priceRatio,
       volatility,
       evictionRate,
+      evictionSource,
+      evictionSamples: empirical.effectiveSamples,
       marketStress,
       timestamp: priceData.timestamp
     };
@@ -272,7 +346,87 @@ export class AzureSpotService {
   }
 
   /**
-   * 중단율 추정 (가격 비율 기반)
+   * 가격 추세 (최소제곱 회귀 기울기를 평균 가격으로 나눈 시간당 변화율)
+   */
+  private calculateTrend(points: { timestamp: Date; spotPrice: number }[]): AzureSpotTrend | null {
+    if (points.length < 2) return null;
+
+    const xs = points.map(p => p.timestamp.getTime() / (60 * 60 * 1000));
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = points.reduce((sum, p) => sum + p.spotPrice, 0) / points.length;
+    const denominator = xs.reduce((sum, x) => sum + Math.pow(x - meanX, 2), 0);
+    if (denominator === 0 || meanY === 0) return null;
+
+    const slope = xs.reduce((sum, x, i) => sum + (x - meanX) * (points[i].spotPrice - meanY), 0) / denominator;
+    const changePerHour = slope / meanY;
+    const windowChange = changePerHour * (xs[xs.length - 1] - xs[0]);
+
+    return {
+      direction: windowChange > TREND_STABLE_THRESHOLD ? 'rising' :
+                 windowChange < -TREND_STABLE_THRESHOLD ? 'falling' : 'stable',
+      changePerHour,
+      windowChange
+    };
+  }
+
+  /**
+   * 백분위수 (정렬된 값, 선형 보간)
+   */
+  private percentile(sorted: number[], p: number): number {
+    const index = (sorted.length - 1) * p;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+  }
+
+  /**
+   * 시간 창 하나의 가격 통계
+   */
+  private calculateWindowStats(
+    points: { timestamp: Date; spotPrice: number; priceRatio: number }[],
+    hours: number
+  ): AzureSpotWindowStats {
+    const window = hours % 24 === 0 && hours > 24 ? `${hours / 24}d` : `${hours}h`;
+    if (points.length === 0) {
+      return {
+        window,
+        hours,
+        samples: 0,
+        meanPrice: null,
+        minPrice: null,
+        maxPrice: null,
+        volatility: null,
+        trend: null,
+        bands: null,
+        avgPriceRatio: null
+      };
+    }
+
+    const prices = points.map(p => p.spotPrice);
+    const sorted = [...prices].sort((a, b) => a - b);
+
+    return {
+      window,
+      hours,
+      samples: points.length,
+      meanPrice: prices.reduce((sum, price) => sum + price, 0) / prices.length,
+      minPrice: sorted[0],
+      maxPrice: sorted[sorted.length - 1],
+      volatility: points.length >= 2 ? this.calculateVolatility(prices) : null,
+      trend: this.calculateTrend(points),
+      bands: {
+        p10: this.percentile(sorted, 0.1),
+        p25: this.percentile(sorted, 0.25),
+        p50: this.percentile(sorted, 0.5),
+        p75: this.percentile(sorted, 0.75),
+        p90: this.percentile(sorted, 0.9)
+      },
+      avgPriceRatio: points.reduce((sum, p) => sum + p.priceRatio, 0) / points.length
+    };
+  }
+
+  /**
+   * 중단율 추정 (가격 비율 기반, 실측 관측이 부족할 때만 사용)
    */
   private estimateEvictionRate(priceRatio: number): number {
     // 가격이 온디맨드에 가까울수록 중단율 낮음
@@ -283,13 +437,17 @@ export class AzureSpotService {
 
   /**
    * 시장 스트레스 계산 (종합 지표, 0-1)
+   * 추정 중단율은 가격 비율에서 나온 값이라 다시 더하면 가격을 이중 반영하므로 실측 중단율만 반영한다.
    */
-  private calculateMarketStress(priceRatio: number, volatility: number, evictionRate: number): number {
-    // 가중 평균으로 시장 스트레스 계산
+  private calculateMarketStress(priceRatio: number, volatility: number, observedEvictionRate: number | null): number {
     const priceStress = 1 - priceRatio; // 가격이 높을수록 스트레스 높음
     const volatilityStress = volatility; // 변동성이 클수록 스트레스 높음
-    const evictionStress = evictionRate * 2; // 중단율이 높을수록 스트레스 높음
 
+    if (observedEvictionRate === null) {
+      return Math.max(0, Math.min(1, priceStress * 0.6 + volatilityStress * 0.4));
+    }
+
+    const evictionStress = Math.min(1, observedEvictionRate * 2); // 중단율 50% 이상이면 최대
     const marketStress = (priceStress * 0.4 + volatilityStress * 0.3 + evictionStress * 0.3);
     return Math.max(0, Math.min(1, marketStress));
   }
@@ -328,22 +486,23 @@ export class AzureSpotService {
    */
   async saveSpotSignal(signal: AzureSpotSignalResult): Promise<void> {
     try {
-      // TODO: Prisma 클라이언트 업데이트 후 활성화
-      console.log(`💾 Spot 신호 저장 (모킹): ${signal.region}/${signal.vmSize} - 가격비율: ${(signal.priceRatio * 100).toFixed(1)}%, 스트레스: ${(signal.marketStress * 100).toFixed(1)}%`);
-      
-      // await prisma.azureSpotSignal.create({
-      //   data: {
-      //     region: signal.region,
-      //     vmSize: signal.vmSize,
-      //     spotPrice: signal.spotPrice,
-      //     onDemandPrice: signal.onDemandPrice,
-      //     priceRatio: signal.priceRatio,
-      //     volatility: signal.volatility,
-      //     evictionRate: signal.evictionRate,
-      //     marketStress: signal.marketStress,
-      //     timestamp: signal.timestamp
-      //   }
-      // });
+      await prisma.spotSignal.create({
+        data: {
+          provider: 'azure',
+          region: signal.region,
+          instanceType: signal.vmSize,
+          spotPrice: signal.spotPrice,
+          onDemandPrice: signal.onDemandPrice,
+          priceRatio: signal.priceRatio,
+          volatility: signal.volatility,
+          evictionRate: signal.evictionRate,
+          evictionSource: signal.evictionSource,
+          evictionSamples: signal.evictionSamples,
+          marketStress: signal.marketStress,
+          timestamp: signal.timestamp
+        }
+      });
+      console.log(`💾 Spot 신호 저장: ${signal.region}/${signal.vmSize} - 가격비율: ${(signal.priceRatio * 100).toFixed(1)}%, 스트레스: ${(signal.marketStress * 100).toFixed(1)}%`);
     } catch (error) {
       console.error('Spot 신호 저장 실패:', error);
     }
@@ -356,57 +515,89 @@ export class AzureSpotService {
     region?: string,
     vmSize?: string,
     hours: number = 24
-  ): Promise<any[]> {
-    // TODO: Prisma 클라이언트 업데이트 후 활성화
-    console.log(`📊 최근 Spot 신호 조회 (모킹): ${region || 'all'}/${vmSize || 'all'}, ${hours}시간`);
-    
-    // 임시 목업 데이터 반환
-    return [
-      {
-        region: 'koreacentral',
-        vmSize: 'Standard_NC24ads_A100_v4',
-        spotPrice: 2.57,
-        onDemandPrice: 3.673,
-        priceRatio: 0.70,
-        volatility: 0.15,
-        evictionRate: 0.08,
-        marketStress: 0.35,
-        timestamp: new Date()
+  ): Promise<AzureSpotSignalRecord[]> {
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const signals = await prisma.spotSignal.findMany({
+      where: {
+        provider: 'azure',
+        timestamp: { gte: since },
+        ...(region && { region }),
+        ...(vmSize && { instanceType: vmSize })
       },
-      {
-        region: 'eastus',
-        vmSize: 'Standard_NC4as_T4_v3',
-        spotPrice: 0.21,
-        onDemandPrice: 0.526,
-        priceRatio: 0.40,
-        volatility: 0.25,
-        evictionRate: 0.25,
-        marketStress: 0.65,
-        timestamp: new Date(Date.now() - 30 * 60 * 1000)
+      orderBy: { timestamp: 'desc' }
+    });
+    return signals.map(({ instanceType, ...signal }) => ({ ...signal, vmSize: instanceType }));
+  }
+
+  /**
+   * 리전/VM 크기별 Spot 가격 통계 (변동성 / 추세 / 백분위 구간, 시간 창별)
+   */
+  async getSpotStatistics(
+    region?: string,
+    vmSize?: string,
+    windowHours: number[] = this.config.statisticsWindowHours,
+    now: Date = new Date()
+  ): Promise<AzureSpotStatistics[]> {
+    if (windowHours.length === 0) return [];
+
+    const hours = [...new Set(windowHours)].sort((a, b) => a - b);
+    const since = new Date(now.getTime() - hours[hours.length - 1] * 60 * 60 * 1000);
+    const signals = await prisma.spotSignal.findMany({
+      where: {
+        provider: 'azure',
+        timestamp: { gte: since, lte: now },
+        ...(region && { region }),
+        ...(vmSize && { instanceType: vmSize })
+      },
+      select: { region: true, instanceType: true, spotPrice: true, priceRatio: true, timestamp: true },
+      orderBy: { timestamp: 'asc' }
+    });
+
+    const groups = new Map<string, typeof signals>();
+    for (const signal of signals) {
+      const key = `${signal.region}:${signal.instanceType}`;
+      if (!groups.has(key)) {
+        groups.set(key, []);
       }
-    ];
+      groups.get(key)!.push(signal);
+    }
+
+    return Array.from(groups.values()).map(points => {
+      const latest = points[points.length - 1];
+      return {
+        region: latest.region,
+        vmSize: latest.instanceType,
+        latestSpotPrice: latest.spotPrice,
+        latestTimestamp: latest.timestamp,
+        windows: hours.map(h => {
+          const windowStart = now.getTime() - h * 60 * 60 * 1000;
+          return this.calculateWindowStats(points.filter(p => p.timestamp.getTime() >= windowStart), h);
+        })
+      };
+    });
   }
 
   /**
    * 시장 상황 요약
    */
-  async getMarketSummary(): Promise<any> {
+  async getMarketSummary(): Promise<AzureSpotMarketSummary> {
     const signals = await this.getRecentSpotSignals(undefined, undefined, 4); // 최근 4시간
     
+    // 수집된 신호가 없으면 0 (totalSignals로 데이터 없음 판단)
     if (signals.length === 0) {
       return {
-        avgPriceRatio: 0.6,
-        avgVolatility: 0.2,
-        avgEvictionRate: 0.15,
-        avgMarketStress: 0.4,
+        avgPriceRatio: 0,
+        avgVolatility: 0,
+        avgEvictionRate: 0,
+        avgMarketStress: 0,
         totalSignals: 0
       };
     }
 
     return {
       avgPriceRatio: signals.reduce((sum, s) => sum + s.priceRatio, 0) / signals.length,
-      avgVolatility: signals.reduce((sum, s) => sum + s.volatility, 0) / signals.length,
-      avgEvictionRate: signals.reduce((sum, s) => sum + s.evictionRate, 0) / signals.length,
+      avgVolatility: signals.reduce((sum, s) => sum + (s.volatility ?? 0), 0) / signals.length,
+      avgEvictionRate: signals.reduce((sum, s) => sum + (s.evictionRate ?? 0), 0) / signals.length,
       avgMarketStress: signals.reduce((sum, s) => sum + s.marketStress, 0) / signals.length,
       totalSignals: signals.length
     };
@@ -425,7 +616,9 @@ export const azureSpotService = new AzureSpotService({
     'Standard_NC48ads_A100_v4'
   ],
   collectionIntervalMinutes: 15,
-  enableRealSpotApi: false // 현재는 모킹 모드
+  enableRealSpotApi: false, // Compute API 미연결, PriceHistory의 Spot 가격 사용
+  volatilityWindowHours: 24,
+  statisticsWindowHours: [1, 24, 24 * 7]
 });
 
 
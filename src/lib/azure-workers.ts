@@ -0,0 +1,234 @@
+// Azure 용량 체크 / SKU 제한·쿼터 조회 / Spot 신호 수집 워커
+// 스케줄러(scheduled-jobs)와 워커 API(/api/azure/capacity-worker, spot-worker)가 같은 계획/실행 로직을 사용한다.
+import { azureCapacityService } from './azure-capacity';
+import { azureProbePlanner, ProbePlan } from './azure-probe-plan';
+import { azureSpotService, AzureSpotSignalResult } from './azure-spot';
+
+// 용량 체크 워커 설정
+export const CAPACITY_WORKER_CONFIG = {
+  maxRunTimeMinutes: 30, // 최대 30분 실행
+  batchSizeLimit: 16,    // 한 번에 최대 16개 조합
+  cooldownMinutes: 10,   // 연속 실행 방지 쿨다운
+};
+
+// Spot 워커 설정
+export const SPOT_WORKER_CONFIG = {
+  maxRunTimeMinutes: 20,    // 최대 20분 실행
+  batchSizeLimit: 12,       // 한 번에 최대 12개 조합
+  cooldownMinutes: 15,      // 연속 실행 방지 쿨다운
+};
+
+export interface WorkerCombination {
+  region: string;
+  vmSize: string;
+  priority: number;
+}
+
+export interface CapacityCheckResults {
+  planned: number;
+  completed: number;
+  successful: number;
+  failed: number;
+  ignored: number;
+  budgetExceeded: boolean; // 프로브 예산 초과로 중단
+  errors: string[];
+}
+
+export interface SpotCollectionResults {
+  planned: number;
+  completed: number;
+  successful: number;
+  failed: number;
+  signals: AzureSpotSignalResult[];
+  errors: string[];
+}
+
+/**
+ * 쿨다운 중인지 확인
+ */
+export function isInCooldown(lastRun: Date, cooldownMinutes: number): boolean {
+  const cooldownEnds = new Date(lastRun.getTime() + cooldownMinutes * 60 * 1000);
+  return new Date() < cooldownEnds;
+}
+
+/**
+ * 용량 체크 계획 수립 (가격 데이터 + 관심 목록 기반, 최근 1시간 이내 체크된 조합 제외)
+ */
+export async function createCheckPlan(maxCombinations: number): Promise<ProbePlan> {
+  return azureProbePlanner.createPlan('capacity', maxCombinations);
+}
+
+/**
+ * 체크 계획 실행
+ */
+export async function executeCheckPlan(
+  plan: { combinations: WorkerCombination[] },
+  startTime: number
+): Promise<CapacityCheckResults> {
+  const results: CapacityCheckResults = {
+    planned: plan.combinations.length,
+    completed: 0,
+    successful: 0,
+    failed: 0,
+    ignored: 0,
+    budgetExceeded: false,
+    errors: []
+  };
+
+  for (const combo of plan.combinations) {
+    try {
+      // 실행 시간 제한 체크
+      const elapsedMinutes = (Date.now() - startTime) / (1000 * 60);
+      if (elapsedMinutes > CAPACITY_WORKER_CONFIG.maxRunTimeMinutes) {
+        console.log(`⏱️ 워커 최대 실행 시간 초과: ${elapsedMinutes}분`);
+        break;
+      }
+
+      // 예산을 넘으면 남은 조합은 실행하지 않음
+      const budget = await azureCapacityService.checkProbeBudget(combo.region, combo.vmSize);
+      if (budget && !budget.allowed) {
+        console.log(`💸 프로브 예산 초과로 중단: ${budget.reason}`);
+        results.budgetExceeded = true;
+        results.errors.push(`예산 초과: ${budget.reason}`);
+        break;
+      }
+
+      console.log(`🔍 워커 체크: ${combo.region}/${combo.vmSize}`);
+
+      const result = await azureCapacityService.checkCapacity(combo.region, combo.vmSize);
+      await azureCapacityService.saveProbeResult(result);
+
+      results.completed++;
+
+      if (result.success === true) results.successful++;
+      else if (result.success === false) results.failed++;
+      else results.ignored++;
+
+      // 조합 간 간격
+      await new Promise(resolve => setTimeout(resolve, 5000));
+
+    } catch (error) {
+      console.error(`워커 체크 실패: ${combo.region}/${combo.vmSize}`, error);
+      results.errors.push(`${combo.region}/${combo.vmSize}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * SKU 제한 / 쿼터 조회 계획 수립 (VM을 만들지 않으므로 예산과 무관, 최근 1시간 이내 조회된 조합 제외)
+ */
+export async function createSkuCheckPlan(maxCombinations: number): Promise<ProbePlan> {
+  return azureProbePlanner.createPlan('sku', maxCombinations);
+}
+
+/**
+ * SKU 조회 계획 실행
+ */
+export async function executeSkuCheckPlan(
+  plan: { combinations: WorkerCombination[] },
+  startTime: number
+): Promise<CapacityCheckResults> {
+  const results: CapacityCheckResults = {
+    planned: plan.combinations.length,
+    completed: 0,
+    successful: 0,
+    failed: 0,
+    ignored: 0,
+    budgetExceeded: false,
+    errors: []
+  };
+
+  for (const combo of plan.combinations) {
+    try {
+      const elapsedMinutes = (Date.now() - startTime) / (1000 * 60);
+      if (elapsedMinutes > CAPACITY_WORKER_CONFIG.maxRunTimeMinutes) {
+        console.log(`⏱️ SKU 조회 최대 실행 시간 초과: ${elapsedMinutes}분`);
+        break;
+      }
+
+      const result = await azureCapacityService.checkSkuQuota(combo.region, combo.vmSize);
+      await azureCapacityService.saveProbeResult(result);
+
+      results.completed++;
+
+      if (result.success === true) results.successful++;
+      else if (result.success === false) results.failed++;
+      else results.ignored++;
+
+    } catch (error) {
+      console.error(`SKU 조회 실패: ${combo.region}/${combo.vmSize}`, error);
+      results.errors.push(`${combo.region}/${combo.vmSize}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Spot 수집 계획 수립 (Spot 가격이 있는 조합 + 관심 목록, 최근 30분 이내 수집된 조합 제외)
+ */
+export async function createSpotCollectionPlan(maxCombinations: number): Promise<ProbePlan> {
+  return azureProbePlanner.createPlan('spot', maxCombinations);
+}
+
+/**
+ * Spot 수집 계획 실행
+ */
+export async function executeSpotCollectionPlan(
+  plan: { combinations: WorkerCombination[] },
+  startTime: number
+): Promise<SpotCollectionResults> {
+  const results: SpotCollectionResults = {
+    planned: plan.combinations.length,
+    completed: 0,
+    successful: 0,
+    failed: 0,
+    signals: [],
+    errors: []
+  };
+
+  for (const combo of plan.combinations) {
+    try {
+      // 실행 시간 제한 체크
+      const elapsedMinutes = (Date.now() - startTime) / (1000 * 60);
+      if (elapsedMinutes > SPOT_WORKER_CONFIG.maxRunTimeMinutes) {
+        console.log(`⏱️ Spot 워커 최대 실행 시간 초과: ${elapsedMinutes}분`);
+        break;
+      }
+
+      console.log(`📊 Spot 워커 수집: ${combo.region}/${combo.vmSize}`);
+
+      const signal = await azureSpotService.collectSpotPrice(combo.region, combo.vmSize);
+      await azureSpotService.saveSpotSignal(signal);
+
+      results.completed++;
+      results.successful++;
+      results.signals.push(signal);
+
+      // 수집 간격
+      await new Promise(resolve => setTimeout(resolve, 3000));
+
+    } catch (error) {
+      console.error(`Spot 워커 수집 실패: ${combo.region}/${combo.vmSize}`, error);
+      results.completed++;
+      results.failed++;
+      results.errors.push(`${combo.region}/${combo.vmSize}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * 워커 결과 → EtlLog 상태 / 메시지 (recorded = 저장된 프로브/신호 수)
+ */
+export function summarizeWorkerRun(recorded: number, errors: string[]) {
+  return {
+    status: errors.length === 0 ? 'success' as const : recorded > 0 ? 'partial_success' as const : 'failed' as const,
+    message: errors.length > 0 ?
+      `${errors.length}개 오류: ${errors.slice(0, 3).join(', ')}` :
+      undefined
+  };
+}
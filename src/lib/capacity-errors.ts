@@ -0,0 +1,113 @@
+// 프로바이더별 용량 프로브 에러 분류
+// capacity = 용량 부족 신호 (스코어에 반영), 나머지(quota / permission / ignored / restriction)는 용량 판단에서 제외하거나 별도 지표로 사용
+export type CapacityProvider = 'azure' | 'aws';
+
+export type CapacityErrorClass = 'capacity' | 'quota' | 'permission' | 'ignored' | 'restriction';
+
+export interface ProviderErrorTaxonomy {
+  capacity: readonly string[];
+  ignored: readonly string[];
+  quota: readonly string[];
+  permission: readonly string[];
+  restriction: readonly string[];
+  // 목록에 없는 코드는 이름 패턴으로 분류
+  quotaPattern?: RegExp;
+  permissionPattern?: RegExp;
+  fallback: CapacityErrorClass; // 어디에도 해당하지 않는 코드
+}
+
+// Azure 에러 코드 매핑 (용량 관련만)
+export const AZURE_CAPACITY_ERRORS = [
+  'AllocationFailed',
+  'SkuNotAvailable', 
+  'InsufficientCapacity',
+  'ZoneNotAvailable',
+  'ResourceUnavailable',
+  'OperationNotAllowed',
+  'InternalError' // 때로는 용량 부족으로 나타남
+] as const;
+
+export const AZURE_IGNORED_ERRORS = [
+  'QuotaExceeded',          // 쿼터 → 무시
+  'AuthorizationFailed',    // 권한 → 무시
+  'InvalidParameter',       // 기타 → 무시
+  'BadRequest',             // 요청 오류 → 무시
+  'Forbidden',              // 권한 → 무시
+  'Unauthorized'            // 권한 → 무시
+] as const;
+
+// SKU 제한 / 쿼터 조회(sku_quota) 결과 코드
+export const AZURE_RESTRICTION_ERRORS = [
+  'NotAvailableForSubscription',
+  'QuotaId',
+  'ZonesRestricted'
+] as const;
+
+// AWS 에러 코드 매핑 (RunInstances / CreateCapacityReservation / GetSpotPlacementScores)
+export const AWS_CAPACITY_ERRORS = [
+  'InsufficientInstanceCapacity',
+  'InsufficientCapacity',
+  'InsufficientReservedInstanceCapacity'
+] as const;
+
+// 가용 영역 / 리전에서 인스턴스 타입을 제공하지 않음 (용량 부족이 아님)
+export const AWS_RESTRICTION_ERRORS = [
+  'Unsupported',
+  'NotOfferedInRegion'
+] as const;
+
+export const AWS_QUOTA_ERRORS = [
+  'InstanceLimitExceeded',
+  'VcpuLimitExceeded',
+  'ReservationCapacityExceeded',
+  'MaxSpotInstanceCountExceeded'
+] as const;
+
+export const AWS_PERMISSION_ERRORS = [
+  'UnauthorizedOperation',
+  'AuthFailure',
+  'OptInRequired',
+  'Blocked'
+] as const;
+
+export const CAPACITY_ERROR_TAXONOMIES: Record<CapacityProvider, ProviderErrorTaxonomy> = {
+  azure: {
+    capacity: AZURE_CAPACITY_ERRORS,
+    ignored: AZURE_IGNORED_ERRORS,
+    quota: ['FamilyQuotaExceeded', 'RegionalQuotaExceeded'],
+    permission: [],
+    restriction: AZURE_RESTRICTION_ERRORS,
+    quotaPattern: /Quota/,
+    permissionPattern: /Authorization|Permission/,
+    fallback: 'capacity' // 모르는 에러는 일단 용량 관련으로 분류
+  },
+  aws: {
+    capacity: AWS_CAPACITY_ERRORS,
+    ignored: ['DryRunOperation', 'NoPlacementScore'], // DryRun 통과는 권한 확인일 뿐 용량 신호가 아님
+    quota: AWS_QUOTA_ERRORS,
+    permission: AWS_PERMISSION_ERRORS,
+    restriction: AWS_RESTRICTION_ERRORS,
+    quotaPattern: /LimitExceeded/,
+    fallback: 'ignored' // 요청 파라미터 오류 등은 용량 신호가 아님
+  }
+};
+
+export const CAPACITY_PROVIDERS = Object.keys(CAPACITY_ERROR_TAXONOMIES) as CapacityProvider[];
+
+export function isCapacityProvider(provider: string): provider is CapacityProvider {
+  return (CAPACITY_PROVIDERS as string[]).includes(provider);
+}
+
+/**
+ * 에러 코드를 카테고리로 분류 (목록 → 이름 패턴 → 프로바이더 기본값 순)
+ */
+export function classifyCapacityError(provider: CapacityProvider, errorCode: string): CapacityErrorClass {
+  const taxonomy = CAPACITY_ERROR_TAXONOMIES[provider];
+
+  if (taxonomy.capacity.includes(errorCode)) return 'capacity';
+  if (taxonomy.ignored.includes(errorCode)) return 'ignored';
+  if (taxonomy.restriction.includes(errorCode)) return 'restriction';
+  if (taxonomy.quota.includes(errorCode) || taxonomy.quotaPattern?.test(errorCode)) return 'quota';
+  if (taxonomy.permission.includes(errorCode) || taxonomy.permissionPattern?.test(errorCode)) return 'permission';
+  return taxonomy.fallback;
+}
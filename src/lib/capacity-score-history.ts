@@ -0,0 +1,177 @@
+// 용량 스코어 이력 (CapacityScoreHistory)
+// 스코어링 엔진이 저장할 때마다 한 행씩 추가하고, 조회 시 버킷 단위로 다운샘플링한다.
+import { matchesPattern } from './azure-compute-client';
+import { CapacityProvider } from './capacity-errors';
+import { prisma } from './prisma';
+
+export interface ScoreHistoryEntry {
+  region: string;
+  instanceType: string;
+  score: number;
+  scoreLower?: number | null;
+  scoreUpper?: number | null;
+  label: string;
+  confidence: number;
+  sampleCount: number;
+  calculatedAt: Date;
+}
+
+export interface ScoreHistoryPoint {
+  bucketStart: Date;
+  avgScore: number;
+  minScore: number;
+  maxScore: number;
+  scoreLower: number | null; // 버킷 내 신용구간 하한 중 최솟값
+  scoreUpper: number | null; // 버킷 내 신용구간 상한 중 최댓값
+  label: 'AVAILABLE' | 'LIMITED' | 'UNAVAILABLE'; // 평균 점수 기준
+  samples: number; // 버킷 내 재계산 횟수
+}
+
+export interface ScoreHistorySeries {
+  key: string; // 기본은 `${region}|${instanceType}`, keyOf 지정 시 그 값
+  points: ScoreHistoryPoint[];
+}
+
+export interface ScoreHistoryQuery {
+  provider: CapacityProvider;
+  region?: string | null;
+  instanceType?: string | null; // '*' 글롭 지원 (예: *A100*)
+  from: Date;
+  to: Date;
+  bucketMs: number;
+  keyOf?: (row: { region: string; instanceType: string }) => string | null; // null이면 제외
+}
+
+// 버킷 크기 (문자열 → ms)
+export const HISTORY_BUCKETS: Record<string, number> = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '3h': 3 * 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '12h': 12 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+// 자동 버킷 선택 시 시리즈당 최대 포인트 수
+const MAX_AUTO_POINTS = 120;
+
+/**
+ * 버킷 문자열 해석 (생략하면 기간에 맞춰 포인트가 MAX_AUTO_POINTS 이하가 되는 가장 작은 버킷)
+ */
+export function resolveHistoryBucket(bucket: string | null | undefined, from: Date, to: Date): { bucket: string; bucketMs: number } {
+  if (bucket) {
+    if (!HISTORY_BUCKETS[bucket]) {
+      throw new Error(`지원하지 않는 bucket: ${bucket} (${Object.keys(HISTORY_BUCKETS).join(', ')})`);
+    }
+    return { bucket, bucketMs: HISTORY_BUCKETS[bucket] };
+  }
+
+  const rangeMs = to.getTime() - from.getTime();
+  const entries = Object.entries(HISTORY_BUCKETS);
+  const [auto, autoMs] = entries.find(([, ms]) => rangeMs / ms <= MAX_AUTO_POINTS) || entries[entries.length - 1];
+  return { bucket: auto, bucketMs: autoMs };
+}
+
+export class CapacityScoreHistoryService {
+  /**
+   * 스코어 이력 1건 추가 (실패해도 최신 스코어 저장에는 영향 없음)
+   */
+  async record(provider: CapacityProvider, entry: ScoreHistoryEntry): Promise<void> {
+    try {
+      await prisma.capacityScoreHistory.create({
+        data: {
+          provider,
+          region: entry.region,
+          instanceType: entry.instanceType,
+          score: entry.score,
+          scoreLower: entry.scoreLower ?? null,
+          scoreUpper: entry.scoreUpper ?? null,
+          label: entry.label,
+          confidence: entry.confidence,
+          sampleCount: entry.sampleCount,
+          calculatedAt: entry.calculatedAt
+        }
+      });
+    } catch (error) {
+      console.error('용량 스코어 이력 저장 실패:', error);
+    }
+  }
+
+  /**
+   * 기간 내 이력을 시리즈별 / 버킷별로 다운샘플링
+   */
+  async getHistory(query: ScoreHistoryQuery): Promise<ScoreHistorySeries[]> {
+    const { provider, region, instanceType, from, to, bucketMs, keyOf } = query;
+    const glob = instanceType?.includes('*');
+
+    const rows = await prisma.capacityScoreHistory.findMany({
+      where: {
+        provider,
+        ...(region && { region }),
+        ...(instanceType && !glob && { instanceType }),
+        calculatedAt: { gte: from, lte: to }
+      },
+      select: { region: true, instanceType: true, score: true, scoreLower: true, scoreUpper: true, calculatedAt: true },
+      orderBy: { calculatedAt: 'asc' }
+    });
+
+    return this.downsample(
+      rows.filter(row => !glob || matchesPattern(row.instanceType, instanceType!)),
+      from,
+      bucketMs,
+      keyOf || (row => `${row.region}|${row.instanceType}`)
+    );
+  }
+
+  /**
+   * 행을 키별 시리즈로 묶고 bucketMs 단위로 집계 (빈 버킷은 포함하지 않음)
+   */
+  downsample(
+    rows: Pick<ScoreHistoryEntry, 'region' | 'instanceType' | 'score' | 'scoreLower' | 'scoreUpper' | 'calculatedAt'>[],
+    from: Date,
+    bucketMs: number,
+    keyOf: (row: { region: string; instanceType: string }) => string | null
+  ): ScoreHistorySeries[] {
+    const buckets = new Map<string, Map<number, typeof rows>>();
+
+    for (const row of rows) {
+      const key = keyOf(row);
+      if (key === null) continue;
+
+      const bucketStart = from.getTime() + Math.floor((row.calculatedAt.getTime() - from.getTime()) / bucketMs) * bucketMs;
+      const series = buckets.get(key) || new Map<number, typeof rows>();
+      series.set(bucketStart, [...(series.get(bucketStart) || []), row]);
+      buckets.set(key, series);
+    }
+
+    return Array.from(buckets.entries())
+      .map(([key, series]) => ({
+        key,
+        points: Array.from(series.entries())
+          .sort(([a], [b]) => a - b)
+          .map(([bucketStart, bucketRows]) => this.toPoint(bucketStart, bucketRows))
+      }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  private toPoint(bucketStart: number, rows: Pick<ScoreHistoryEntry, 'score' | 'scoreLower' | 'scoreUpper'>[]): ScoreHistoryPoint {
+    const scores = rows.map(row => row.score);
+    const lowers = rows.map(row => row.scoreLower).filter((v): v is number => typeof v === 'number');
+    const uppers = rows.map(row => row.scoreUpper).filter((v): v is number => typeof v === 'number');
+    const avgScore = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+
+    return {
+      bucketStart: new Date(bucketStart),
+      avgScore: Math.round(avgScore * 10) / 10,
+      minScore: Math.min(...scores),
+      maxScore: Math.max(...scores),
+      scoreLower: lowers.length > 0 ? Math.min(...lowers) : null,
+      scoreUpper: uppers.length > 0 ? Math.max(...uppers) : null,
+      label: avgScore >= 75 ? 'AVAILABLE' : avgScore >= 40 ? 'LIMITED' : 'UNAVAILABLE',
+      samples: rows.length
+    };
+  }
+}
+
+// 싱글톤 인스턴스
+export const capacityScoreHistoryService = new CapacityScoreHistoryService();
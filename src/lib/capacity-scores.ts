@@ -0,0 +1,124 @@
+// 프로바이더 공통 용량 스코어 조회 (CapacityScore 테이블, provider + region + instanceType 키)
+// 계산은 프로바이더별 엔진(azure-scoring / aws-scoring)이 하고, 여기서는 저장된 점수를 같은 형태로 돌려준다.
+import { generateDemoCapacityScores, isAzureCapacityDemo } from './azure-demo';
+import { CAPACITY_PROVIDERS, CapacityProvider } from './capacity-errors';
+import { prisma } from './prisma';
+
+export type CapacityLabel = 'AVAILABLE' | 'LIMITED' | 'UNAVAILABLE';
+
+export interface ProviderCapacityScore {
+  provider: CapacityProvider;
+  region: string;
+  instanceType: string;
+  score: number; // 0-100 점수
+  scoreLower: number | null; // 점수 신용구간 (구간을 계산하지 않는 프로바이더는 null)
+  scoreUpper: number | null;
+  label: CapacityLabel;
+  confidence: number; // 0-1 신뢰도
+  sampleCount: number;
+
+  // 프로바이더별 세부 지표 (해당 없으면 null)
+  successRate: number | null;
+  avgProvisionMs: number | null;
+  capacityErrorRate: number | null;
+  spotStress: number | null;
+  placementScore: number | null;
+  reservationRate: number | null;
+
+  calculatedAt: Date;
+  demo: boolean; // Azure 데모 모드에서 생성된 점수
+}
+
+export interface CapacityScoreQuery {
+  provider?: CapacityProvider | null;
+  region?: string | null;
+  instanceType?: string | null;
+  label?: string | null;
+  minScore?: number;
+  limit?: number;
+}
+
+export function capacityScoreKey(provider: string, region: string, instanceType: string): string {
+  return `${provider.toLowerCase()}|${region}|${instanceType}`;
+}
+
+export class CapacityScoreService {
+  /**
+   * 저장된 용량 스코어 조회 (점수 높은 순)
+   * Azure 데모 모드에서는 Azure 점수를 생성된 데모 점수로 대체 (/api/azure/capacity-scores와 동일)
+   */
+  async getStoredScores(query: CapacityScoreQuery = {}): Promise<ProviderCapacityScore[]> {
+    const { provider, region, instanceType, label, minScore = 0, limit = 50 } = query;
+    const demoAzure = isAzureCapacityDemo() && (!provider || provider === 'azure');
+
+    const rows = await prisma.capacityScore.findMany({
+      where: {
+        ...(provider ? { provider } : { provider: { in: CAPACITY_PROVIDERS } }),
+        ...(demoAzure && { NOT: { provider: 'azure' } }),
+        ...(region && { region }),
+        ...(instanceType && { instanceType }),
+        ...(label && { label }),
+        ...(minScore && { score: { gte: minScore } })
+      },
+      orderBy: [{ score: 'desc' }, { calculatedAt: 'desc' }],
+      take: limit
+    });
+
+    const scores: ProviderCapacityScore[] = rows.map(row => ({
+      provider: row.provider as CapacityProvider,
+      region: row.region,
+      instanceType: row.instanceType,
+      score: Math.round(row.score),
+      scoreLower: row.scoreLower,
+      scoreUpper: row.scoreUpper,
+      label: row.label as CapacityLabel,
+      confidence: row.confidence,
+      sampleCount: row.sampleCount,
+      successRate: row.successRate,
+      avgProvisionMs: row.avgProvisionMs,
+      capacityErrorRate: row.capacityErrorRate,
+      spotStress: row.spotStress,
+      placementScore: row.placementScore,
+      reservationRate: row.reservationRate,
+      calculatedAt: row.calculatedAt,
+      demo: false
+    }));
+
+    if (demoAzure) {
+      const demoScores = generateDemoCapacityScores({ region, vmSize: instanceType, minScore, label, limit });
+      scores.push(...demoScores.map(score => ({
+        provider: 'azure' as const,
+        region: score.region,
+        instanceType: score.vmSize,
+        score: score.score,
+        scoreLower: score.scoreLower,
+        scoreUpper: score.scoreUpper,
+        label: score.label,
+        confidence: score.confidence,
+        sampleCount: 0,
+        successRate: null,
+        avgProvisionMs: null,
+        capacityErrorRate: null,
+        spotStress: null,
+        placementScore: null,
+        reservationRate: null,
+        calculatedAt: score.calculatedAt,
+        demo: true
+      })));
+      scores.sort((a, b) => b.score - a.score);
+    }
+
+    return scores.slice(0, limit);
+  }
+
+  /**
+   * 전체 저장된 스코어를 capacityScoreKey(provider, region, instanceType)로 조회 (인스턴스 목록 뱃지 / 필터용)
+   */
+  async getScoreMap(): Promise<Map<string, ProviderCapacityScore>> {
+    const scores = await this.getStoredScores({ limit: 10000 });
+    return new Map(scores.map(score => [capacityScoreKey(score.provider, score.region, score.instanceType), score]));
+  }
+}
+
+// 싱글톤 인스턴스
+export const capacityScoreService = new CapacityScoreService();
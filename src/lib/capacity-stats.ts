@@ -0,0 +1,145 @@
+// 용량 스코어용 통계 함수 (시간 감쇠 가중치, Beta 사후분포 성공률 추정)
+// 표본 수가 적을수록 사전분포 쪽으로 당겨지고 신용구간이 넓어지므로
+// 2회 중 2회 성공과 200회 중 200회 성공을 구분할 수 있다.
+
+export interface BetaPrior {
+  alpha: number; // 사전 성공 수
+  beta: number; // 사전 실패 수
+}
+
+export interface SuccessRateEstimate {
+  mean: number; // 사후 평균 (0-1)
+  lower: number; // 신용구간 하한
+  upper: number; // 신용구간 상한
+  level: number; // 신용구간 수준 (예: 0.9)
+  effectiveSamples: number; // 감쇠 가중치를 반영한 표본 수
+}
+
+// 균등 사전분포 Beta(1, 1): 관측이 없으면 평균 0.5, 구간 [0.05, 0.95]
+export const UNIFORM_PRIOR: BetaPrior = { alpha: 1, beta: 1 };
+
+/**
+ * 지수 시간 감쇠 가중치 (halfLifeHours 전 관측은 0.5, 두 배 전은 0.25)
+ */
+export function decayWeight(timestamp: Date, now: number, halfLifeHours: number): number {
+  const ageHours = Math.max(0, now - timestamp.getTime()) / (60 * 60 * 1000);
+  return Math.pow(0.5, ageHours / halfLifeHours);
+}
+
+/**
+ * 가중 평균 (가중치 합이 0이면 0)
+ */
+export function weightedMean(values: number[], weights: number[]): number {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight === 0) return 0;
+  return values.reduce((sum, v, i) => sum + v * weights[i], 0) / totalWeight;
+}
+
+/**
+ * Beta 사후분포로 성공률 추정 (successes / failures는 감쇠 가중치 합이라 소수일 수 있음)
+ */
+export function estimateSuccessRate(
+  successes: number,
+  failures: number,
+  prior: BetaPrior = UNIFORM_PRIOR,
+  level: number = 0.9
+): SuccessRateEstimate {
+  const alpha = prior.alpha + successes;
+  const beta = prior.beta + failures;
+  const tail = (1 - level) / 2;
+
+  return {
+    mean: alpha / (alpha + beta),
+    lower: betaQuantile(tail, alpha, beta),
+    upper: betaQuantile(1 - tail, alpha, beta),
+    level,
+    effectiveSamples: successes + failures
+  };
+}
+
+/**
+ * Beta 분포 분위수 (정규화 불완전 베타 함수를 이분법으로 역산)
+ */
+export function betaQuantile(p: number, alpha: number, beta: number): number {
+  if (p <= 0) return 0;
+  if (p >= 1) return 1;
+
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (regularizedIncompleteBeta(mid, alpha, beta) < p) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * 정규화 불완전 베타 함수 I_x(a, b) = Beta(a, b) 누적분포
+ */
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+
+  // 연분수가 빨리 수렴하는 쪽으로 대칭 변환
+  if (x < (a + 1) / (a + b + 2)) {
+    return front * betaContinuedFraction(x, a, b) / a;
+  }
+  return 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+// 불완전 베타 함수 연분수 전개 (modified Lentz)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const TINY = 1e-30;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+
+    let numerator = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    result *= d * c;
+
+    numerator = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+
+  return result;
+}
+
+// 로그 감마 함수 (Lanczos 근사)
+function logGamma(z: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+  ];
+  const tmp = z + 5.5 - (z + 0.5) * Math.log(z + 5.5);
+  let series = 1.000000000190015;
+  coefficients.forEach((coefficient, i) => {
+    series += coefficient / (z + 1 + i);
+  });
+  return -tmp + Math.log(2.5066282746310005 * series / z);
+}
@@ -0,0 +1,97 @@
+// 5필드 cron 표현식 (분 시 일 월 요일, 서버 로컬 시간 기준)
+// 지원 문법: *, */n, a, a-b, a-b/n, 쉼표 목록. 요일은 0(일)~6(토), 7도 일요일로 허용.
+
+interface CronField {
+  values: Set<number>
+  wildcard: boolean
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // 분
+  [0, 23], // 시
+  [1, 31], // 일
+  [1, 12], // 월
+  [0, 7] // 요일
+]
+
+// 다음 실행 시각 탐색 상한 (1년)
+const MAX_LOOKAHEAD_MINUTES = 366 * 24 * 60
+
+export class CronExpression {
+  private readonly fields: CronField[]
+
+  constructor(readonly expression: string) {
+    const parts = expression.trim().split(/\s+/)
+    if (parts.length !== 5) {
+      throw new Error(`cron 표현식은 5개 필드가 필요합니다: "${expression}"`)
+    }
+    this.fields = parts.map((part, index) => parseField(part, FIELD_RANGES[index], expression))
+
+    // 요일 7 → 0 (일요일)
+    const dow = this.fields[4].values
+    if (dow.delete(7)) dow.add(0)
+  }
+
+  /**
+   * 주어진 시각(분 단위)이 표현식과 일치하는지
+   */
+  matches(date: Date): boolean {
+    const [minute, hour, dom, month, dow] = this.fields
+    if (!minute.values.has(date.getMinutes())) return false
+    if (!hour.values.has(date.getHours())) return false
+    if (!month.values.has(date.getMonth() + 1)) return false
+
+    // 일/요일이 모두 제한된 경우 둘 중 하나만 맞으면 실행 (표준 cron 동작)
+    const domMatch = dom.values.has(date.getDate())
+    const dowMatch = dow.values.has(date.getDay())
+    if (!dom.wildcard && !dow.wildcard) return domMatch || dowMatch
+    return domMatch && dowMatch
+  }
+
+  /**
+   * after 이후(미포함) 첫 실행 시각
+   */
+  nextRun(after: Date = new Date()): Date | null {
+    const candidate = floorToMinute(after)
+    for (let i = 0; i < MAX_LOOKAHEAD_MINUTES; i++) {
+      candidate.setMinutes(candidate.getMinutes() + 1)
+      if (this.matches(candidate)) return new Date(candidate)
+    }
+    return null
+  }
+}
+
+/**
+ * 분 단위로 내림한 시각 (cron 슬롯 식별자)
+ */
+export function floorToMinute(date: Date): Date {
+  const floored = new Date(date)
+  floored.setSeconds(0, 0)
+  return floored
+}
+
+function parseField(part: string, [min, max]: [number, number], expression: string): CronField {
+  const values = new Set<number>()
+  const invalid = () => new Error(`잘못된 cron 필드 "${part}": "${expression}"`)
+
+  for (const item of part.split(',')) {
+    const [rangePart, stepPart] = item.split('/')
+    const step = stepPart === undefined ? 1 : Number(stepPart)
+    if (!Number.isInteger(step) || step < 1) throw invalid()
+
+    let start = min
+    let end = max
+    if (rangePart !== '*') {
+      const [from, to] = rangePart.split('-').map(Number)
+      start = from
+      end = to === undefined ? (stepPart === undefined ? from : max) : to
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw invalid()
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value)
+  }
+
+  return { values, wildcard: part === '*' }
+}
@@ -0,0 +1,51 @@
+// 통화 코드 / 가격 포맷 유틸리티 (서버 · 클라이언트 공용, DB 의존성 없음)
+// 가격 데이터는 모두 USD로 저장되고, 화면에서 선택한 통화로 환산해 표시한다.
+
+// 기준 통화 (가격 데이터 / 환율 테이블의 기준)
+export const BASE_CURRENCY = 'USD'
+
+// 통화 선택기에 노출하는 통화 (환율 API는 그 외 ISO-4217 코드도 지원)
+export const COMMON_CURRENCIES = [
+  { code: 'USD', label: 'USD ($)' },
+  { code: 'KRW', label: 'KRW (₩)' },
+  { code: 'JPY', label: 'JPY (¥)' },
+  { code: 'EUR', label: 'EUR (€)' },
+  { code: 'GBP', label: 'GBP (£)' },
+  { code: 'CNY', label: 'CNY (CN¥)' },
+  { code: 'SGD', label: 'SGD (S$)' }
+]
+
+/**
+ * ISO-4217 형식(대문자 3자리) 통화 코드인지 확인
+ */
+export const isCurrencyCode = (code: string): boolean => /^[A-Z]{3}$/.test(code)
+
+// 소수점이 없는 통화 (KRW, JPY 등)는 반올림, 그 외는 시간당 단가 구분을 위해 소수 3자리
+const fractionDigits = (currency: string): number => {
+  try {
+    const digits = new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits
+    return digits === 0 ? 0 : 3
+  } catch {
+    return 3
+  }
+}
+
+// 유틸리티 함수들
+export const formatPrice = (amount: number, currency: string = BASE_CURRENCY): string => {
+  const digits = fractionDigits(currency)
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      currencyDisplay: 'narrowSymbol',
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits
+    }).format(amount)
+  } catch {
+    return `${amount.toFixed(digits)} ${currency}`
+  }
+}
+
+export const formatPriceWithCurrency = (amount: number, currency: string = BASE_CURRENCY): string => {
+  return `${formatPrice(amount, currency)} ${currency}`
+}
@@ -1,10 +1,55 @@
 // 환율 변환 서비스
-interface ExchangeRateData {
+// USD 기준 환율표 하나를 받아 캐시하고, 임의의 ISO-4217 통화 쌍은 교차 환율(rates[to] / rates[from])로 계산한다.
+// 하루 한 번 환율표를 ExchangeRate 테이블에 스냅샷으로 저장하고, 환율 API가 모두 실패하면 마지막 저장 환율을 사용한다.
+import { BASE_CURRENCY, isCurrencyCode } from './currency'
+import { prisma } from './prisma'
+
+export { BASE_CURRENCY, COMMON_CURRENCIES, isCurrencyCode, formatPrice, formatPriceWithCurrency } from './currency'
+
+export interface ExchangeRateTable {
+  base: string // 항상 USD
+  rates: Record<string, number> // 1 USD 당 통화 금액
+  lastUpdated: string
+  source: string // exchangerate-api, fixer, currencyapi, persisted
+  rateDate: string // 환율 기준일 (YYYY-MM-DD, UTC)
+}
+
+export interface ExchangeRateData {
   baseCurrency: string
   targetCurrency: string
   rate: number
   lastUpdated: string
   source: string
+  rateDate: string
+}
+
+// 과거 시점 환율 (as-of) 조회 방식
+// exact: 해당 날짜 스냅샷 / prior: 가장 가까운 이전 스냅샷 / interpolated: 앞뒤 스냅샷 선형 보간
+// next: 이전 스냅샷이 없어 가장 이른 이후 스냅샷 / current: 오늘 이후 날짜 또는 저장된 스냅샷 없음 → 현재 환율
+export type AsOfMethod = 'exact' | 'prior' | 'interpolated' | 'next' | 'current'
+
+export interface AsOfOptions {
+  interpolate?: boolean // 앞뒤 스냅샷이 모두 있으면 선형 보간 (기본: 가장 가까운 이전 날짜)
+}
+
+export interface AsOfExchangeRate {
+  date: string // 요청 시점 (ISO)
+  rate: number // 1 from 당 to 금액
+  rateDate: string // 사용한 스냅샷 기준일 (보간이면 이전 스냅샷 날짜)
+  method: AsOfMethod
+  source: string | null
+}
+
+interface RateSnapshot {
+  time: number // 기준일 UTC 자정 (ms)
+  rate: number
+  source: string | null
+}
+
+export interface ExchangeRateHistoryPoint {
+  rateDate: string
+  rate: number
+  source: string | null
 }
 
 interface ExchangeRateResponse {
@@ -15,71 +60,319 @@ interface ExchangeRateResponse {
   error?: string
 }
 
+interface FetchedRates {
+  rates: Record<string, number>
+  source: string
+}
+
 export class ExchangeRateService {
-  private cache: Map<string, ExchangeRateData> = new Map()
-  private cacheExpiry: Map<string, number> = new Map()
+  private table: ExchangeRateTable | null = null
+  private tableExpiry = 0
+  private lastSnapshotDate: string | null = null
   private readonly CACHE_DURATION = 60 * 60 * 1000 // 1시간
+  private readonly FALLBACK_CACHE_DURATION = 5 * 60 * 1000 // 저장 환율 사용 시 5분 뒤 API 재시도
 
   /**
-   * USD에서 KRW로 환율 변환
+   * USD 기준 환율표 조회 (캐시 → 환율 API → 마지막 저장 환율 순)
    */
-  async getUSDToKRW(): Promise<number> {
-    const cacheKey = 'USD_KRW'
-    const cached = this.getCachedRate(cacheKey)
-    
-    if (cached) {
-      return cached.rate
+  async getRateTable(): Promise<ExchangeRateTable> {
+    if (this.table && Date.now() < this.tableExpiry) {
+      return this.table
     }
 
     try {
       // 여러 환율 API를 시도 (fallback 방식)
-      const rate = await this.fetchExchangeRateWithFallback()
-      
-      // 캐시에 저장
-      this.setCachedRate(cacheKey, {
-        baseCurrency: 'USD',
-        targetCurrency: 'KRW',
-        rate,
-        lastUpdated: new Date().toISOString(),
-        source: 'api'
-      })
+      const fetched = await this.fetchExchangeRatesWithFallback()
+      const table = this.setCachedTable(fetched.rates, fetched.source, this.CACHE_DURATION)
 
-      return rate
+      // 오늘 스냅샷이 아직 없으면 저장 (저장 실패가 조회를 막지는 않음)
+      if (this.lastSnapshotDate !== table.rateDate) {
+        await this.saveSnapshot(table).catch(error => console.error('Failed to persist exchange rates:', error))
+      }
+
+      return table
     } catch (error) {
-      console.error('Failed to fetch exchange rate:', error)
-      
-      // API 실패 시 기본 환율 사용 (대략적인 값)
-      const fallbackRate = 1300
-      console.log(`Using fallback exchange rate: ${fallbackRate} KRW per USD`)
-      
-      this.setCachedRate(cacheKey, {
-        baseCurrency: 'USD',
-        targetCurrency: 'KRW',
-        rate: fallbackRate,
-        lastUpdated: new Date().toISOString(),
-        source: 'fallback'
+      console.error('Failed to fetch exchange rates:', error)
+
+      // API 실패 시 마지막으로 저장된 환율 사용
+      const persisted = await this.loadPersistedRates()
+      if (!persisted) {
+        throw new Error('환율 정보를 가져올 수 없습니다 (환율 API 실패, 저장된 환율 없음)')
+      }
+
+      console.log(`Using persisted exchange rates from ${persisted.rateDate}`)
+      return this.setCachedTable(persisted.rates, 'persisted', this.FALLBACK_CACHE_DURATION, persisted.rateDate)
+    }
+  }
+
+  /**
+   * from → to 환율 (1 from 당 to 금액, 교차 환율)
+   */
+  async getRate(from: string, to: string): Promise<ExchangeRateData> {
+    const table = await this.getRateTable()
+    const fromRate = this.rateOf(table, from)
+    const toRate = this.rateOf(table, to)
+
+    return {
+      baseCurrency: from,
+      targetCurrency: to,
+      rate: toRate / fromRate,
+      lastUpdated: table.lastUpdated,
+      source: table.source,
+      rateDate: table.rateDate
+    }
+  }
+
+  /**
+   * 금액을 from 통화에서 to 통화로 변환
+   */
+  async convert(amount: number, from: string, to: string): Promise<number> {
+    const { rate } = await this.getRate(from, to)
+    return amount * rate
+  }
+
+  /**
+   * 오늘 환율 스냅샷 저장 (fx_sync 잡에서 호출, 캐시를 무시하고 API에서 새로 받음)
+   */
+  async snapshotDailyRates(): Promise<{ rateDate: string; source: string; currencies: number }> {
+    const fetched = await this.fetchExchangeRatesWithFallback()
+    const table = this.setCachedTable(fetched.rates, fetched.source, this.CACHE_DURATION)
+    const currencies = await this.saveSnapshot(table)
+    return { rateDate: table.rateDate, source: table.source, currencies }
+  }
+
+  /**
+   * 특정 시점에 유효했던 from → to 환율 (가격의 effectiveDate 기준 환산용)
+   */
+  async getRateAsOf(from: string, to: string, date: Date, options: AsOfOptions = {}): Promise<AsOfExchangeRate> {
+    const [rate] = await this.getRatesAsOf(from, to, [date], options)
+    return rate
+  }
+
+  /**
+   * 여러 시점의 from → to 환율 일괄 조회 (스냅샷은 통화별로 한 번만 읽음)
+   * 오늘 이후 시점은 현재 환율을 쓰고, 과거 시점은 USD 기준 스냅샷을 통화별로 찾아 교차 환율을 계산한다.
+   */
+  async getRatesAsOf(from: string, to: string, dates: Date[], options: AsOfOptions = {}): Promise<AsOfExchangeRate[]> {
+    if (dates.length === 0) return []
+    if (from === to) {
+      return dates.map(date => ({ date: date.toISOString(), rate: 1, rateDate: formatRateDate(date), method: 'exact', source: null }))
+    }
+
+    const today = toRateDate(new Date()).getTime()
+    const pastTimes = dates.map(date => toRateDate(date).getTime()).filter(time => time < today)
+    const series = pastTimes.length > 0 ?
+      await this.loadSnapshotSeries([from, to], new Date(Math.max(...pastTimes))) :
+      new Map<string, RateSnapshot[]>()
+
+    // 저장된 스냅샷이 없는 통화가 있으면 과거 시점도 현재 환율로
+    const hasSnapshots = [from, to].every(code => code === BASE_CURRENCY || (series.get(code)?.length ?? 0) > 0)
+    const current = pastTimes.length < dates.length || !hasSnapshots ? await this.getRate(from, to) : null
+
+    return dates.map(date => {
+      const time = toRateDate(date).getTime()
+      if (current && (time >= today || !hasSnapshots)) {
+        return {
+          date: date.toISOString(),
+          rate: current.rate,
+          rateDate: current.rateDate,
+          method: 'current',
+          source: current.source
+        }
+      }
+
+      const fromRate = lookupSnapshot(series.get(from), time, options)
+      const toRate = lookupSnapshot(series.get(to), time, options)
+      const method = [fromRate.method, toRate.method].sort((a, b) => AS_OF_PRECISION.indexOf(b) - AS_OF_PRECISION.indexOf(a))[0]
+
+      return {
+        date: date.toISOString(),
+        rate: toRate.rate / fromRate.rate,
+        rateDate: formatRateDate(new Date(Math.min(fromRate.time, toRate.time))),
+        method,
+        source: toRate.source || fromRate.source
+      }
+    })
+  }
+
+  /**
+   * 통화 / 시점이 제각각인 금액들의 to 통화 환산 환율 (입력 순서대로, 통화별로 묶어 조회)
+   */
+  async getConversionRates(entries: { currency: string; date: Date }[], to: string, options: AsOfOptions = {}): Promise<AsOfExchangeRate[]> {
+    const results: AsOfExchangeRate[] = new Array(entries.length)
+    const byCurrency = new Map<string, number[]>()
+    entries.forEach((entry, index) => {
+      byCurrency.set(entry.currency, [...(byCurrency.get(entry.currency) || []), index])
+    })
+
+    for (const [currency, indexes] of byCurrency) {
+      const rates = await this.getRatesAsOf(currency, to, indexes.map(index => entries[index].date), options)
+      indexes.forEach((index, i) => { results[index] = rates[i] })
+    }
+
+    return results
+  }
+
+  /**
+   * 저장된 일별 스냅샷으로 from → to 환율 이력 조회 (교차 환율, 최근 days일)
+   */
+  async getRateHistory(from: string, to: string, days: number = 30): Promise<ExchangeRateHistoryPoint[]> {
+    const since = new Date(toRateDate(new Date()).getTime() - days * 24 * 60 * 60 * 1000)
+    const currencies = [from, to].filter(code => code !== BASE_CURRENCY)
+
+    const rows = await prisma.exchangeRate.findMany({
+      where: {
+        baseCurrency: BASE_CURRENCY,
+        targetCurrency: { in: currencies },
+        rateDate: { gte: since }
+      },
+      orderBy: { rateDate: 'asc' }
+    })
+
+    const byDate = new Map<string, { rates: Record<string, number>; source: string | null }>()
+    for (const row of rows) {
+      const date = formatRateDate(row.rateDate)
+      const entry = byDate.get(date) || { rates: { [BASE_CURRENCY]: 1 }, source: row.source }
+      entry.rates[row.targetCurrency] = row.rate
+      byDate.set(date, entry)
+    }
+
+    return Array.from(byDate.entries())
+      .filter(([, entry]) => entry.rates[from] && entry.rates[to])
+      .map(([rateDate, entry]) => ({
+        rateDate,
+        rate: entry.rates[to] / entry.rates[from],
+        source: entry.source
+      }))
+  }
+
+  /**
+   * 현재 캐시된 환율표 정보 조회
+   */
+  getCachedRateInfo(): ExchangeRateTable | null {
+    return this.table && Date.now() < this.tableExpiry ? this.table : null
+  }
+
+  /**
+   * 캐시 초기화
+   */
+  clearCache(): void {
+    this.table = null
+    this.tableExpiry = 0
+  }
+
+  /**
+   * 통화별 USD 기준 스냅샷 (기준일 오름차순, until 다음 스냅샷 하나까지 포함해 보간에 사용)
+   */
+  private async loadSnapshotSeries(currencies: string[], until: Date): Promise<Map<string, RateSnapshot[]>> {
+    const targets = Array.from(new Set(currencies.filter(code => code !== BASE_CURRENCY)))
+    const series = new Map<string, RateSnapshot[]>()
+
+    for (const targetCurrency of targets) {
+      const [rows, next] = await Promise.all([
+        prisma.exchangeRate.findMany({
+          where: { baseCurrency: BASE_CURRENCY, targetCurrency, rateDate: { lte: until } },
+          orderBy: { rateDate: 'asc' }
+        }),
+        prisma.exchangeRate.findFirst({
+          where: { baseCurrency: BASE_CURRENCY, targetCurrency, rateDate: { gt: until } },
+          orderBy: { rateDate: 'asc' }
+        })
+      ])
+
+      series.set(targetCurrency, [...rows, ...(next ? [next] : [])].map(row => ({
+        time: row.rateDate.getTime(),
+        rate: row.rate,
+        source: row.source
+      })))
+    }
+
+    return series
+  }
+
+  private rateOf(table: ExchangeRateTable, currency: string): number {
+    const rate = currency === table.base ? 1 : table.rates[currency]
+    if (!rate || rate <= 0) {
+      throw new Error(`지원하지 않는 통화입니다: ${currency}`)
+    }
+    return rate
+  }
+
+  private setCachedTable(rates: Record<string, number>, source: string, duration: number, rateDate?: string): ExchangeRateTable {
+    this.table = {
+      base: BASE_CURRENCY,
+      rates: { ...rates, [BASE_CURRENCY]: 1 },
+      lastUpdated: new Date().toISOString(),
+      source,
+      rateDate: rateDate || formatRateDate(new Date())
+    }
+    this.tableExpiry = Date.now() + duration
+    return this.table
+  }
+
+  /**
+   * 환율표를 ExchangeRate 테이블에 기준일 단위로 저장 (같은 날은 덮어씀)
+   */
+  private async saveSnapshot(table: ExchangeRateTable): Promise<number> {
+    const rateDate = new Date(`${table.rateDate}T00:00:00.000Z`)
+    const entries = Object.entries(table.rates).filter(([code, rate]) => code !== BASE_CURRENCY && rate > 0)
+
+    for (const [targetCurrency, rate] of entries) {
+      await prisma.exchangeRate.upsert({
+        where: {
+          baseCurrency_targetCurrency_rateDate: { baseCurrency: BASE_CURRENCY, targetCurrency, rateDate }
+        },
+        update: { rate, source: table.source },
+        create: { baseCurrency: BASE_CURRENCY, targetCurrency, rate, rateDate, source: table.source }
       })
+    }
 
-      return fallbackRate
+    this.lastSnapshotDate = table.rateDate
+    return entries.length
+  }
+
+  /**
+   * 통화별 마지막 저장 환율 (저장된 스냅샷이 없으면 null)
+   */
+  private async loadPersistedRates(): Promise<{ rates: Record<string, number>; rateDate: string } | null> {
+    try {
+      const rows = await prisma.exchangeRate.findMany({
+        where: { baseCurrency: BASE_CURRENCY },
+        orderBy: { rateDate: 'desc' },
+        take: 2000
+      })
+      if (rows.length === 0) return null
+
+      const rates: Record<string, number> = {}
+      for (const row of rows) {
+        if (!(row.targetCurrency in rates)) {
+          rates[row.targetCurrency] = row.rate
+        }
+      }
+
+      return { rates, rateDate: formatRateDate(rows[0].rateDate) }
+    } catch (error) {
+      console.error('Failed to load persisted exchange rates:', error)
+      return null
     }
   }
 
   /**
-   * 여러 환율 API를 시도하여 환율 가져오기
+   * 여러 환율 API를 시도하여 USD 기준 환율표 가져오기
    */
-  private async fetchExchangeRateWithFallback(): Promise<number> {
+  private async fetchExchangeRatesWithFallback(): Promise<FetchedRates> {
     const apis = [
-      this.fetchFromExchangeRateAPI,
-      this.fetchFromFixerIO,
-      this.fetchFromCurrencyAPI
+      () => this.fetchFromExchangeRateAPI(),
+      () => this.fetchFromFixerIO(),
+      () => this.fetchFromCurrencyAPI()
     ]
 
     for (const api of apis) {
       try {
-        const rate = await api()
-        if (rate > 0) {
-          console.log(`Successfully fetched exchange rate: ${rate} KRW per USD`)
-          return rate
+        const fetched = await api()
+        if (Object.keys(fetched.rates).length > 0) {
+          console.log(`Successfully fetched ${Object.keys(fetched.rates).length} exchange rates from ${fetched.source}`)
+          return fetched
         }
       } catch (error) {
         console.warn(`Exchange rate API failed:`, error)
@@ -93,7 +386,7 @@ export class ExchangeRateService {
   /**
    * ExchangeRate-API.com 사용 (무료, 인증 불필요)
    */
-  private async fetchFromExchangeRateAPI(): Promise<number> {
+  private async fetchFromExchangeRateAPI(): Promise<FetchedRates> {
     const response = await fetch('https://api.exchangerate-api.com/v4/latest/USD', {
       method: 'GET',
       headers: {
@@ -106,29 +399,24 @@ export class ExchangeRateService {
     }
 
     const data: ExchangeRateResponse = await response.json()
-    
+
     if (!data.success && !data.rates) {
       throw new Error('Invalid response from ExchangeRate-API')
     }
 
-    const krwRate = data.rates?.['KRW']
-    if (!krwRate || krwRate <= 0) {
-      throw new Error('Invalid KRW rate from ExchangeRate-API')
-    }
-
-    return krwRate
+    return { rates: validRates(data.rates), source: 'exchangerate-api' }
   }
 
   /**
    * Fixer.io 사용 (API 키 필요하지만 더 정확)
    */
-  private async fetchFromFixerIO(): Promise<number> {
+  private async fetchFromFixerIO(): Promise<FetchedRates> {
     const apiKey = process.env.FIXER_API_KEY
     if (!apiKey) {
       throw new Error('Fixer.io API key not configured')
     }
 
-    const response = await fetch(`http://data.fixer.io/api/latest?access_key=${apiKey}&base=USD&symbols=KRW`, {
+    const response = await fetch(`http://data.fixer.io/api/latest?access_key=${apiKey}&base=USD`, {
       method: 'GET'
     })
 
@@ -137,24 +425,19 @@ export class ExchangeRateService {
     }
 
     const data: ExchangeRateResponse = await response.json()
-    
+
     if (!data.success) {
       throw new Error(`Fixer.io error: ${data.error}`)
     }
 
-    const krwRate = data.rates?.['KRW']
-    if (!krwRate || krwRate <= 0) {
-      throw new Error('Invalid KRW rate from Fixer.io')
-    }
-
-    return krwRate
+    return { rates: validRates(data.rates), source: 'fixer' }
   }
 
   /**
    * CurrencyAPI.com 사용 (무료, 제한적)
    */
-  private async fetchFromCurrencyAPI(): Promise<number> {
-    const response = await fetch('https://api.currencyapi.com/v3/latest?apikey=free&currencies=KRW&base_currency=USD', {
+  private async fetchFromCurrencyAPI(): Promise<FetchedRates> {
+    const response = await fetch('https://api.currencyapi.com/v3/latest?apikey=free&base_currency=USD', {
       method: 'GET'
     })
 
@@ -163,111 +446,74 @@ export class ExchangeRateService {
     }
 
     const data = await response.json()
-    
-    if (!data.data || !data.data.KRW) {
+
+    if (!data.data) {
       throw new Error('Invalid response from CurrencyAPI')
     }
 
-    const krwRate = data.data.KRW.value
-    if (!krwRate || krwRate <= 0) {
-      throw new Error('Invalid KRW rate from CurrencyAPI')
+    const rates: Record<string, number> = {}
+    for (const [code, entry] of Object.entries(data.data as Record<string, { value?: number }>)) {
+      if (typeof entry.value === 'number') {
+        rates[code] = entry.value
+      }
     }
 
-    return krwRate
+    return { rates: validRates(rates), source: 'currencyapi' }
   }
+}
 
-  /**
-   * 캐시된 환율 조회
-   */
-  private getCachedRate(cacheKey: string): ExchangeRateData | null {
-    const expiry = this.cacheExpiry.get(cacheKey)
-    if (!expiry || Date.now() > expiry) {
-      this.cache.delete(cacheKey)
-      this.cacheExpiry.delete(cacheKey)
-      return null
+// as-of 조회 방식 정밀도 (통화 쌍의 두 통화 중 덜 정밀한 쪽을 결과로 표시)
+const AS_OF_PRECISION: AsOfMethod[] = ['exact', 'interpolated', 'prior', 'next', 'current']
+
+/**
+ * 기준일 time에 유효한 스냅샷 (series 없음 = USD 자신, 환율 1이고 기준일 계산에서 제외)
+ */
+function lookupSnapshot(series: RateSnapshot[] | undefined, time: number, options: AsOfOptions): RateSnapshot & { method: AsOfMethod } {
+  if (!series) return { time: Number.POSITIVE_INFINITY, rate: 1, source: null, method: 'exact' }
+
+  // 기준일 이하 마지막 스냅샷 (이분 탐색)
+  let low = 0
+  let high = series.length - 1
+  let priorIndex = -1
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (series[mid].time <= time) {
+      priorIndex = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
     }
-
-    return this.cache.get(cacheKey) || null
   }
 
-  /**
-   * 환율을 캐시에 저장
-   */
-  private setCachedRate(cacheKey: string, rateData: ExchangeRateData): void {
-    this.cache.set(cacheKey, rateData)
-    this.cacheExpiry.set(cacheKey, Date.now() + this.CACHE_DURATION)
-  }
+  if (priorIndex === -1) return { ...series[0], method: 'next' }
 
-  /**
-   * 가격을 USD에서 KRW로 변환
-   */
-  async convertUSDToKRW(usdAmount: number): Promise<number> {
-    const rate = await this.getUSDToKRW()
-    return usdAmount * rate
-  }
-
-  /**
-   * 가격을 KRW에서 USD로 변환
-   */
-  async convertKRWToUSD(krwAmount: number): Promise<number> {
-    const rate = await this.getUSDToKRW()
-    return krwAmount / rate
-  }
-
-  /**
-   * 현재 캐시된 환율 정보 조회
-   */
-  getCachedRateInfo(): ExchangeRateData | null {
-    return this.getCachedRate('USD_KRW')
-  }
+  const prior = series[priorIndex]
+  if (prior.time === time) return { ...prior, method: 'exact' }
 
-  /**
-   * 캐시 초기화
-   */
-  clearCache(): void {
-    this.cache.clear()
-    this.cacheExpiry.clear()
+  const next = series[priorIndex + 1]
+  if (options.interpolate && next) {
+    const ratio = (time - prior.time) / (next.time - prior.time)
+    return { ...prior, rate: prior.rate + (next.rate - prior.rate) * ratio, method: 'interpolated' }
   }
 
-  /**
-   * 환율 히스토리 (간단한 메모리 기반)
-   */
-  private rateHistory: Array<{ rate: number; timestamp: string; source: string }> = []
+  return { ...prior, method: 'prior' }
+}
 
-  addToHistory(rate: number, source: string): void {
-    this.rateHistory.push({
-      rate,
-      timestamp: new Date().toISOString(),
-      source
-    })
+// 양수 환율만 남김 (ISO-4217 형식이 아닌 코드 제외)
+function validRates(rates: Record<string, number> | undefined): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(rates || {}).filter(([code, rate]) => isCurrencyCode(code) && typeof rate === 'number' && rate > 0)
+  )
+}
 
-    // 최근 100개만 유지
-    if (this.rateHistory.length > 100) {
-      this.rateHistory = this.rateHistory.slice(-100)
-    }
-  }
+// 환율 기준일 (UTC 자정)
+function toRateDate(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
 
-  getRateHistory(): Array<{ rate: number; timestamp: string; source: string }> {
-    return [...this.rateHistory]
-  }
+function formatRateDate(date: Date): string {
+  return toRateDate(date).toISOString().slice(0, 10)
 }
 
 // 싱글톤 인스턴스
 export const exchangeRateService = new ExchangeRateService()
-
-// 유틸리티 함수들
-export const formatPrice = (amount: number, currency: 'USD' | 'KRW'): string => {
-  if (currency === 'USD') {
-    return `$${amount.toFixed(3)}`
-  } else {
-    return `₩${Math.round(amount).toLocaleString()}`
-  }
-}
-
-export const formatPriceWithCurrency = (amount: number, currency: 'USD' | 'KRW'): string => {
-  if (currency === 'USD') {
-    return `$${amount.toFixed(3)} USD`
-  } else {
-    return `₩${Math.round(amount).toLocaleString()} KRW`
-  }
-}
\ No newline at end of file
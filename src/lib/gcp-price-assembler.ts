@@ -0,0 +1,122 @@
+// GCP 머신 타입 가격 조합기
+// GCP는 A2/A3/G2 머신을 vCPU, RAM, GPU SKU로 나눠 과금하므로
+// 리전/구매 옵션별 컴포넌트 단가를 모아 머신 타입의 시간당 가격을 계산한다.
+import { PurchaseOption } from './purchase-options'
+
+export type GCPComponentKind = 'core' | 'ram' | 'gpu'
+
+export type GCPPurchaseOption = Extract<PurchaseOption, 'on_demand' | 'spot' | 'reserved_1yr' | 'reserved_3yr'>
+
+// 카탈로그 SKU 한 건을 정규화한 컴포넌트 단가
+export interface GCPComponentPrice {
+  skuId: string
+  description: string
+  kind: GCPComponentKind
+  series?: string // core/ram: A2, A3, G2
+  gpuModel?: string // gpu: H100, A100, A100 80GB, L4
+  purchaseOption: GCPPurchaseOption
+  region: string
+  unitPrice: number // core/gpu: 시간당, ram: GiB·시간당
+  currency: string
+}
+
+export interface GCPMachineSpec {
+  machineType: string
+  series: string
+  gpuModel: string
+  gpuCount: number
+  vcpu: number
+  memory: number // GiB
+}
+
+export interface AssembledMachinePrice {
+  machineType: string
+  region: string
+  purchaseOption: GCPPurchaseOption
+  pricePerHour: number
+  currency: string
+  components: Array<{
+    skuId: string
+    description: string
+    kind: GCPComponentKind
+    unitPrice: number
+    quantity: number
+  }>
+}
+
+export class GCPPriceAssembler {
+  // `${region}|${purchaseOption}|${componentKey}` → 단가
+  private readonly components = new Map<string, GCPComponentPrice>()
+
+  constructor(components: GCPComponentPrice[] = []) {
+    components.forEach(component => this.add(component))
+  }
+
+  /**
+   * 컴포넌트 단가 등록 (같은 키가 있으면 낮은 단가 유지)
+   */
+  add(component: GCPComponentPrice): void {
+    const key = this.key(component.region, component.purchaseOption, this.componentKey(component))
+    const existing = this.components.get(key)
+
+    if (!existing || existing.unitPrice > component.unitPrice) {
+      this.components.set(key, component)
+    }
+  }
+
+  /**
+   * 등록된 컴포넌트가 있는 리전 목록
+   */
+  getRegions(): string[] {
+    return Array.from(new Set(Array.from(this.components.values()).map(c => c.region))).sort()
+  }
+
+  /**
+   * 머신 타입의 리전/구매 옵션별 시간당 가격 (컴포넌트 중 하나라도 없으면 null)
+   */
+  assemble(spec: GCPMachineSpec, region: string, purchaseOption: GCPPurchaseOption): AssembledMachinePrice | null {
+    const parts: Array<{ kind: GCPComponentKind; componentKey: string; quantity: number }> = [
+      { kind: 'core', componentKey: `core:${spec.series}`, quantity: spec.vcpu },
+      { kind: 'ram', componentKey: `ram:${spec.series}`, quantity: spec.memory },
+      { kind: 'gpu', componentKey: `gpu:${spec.gpuModel}`, quantity: spec.gpuCount }
+    ]
+
+    const components: AssembledMachinePrice['components'] = []
+    let pricePerHour = 0
+    let currency = 'USD'
+
+    for (const part of parts) {
+      const component = this.components.get(this.key(region, purchaseOption, part.componentKey))
+      if (!component) {
+        return null
+      }
+
+      pricePerHour += component.unitPrice * part.quantity
+      currency = component.currency
+      components.push({
+        skuId: component.skuId,
+        description: component.description,
+        kind: part.kind,
+        unitPrice: component.unitPrice,
+        quantity: part.quantity
+      })
+    }
+
+    return {
+      machineType: spec.machineType,
+      region,
+      purchaseOption,
+      pricePerHour,
+      currency,
+      components
+    }
+  }
+
+  private componentKey(component: GCPComponentPrice): string {
+    return component.kind === 'gpu' ? `gpu:${component.gpuModel}` : `${component.kind}:${component.series}`
+  }
+
+  private key(region: string, purchaseOption: GCPPurchaseOption, componentKey: string): string {
+    return `${region}|${purchaseOption}|${componentKey}`
+  }
+}
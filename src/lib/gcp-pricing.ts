@@ -1,143 +1,200 @@
-// GCP Cloud Billing API 서비스 (Public API 사용)
+// GCP Cloud Billing Catalog API 서비스
 // GCP Cloud Billing API: https://cloud.google.com/billing/docs/reference/rest
+// Compute Engine SKU(vCPU / RAM / GPU)를 수집해 GCPPriceAssembler로 머신 타입 가격을 조합한다.
+import fs from 'fs/promises'
+import {
+  AssembledMachinePrice,
+  GCPComponentKind,
+  GCPComponentPrice,
+  GCPMachineSpec,
+  GCPPriceAssembler,
+  GCPPurchaseOption
+} from './gcp-price-assembler'
+import { FetchOffersOptions, InstanceOffer, ProviderPricingAdapter, ProviderPricingResponse } from './provider-pricing'
 
 interface GCPGPUInstance {
   machineType: string
-  zone: string
   region: string
-  skuId: string
+  skuId: string // 컴포넌트 SKU ID 조합 (core+ram+gpu)
   skuDescription: string
   pricePerHour: number
+  purchaseOption: GCPPurchaseOption
   currency: string
   effectiveDate: string
   gpuModel: string
   gpuCount: number
   vcpu: number
   memory: number
+  components: AssembledMachinePrice['components']
 }
 
 interface GCPPricingResponse {
   success: boolean
   error?: string
   message?: string
-  data: {
+  data?: {
     instances: GCPGPUInstance[]
     totalCount: number
     fetchedAt: string
     currency: string
     regions: string[]
     gpuModels: string[]
+    skusFetched: number
+    source: 'api' | 'fixture'
     dryRun?: boolean
   }
 }
 
-// GCP GPU 머신 타입 매핑
-const GCP_GPU_MACHINE_TYPES: Record<string, any> = {
+export interface GCPPricingServiceOptions {
+  apiKey?: string
+  fixtureFile?: string // 저장된 services.skus.list 응답 ({ skus: [...] })
+  maxPages?: number
+}
+
+// Cloud Billing Catalog SKU (services.skus.list 응답 항목)
+interface GCPCatalogSku {
+  skuId: string
+  description: string
+  category?: {
+    resourceFamily?: string
+    resourceGroup?: string
+    usageType?: string // OnDemand, Preemptible, Commit1Yr, Commit3Yr
+  }
+  serviceRegions?: string[]
+  pricingInfo?: Array<{
+    pricingExpression?: {
+      usageUnit?: string
+      tieredRates?: Array<{
+        startUsageAmount?: number
+        unitPrice?: { currencyCode?: string; units?: string; nanos?: number }
+      }>
+    }
+  }>
+}
+
+interface GCPCatalogPage {
+  skus?: GCPCatalogSku[]
+  nextPageToken?: string
+}
+
+// Compute Engine 서비스 ID
+const COMPUTE_ENGINE_SERVICE_ID = '6F81-5844-456A'
+
+// GCP GPU 머신 타입 (시리즈별로 vCPU/RAM/GPU SKU를 조합)
+const GCP_GPU_MACHINE_TYPES: Record<string, Omit<GCPMachineSpec, 'machineType'>> = {
   // A3 Series - H100
-  'a3-highgpu-8g': { gpuModel: 'H100', gpuCount: 8, vcpu: 208, memory: 1400 },
-  'a3-highgpu-4g': { gpuModel: 'H100', gpuCount: 4, vcpu: 104, memory: 700 },
-  'a3-highgpu-2g': { gpuModel: 'H100', gpuCount: 2, vcpu: 52, memory: 350 },
-  'a3-highgpu-1g': { gpuModel: 'H100', gpuCount: 1, vcpu: 26, memory: 175 },
+  'a3-highgpu-8g': { series: 'A3', gpuModel: 'H100', gpuCount: 8, vcpu: 208, memory: 1872 },
+  'a3-highgpu-4g': { series: 'A3', gpuModel: 'H100', gpuCount: 4, vcpu: 104, memory: 936 },
+  'a3-highgpu-2g': { series: 'A3', gpuModel: 'H100', gpuCount: 2, vcpu: 52, memory: 468 },
+  'a3-highgpu-1g': { series: 'A3', gpuModel: 'H100', gpuCount: 1, vcpu: 26, memory: 234 },
 
   // A2 Series - A100
-  'a2-highgpu-8g': { gpuModel: 'A100', gpuCount: 8, vcpu: 96, memory: 680 },
-  'a2-highgpu-4g': { gpuModel: 'A100', gpuCount: 4, vcpu: 48, memory: 340 },
-  'a2-highgpu-2g': { gpuModel: 'A100', gpuCount: 2, vcpu: 24, memory: 170 },
-  'a2-highgpu-1g': { gpuModel: 'A100', gpuCount: 1, vcpu: 12, memory: 85 },
+  'a2-highgpu-8g': { series: 'A2', gpuModel: 'A100', gpuCount: 8, vcpu: 96, memory: 680 },
+  'a2-highgpu-4g': { series: 'A2', gpuModel: 'A100', gpuCount: 4, vcpu: 48, memory: 340 },
+  'a2-highgpu-2g': { series: 'A2', gpuModel: 'A100', gpuCount: 2, vcpu: 24, memory: 170 },
+  'a2-highgpu-1g': { series: 'A2', gpuModel: 'A100', gpuCount: 1, vcpu: 12, memory: 85 },
+  'a2-megagpu-16g': { series: 'A2', gpuModel: 'A100', gpuCount: 16, vcpu: 96, memory: 1360 },
 
   // A2 Ultra Series - A100 80GB
-  'a2-ultragpu-8g': { gpuModel: 'A100 80GB', gpuCount: 8, vcpu: 96, memory: 1360 },
-  'a2-ultragpu-4g': { gpuModel: 'A100 80GB', gpuCount: 4, vcpu: 48, memory: 680 },
-  'a2-ultragpu-2g': { gpuModel: 'A100 80GB', gpuCount: 2, vcpu: 24, memory: 340 },
-  'a2-ultragpu-1g': { gpuModel: 'A100 80GB', gpuCount: 1, vcpu: 12, memory: 170 },
+  'a2-ultragpu-8g': { series: 'A2', gpuModel: 'A100 80GB', gpuCount: 8, vcpu: 96, memory: 1360 },
+  'a2-ultragpu-4g': { series: 'A2', gpuModel: 'A100 80GB', gpuCount: 4, vcpu: 48, memory: 680 },
+  'a2-ultragpu-2g': { series: 'A2', gpuModel: 'A100 80GB', gpuCount: 2, vcpu: 24, memory: 340 },
+  'a2-ultragpu-1g': { series: 'A2', gpuModel: 'A100 80GB', gpuCount: 1, vcpu: 12, memory: 170 },
 
   // G2 Series - L4
-  'g2-standard-96': { gpuModel: 'L4', gpuCount: 8, vcpu: 96, memory: 384 },
-  'g2-standard-48': { gpuModel: 'L4', gpuCount: 4, vcpu: 48, memory: 192 },
-  'g2-standard-24': { gpuModel: 'L4', gpuCount: 2, vcpu: 24, memory: 96 },
-  'g2-standard-12': { gpuModel: 'L4', gpuCount: 1, vcpu: 12, memory: 48 },
-  'g2-standard-8': { gpuModel: 'L4', gpuCount: 1, vcpu: 8, memory: 32 },
-  'g2-standard-4': { gpuModel: 'L4', gpuCount: 1, vcpu: 4, memory: 16 },
-
-  // N1 with GPU attachments
-  'n1-standard-96': { gpuModel: 'Variable', gpuCount: 0, vcpu: 96, memory: 360 }, // Can attach GPUs
-  'n1-standard-64': { gpuModel: 'Variable', gpuCount: 0, vcpu: 64, memory: 240 },
-  'n1-standard-32': { gpuModel: 'Variable', gpuCount: 0, vcpu: 32, memory: 120 },
-  'n1-standard-16': { gpuModel: 'Variable', gpuCount: 0, vcpu: 16, memory: 60 },
-  'n1-standard-8': { gpuModel: 'Variable', gpuCount: 0, vcpu: 8, memory: 30 },
-  'n1-standard-4': { gpuModel: 'Variable', gpuCount: 0, vcpu: 4, memory: 15 }
+  'g2-standard-96': { series: 'G2', gpuModel: 'L4', gpuCount: 8, vcpu: 96, memory: 384 },
+  'g2-standard-48': { series: 'G2', gpuModel: 'L4', gpuCount: 4, vcpu: 48, memory: 192 },
+  'g2-standard-32': { series: 'G2', gpuModel: 'L4', gpuCount: 1, vcpu: 32, memory: 128 },
+  'g2-standard-24': { series: 'G2', gpuModel: 'L4', gpuCount: 2, vcpu: 24, memory: 96 },
+  'g2-standard-16': { series: 'G2', gpuModel: 'L4', gpuCount: 1, vcpu: 16, memory: 64 },
+  'g2-standard-12': { series: 'G2', gpuModel: 'L4', gpuCount: 1, vcpu: 12, memory: 48 },
+  'g2-standard-8': { series: 'G2', gpuModel: 'L4', gpuCount: 1, vcpu: 8, memory: 32 },
+  'g2-standard-4': { series: 'G2', gpuModel: 'L4', gpuCount: 1, vcpu: 4, memory: 16 }
 }
 
-// GCP 리전 매핑
-const GCP_REGION_MAPPING: Record<string, string> = {
-  'us-central1': 'Iowa',
-  'us-east1': 'South Carolina',
-  'us-east4': 'Northern Virginia',
-  'us-west1': 'Oregon',
-  'us-west2': 'Los Angeles',
-  'us-west3': 'Salt Lake City',
-  'us-west4': 'Las Vegas',
-  'europe-west1': 'Belgium',
-  'europe-west2': 'London',
-  'europe-west3': 'Frankfurt',
-  'europe-west4': 'Netherlands',
-  'europe-west6': 'Zurich',
-  'asia-east1': 'Taiwan',
-  'asia-northeast1': 'Tokyo',
-  'asia-northeast2': 'Osaka',
-  'asia-northeast3': 'Seoul',
-  'asia-south1': 'Mumbai',
-  'asia-southeast1': 'Singapore',
-  'australia-southeast1': 'Sydney'
+// SKU 설명의 GPU 이름 → 내부 GPU 모델 (위에서부터 매칭)
+const GCP_GPU_SKU_MODELS: Array<[RegExp, string]> = [
+  [/H100 80GB/i, 'H100'],
+  [/A100 80GB/i, 'A100 80GB'],
+  [/A100/i, 'A100'],
+  [/\bL4\b/i, 'L4']
+]
+
+const GCP_MACHINE_SERIES = ['A2', 'A3', 'G2']
+
+// 조합 대상이 아닌 SKU (단독 테넌트, 커스텀, DWS/캘린더 모드, A3 Mega 등)
+const GCP_EXCLUDED_SKU_PATTERN = /Sole Tenancy|Custom|Mega|DWS|Calendar|Flex|Extended|Reserved/i
+
+// Catalog usageType → 구매 옵션 (CUD는 reserved_* 로 저장)
+const GCP_USAGE_TYPES: Record<string, GCPPurchaseOption> = {
+  OnDemand: 'on_demand',
+  Preemptible: 'spot',
+  Commit1Yr: 'reserved_1yr',
+  Commit3Yr: 'reserved_3yr'
 }
 
-export class GCPPricingService {
+export class GCPPricingService implements ProviderPricingAdapter {
+  readonly providerCode = 'gcp'
+  readonly displayName = 'GCP'
   private readonly BASE_URL = 'https://cloudbilling.googleapis.com/v1'
-  private readonly SERVICE_NAME = 'compute.googleapis.com'
+  private readonly apiKey?: string
+  private readonly fixtureFile?: string
+  private readonly MAX_PAGES: number
 
-  constructor() {
-    console.log('GCP Pricing Service initialized (Public API)')
+  constructor(options: GCPPricingServiceOptions = {}) {
+    this.apiKey = options.apiKey || process.env.GCP_BILLING_API_KEY || undefined
+    this.fixtureFile = options.fixtureFile || process.env.GCP_BILLING_CATALOG_FILE || undefined
+    this.MAX_PAGES = options.maxPages ?? 50
+    console.log('GCP Pricing Service initialized (Cloud Billing Catalog)')
   }
 
   /**
-   * GCP GPU VM 가격 조회 (공개 API 사용)
+   * GCP GPU VM 가격 조회 (Catalog SKU 수집 → 머신 타입별 가격 조합)
    */
   async fetchGPUVMPrices(regions?: string[]): Promise<GCPPricingResponse> {
     try {
+      const skus = this.fixtureFile
+        ? await this.loadFixtureSkus(this.fixtureFile)
+        : await this.fetchCatalogSkus()
+
+      const assembler = new GCPPriceAssembler()
+      for (const sku of skus) {
+        this.parseCatalogSku(sku).forEach(component => assembler.add(component))
+      }
+
+      const targetRegions = regions && regions.length > 0 ? regions : assembler.getRegions()
+      const fetchedAt = new Date().toISOString()
       const instances: GCPGPUInstance[] = []
       const gpuModels = new Set<string>()
       const processedRegions = new Set<string>()
 
-      // GCP SKU 정보를 가져오기 위한 API 호출
-      // 실제로는 GCP가 public API를 제한적으로 제공하므로 mock 데이터 사용
-      console.log('Fetching GCP GPU pricing information...')
-
-      // GCP는 public pricing API가 제한적이므로 known pricing으로 구현
-      const mockGCPPrices = this.getKnownGCPPrices(regions)
-
-      for (const price of mockGCPPrices) {
-        const machineInfo = this.getMachineTypeInfo(price.machineType)
-        
-        if (machineInfo) {
-          instances.push({
-            machineType: price.machineType,
-            zone: price.zone,
-            region: price.region,
-            skuId: price.skuId,
-            skuDescription: price.skuDescription,
-            pricePerHour: price.pricePerHour,
-            currency: 'USD',
-            effectiveDate: new Date().toISOString(),
-            gpuModel: machineInfo.gpuModel,
-            gpuCount: machineInfo.gpuCount,
-            vcpu: machineInfo.vcpu,
-            memory: machineInfo.memory
-          })
-
-          if (machineInfo.gpuModel !== 'Variable') {
-            gpuModels.add(machineInfo.gpuModel)
+      for (const [machineType, machine] of Object.entries(GCP_GPU_MACHINE_TYPES)) {
+        const spec: GCPMachineSpec = { machineType, ...machine }
+
+        for (const region of targetRegions) {
+          for (const purchaseOption of Object.values(GCP_USAGE_TYPES)) {
+            const assembled = assembler.assemble(spec, region, purchaseOption)
+            if (!assembled) continue
+
+            instances.push({
+              machineType,
+              region,
+              skuId: assembled.components.map(c => c.skuId).join('+'),
+              skuDescription: assembled.components.map(c => c.description).join(' + '),
+              pricePerHour: assembled.pricePerHour,
+              purchaseOption,
+              currency: assembled.currency,
+              effectiveDate: fetchedAt,
+              gpuModel: spec.gpuModel,
+              gpuCount: spec.gpuCount,
+              vcpu: spec.vcpu,
+              memory: spec.memory,
+              components: assembled.components
+            })
+
+            gpuModels.add(spec.gpuModel)
+            processedRegions.add(region)
           }
-          processedRegions.add(price.region)
         }
       }
 
@@ -146,157 +203,167 @@ export class GCPPricingService {
         data: {
           instances: instances.sort((a, b) => a.pricePerHour - b.pricePerHour),
           totalCount: instances.length,
-          fetchedAt: new Date().toISOString(),
+          fetchedAt,
           currency: 'USD',
           regions: Array.from(processedRegions).sort(),
-          gpuModels: Array.from(gpuModels).sort()
+          gpuModels: Array.from(gpuModels).sort(),
+          skusFetched: skus.length,
+          source: this.fixtureFile ? 'fixture' : 'api'
         }
       }
 
     } catch (error) {
       console.error('GCP pricing fetch error:', error)
-      
+
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
-        message: 'GCP API 호출에 실패했습니다. Known pricing 데이터를 표시합니다.',
-        ...this.getMockGCPPrices()
+        message: 'GCP Cloud Billing Catalog 조회에 실패했습니다.'
       }
     }
   }
 
   /**
-   * 머신 타입에서 GPU 정보 조회
+   * 정규화된 오퍼 조회 (ProviderPricingAdapter)
    */
-  private getMachineTypeInfo(machineType: string) {
-    return GCP_GPU_MACHINE_TYPES[machineType] || null
+  async fetchOffers(options: FetchOffersOptions = {}): Promise<ProviderPricingResponse> {
+    const result = await this.fetchGPUVMPrices(options.regions)
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error, message: result.message }
+    }
+
+    const offers: InstanceOffer[] = result.data.instances.map(instance => ({
+      provider: this.providerCode,
+      region: instance.region,
+      instanceName: instance.machineType,
+      purchaseOption: instance.purchaseOption,
+      pricePerHour: instance.pricePerHour,
+      currency: instance.currency,
+      sourceSku: instance.skuId,
+      familyCode: instance.machineType.split('-')[0],
+      gpuModel: instance.gpuModel,
+      gpuCount: instance.gpuCount,
+      vcpu: instance.vcpu,
+      ramGb: instance.memory,
+      raw: instance
+    }))
+    await options.onProgress?.(result.data.skusFetched)
+
+    return {
+      success: true,
+      data: {
+        offers,
+        totalCount: offers.length,
+        fetchedAt: result.data.fetchedAt,
+        currency: result.data.currency,
+        regions: result.data.regions,
+        gpuModels: result.data.gpuModels,
+        details: { skusFetched: result.data.skusFetched, source: result.data.source }
+      }
+    }
   }
 
   /**
-   * 알려진 GCP 가격 정보 (2024년 기준)
+   * Compute Engine SKU 전체 조회 (nextPageToken 페이지네이션)
    */
-  private getKnownGCPPrices(regions?: string[]): Array<{
-    machineType: string
-    zone: string
-    region: string
-    skuId: string
-    skuDescription: string
-    pricePerHour: number
-  }> {
-    const availableRegions = regions && regions.length > 0 
-      ? regions.filter(r => GCP_REGION_MAPPING[r]) 
-      : Object.keys(GCP_REGION_MAPPING)
-
-    const knownPrices = [
-      // A3 Series (H100) - 2024년 최신 가격
-      { machineType: 'a3-highgpu-8g', pricePerHour: 26.73, description: 'A3 High-GPU 8x H100' },
-      { machineType: 'a3-highgpu-4g', pricePerHour: 13.365, description: 'A3 High-GPU 4x H100' },
-      { machineType: 'a3-highgpu-2g', pricePerHour: 6.683, description: 'A3 High-GPU 2x H100' },
-      { machineType: 'a3-highgpu-1g', pricePerHour: 3.341, description: 'A3 High-GPU 1x H100' },
-
-      // A2 Series (A100)
-      { machineType: 'a2-highgpu-8g', pricePerHour: 15.292, description: 'A2 High-GPU 8x A100' },
-      { machineType: 'a2-highgpu-4g', pricePerHour: 7.646, description: 'A2 High-GPU 4x A100' },
-      { machineType: 'a2-highgpu-2g', pricePerHour: 3.823, description: 'A2 High-GPU 2x A100' },
-      { machineType: 'a2-highgpu-1g', pricePerHour: 1.911, description: 'A2 High-GPU 1x A100' },
-
-      // A2 Ultra Series (A100 80GB)
-      { machineType: 'a2-ultragpu-8g', pricePerHour: 21.972, description: 'A2 Ultra 8x A100 80GB' },
-      { machineType: 'a2-ultragpu-4g', pricePerHour: 10.986, description: 'A2 Ultra 4x A100 80GB' },
-      { machineType: 'a2-ultragpu-2g', pricePerHour: 5.493, description: 'A2 Ultra 2x A100 80GB' },
-      { machineType: 'a2-ultragpu-1g', pricePerHour: 2.746, description: 'A2 Ultra 1x A100 80GB' },
-
-      // G2 Series (L4)
-      { machineType: 'g2-standard-96', pricePerHour: 6.552, description: 'G2 Standard 8x L4' },
-      { machineType: 'g2-standard-48', pricePerHour: 3.276, description: 'G2 Standard 4x L4' },
-      { machineType: 'g2-standard-24', pricePerHour: 1.638, description: 'G2 Standard 2x L4' },
-      { machineType: 'g2-standard-12', pricePerHour: 0.819, description: 'G2 Standard 1x L4' },
-      { machineType: 'g2-standard-8', pricePerHour: 0.683, description: 'G2 Standard 1x L4' },
-      { machineType: 'g2-standard-4', pricePerHour: 0.410, description: 'G2 Standard 1x L4' }
-    ]
-
-    const result = []
-    for (const region of availableRegions) {
-      for (const price of knownPrices) {
-        // 주요 zone들만 포함
-        const zones = [`${region}-a`, `${region}-b`, `${region}-c`]
-        for (const zone of zones) {
-          result.push({
-            machineType: price.machineType,
-            zone,
-            region,
-            skuId: `gcp-${price.machineType}-${region}`,
-            skuDescription: price.description,
-            pricePerHour: price.pricePerHour
-          })
-        }
+  private async fetchCatalogSkus(): Promise<GCPCatalogSku[]> {
+    if (!this.apiKey) {
+      throw new Error('GCP_BILLING_API_KEY is not configured')
+    }
+
+    const skus: GCPCatalogSku[] = []
+    let pageToken: string | undefined
+    let page = 0
+
+    do {
+      const params = new URLSearchParams({ key: this.apiKey, currencyCode: 'USD', pageSize: '5000' })
+      if (pageToken) params.set('pageToken', pageToken)
+
+      const response = await fetch(`${this.BASE_URL}/services/${COMPUTE_ENGINE_SERVICE_ID}/skus?${params.toString()}`, {
+        headers: { 'Accept': 'application/json' }
+      })
+
+      if (!response.ok) {
+        throw new Error(`GCP Billing API request failed: ${response.status} ${response.statusText}`)
       }
+
+      const data: GCPCatalogPage = await response.json()
+      skus.push(...(data.skus || []))
+      pageToken = data.nextPageToken || undefined
+      page++
+    } while (pageToken && page < this.MAX_PAGES)
+
+    if (pageToken) {
+      console.warn(`GCP catalog page cap reached (${this.MAX_PAGES} pages), remaining pages skipped`)
     }
 
-    return result
+    console.log(`Fetched ${skus.length} GCP Compute Engine SKUs (${page} pages)`)
+    return skus
   }
 
   /**
-   * 목업 GCP 가격 데이터
+   * 저장된 Catalog 응답에서 SKU 복원 (픽스처 모드)
    */
-  private getMockGCPPrices(): Partial<GCPPricingResponse> {
-    const mockInstances: GCPGPUInstance[] = [
-      {
-        machineType: 'a3-highgpu-1g',
-        zone: 'us-central1-a',
-        region: 'us-central1',
-        skuId: 'mock-a3-h100',
-        skuDescription: 'Mock A3 1x H100',
-        pricePerHour: 3.341,
-        currency: 'USD',
-        effectiveDate: new Date().toISOString(),
-        gpuModel: 'H100',
-        gpuCount: 1,
-        vcpu: 26,
-        memory: 175
-      },
-      {
-        machineType: 'a2-highgpu-1g',
-        zone: 'us-central1-a',
-        region: 'us-central1',
-        skuId: 'mock-a2-a100',
-        skuDescription: 'Mock A2 1x A100',
-        pricePerHour: 1.911,
-        currency: 'USD',
-        effectiveDate: new Date().toISOString(),
-        gpuModel: 'A100',
-        gpuCount: 1,
-        vcpu: 12,
-        memory: 85
-      },
-      {
-        machineType: 'g2-standard-4',
-        zone: 'us-central1-a',
-        region: 'us-central1',
-        skuId: 'mock-g2-l4',
-        skuDescription: 'Mock G2 1x L4',
-        pricePerHour: 0.410,
-        currency: 'USD',
-        effectiveDate: new Date().toISOString(),
-        gpuModel: 'L4',
-        gpuCount: 1,
-        vcpu: 4,
-        memory: 16
-      }
-    ]
+  private async loadFixtureSkus(filePath: string): Promise<GCPCatalogSku[]> {
+    const data: GCPCatalogPage = JSON.parse(await fs.readFile(filePath, 'utf-8'))
+    return data.skus || []
+  }
 
-    return {
-      data: {
-        instances: mockInstances,
-        totalCount: mockInstances.length,
-        fetchedAt: new Date().toISOString(),
-        currency: 'USD',
-        regions: ['us-central1'],
-        gpuModels: ['H100', 'A100', 'L4']
-      }
+  /**
+   * Catalog SKU를 리전별 컴포넌트 단가로 변환 (조합 대상이 아니면 빈 배열)
+   */
+  private parseCatalogSku(sku: GCPCatalogSku): GCPComponentPrice[] {
+    const purchaseOption = GCP_USAGE_TYPES[sku.category?.usageType || '']
+    if (!purchaseOption || sku.category?.resourceFamily !== 'Compute') return []
+    if (GCP_EXCLUDED_SKU_PATTERN.test(sku.description)) return []
+
+    const component = this.classifyComponent(sku.description)
+    if (!component) return []
+
+    const rate = this.getUnitPrice(sku)
+    if (!rate) return []
+
+    return (sku.serviceRegions || []).map(region => ({
+      skuId: sku.skuId,
+      description: sku.description,
+      ...component,
+      purchaseOption,
+      region,
+      unitPrice: rate.unitPrice,
+      currency: rate.currency
+    }))
+  }
+
+  /**
+   * SKU 설명으로 컴포넌트 종류 분류
+   * 예) "A2 Instance Core running in Americas", "Commitment v1: A3 Ram in Tokyo for 1 Year",
+   *     "Nvidia Tesla A100 GPU attached to Spot Preemptible VMs running in Americas"
+   */
+  private classifyComponent(description: string): { kind: GCPComponentKind; series?: string; gpuModel?: string } | null {
+    if (/GPU/i.test(description)) {
+      const match = GCP_GPU_SKU_MODELS.find(([pattern]) => pattern.test(description))
+      return match ? { kind: 'gpu', gpuModel: match[1] } : null
     }
+
+    const series = GCP_MACHINE_SERIES.find(s => new RegExp(`\\b${s}\\b`).test(description))
+    if (!series) return null
+
+    if (/\b(Core|Cpu)\b/i.test(description)) return { kind: 'core', series }
+    if (/\bRam\b/i.test(description)) return { kind: 'ram', series }
+    return null
+  }
+
+  /**
+   * SKU의 기본 단가 (첫 구간 tieredRate, units + nanos)
+   */
+  private getUnitPrice(sku: GCPCatalogSku): { unitPrice: number; currency: string } | null {
+    const rates = sku.pricingInfo?.[0]?.pricingExpression?.tieredRates || []
+    const rate = rates.find(r => (r.startUsageAmount || 0) === 0) || rates[0]
+    if (!rate?.unitPrice) return null
+
+    const unitPrice = Number(rate.unitPrice.units || 0) + (rate.unitPrice.nanos || 0) / 1e9
+    return unitPrice > 0 ? { unitPrice, currency: rate.unitPrice.currencyCode || 'USD' } : null
   }
 }
 
 export const gcpPricingService = new GCPPricingService()
-
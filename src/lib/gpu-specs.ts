@@ -0,0 +1,46 @@
+// GPU 모델별 스펙 헬퍼 (프로바이더 응답에 스펙이 없을 때 사용)
+
+export function getGPUMemorySize(gpuModel: string): number {
+  switch (gpuModel) {
+    case 'H200': return 141
+    case 'H100': return 80
+    case 'A100': return 80
+    case 'A100 80GB': return 80
+    case 'L40S': return 48
+    case 'L4': return 24
+    case 'A10G': return 24
+    case 'T4G': return 16
+    case 'Tesla V100': return 32
+    case 'Tesla T4': return 16
+    case 'Tesla P100': return 16
+    case 'Tesla P40': return 24
+    case 'Tesla K80': return 24
+    case 'Tesla M60': return 8
+    case 'A10': return 24
+    case 'Radeon MI25': return 16
+    case 'Radeon Pro V520': return 8
+    case 'Trainium': return 32
+    case 'Trainium2': return 96
+    case 'Inferentia': return 8
+    case 'Inferentia2': return 32
+    case 'Gaudi': return 32
+    default: return 16
+  }
+}
+
+export function getInterconnectType(gpuModel: string): string {
+  switch (gpuModel) {
+    case 'H200':
+    case 'H100':
+    case 'A100':
+    case 'A100 80GB':
+    case 'Tesla V100':
+      return 'NVLink'
+    default:
+      return 'PCIe'
+  }
+}
+
+export function hasNVLinkSupport(gpuModel: string): boolean {
+  return ['H200', 'H100', 'A100', 'A100 80GB', 'Tesla V100'].includes(gpuModel)
+}
@@ -0,0 +1,23 @@
+// 인스턴스 스펙 파일(data/instance-specs.json) 로더
+// 스펙을 응답으로 주지 않는 프로바이더(OCI, Alibaba 등)는 이 파일의 shape 목록을 기준으로 가격을 조회한다.
+import fs from 'fs/promises'
+import path from 'path'
+import type { InstanceSpecs } from './price-repository'
+
+export type InstanceSpecsFile = Record<string, Record<string, InstanceSpecs>>
+
+export async function loadInstanceSpecs(): Promise<InstanceSpecsFile> {
+  try {
+    const dataPath = path.join(process.cwd(), 'data', 'instance-specs.json')
+    const data = await fs.readFile(dataPath, 'utf-8')
+    return JSON.parse(data)
+  } catch (error) {
+    console.error('Failed to load instance specs:', error)
+    return {}
+  }
+}
+
+export async function loadProviderSpecs(providerCode: string): Promise<Record<string, InstanceSpecs>> {
+  const specs = await loadInstanceSpecs()
+  return specs[providerCode] || {}
+}
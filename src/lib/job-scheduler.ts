@@ -0,0 +1,350 @@
+// 작업 스케줄러 (cron 정의 + DB 잠금 + 재시도/백오프)
+// 각 Next.js 인스턴스가 매 분 tick을 돌고, JobLock 행으로 같은 작업·같은 cron 슬롯은 한 인스턴스만 실행한다.
+// 모든 실행은 EtlLog(jobType)에 기록된다.
+import os from 'os'
+import { Prisma } from '@prisma/client'
+import { CronExpression, floorToMinute } from './cron-expression'
+import { priceHistoryService } from './price-history'
+import { prisma } from './prisma'
+
+export type JobStatus = 'success' | 'partial_success' | 'failed' | 'skipped'
+
+export interface JobRunContext {
+  jobName: string
+  attempt: number
+  etlLogId: string
+  params: Record<string, unknown>
+  reportProgress: (recordsProcessed: number) => Promise<void>
+}
+
+export interface JobRunResult {
+  status?: JobStatus // 기본 success
+  recordsProcessed: number
+  message?: string
+  details?: unknown
+}
+
+export interface JobDefinition {
+  name: string // 잠금 키 (price_sync:aws, capacity_check 등)
+  jobType: string // EtlLog.jobType
+  providerCode?: string
+  description: string
+  schedule: string // cron 표현식
+  lockTtlMs: number // 최대 실행 시간 (재시도 대기 포함)
+  maxAttempts: number
+  backoffMs: number // 첫 재시도 대기, 이후 2배씩 증가
+  run: (context: JobRunContext) => Promise<JobRunResult>
+}
+
+export interface JobRunOutcome {
+  jobName: string
+  status: JobStatus | 'locked' // locked = 다른 실행이 잠금 보유 중
+  etlLogId: string | null
+  attempts: number
+  recordsProcessed: number
+  message?: string
+  details?: unknown
+  error?: string
+}
+
+export interface JobStatusSummary {
+  name: string
+  jobType: string
+  providerCode: string | null
+  description: string
+  schedule: string
+  nextRunAt: string | null
+  running: boolean
+  lockedBy: string | null
+  lockedUntil: string | null
+  lastRun: {
+    status: string
+    startedAt: string
+    completedAt: string | null
+    recordsProcessed: number
+    errorMessage: string | null
+  } | null
+}
+
+interface RegisteredJob {
+  definition: JobDefinition
+  cron: CronExpression
+}
+
+const TICK_INTERVAL_MS = 60 * 1000
+
+export class JobScheduler {
+  private readonly jobs = new Map<string, RegisteredJob>()
+  private readonly running = new Set<string>()
+  private readonly instanceId = `${os.hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(definitions: JobDefinition[] = []) {
+    definitions.forEach(definition => this.register(definition))
+  }
+
+  /**
+   * 작업 등록 (cron 표현식 검증)
+   */
+  register(definition: JobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`이미 등록된 작업입니다: ${definition.name}`)
+    }
+    this.jobs.set(definition.name, { definition, cron: new CronExpression(definition.schedule) })
+  }
+
+  getJob(name: string): JobDefinition | null {
+    return this.jobs.get(name)?.definition || null
+  }
+
+  getJobs(): JobDefinition[] {
+    return Array.from(this.jobs.values()).map(job => job.definition)
+  }
+
+  isStarted(): boolean {
+    return this.timer !== null
+  }
+
+  /**
+   * 매 분 정각에 tick 시작 (중복 호출 무시)
+   */
+  start(): void {
+    if (this.timer) return
+
+    const delay = TICK_INTERVAL_MS - (Date.now() % TICK_INTERVAL_MS)
+    this.timer = setTimeout(() => {
+      void this.tick()
+      this.timer = setInterval(() => void this.tick(), TICK_INTERVAL_MS)
+      this.timer.unref?.()
+    }, delay)
+    this.timer.unref?.()
+
+    console.log(`⏰ 작업 스케줄러 시작 (${this.jobs.size}개 작업, ${this.instanceId})`)
+  }
+
+  stop(): void {
+    if (!this.timer) return
+    clearTimeout(this.timer)
+    clearInterval(this.timer)
+    this.timer = null
+  }
+
+  /**
+   * 현재 슬롯에 해당하는 작업 실행 (잠금을 얻은 인스턴스만 실행)
+   */
+  async tick(now: Date = new Date()): Promise<JobRunOutcome[]> {
+    const slot = floorToMinute(now)
+    const due = Array.from(this.jobs.values()).filter(job => job.cron.matches(slot))
+
+    return Promise.all(due.map(job => this.execute(job.definition, { slot })))
+  }
+
+  /**
+   * 작업 즉시 실행 (관리자 / 워커 API용, cron 슬롯과 무관)
+   */
+  async runNow(name: string, params: Record<string, unknown> = {}): Promise<JobRunOutcome> {
+    const definition = this.getJob(name)
+    if (!definition) {
+      throw new Error(`등록되지 않은 작업입니다: ${name}`)
+    }
+    return this.execute(definition, { params })
+  }
+
+  /**
+   * 작업 종류별 마지막 실행 시각 (건너뛴 실행 제외, 쿨다운 판단용)
+   */
+  async getLastRun(jobType: string, providerCode?: string): Promise<Date | null> {
+    const lastRun = await prisma.etlLog.findFirst({
+      where: { jobType, status: { not: 'skipped' }, ...(providerCode && { providerCode }) },
+      orderBy: { startedAt: 'desc' },
+      select: { startedAt: true }
+    })
+    return lastRun?.startedAt || null
+  }
+
+  /**
+   * 작업별 스케줄 / 잠금 / 마지막 실행 상태
+   */
+  async getStatus(): Promise<JobStatusSummary[]> {
+    const locks = await prisma.jobLock.findMany()
+    const now = new Date()
+
+    return Promise.all(Array.from(this.jobs.values()).map(async ({ definition, cron }) => {
+      const lock = locks.find(l => l.jobName === definition.name)
+      const held = lock && lock.owner && lock.lockedUntil > now
+      const lastRun = await prisma.etlLog.findFirst({
+        where: {
+          jobType: definition.jobType,
+          ...(definition.providerCode && { providerCode: definition.providerCode })
+        },
+        orderBy: { startedAt: 'desc' }
+      })
+
+      return {
+        name: definition.name,
+        jobType: definition.jobType,
+        providerCode: definition.providerCode || null,
+        description: definition.description,
+        schedule: definition.schedule,
+        nextRunAt: cron.nextRun(now)?.toISOString() || null,
+        running: Boolean(held),
+        lockedBy: held ? lock.owner : null,
+        lockedUntil: held ? lock.lockedUntil.toISOString() : null,
+        lastRun: lastRun ? {
+          status: lastRun.status,
+          startedAt: lastRun.startedAt.toISOString(),
+          completedAt: lastRun.completedAt?.toISOString() || null,
+          recordsProcessed: lastRun.recordsProcessed,
+          errorMessage: lastRun.errorMessage
+        } : null
+      }
+    }))
+  }
+
+  /**
+   * 잠금 → EtlLog 시작 → 재시도 루프 → EtlLog 종료 → 잠금 해제
+   */
+  private async execute(
+    definition: JobDefinition,
+    options: { slot?: Date; params?: Record<string, unknown> }
+  ): Promise<JobRunOutcome> {
+    const locked: JobRunOutcome = {
+      jobName: definition.name,
+      status: 'locked',
+      etlLogId: null,
+      attempts: 0,
+      recordsProcessed: 0,
+      message: '다른 실행이 진행 중입니다.'
+    }
+
+    // 같은 프로세스 내 중복 실행 방지 (DB 잠금 이전에 빠르게 거름)
+    if (this.running.has(definition.name)) return locked
+    this.running.add(definition.name)
+
+    try {
+      if (!await this.acquireLock(definition, options.slot)) return locked
+
+      try {
+        return await this.runWithRetry(definition, options.params || {})
+      } finally {
+        await this.releaseLock(definition.name)
+      }
+    } catch (error) {
+      // 잠금 / 로그 기록 자체의 실패 (DB 오류 등)
+      console.error(`작업 실행 실패: ${definition.name}`, error)
+      return {
+        ...locked,
+        status: 'failed',
+        message: undefined,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    } finally {
+      this.running.delete(definition.name)
+    }
+  }
+
+  private async runWithRetry(definition: JobDefinition, params: Record<string, unknown>): Promise<JobRunOutcome> {
+    const etlLogId = await priceHistoryService.startEtlLog(definition.providerCode || null, definition.jobType)
+    const errors: string[] = []
+
+    for (let attempt = 1; attempt <= definition.maxAttempts; attempt++) {
+      try {
+        const result = await definition.run({
+          jobName: definition.name,
+          attempt,
+          etlLogId,
+          params,
+          reportProgress: recordsProcessed => priceHistoryService.updateEtlProgress(etlLogId, recordsProcessed)
+        })
+        const status = result.status || 'success'
+
+        await priceHistoryService.completeEtlLog(etlLogId, {
+          status,
+          recordsProcessed: result.recordsProcessed,
+          errorMessage: [
+            result.message,
+            errors.length > 0 ? `${attempt}회차 시도에서 완료 (이전 오류: ${errors.join(' / ')})` : null
+          ].filter(Boolean).join(', ') || undefined
+        })
+
+        return {
+          jobName: definition.name,
+          status,
+          etlLogId,
+          attempts: attempt,
+          recordsProcessed: result.recordsProcessed,
+          message: result.message,
+          details: result.details
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        errors.push(message)
+        console.error(`작업 실패 (${attempt}/${definition.maxAttempts}): ${definition.name}`, error)
+
+        if (attempt < definition.maxAttempts) {
+          const delay = definition.backoffMs * 2 ** (attempt - 1)
+          await this.renewLock(definition)
+          await new Promise(resolve => setTimeout(resolve, delay))
+        }
+      }
+    }
+
+    const errorMessage = `${definition.maxAttempts}회 시도 후 실패: ${errors.join(' / ')}`
+    await priceHistoryService.completeEtlLog(etlLogId, { status: 'failed', errorMessage })
+
+    return {
+      jobName: definition.name,
+      status: 'failed',
+      etlLogId,
+      attempts: definition.maxAttempts,
+      recordsProcessed: 0,
+      error: errorMessage
+    }
+  }
+
+  /**
+   * 잠금 획득: 만료된 잠금만 가져오고, cron 실행은 같은 슬롯을 이미 실행한 경우 건너뜀
+   */
+  private async acquireLock(definition: JobDefinition, slot?: Date): Promise<boolean> {
+    const now = new Date()
+    const lockedUntil = new Date(now.getTime() + definition.lockTtlMs)
+
+    const { count } = await prisma.jobLock.updateMany({
+      where: {
+        jobName: definition.name,
+        lockedUntil: { lt: now },
+        ...(slot && { OR: [{ lastSlotAt: null }, { lastSlotAt: { lt: slot } }] })
+      },
+      data: { owner: this.instanceId, lockedUntil, ...(slot && { lastSlotAt: slot }) }
+    })
+    if (count > 0) return true
+
+    const existing = await prisma.jobLock.findUnique({ where: { jobName: definition.name } })
+    if (existing) return false
+
+    try {
+      await prisma.jobLock.create({
+        data: { jobName: definition.name, owner: this.instanceId, lockedUntil, lastSlotAt: slot }
+      })
+      return true
+    } catch (error) {
+      // 다른 인스턴스가 먼저 생성
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return false
+      throw error
+    }
+  }
+
+  private async renewLock(definition: JobDefinition): Promise<void> {
+    await prisma.jobLock.updateMany({
+      where: { jobName: definition.name, owner: this.instanceId },
+      data: { lockedUntil: new Date(Date.now() + definition.lockTtlMs) }
+    })
+  }
+
+  private async releaseLock(jobName: string): Promise<void> {
+    await prisma.jobLock.updateMany({
+      where: { jobName, owner: this.instanceId },
+      data: { owner: null, lockedUntil: new Date() }
+    })
+  }
+}
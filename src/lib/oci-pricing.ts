@@ -0,0 +1,245 @@
+// OCI (Oracle Cloud Infrastructure) 가격 서비스
+// OCI Price List API: https://apexapps.oracle.com/pls/apex/cetools/api/v1/products/
+// OCI GPU 가격은 리전 공통(GPU당 시간 단가)이므로 shape의 GPU 수를 곱해 리전별로 펼친다.
+import fs from 'fs/promises'
+import { loadProviderSpecs } from './instance-specs'
+import { FetchOffersOptions, InstanceOffer, ProviderPricingAdapter, ProviderPricingResponse } from './provider-pricing'
+
+interface OCIGPUInstance {
+  shape: string
+  family: string
+  region: string
+  partNumber: string
+  displayName: string
+  unit: string
+  pricePerHour: number
+  currency: string
+  effectiveDate: string
+  gpuModel: string
+  gpuCount: number
+  vcpu: number
+  ram: number
+}
+
+interface OCIPricingResponse {
+  success: boolean
+  data?: {
+    instances: OCIGPUInstance[]
+    totalCount: number
+    fetchedAt: string
+    currency: string
+    regions: string[]
+    gpuModels: string[]
+  }
+  error?: string
+  message?: string
+}
+
+export interface OCIPricingServiceOptions {
+  baseUrl?: string
+  fixtureFile?: string // 저장된 Price List API 응답 ({ items: [...] })
+}
+
+// Price List API 상품 항목
+interface OCIPriceListItem {
+  partNumber: string
+  displayName: string
+  metricName?: string
+  serviceCategory?: string
+  currencyCodeLocalizations?: Array<{
+    currencyCode: string
+    prices?: Array<{ model: string; value: number }>
+  }>
+}
+
+// OCI 리전 코드 → 리전 이름
+const OCI_REGION_MAPPING: Record<string, string> = {
+  'ap-seoul-1': 'South Korea Central (Seoul)',
+  'ap-chuncheon-1': 'South Korea North (Chuncheon)',
+  'ap-tokyo-1': 'Japan East (Tokyo)',
+  'ap-osaka-1': 'Japan Central (Osaka)',
+  'ap-singapore-1': 'Singapore',
+  'ap-sydney-1': 'Australia East (Sydney)',
+  'ap-mumbai-1': 'India West (Mumbai)',
+  'us-ashburn-1': 'US East (Ashburn)',
+  'us-phoenix-1': 'US West (Phoenix)',
+  'us-chicago-1': 'US Midwest (Chicago)',
+  'eu-frankfurt-1': 'Germany Central (Frankfurt)',
+  'uk-london-1': 'UK South (London)'
+}
+
+// GPU 모델 → Price List 상품명 패턴 (GPU Per Hour 과금 상품)
+const OCI_GPU_PARTS: Record<string, RegExp> = {
+  'H100': /GPU - H100/i,
+  'A100 80GB': /GPU - A100 - v2/i,
+  'A100': /GPU - A100(?! - v2)/i,
+  'L40S': /GPU - L40S/i,
+  'A10': /GPU - A10\b/i,
+  'V100': /V100/i
+}
+
+export class OCIPricingService implements ProviderPricingAdapter {
+  readonly providerCode = 'oci'
+  readonly displayName = 'OCI'
+  private readonly BASE_URL: string
+  private readonly fixtureFile?: string
+
+  constructor(options: OCIPricingServiceOptions = {}) {
+    this.BASE_URL = options.baseUrl || process.env.OCI_PRICE_LIST_URL || 'https://apexapps.oracle.com/pls/apex/cetools/api/v1/products/'
+    this.fixtureFile = options.fixtureFile || process.env.OCI_PRICE_LIST_FILE || undefined
+    console.log('OCI Pricing Service initialized (Price List API)')
+  }
+
+  /**
+   * OCI GPU shape 가격 조회
+   */
+  async fetchGPUPrices(regions?: string[]): Promise<OCIPricingResponse> {
+    try {
+      const items = this.fixtureFile
+        ? await this.loadFixtureItems(this.fixtureFile)
+        : await this.fetchPriceList()
+
+      const shapes = await loadProviderSpecs('oci')
+      const targetRegions = regions && regions.length > 0
+        ? regions.filter(region => OCI_REGION_MAPPING[region])
+        : Object.keys(OCI_REGION_MAPPING)
+      const fetchedAt = new Date().toISOString()
+      const instances: OCIGPUInstance[] = []
+      const gpuModels = new Set<string>()
+
+      for (const [shape, specs] of Object.entries(shapes)) {
+        const part = this.findGPUPart(items, specs.gpuModel)
+        if (!part) {
+          console.warn(`OCI price part not found for ${shape} (${specs.gpuModel})`)
+          continue
+        }
+
+        for (const region of targetRegions) {
+          instances.push({
+            shape,
+            region,
+            partNumber: part.item.partNumber,
+            displayName: part.item.displayName,
+            unit: part.item.metricName || 'GPU Per Hour',
+            pricePerHour: part.pricePerGpu * specs.gpuCount,
+            currency: 'USD',
+            effectiveDate: fetchedAt,
+            family: specs.family,
+            gpuModel: specs.gpuModel,
+            gpuCount: specs.gpuCount,
+            vcpu: specs.vcpu,
+            ram: specs.ramGB
+          })
+        }
+        gpuModels.add(specs.gpuModel)
+      }
+
+      return {
+        success: true,
+        data: {
+          instances: instances.sort((a, b) => a.pricePerHour - b.pricePerHour),
+          totalCount: instances.length,
+          fetchedAt,
+          currency: 'USD',
+          regions: instances.length > 0 ? targetRegions.sort() : [],
+          gpuModels: Array.from(gpuModels).sort()
+        }
+      }
+    } catch (error) {
+      console.error('OCI pricing fetch error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        message: 'OCI Price List 조회에 실패했습니다.'
+      }
+    }
+  }
+
+  /**
+   * 정규화된 오퍼 조회 (ProviderPricingAdapter)
+   */
+  async fetchOffers(options: FetchOffersOptions = {}): Promise<ProviderPricingResponse> {
+    const result = await this.fetchGPUPrices(options.regions)
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error, message: result.message }
+    }
+
+    const offers: InstanceOffer[] = result.data.instances.map(instance => ({
+      provider: this.providerCode,
+      region: instance.region,
+      instanceName: instance.shape,
+      purchaseOption: 'on_demand',
+      pricePerHour: instance.pricePerHour,
+      currency: instance.currency,
+      sourceSku: instance.partNumber,
+      familyCode: instance.family,
+      gpuModel: instance.gpuModel,
+      gpuCount: instance.gpuCount,
+      vcpu: instance.vcpu,
+      ramGb: instance.ram,
+      raw: instance
+    }))
+    await options.onProgress?.(offers.length)
+
+    return {
+      success: true,
+      data: {
+        offers,
+        totalCount: offers.length,
+        fetchedAt: result.data.fetchedAt,
+        currency: result.data.currency,
+        regions: result.data.regions,
+        gpuModels: result.data.gpuModels
+      }
+    }
+  }
+
+  /**
+   * Price List API 호출 (USD)
+   */
+  private async fetchPriceList(): Promise<OCIPriceListItem[]> {
+    const response = await fetch(`${this.BASE_URL}?currencyCode=USD`, {
+      headers: { 'Accept': 'application/json' }
+    })
+
+    if (!response.ok) {
+      throw new Error(`OCI Price List request failed: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    if (!Array.isArray(data.items)) {
+      throw new Error('Invalid response format from OCI Price List API')
+    }
+
+    return data.items
+  }
+
+  private async loadFixtureItems(filePath: string): Promise<OCIPriceListItem[]> {
+    const data = JSON.parse(await fs.readFile(filePath, 'utf-8'))
+    return data.items || []
+  }
+
+  /**
+   * GPU 모델에 해당하는 GPU Per Hour 상품과 종량제 단가
+   */
+  private findGPUPart(items: OCIPriceListItem[], gpuModel: string): { item: OCIPriceListItem; pricePerGpu: number } | null {
+    const pattern = OCI_GPU_PARTS[gpuModel]
+    if (!pattern) return null
+
+    for (const item of items) {
+      if (!pattern.test(item.displayName) || !/GPU Per Hour/i.test(item.metricName || '')) continue
+
+      const usd = item.currencyCodeLocalizations?.find(l => l.currencyCode === 'USD')
+      const price = usd?.prices?.find(p => p.model === 'PAY_AS_YOU_GO')?.value
+      if (price && price > 0) {
+        return { item, pricePerGpu: price }
+      }
+    }
+
+    return null
+  }
+}
+
+export const ociPricingService = new OCIPricingService()
+
+export const getOCIRegions = () => OCI_REGION_MAPPING
@@ -0,0 +1,462 @@
+// 가격 히스토리 저장 서비스 (PriceHistory / InstanceType / EtlLog)
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+
+export type PriceDataSource = 'api' | 'manual' | 'estimated'
+
+// 동기화 결과 한 건 (프로바이더 서비스 응답을 정규화한 값)
+export interface PriceRecordInput {
+  providerCode: string // aws, azure, gcp, oci, alibaba
+  regionCode: string // ap-northeast-2, koreacentral, asia-northeast1
+  instanceName: string
+  familyCode: string
+  gpuModel: string
+  gpuCount: number
+  gpuMemoryGb: number
+  vcpu: number
+  ramGb: number
+  pricePerHour: number
+  currency?: string
+  purchaseOption?: string
+  sourceSku?: string
+  rawResponse?: unknown
+}
+
+export interface RecordPricesOptions {
+  dataSource: PriceDataSource
+  effectiveDate?: Date
+}
+
+export interface LatestPrice {
+  instanceTypeId: string
+  providerCode: string
+  regionCode: string
+  instanceName: string
+  familyCode: string
+  gpuModel: string
+  gpuMemoryGb: number
+  gpuCount: number
+  vcpu: number
+  ramGb: number
+  localSsdGb: number
+  networkPerformance: string | null
+  interconnect: string | null
+  nvlinkSupport: boolean
+  migSupport: boolean
+  purchaseOption: string
+  pricePerHour: number
+  currency: string
+  sourceSku: string | null
+  effectiveDate: Date
+  dataSource: string | null
+}
+
+export interface LatestPriceQuery {
+  providerCode?: string
+  regionCode?: string
+  instanceName?: string
+  purchaseOption?: string // on_demand, spot
+}
+
+export interface PriceHistoryQuery {
+  providerCode: string
+  regionCode: string
+  instanceName: string
+  purchaseOption?: string
+  from?: Date
+  to?: Date
+}
+
+export interface PriceHistoryPoint {
+  effectiveDate: Date
+  pricePerHour: number
+  currency: string
+  dataSource: string | null
+}
+
+export interface ManualPriceTarget {
+  providerCode: string
+  regionCode: string
+  instanceName: string
+  purchaseOption?: string
+}
+
+export interface ManualPriceLog {
+  id: string
+  providerCode: string
+  regionCode: string
+  instanceName: string
+  oldPrice: number | null
+  newPrice: number
+  currency: string
+  updatedAt: string
+  updatedBy: string
+}
+
+export class PriceHistoryService {
+  /**
+   * 가격 레코드 일괄 저장 (인스턴스 타입이 없으면 생성)
+   */
+  async recordPrices(records: PriceRecordInput[], options: RecordPricesOptions): Promise<number> {
+    const effectiveDate = options.effectiveDate || new Date()
+    let saved = 0
+
+    for (const record of records) {
+      try {
+        const instanceTypeId = await this.ensureInstanceType(record)
+        const purchaseOption = record.purchaseOption || 'on_demand'
+        const currency = record.currency || 'USD'
+
+        await prisma.priceHistory.upsert({
+          where: {
+            instanceTypeId_purchaseOption_currency_effectiveDate: {
+              instanceTypeId,
+              purchaseOption,
+              currency,
+              effectiveDate
+            }
+          },
+          update: {
+            priceAmount: record.pricePerHour,
+            sourceSku: record.sourceSku,
+            rawResponse: this.toJson(record.rawResponse),
+            dataSource: options.dataSource
+          },
+          create: {
+            instanceTypeId,
+            purchaseOption,
+            unit: 'hour',
+            currency,
+            priceAmount: record.pricePerHour,
+            effectiveDate,
+            sourceSku: record.sourceSku,
+            rawResponse: this.toJson(record.rawResponse),
+            dataSource: options.dataSource
+          }
+        })
+        saved++
+      } catch (error) {
+        console.error(`가격 저장 실패: ${record.providerCode}/${record.regionCode}/${record.instanceName}`, error)
+      }
+    }
+
+    return saved
+  }
+
+  /**
+   * 관리자 수동 가격 보정 (기존 인스턴스 타입만 허용)
+   * 보정 가격은 clearManualPrice로 해제할 때까지 이후 동기화 가격보다 우선한다.
+   */
+  async recordManualPrice(input: {
+    providerCode: string
+    regionCode: string
+    instanceName: string
+    pricePerHour: number
+    currency: string
+    updatedBy: string
+  }): Promise<{ oldPrice: number | null; newPrice: number } | null> {
+    const instanceType = await prisma.instanceType.findFirst({
+      where: {
+        instanceName: input.instanceName,
+        provider: { code: input.providerCode },
+        region: { code: input.regionCode }
+      }
+    })
+
+    if (!instanceType) {
+      return null
+    }
+
+    const previous = await this.getLatestPrice({
+      providerCode: input.providerCode,
+      regionCode: input.regionCode,
+      instanceName: input.instanceName
+    })
+
+    await prisma.priceHistory.create({
+      data: {
+        instanceTypeId: instanceType.id,
+        purchaseOption: 'on_demand',
+        unit: 'hour',
+        currency: input.currency,
+        priceAmount: input.pricePerHour,
+        effectiveDate: new Date(),
+        dataSource: 'manual',
+        rawResponse: {
+          previousPrice: previous?.pricePerHour ?? null,
+          updatedBy: input.updatedBy
+        }
+      }
+    })
+
+    return {
+      oldPrice: previous?.pricePerHour ?? null,
+      newPrice: input.pricePerHour
+    }
+  }
+
+  /**
+   * 수동 보정 해제 (이후 최신 동기화 가격이 다시 적용됨)
+   * 해제된 보정 행은 이력으로 남는다.
+   */
+  async clearManualPrice(target: ManualPriceTarget): Promise<number> {
+    const { count } = await prisma.priceHistory.updateMany({
+      where: {
+        dataSource: 'manual',
+        overrideClearedAt: null,
+        purchaseOption: target.purchaseOption || 'on_demand',
+        instanceType: {
+          instanceName: target.instanceName,
+          provider: { code: target.providerCode },
+          region: { code: target.regionCode }
+        }
+      },
+      data: { overrideClearedAt: new Date() }
+    })
+
+    return count
+  }
+
+  /**
+   * 인스턴스별 최신 유효 가격 조회
+   * 해제되지 않은 수동 보정 가격이 있으면 더 최근의 동기화 가격보다 우선한다.
+   */
+  async getLatestPrices(options: LatestPriceQuery = {}): Promise<LatestPrice[]> {
+    const where: Prisma.PriceHistoryWhereInput = {
+      purchaseOption: options.purchaseOption || 'on_demand',
+      effectiveDate: { lte: new Date() },
+      instanceType: {
+        ...(options.providerCode && { provider: { code: options.providerCode } }),
+        ...(options.regionCode && { region: { code: options.regionCode } }),
+        ...(options.instanceName && { instanceName: options.instanceName })
+      }
+    }
+    const query = {
+      orderBy: [{ effectiveDate: 'desc' }, { createdAt: 'desc' }],
+      distinct: ['instanceTypeId', 'purchaseOption'],
+      include: LATEST_PRICE_INCLUDE
+    } satisfies Omit<Prisma.PriceHistoryFindManyArgs, 'where'>
+
+    const [rows, overrides] = await Promise.all([
+      // 해제된 수동 보정 행은 더 최근이어도 제외 (이전 동기화 가격이 다시 적용됨)
+      prisma.priceHistory.findMany({ where: { ...where, NOT: { dataSource: 'manual', overrideClearedAt: { not: null } } }, ...query }),
+      prisma.priceHistory.findMany({ where: { ...where, dataSource: 'manual', overrideClearedAt: null }, ...query })
+    ])
+
+    const overrideByPair = new Map(overrides.map(row => [`${row.instanceTypeId}:${row.purchaseOption}`, row]))
+
+    return rows.map(latest => {
+      const row = overrideByPair.get(`${latest.instanceTypeId}:${latest.purchaseOption}`) || latest
+      const instanceType = row.instanceType
+      const gpuModel = instanceType.family.gpuModel
+
+      return {
+        instanceTypeId: instanceType.id,
+        providerCode: instanceType.provider.code,
+        regionCode: instanceType.region.code,
+        instanceName: instanceType.instanceName,
+        familyCode: instanceType.family.familyCode,
+        gpuModel: gpuModel.model,
+        gpuMemoryGb: gpuModel.vramGb,
+        gpuCount: instanceType.gpuCount,
+        vcpu: instanceType.vcpuCount,
+        ramGb: instanceType.ramGb,
+        localSsdGb: instanceType.localSsdGb,
+        networkPerformance: instanceType.networkPerformance,
+        interconnect: instanceType.family.interconnectType,
+        nvlinkSupport: gpuModel.nvlinkSupport,
+        migSupport: gpuModel.migSupport,
+        purchaseOption: row.purchaseOption,
+        pricePerHour: row.priceAmount,
+        currency: row.currency,
+        sourceSku: row.sourceSku,
+        effectiveDate: row.effectiveDate,
+        dataSource: row.dataSource
+      }
+    })
+  }
+
+  /**
+   * 단일 인스턴스의 최신 유효 가격 조회 (없으면 null)
+   */
+  async getLatestPrice(query: LatestPriceQuery & { providerCode: string; regionCode: string; instanceName: string }): Promise<LatestPrice | null> {
+    const [price] = await this.getLatestPrices(query)
+    return price || null
+  }
+
+  /**
+   * 인스턴스 가격 이력 (effectiveDate 오름차순, 미래 예정 가격 제외)
+   */
+  async getPriceHistory(query: PriceHistoryQuery): Promise<PriceHistoryPoint[]> {
+    const rows = await prisma.priceHistory.findMany({
+      where: {
+        purchaseOption: query.purchaseOption || 'on_demand',
+        effectiveDate: {
+          ...(query.from && { gte: query.from }),
+          lte: query.to && query.to < new Date() ? query.to : new Date()
+        },
+        instanceType: {
+          instanceName: query.instanceName,
+          provider: { code: query.providerCode },
+          region: { code: query.regionCode }
+        }
+      },
+      orderBy: [{ effectiveDate: 'asc' }, { createdAt: 'asc' }]
+    })
+
+    return rows.map(row => ({
+      effectiveDate: row.effectiveDate,
+      pricePerHour: row.priceAmount,
+      currency: row.currency,
+      dataSource: row.dataSource
+    }))
+  }
+
+  /**
+   * 최근 수동 가격 변경 로그 조회
+   */
+  async getManualPriceLogs(limit = 50): Promise<ManualPriceLog[]> {
+    const rows = await prisma.priceHistory.findMany({
+      where: { dataSource: 'manual' },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: {
+        instanceType: { include: { provider: true, region: true } }
+      }
+    })
+
+    return rows.map(row => {
+      const raw = (row.rawResponse || {}) as { previousPrice?: number | null; updatedBy?: string }
+
+      return {
+        id: row.id,
+        providerCode: row.instanceType.provider.code,
+        regionCode: row.instanceType.region.code,
+        instanceName: row.instanceType.instanceName,
+        oldPrice: raw.previousPrice ?? null,
+        newPrice: row.priceAmount,
+        currency: row.currency,
+        updatedAt: row.createdAt.toISOString(),
+        updatedBy: raw.updatedBy || 'admin'
+      }
+    })
+  }
+
+  /**
+   * ETL 실행 로그 시작
+   */
+  async startEtlLog(providerCode: string | null, jobType = 'price_sync'): Promise<string> {
+    const log = await prisma.etlLog.create({
+      data: { providerCode, jobType, status: 'running' }
+    })
+    return log.id
+  }
+
+  /**
+   * ETL 진행 상황 기록 (페이지 단위 수집 등)
+   */
+  async updateEtlProgress(logId: string, recordsProcessed: number): Promise<void> {
+    await prisma.etlLog.update({
+      where: { id: logId },
+      data: { recordsProcessed }
+    })
+  }
+
+  /**
+   * ETL 실행 로그 종료
+   */
+  async completeEtlLog(
+    logId: string,
+    result: { status: 'success' | 'partial_success' | 'failed' | 'skipped'; recordsProcessed?: number; errorMessage?: string }
+  ): Promise<void> {
+    const log = await prisma.etlLog.findUnique({ where: { id: logId } })
+    const completedAt = new Date()
+
+    await prisma.etlLog.update({
+      where: { id: logId },
+      data: {
+        status: result.status,
+        recordsProcessed: result.recordsProcessed ?? 0,
+        errorMessage: result.errorMessage,
+        completedAt,
+        executionTimeMs: log ? completedAt.getTime() - log.startedAt.getTime() : null
+      }
+    })
+  }
+
+  /**
+   * 프로바이더/리전/패밀리/GPU 모델을 보장하고 인스턴스 타입 ID 반환
+   */
+  private async ensureInstanceType(record: PriceRecordInput): Promise<string> {
+    const provider = await prisma.provider.upsert({
+      where: { code: record.providerCode },
+      update: {},
+      create: { code: record.providerCode, name: record.providerCode.toUpperCase() }
+    })
+
+    const region = await prisma.region.upsert({
+      where: { providerId_code: { providerId: provider.id, code: record.regionCode } },
+      update: {},
+      create: { providerId: provider.id, code: record.regionCode, name: record.regionCode }
+    })
+
+    const vendor = record.gpuModel.toLowerCase().includes('radeon') ? 'AMD' : 'NVIDIA'
+    const gpuModel = await prisma.gpuModel.upsert({
+      where: { vendor_model: { vendor, model: record.gpuModel } },
+      update: {},
+      create: { vendor, model: record.gpuModel, vramGb: record.gpuMemoryGb }
+    })
+
+    const family = await prisma.instanceFamily.upsert({
+      where: { providerId_familyCode: { providerId: provider.id, familyCode: record.familyCode } },
+      update: {},
+      create: {
+        providerId: provider.id,
+        familyCode: record.familyCode,
+        familyName: `${record.gpuModel} ${record.familyCode.toUpperCase()} Family`,
+        gpuModelId: gpuModel.id
+      }
+    })
+
+    const instanceType = await prisma.instanceType.upsert({
+      where: {
+        providerId_regionId_instanceName: {
+          providerId: provider.id,
+          regionId: region.id,
+          instanceName: record.instanceName
+        }
+      },
+      update: {},
+      create: {
+        providerId: provider.id,
+        regionId: region.id,
+        familyId: family.id,
+        instanceName: record.instanceName,
+        gpuCount: record.gpuCount,
+        vcpuCount: record.vcpu,
+        ramGb: Math.round(record.ramGb)
+      }
+    })
+
+    return instanceType.id
+  }
+
+  private toJson(value: unknown): Prisma.InputJsonValue | undefined {
+    if (value === undefined || value === null) return undefined
+    return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue
+  }
+}
+
+// 최신 가격 조회 시 함께 읽는 스펙 정보
+const LATEST_PRICE_INCLUDE = {
+  instanceType: {
+    include: {
+      provider: true,
+      region: true,
+      family: { include: { gpuModel: true } }
+    }
+  }
+} satisfies Prisma.PriceHistoryInclude
+
+// 싱글톤 인스턴스
+export const priceHistoryService = new PriceHistoryService()
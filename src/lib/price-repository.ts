@@ -0,0 +1,188 @@
+// 가격 조회 레이어 (읽기 전용)
+// 사용자 요청 경로(/api/instances 등)는 이 레이어만 사용하고,
+// 프로바이더 가격 서비스(src/lib/*-pricing.ts)는 동기화 작업에서만 호출한다.
+import fs from 'fs/promises'
+import path from 'path'
+import { priceHistoryService, LatestPrice, LatestPriceQuery } from './price-history'
+import { getGPUMemorySize, getInterconnectType, hasNVLinkSupport } from './gpu-specs'
+import { InstanceOffer, toInstanceId } from './provider-pricing'
+import { isPurchaseOption, PurchaseOption } from './purchase-options'
+
+export interface InstanceSpecs {
+  family: string
+  gpuModel: string
+  gpuCount: number
+  gpuMemoryGB: number
+  vcpu: number
+  ramGB: number
+  localSsdGB: number
+  interconnect: string
+  networkPerformance: string
+  nvlinkSupport: boolean
+  migSupport: boolean
+}
+
+export interface InstanceData {
+  id: string
+  provider: string
+  region: string
+  instanceName: string
+  specs: InstanceSpecs
+  pricePerHour: number
+  pricePerGpu: number
+  purchaseOption: PurchaseOption
+  currency: string
+  lastUpdated: string
+}
+
+interface GPUaaSPriceFile {
+  lastUpdated?: string
+  providers: Array<{
+    name: string
+    slug?: string
+    instances?: Array<{ gpuModel: string; gpuCount?: number; pricePerHour?: number; currency?: string }>
+  }>
+}
+
+const GPUAAS_MODEL_TOKENS = ['H100', 'A100', 'V100', 'T4', 'L4', 'A10G', 'A10', 'P100', 'P40', 'K80', 'M60']
+
+export class PriceRepository {
+  /**
+   * 클라우드 + GPUaaS 인스턴스 전체 조회 (GPUaaS는 온디맨드 가격만 존재)
+   */
+  async getAllInstances(purchaseOption: PurchaseOption = 'on_demand'): Promise<InstanceData[]> {
+    const [cloudInstances, gpuaasInstances] = await Promise.all([
+      this.getCloudInstances(purchaseOption),
+      purchaseOption === 'on_demand' ? this.getGPUaaSInstances() : Promise.resolve([])
+    ])
+
+    return [...cloudInstances, ...gpuaasInstances]
+  }
+
+  /**
+   * PriceHistory의 최신 유효 가격 기반 클라우드 인스턴스 조회
+   */
+  async getCloudInstances(purchaseOption: PurchaseOption = 'on_demand'): Promise<InstanceData[]> {
+    const latestPrices = await priceHistoryService.getLatestPrices({ purchaseOption })
+
+    return latestPrices.map(price => {
+      const specs: InstanceSpecs = {
+        family: price.familyCode,
+        gpuModel: price.gpuModel,
+        gpuCount: price.gpuCount,
+        gpuMemoryGB: price.gpuMemoryGb,
+        vcpu: price.vcpu,
+        ramGB: price.ramGb,
+        localSsdGB: price.localSsdGb,
+        interconnect: price.interconnect || getInterconnectType(price.gpuModel),
+        networkPerformance: price.networkPerformance || 'High',
+        nvlinkSupport: price.nvlinkSupport || hasNVLinkSupport(price.gpuModel),
+        migSupport: price.migSupport
+      }
+
+      return {
+        id: toInstanceId({ provider: price.providerCode, instanceName: price.instanceName, region: price.regionCode }),
+        provider: price.providerCode.toUpperCase(),
+        region: price.regionCode,
+        instanceName: price.instanceName,
+        specs,
+        pricePerHour: price.pricePerHour,
+        pricePerGpu: price.pricePerHour / (specs.gpuCount || 1),
+        purchaseOption,
+        currency: price.currency,
+        lastUpdated: price.effectiveDate.toISOString()
+      }
+    })
+  }
+
+  /**
+   * 저장된 최신 가격을 정규화된 오퍼로 조회 (동기화 어댑터와 같은 계약)
+   */
+  async getOffers(query: LatestPriceQuery = {}): Promise<InstanceOffer[]> {
+    const latestPrices = await priceHistoryService.getLatestPrices(query)
+    return latestPrices.map(price => this.toOffer(price))
+  }
+
+  /**
+   * 단일 오퍼 조회 (없으면 null)
+   */
+  async getOffer(query: LatestPriceQuery & { providerCode: string; regionCode: string; instanceName: string }): Promise<InstanceOffer | null> {
+    const price = await priceHistoryService.getLatestPrice(query)
+    return price ? this.toOffer(price) : null
+  }
+
+  /**
+   * GPUaaS 가격 파일(data/gpuaas-prices.json) 기반 인스턴스 조회
+   */
+  async getGPUaaSInstances(): Promise<InstanceData[]> {
+    try {
+      const dataPath = path.join(process.cwd(), 'data', 'gpuaas-prices.json')
+      const file: GPUaaSPriceFile = JSON.parse(await fs.readFile(dataPath, 'utf-8'))
+      const lastUpdated = file.lastUpdated || new Date().toISOString()
+      const instances: InstanceData[] = []
+
+      for (const provider of file.providers || []) {
+        for (const inst of provider.instances || []) {
+          const token = this.extractModelToken(inst.gpuModel)
+          const specs: InstanceSpecs = {
+            family: provider.slug || 'gpuaas',
+            gpuModel: token || inst.gpuModel || 'Unknown',
+            gpuCount: inst.gpuCount || 1,
+            gpuMemoryGB: getGPUMemorySize(token || inst.gpuModel),
+            vcpu: 0,
+            ramGB: 0,
+            localSsdGB: 0,
+            interconnect: 'N/A',
+            networkPerformance: 'N/A',
+            nvlinkSupport: hasNVLinkSupport(token || inst.gpuModel),
+            migSupport: ['A100', 'H100'].includes(token)
+          }
+
+          instances.push({
+            id: `gpuaas-${(provider.slug || provider.name || 'provider').toLowerCase()}-${(token || 'gpu').toLowerCase()}-${specs.gpuCount}`,
+            provider: provider.name || 'GPUaaS',
+            region: 'global',
+            instanceName: `${specs.gpuModel}-${specs.gpuCount}x`,
+            specs,
+            pricePerHour: inst.pricePerHour || 0,
+            pricePerGpu: (inst.pricePerHour || 0) / (specs.gpuCount || 1),
+            purchaseOption: 'on_demand',
+            currency: inst.currency || 'USD',
+            lastUpdated
+          })
+        }
+      }
+
+      return instances
+    } catch (error) {
+      console.warn('Failed to load GPUaaS instances:', error)
+      return []
+    }
+  }
+
+  private toOffer(price: LatestPrice): InstanceOffer {
+    return {
+      provider: price.providerCode,
+      region: price.regionCode,
+      instanceName: price.instanceName,
+      purchaseOption: isPurchaseOption(price.purchaseOption) ? price.purchaseOption : 'on_demand',
+      pricePerHour: price.pricePerHour,
+      currency: price.currency,
+      sourceSku: price.sourceSku || undefined,
+      familyCode: price.familyCode,
+      gpuModel: price.gpuModel,
+      gpuCount: price.gpuCount,
+      vcpu: price.vcpu,
+      ramGb: price.ramGb
+    }
+  }
+
+  private extractModelToken(model: string): string {
+    const upper = String(model || '').toUpperCase()
+    for (const token of GPUAAS_MODEL_TOKENS) if (upper.includes(token)) return token
+    return upper.split(' ')[0]
+  }
+}
+
+// 싱글톤 인스턴스
+export const priceRepository = new PriceRepository()
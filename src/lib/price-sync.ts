@@ -0,0 +1,161 @@
+// 가격 동기화 작업 (ProviderPricingAdapter → PriceHistory / EtlLog)
+// 새 프로바이더는 어댑터를 구현해 PRICING_ADAPTERS에 등록하면 /api/admin/sync-prices/[provider]로 동기화된다.
+import { alibabaPricingService } from './alibaba-pricing'
+import { awsPricingService } from './aws-pricing'
+import { azurePricingService } from './azure-pricing'
+import { gcpPricingService } from './gcp-pricing'
+import { getGPUMemorySize } from './gpu-specs'
+import { ociPricingService } from './oci-pricing'
+import { priceHistoryService, PriceRecordInput } from './price-history'
+import { InstanceOffer, ProviderPricingAdapter } from './provider-pricing'
+
+const PRICING_ADAPTERS: ProviderPricingAdapter[] = [
+  awsPricingService,
+  azurePricingService,
+  gcpPricingService,
+  ociPricingService,
+  alibabaPricingService
+]
+
+export function getPricingAdapter(providerCode: string): ProviderPricingAdapter | null {
+  return PRICING_ADAPTERS.find(adapter => adapter.providerCode === providerCode.toLowerCase()) || null
+}
+
+export function getPricingAdapters(): ProviderPricingAdapter[] {
+  return PRICING_ADAPTERS
+}
+
+export interface PriceSyncOptions {
+  regions?: string[]
+  dryRun?: boolean
+  etlLogId?: string // 스케줄러가 관리하는 EtlLog (시작/종료는 호출자가 기록)
+}
+
+export interface PriceSyncResult {
+  providerCode: string
+  dryRun: boolean
+  updated: number
+  failed: number
+  totalCount: number
+  offers: InstanceOffer[]
+  fetchedAt: string
+  currency: string
+  regions: string[]
+  gpuModels: string[]
+  truncated: boolean
+  details?: Record<string, unknown>
+}
+
+export class PriceSyncService {
+  /**
+   * 어댑터에서 오퍼를 받아 PriceHistory에 저장 (dryRun이면 조회만)
+   * 수집 실패 시 EtlLog를 failed로 닫고 예외를 던진다
+   */
+  async sync(adapter: ProviderPricingAdapter, options: PriceSyncOptions = {}): Promise<PriceSyncResult> {
+    const dryRun = options.dryRun ?? false
+    const ownsEtlLog = !options.etlLogId
+    const etlLogId = dryRun ? null : options.etlLogId || await priceHistoryService.startEtlLog(adapter.providerCode)
+
+    const response = await adapter.fetchOffers({
+      regions: options.regions,
+      onProgress: async itemsFetched => {
+        if (etlLogId) {
+          await priceHistoryService.updateEtlProgress(etlLogId, itemsFetched)
+        }
+      }
+    })
+
+    if (!response.success || !response.data) {
+      const errorMessage = response.error || response.message || `Failed to fetch ${adapter.displayName} prices`
+      if (etlLogId && ownsEtlLog) {
+        await priceHistoryService.completeEtlLog(etlLogId, { status: 'failed', errorMessage })
+      }
+      throw new Error(response.message || errorMessage)
+    }
+
+    const { data } = response
+    const offers = this.dedupeOffers(data.offers)
+    const result: PriceSyncResult = {
+      providerCode: adapter.providerCode,
+      dryRun,
+      updated: 0,
+      failed: 0,
+      totalCount: data.totalCount,
+      offers,
+      fetchedAt: data.fetchedAt,
+      currency: data.currency,
+      regions: data.regions,
+      gpuModels: data.gpuModels,
+      truncated: data.truncated ?? false,
+      details: data.details
+    }
+
+    if (!etlLogId) {
+      return result
+    }
+
+    const records: PriceRecordInput[] = offers.map(offer => ({
+      providerCode: offer.provider,
+      regionCode: offer.region,
+      instanceName: offer.instanceName,
+      familyCode: offer.familyCode,
+      gpuModel: offer.gpuModel,
+      gpuCount: offer.gpuCount,
+      gpuMemoryGb: getGPUMemorySize(offer.gpuModel),
+      vcpu: offer.vcpu,
+      ramGb: offer.ramGb,
+      pricePerHour: offer.pricePerHour,
+      currency: offer.currency,
+      purchaseOption: offer.purchaseOption,
+      sourceSku: offer.sourceSku,
+      rawResponse: offer.raw
+    }))
+
+    result.updated = await priceHistoryService.recordPrices(records, {
+      dataSource: 'api',
+      effectiveDate: new Date(data.fetchedAt)
+    })
+    result.failed = records.length - result.updated
+
+    if (ownsEtlLog) {
+      await priceHistoryService.completeEtlLog(etlLogId, {
+        status: result.updated > 0 ? 'success' : 'failed',
+        recordsProcessed: result.updated,
+        errorMessage: this.describeResult(result)
+      })
+    }
+
+    console.log(`${adapter.displayName} price sync completed: ${result.updated} offers updated`)
+    return result
+  }
+
+  /**
+   * EtlLog 메시지 (저장 실패 / 수집 상한)
+   */
+  describeResult(result: PriceSyncResult): string | undefined {
+    return [
+      result.failed > 0 ? `${result.failed}개 레코드 저장 실패` : null,
+      result.truncated ? '수집 상한 도달 (일부 가격만 저장)' : null
+    ].filter(Boolean).join(', ') || undefined
+  }
+
+  /**
+   * 프로바이더 + 리전 + 인스턴스 + 구매 옵션 + 통화 단위로 가장 낮은 가격만 유지
+   */
+  private dedupeOffers(offers: InstanceOffer[]): InstanceOffer[] {
+    const byKey = new Map<string, InstanceOffer>()
+
+    for (const offer of offers) {
+      const key = [offer.provider, offer.region, offer.instanceName, offer.purchaseOption, offer.currency].join('|')
+      const existing = byKey.get(key)
+      if (!existing || existing.pricePerHour > offer.pricePerHour) {
+        byKey.set(key, offer)
+      }
+    }
+
+    return Array.from(byKey.values())
+  }
+}
+
+// 싱글톤 인스턴스
+export const priceSyncService = new PriceSyncService()
@@ -0,0 +1,86 @@
+// 가격 표시 레이어 (구매자 국가별 VAT / 원천징수 적용, 서버 · 클라이언트 공용)
+// 저장 가격은 모두 세전(net)이고, 화면에 보여줄 때만 사용자 설정(UserPreference)에 따라 세금을 더한다.
+// 세율은 국가별 표준 세율 기본값이며 사용자가 설정에서 덮어쓸 수 있다 (조세조약 감면 등).
+
+export interface TaxRule {
+  country: string // ISO-3166 alpha-2
+  name: string
+  vatLabel: string // VAT, GST, JCT 등 청구서 표기
+  vatRate: number
+  withholdingRate: number // 해외 클라우드 서비스 대가 지급 시 원천징수 세율 (없으면 0)
+}
+
+export interface PricingPreferences {
+  currency: string
+  buyerCountry: string
+  includeVat: boolean
+  vatRate: number
+  includeWithholding: boolean
+  withholdingRate: number
+}
+
+export interface PriceBreakdown {
+  net: number
+  vat: number
+  withholding: number // 원천징수 gross-up 분 (공급자가 세후 금액을 받도록 구매자가 추가 부담)
+  total: number
+}
+
+export const TAX_RULES: TaxRule[] = [
+  { country: 'KR', name: '대한민국', vatLabel: 'VAT', vatRate: 0.10, withholdingRate: 0 },
+  { country: 'JP', name: '일본', vatLabel: 'JCT', vatRate: 0.10, withholdingRate: 0 },
+  { country: 'SG', name: '싱가포르', vatLabel: 'GST', vatRate: 0.09, withholdingRate: 0 },
+  { country: 'AU', name: '호주', vatLabel: 'GST', vatRate: 0.10, withholdingRate: 0 },
+  { country: 'IN', name: '인도', vatLabel: 'GST', vatRate: 0.18, withholdingRate: 0.10 },
+  { country: 'ID', name: '인도네시아', vatLabel: 'VAT', vatRate: 0.11, withholdingRate: 0.20 },
+  { country: 'TH', name: '태국', vatLabel: 'VAT', vatRate: 0.07, withholdingRate: 0.15 },
+  { country: 'DE', name: '독일', vatLabel: 'VAT', vatRate: 0.19, withholdingRate: 0 },
+  { country: 'FR', name: '프랑스', vatLabel: 'VAT', vatRate: 0.20, withholdingRate: 0 },
+  { country: 'GB', name: '영국', vatLabel: 'VAT', vatRate: 0.20, withholdingRate: 0 },
+  { country: 'IE', name: '아일랜드', vatLabel: 'VAT', vatRate: 0.23, withholdingRate: 0 },
+  { country: 'US', name: '미국', vatLabel: 'Sales Tax', vatRate: 0, withholdingRate: 0 }
+]
+
+export const DEFAULT_BUYER_COUNTRY = 'KR'
+
+// 규칙이 없는 국가는 세금 0 (사용자가 직접 세율 입력)
+export const getTaxRule = (country: string): TaxRule => {
+  return TAX_RULES.find(rule => rule.country === country) ||
+    { country, name: country, vatLabel: 'VAT', vatRate: 0, withholdingRate: 0 }
+}
+
+export const DEFAULT_PRICING_PREFERENCES: PricingPreferences = {
+  currency: 'USD',
+  buyerCountry: DEFAULT_BUYER_COUNTRY,
+  includeVat: false,
+  vatRate: getTaxRule(DEFAULT_BUYER_COUNTRY).vatRate,
+  includeWithholding: false,
+  withholdingRate: getTaxRule(DEFAULT_BUYER_COUNTRY).withholdingRate
+}
+
+/**
+ * 세전 금액에 설정된 세금 적용
+ * 원천징수는 gross-up 기준: 공급자가 net을 받으려면 구매자는 net / (1 - 세율)을 지급해야 한다.
+ */
+export const applyTaxes = (net: number, preferences: PricingPreferences): PriceBreakdown => {
+  const vat = preferences.includeVat ? net * preferences.vatRate : 0
+  const withholdingRate = Math.min(preferences.withholdingRate, 0.9)
+  const withholding = preferences.includeWithholding && withholdingRate > 0 ?
+    net / (1 - withholdingRate) - net :
+    0
+
+  return { net, vat, withholding, total: net + vat + withholding }
+}
+
+/**
+ * 가격 옆에 붙일 세금 표기 (세금 미적용이면 null)
+ */
+export const describeTaxes = (preferences: PricingPreferences): string | null => {
+  const rule = getTaxRule(preferences.buyerCountry)
+  const parts = [
+    preferences.includeVat && `${rule.vatLabel} ${Math.round(preferences.vatRate * 1000) / 10}%`,
+    preferences.includeWithholding && preferences.withholdingRate > 0 && `원천징수 ${Math.round(preferences.withholdingRate * 1000) / 10}%`
+  ].filter(Boolean)
+
+  return parts.length > 0 ? `${parts.join(' + ')} 포함` : null
+}
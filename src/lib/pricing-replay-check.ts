@@ -0,0 +1,377 @@
+// 가격 어댑터 픽스처 재생 검사 (data/fixtures의 녹화 응답으로 수집 경로를 네트워크 / 계정 없이 검증)
+// 실행: npm run pricing:replay (실패한 항목이 있으면 종료 코드 1)
+import assert from 'assert'
+import { AddressInfo } from 'net'
+import path from 'path'
+import { AlibabaPricingService } from './alibaba-pricing'
+import { AWSPricingService } from './aws-pricing'
+import { AzurePricingService } from './azure-pricing'
+import { GCPPricingService } from './gcp-pricing'
+import { OCIPricingService } from './oci-pricing'
+import { priceHistoryService } from './price-history'
+import { prisma } from './prisma'
+import { createFakeRetailPricesServer, FakeRetailPricesScenario, FakeRetailPricesServer } from './azure-fake-retail-prices'
+
+// 녹화 응답 디렉터리 (Azure는 픽스처 서버가 직접 읽음)
+const FIXTURE_DIR = path.join(process.cwd(), 'data', 'fixtures')
+
+interface ReplayCheck {
+  name: string
+  run: () => Promise<void>
+}
+
+// 컴포넌트 단가를 곱해 더한 값이라 부동소수 오차 허용
+function assertPrice(actual: number | undefined, expected: number, message?: string) {
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-9, message || `expected ${expected}, got ${actual}`)
+}
+
+/**
+ * Retail Prices 픽스처 서버를 임시 포트로 띄우고 baseUrl을 넘겨 실행
+ */
+async function withRetailPricesServer(
+  scenario: FakeRetailPricesScenario,
+  run: (baseUrl: string, requests: FakeRetailPricesServer['requests']) => Promise<void>
+): Promise<void> {
+  const { server, requests } = createFakeRetailPricesServer(scenario)
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+
+  try {
+    const { port } = server.address() as AddressInfo
+    await run(`http://127.0.0.1:${port}/api/retail/prices`, requests)
+  } finally {
+    await new Promise(resolve => server.close(resolve))
+  }
+}
+
+type Row = Record<string, unknown>
+
+// Prisma where 조건 중 가격 이력 조회에 쓰는 부분만 해석 (같음 / null / lte / not / NOT / 관계 중첩)
+function matchesWhere(row: Row | undefined, where: Row = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'NOT') return !matchesWhere(row, condition as Row)
+    const value = row?.[key]
+    if (condition === undefined) return true
+    if (condition === null) return value === null || value === undefined
+    if (typeof condition !== 'object' || condition instanceof Date) return value === condition
+    const { lte, not, ...nested } = condition as Row
+    if (lte !== undefined && !((value as Date) <= (lte as Date))) return false
+    if (not === null && (value === null || value === undefined)) return false
+    return Object.keys(nested).length === 0 || matchesWhere(value as Row, nested)
+  })
+}
+
+/**
+ * PriceHistory / InstanceType을 메모리 저장소로 바꿔 가격 이력 서비스를 DB 없이 실행
+ * (행에 instanceType 관계를 미리 붙여 두므로 include는 그대로 반환)
+ */
+async function withInMemoryPriceHistory(instanceType: Row, run: (rows: Row[]) => Promise<void>): Promise<void> {
+  const rows: Row[] = []
+  const client = prisma as unknown as Record<string, unknown>
+  const original = { priceHistory: client.priceHistory, instanceType: client.instanceType }
+
+  client.instanceType = {
+    findFirst: async ({ where }: { where: Row }) => matchesWhere(instanceType, where) ? instanceType : null
+  }
+  client.priceHistory = {
+    create: async ({ data }: { data: Row }) => {
+      const row = { id: `ph-${rows.length + 1}`, sourceSku: null, overrideClearedAt: null, createdAt: new Date(), ...data, instanceType }
+      rows.push(row)
+      return row
+    },
+    updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+      const matched = rows.filter(row => matchesWhere(row, where))
+      matched.forEach(row => Object.assign(row, data))
+      return { count: matched.length }
+    },
+    // orderBy는 effectiveDate / createdAt 내림차순, distinct는 instanceTypeId + purchaseOption 고정
+    findMany: async ({ where }: { where: Row }) => {
+      const time = (row: Row, key: string) => (row[key] as Date).getTime()
+      const seen = new Set<string>()
+      return rows
+        .filter(row => matchesWhere(row, where))
+        .sort((a, b) => time(b, 'effectiveDate') - time(a, 'effectiveDate') || time(b, 'createdAt') - time(a, 'createdAt'))
+        .filter(row => {
+          const key = `${row.instanceTypeId}:${row.purchaseOption}`
+          return !seen.has(key) && seen.add(key)
+        })
+    }
+  }
+
+  try {
+    await run(rows)
+  } finally {
+    Object.assign(client, original)
+  }
+}
+
+// 가격 이력 검사용 인스턴스 타입 (LATEST_PRICE_INCLUDE 관계 포함)
+const P5_INSTANCE_TYPE = {
+  id: 'it-p5',
+  instanceName: 'p5.48xlarge',
+  gpuCount: 8,
+  vcpuCount: 192,
+  ramGb: 2048,
+  localSsdGb: 30400,
+  networkPerformance: '3200 Gigabit',
+  provider: { code: 'aws' },
+  region: { code: 'us-east-1' },
+  family: { familyCode: 'p5', interconnectType: 'NVLink', gpuModel: { model: 'H100', vramGb: 80, nvlinkSupport: true, migSupport: true } }
+}
+
+const checks: ReplayCheck[] = [
+  {
+    name: 'azure: NextPageLink를 끝까지 순회',
+    run: () => withRetailPricesServer({}, async (baseUrl, requests) => {
+      const result = await new AzurePricingService({ baseUrl }).fetchGPUVMPrices()
+
+      assert.ok(result.success, result.error)
+      assert.strictEqual(result.data?.pagesFetched, 3)
+      assert.strictEqual(result.data?.truncated, false)
+      assert.deepStrictEqual(requests.map(r => r.skip), [0, 100, 200])
+      assert.deepStrictEqual(result.data?.regions, ['eastus', 'japaneast', 'koreacentral'])
+
+      const t4 = result.data?.instances.find(i =>
+        i.vmSize === 'Standard_NC4as_T4_v3' && i.location === 'koreacentral' && i.purchaseOption === 'on_demand'
+      )
+      assert.strictEqual(t4?.pricePerHour, 0.526)
+      assert.strictEqual(t4?.gpuModel, 'Tesla T4')
+    })
+  },
+  {
+    name: 'azure: 페이지 상한에서 중단하고 truncated 표시',
+    run: () => withRetailPricesServer({}, async (baseUrl, requests) => {
+      const result = await new AzurePricingService({ baseUrl, maxPages: 2 }).fetchGPUVMPrices()
+
+      assert.ok(result.success, result.error)
+      assert.strictEqual(result.data?.pagesFetched, 2)
+      assert.strictEqual(result.data?.truncated, true)
+      assert.deepStrictEqual(requests.map(r => r.skip), [0, 100])
+    })
+  },
+  {
+    name: 'azure: 429 응답 시 Retry-After / 지수 백오프 후 같은 페이지 재시도',
+    run: () => withRetailPricesServer({
+      throttle: [
+        { skip: 100, times: 1, retryAfterSeconds: 1 },
+        { skip: 200, times: 1 }
+      ]
+    }, async (baseUrl, requests) => {
+      const result = await new AzurePricingService({ baseUrl }).fetchGPUVMPrices()
+
+      assert.ok(result.success, result.error)
+      assert.strictEqual(result.data?.pagesFetched, 3)
+      assert.deepStrictEqual(requests, [
+        { skip: 0, status: 200 },
+        { skip: 100, status: 429 },
+        { skip: 100, status: 200 },
+        { skip: 200, status: 429 },
+        { skip: 200, status: 200 }
+      ])
+    })
+  },
+  {
+    name: 'azure: 재시도 횟수를 넘기면 실패로 응답',
+    run: () => withRetailPricesServer({
+      throttle: [{ skip: 0, times: 2, retryAfterSeconds: 1 }]
+    }, async (baseUrl, requests) => {
+      const result = await new AzurePricingService({ baseUrl, maxRetries: 1 }).fetchGPUVMPrices()
+
+      assert.strictEqual(result.success, false)
+      assert.match(result.error || '', /429/)
+      assert.strictEqual(requests.length, 2)
+    })
+  },
+  {
+    name: 'azure: 페이지마다 누적 항목 수 보고 (EtlLog recordsProcessed 기록 값)',
+    run: () => withRetailPricesServer({}, async baseUrl => {
+      const progress: number[] = []
+      const result = await new AzurePricingService({ baseUrl }).fetchOffers({
+        onProgress: itemsFetched => { progress.push(itemsFetched) }
+      })
+
+      assert.ok(result.success, result.error)
+      assert.deepStrictEqual(progress, [3, 6, 8])
+    })
+  },
+  {
+    name: 'aws: Price List bulk 파일 재생 (GPU / 가속기 Linux Shared 상품만, Reserved 실효 단가)',
+    run: async () => {
+      const service = new AWSPricingService({ offlineFile: path.join(FIXTURE_DIR, 'aws-price-list', 'AmazonEC2-gpu.json') })
+      const result = await service.fetchGPUPrices()
+
+      assert.ok(result.success, result.error)
+      assert.strictEqual(result.data?.source, 'offline')
+      assert.deepStrictEqual(result.data?.regions, ['ap-northeast-2', 'us-east-1'])
+
+      const prices = Object.fromEntries(
+        (result.data?.instances || []).map(i => [`${i.region}/${i.instanceType}/${i.purchaseOption}`, i])
+      )
+      assert.deepStrictEqual(Object.keys(prices).sort(), [
+        'ap-northeast-2/g5.xlarge/on_demand',
+        'us-east-1/inf2.xlarge/on_demand',
+        'us-east-1/p5.48xlarge/on_demand',
+        'us-east-1/p5.48xlarge/reserved_1yr',
+        'us-east-1/p5.48xlarge/reserved_3yr',
+        'us-east-1/p6-b200.48xlarge/on_demand'
+      ])
+      assert.strictEqual(prices['us-east-1/p5.48xlarge/on_demand'].pricePerHour, 98.32)
+      assert.strictEqual(prices['us-east-1/p5.48xlarge/on_demand'].gpuCount, 8)
+      // All Upfront 540000 / 8760h가 No Upfront 63.5보다 낮고, convertible 약정은 제외
+      assert.strictEqual(prices['us-east-1/p5.48xlarge/reserved_1yr'].pricePerHour, 540000 / 8760)
+      assert.strictEqual(prices['us-east-1/inf2.xlarge/on_demand'].gpuModel, 'Inferentia2')
+      // 모델 매핑에 없는 패밀리는 상품 속성(gpu / physicalProcessor)으로 유지
+      assert.strictEqual(prices['us-east-1/p6-b200.48xlarge/on_demand'].gpuCount, 8)
+      assert.strictEqual(prices['us-east-1/p6-b200.48xlarge/on_demand'].gpuModel, 'Intel Xeon Platinum 8570')
+      // 가속기 개수를 알 수 없는 상품(trn2.3xlarge: gpu 속성 / 매핑 없음)은 로그를 남기고 제외
+    }
+  },
+  {
+    name: 'aws: 오프라인 재생에도 리전 필터 적용',
+    run: async () => {
+      const service = new AWSPricingService({ offlineFile: path.join(FIXTURE_DIR, 'aws-price-list', 'AmazonEC2-gpu.json') })
+      const result = await service.fetchOffers({ regions: ['Asia Pacific (Seoul)'] })
+
+      assert.ok(result.success, result.error)
+      assert.deepStrictEqual(result.data?.offers.map(o => `${o.region}/${o.instanceName}`), ['ap-northeast-2/g5.xlarge'])
+    }
+  },
+  {
+    name: 'gcp: Catalog SKU 재생 후 core + ram + gpu 조합',
+    run: async () => {
+      const service = new GCPPricingService({ fixtureFile: path.join(FIXTURE_DIR, 'gcp-billing-catalog', 'compute-engine-skus.json') })
+      const result = await service.fetchGPUVMPrices()
+
+      assert.ok(result.success, result.error)
+      assert.strictEqual(result.data?.source, 'fixture')
+      assert.strictEqual(result.data?.skusFetched, 11)
+      assert.deepStrictEqual(result.data?.regions, ['asia-northeast3', 'us-central1'])
+
+      const prices = new Map((result.data?.instances || []).map(i => [`${i.region}/${i.machineType}/${i.purchaseOption}`, i]))
+      // G2 8종 x (on_demand, spot) + A2 A100 5종 x on_demand, 1년 약정은 RAM / GPU SKU가 없어 조합 불가
+      assert.strictEqual(prices.size, 21)
+      assert.ok(![...prices.keys()].some(key => key.endsWith('/reserved_1yr')))
+
+      // Sole Tenancy 코어 단가(더 저렴)는 제외되고 일반 코어 단가로 조합
+      assertPrice(prices.get('asia-northeast3/g2-standard-4/on_demand')?.pricePerHour, 4 * 0.02186 + 16 * 0.00256 + 0.56)
+      assertPrice(prices.get('asia-northeast3/g2-standard-4/spot')?.pricePerHour, 4 * 0.00875 + 16 * 0.001025 + 0.224)
+      assertPrice(prices.get('us-central1/a2-highgpu-1g/on_demand')?.pricePerHour, 12 * 0.031611 + 85 * 0.004237 + 2.933908)
+    }
+  },
+  {
+    name: 'gcp: 리전 지정 시 해당 리전만 조합',
+    run: async () => {
+      const service = new GCPPricingService({ fixtureFile: path.join(FIXTURE_DIR, 'gcp-billing-catalog', 'compute-engine-skus.json') })
+      const result = await service.fetchOffers({ regions: ['us-central1'] })
+
+      assert.ok(result.success, result.error)
+      assert.deepStrictEqual([...new Set(result.data?.offers.map(o => o.familyCode))], ['a2'])
+      assert.strictEqual(result.data?.offers.length, 5)
+    }
+  },
+  {
+    name: 'oci: Price List 재생 (GPU Per Hour 단가 x shape GPU 수, 리전 공통)',
+    run: async () => {
+      const service = new OCIPricingService({ fixtureFile: path.join(FIXTURE_DIR, 'oci-price-list', 'products-usd.json') })
+      const result = await service.fetchOffers({ regions: ['ap-seoul-1', 'us-ashburn-1', 'xx-unknown-1'] })
+
+      assert.ok(result.success, result.error)
+      assert.deepStrictEqual(result.data?.regions, ['ap-seoul-1', 'us-ashburn-1'])
+
+      const prices = new Map((result.data?.offers || []).map(o => [`${o.region}/${o.instanceName}`, o]))
+      assert.strictEqual(prices.size, 16) // instance-specs.json의 OCI shape 8종 x 2개 리전
+      assert.strictEqual(prices.get('ap-seoul-1/BM.GPU.H100.8')?.pricePerHour, 80)
+      // A100 - v2(80GB)와 A100(40GB) 상품 구분
+      assert.strictEqual(prices.get('ap-seoul-1/BM.GPU.A100-v2.8')?.pricePerHour, 32)
+      assert.strictEqual(prices.get('ap-seoul-1/BM.GPU4.8')?.pricePerHour, 3.05 * 8)
+      // 같은 이름의 블록 볼륨 상품(GPU Per Hour 아님)은 건너뜀
+      assert.strictEqual(prices.get('us-ashburn-1/VM.GPU.A10.2')?.pricePerHour, 4)
+      assert.strictEqual(prices.get('us-ashburn-1/VM.GPU.A10.2')?.sourceSku, 'B90977')
+    }
+  },
+  {
+    name: 'alibaba: DescribePrice 응답 재생 (할인 적용 TradePrice, 미판매 타입 제외)',
+    run: async () => {
+      const service = new AlibabaPricingService({ fixtureFile: path.join(FIXTURE_DIR, 'alibaba-describe-price', 'payasyougo.json') })
+      const result = await service.fetchGPUPrices()
+
+      assert.ok(result.success, result.error)
+      assert.deepStrictEqual(result.data?.regions, ['ap-northeast-2', 'ap-southeast-1'])
+
+      const prices = new Map((result.data?.instances || []).map(i => [`${i.region}/${i.instanceType}`, i]))
+      assert.deepStrictEqual([...prices.keys()].sort(), [
+        'ap-northeast-2/ecs.gn6i-c4g1.xlarge',
+        'ap-northeast-2/ecs.gn7i-c8g1.2xlarge',
+        'ap-southeast-1/ecs.gn6v-c8g1.2xlarge',
+        'ap-southeast-1/ecs.gn7i-c8g1.2xlarge'
+      ])
+      assert.strictEqual(prices.get('ap-southeast-1/ecs.gn7i-c8g1.2xlarge')?.pricePerHour, 2)
+      assert.strictEqual(prices.get('ap-southeast-1/ecs.gn7i-c8g1.2xlarge')?.originalPrice, 2.22)
+      assert.strictEqual(prices.get('ap-northeast-2/ecs.gn6i-c4g1.xlarge')?.gpuModel, 'T4')
+      assert.strictEqual(result.data?.currency, 'USD')
+    }
+  },
+  {
+    name: 'alibaba: 중국 사이트 응답은 CNY로 표시 (USD로 표기하지 않음)',
+    run: async () => {
+      const service = new AlibabaPricingService({ fixtureFile: path.join(FIXTURE_DIR, 'alibaba-describe-price', 'payasyougo-cn.json') })
+      const result = await service.fetchOffers({ regions: ['cn-shanghai'] })
+
+      assert.ok(result.success, result.error)
+      assert.strictEqual(result.data?.currency, 'CNY')
+      assert.deepStrictEqual(result.data?.offers.map(o => [o.instanceName, o.pricePerHour, o.currency]), [
+        ['ecs.gn7i-c8g1.2xlarge', 15.23, 'CNY']
+      ])
+    }
+  },
+  {
+    name: 'price-history: 수동 보정 해제 후 동기화 가격으로 복귀 (해제된 보정 행이 가장 최근이어도)',
+    run: () => withInMemoryPriceHistory(P5_INSTANCE_TYPE, async (rows) => {
+      const target = { providerCode: 'aws', regionCode: 'us-east-1', instanceName: 'p5.48xlarge' }
+      const syncedAt = new Date(Date.now() - 60 * 60 * 1000)
+      rows.push({
+        id: 'ph-sync',
+        instanceTypeId: P5_INSTANCE_TYPE.id,
+        purchaseOption: 'on_demand',
+        currency: 'USD',
+        priceAmount: 98.32,
+        effectiveDate: syncedAt,
+        createdAt: syncedAt,
+        dataSource: 'api',
+        sourceSku: 'JRTCKXETXF.6YS6EN2CT7',
+        overrideClearedAt: null,
+        instanceType: P5_INSTANCE_TYPE
+      })
+
+      const manual = await priceHistoryService.recordManualPrice({ ...target, pricePerHour: 90, currency: 'USD', updatedBy: 'replay-check' })
+      assert.deepStrictEqual(manual, { oldPrice: 98.32, newPrice: 90 })
+      assert.strictEqual((await priceHistoryService.getLatestPrice(target))?.pricePerHour, 90)
+
+      assert.strictEqual(await priceHistoryService.clearManualPrice(target), 1)
+      const latest = await priceHistoryService.getLatestPrice(target)
+      assert.strictEqual(latest?.pricePerHour, 98.32)
+      assert.strictEqual(latest?.dataSource, 'api')
+    })
+  }
+]
+
+async function main() {
+  let failed = 0
+
+  for (const check of checks) {
+    try {
+      await check.run()
+      console.log(`✅ ${check.name}`)
+    } catch (error) {
+      failed++
+      console.error(`❌ ${check.name}`)
+      console.error(error instanceof Error ? error.message : error)
+    }
+  }
+
+  console.log(`\n${checks.length - failed}/${checks.length} 통과`)
+  if (failed > 0) {
+    process.exitCode = 1
+  }
+}
+
+main()
@@ -0,0 +1,65 @@
+// 프로바이더 가격 어댑터 계약
+// 각 클라우드 가격 서비스는 고유 응답(vmSize, machineType, shape 등)을 InstanceOffer로 정규화해 반환하고,
+// 동기화 작업(price-sync)과 조회 레이어(price-repository)는 이 계약만 사용한다.
+import { PurchaseOption } from './purchase-options'
+
+// 정규화된 인스턴스 가격 한 건
+export interface InstanceOffer {
+  provider: string // aws, azure, gcp, oci, alibaba
+  region: string // 프로바이더 리전 코드
+  instanceName: string
+  purchaseOption: PurchaseOption
+  pricePerHour: number
+  currency: string
+  sourceSku?: string
+  familyCode: string
+  gpuModel: string
+  gpuCount: number
+  vcpu: number
+  ramGb: number
+  raw?: unknown // 원본 응답 항목 (PriceHistory.rawResponse)
+}
+
+export interface ProviderPricingResponse {
+  success: boolean
+  data?: {
+    offers: InstanceOffer[]
+    totalCount: number
+    fetchedAt: string
+    currency: string
+    regions: string[]
+    gpuModels: string[]
+    truncated?: boolean // 페이지 상한 등으로 일부만 수집한 경우
+    details?: Record<string, unknown> // 프로바이더별 부가 정보 (pagesFetched, source 등)
+  }
+  error?: string
+  message?: string
+}
+
+export interface FetchOffersOptions {
+  regions?: string[]
+  onProgress?: (itemsFetched: number) => void | Promise<void>
+}
+
+export interface ProviderPricingAdapter {
+  readonly providerCode: string
+  readonly displayName: string
+  fetchOffers(options?: FetchOffersOptions): Promise<ProviderPricingResponse>
+}
+
+/**
+ * 오퍼 식별자 (프로바이더 + 인스턴스 + 리전)
+ */
+export function toInstanceId(offer: Pick<InstanceOffer, 'provider' | 'instanceName' | 'region'>): string {
+  return `${offer.provider}-${offer.instanceName.toLowerCase()}-${offer.region}`
+}
+
+/**
+ * 오퍼 목록 요약 (리전 / GPU 모델)
+ */
+export function summarizeOffers(offers: InstanceOffer[]): { regions: string[]; gpuModels: string[] } {
+  return {
+    regions: Array.from(new Set(offers.map(o => o.region))).sort(),
+    gpuModels: Array.from(new Set(offers.map(o => o.gpuModel))).sort()
+  }
+}
@@ -0,0 +1,30 @@
+// 구매 옵션 (PriceHistory.purchaseOption 값) - 서버/클라이언트 공용
+export const PURCHASE_OPTIONS = [
+  'on_demand',
+  'spot',
+  'reserved_1yr',
+  'reserved_3yr',
+  'savings_plan_1yr',
+  'savings_plan_3yr'
+] as const
+
+export type PurchaseOption = typeof PURCHASE_OPTIONS[number]
+
+export const PURCHASE_OPTION_LABELS: Record<PurchaseOption, string> = {
+  on_demand: '온디맨드',
+  spot: 'Spot',
+  reserved_1yr: '예약 1년',
+  reserved_3yr: '예약 3년',
+  savings_plan_1yr: 'Savings Plan 1년',
+  savings_plan_3yr: 'Savings Plan 3년'
+}
+
+// 약정 기간별 시간 수 (약정 총액 → 시간당 실효 단가 환산용)
+export const COMMITMENT_HOURS: Record<'1yr' | '3yr', number> = {
+  '1yr': 365 * 24,
+  '3yr': 3 * 365 * 24
+}
+
+export function isPurchaseOption(value: string): value is PurchaseOption {
+  return (PURCHASE_OPTIONS as readonly string[]).includes(value)
+}
@@ -0,0 +1,248 @@
+// 스케줄 작업 정의 (가격 동기화 / 환율 스냅샷 / Azure 용량 체크 / SKU 제한·쿼터 조회 / Spot 신호 수집 / AWS 용량 신호)
+// 용량 / Spot 신호 수집 작업은 수집한 조합의 용량 스코어도 다시 계산해 저장한다.
+// 서버 시작 시 src/instrumentation.ts가 jobScheduler.start()를 호출한다 (JOB_SCHEDULER_ENABLED=false면 비활성).
+import { awsCapacityService } from './aws-capacity'
+import { awsCapacityScoringEngine } from './aws-scoring'
+import { azureCapacityService } from './azure-capacity'
+import { azureProbeBudgetService } from './azure-probe-budget'
+import { azureCapacityScoringEngine } from './azure-scoring'
+import {
+  CAPACITY_WORKER_CONFIG,
+  SPOT_WORKER_CONFIG,
+  createCheckPlan,
+  createSkuCheckPlan,
+  createSpotCollectionPlan,
+  executeCheckPlan,
+  executeSkuCheckPlan,
+  executeSpotCollectionPlan,
+  summarizeWorkerRun,
+  WorkerCombination
+} from './azure-workers'
+import { exchangeRateService } from './exchange-rates'
+import { JobDefinition, JobScheduler } from './job-scheduler'
+import { getPricingAdapters, priceSyncService } from './price-sync'
+
+const MINUTE = 60 * 1000
+
+// PROJECT_SPECIFICATION: 가격 동기화는 하루 1~2회 (기본 03시/15시, 프로바이더마다 5분씩 간격)
+const PRICE_SYNC_HOURS = process.env.PRICE_SYNC_HOURS || '3,15'
+
+function priceSyncJobs(): JobDefinition[] {
+  return getPricingAdapters().map((adapter, index) => ({
+    name: `price_sync:${adapter.providerCode}`,
+    jobType: 'price_sync',
+    providerCode: adapter.providerCode,
+    description: `${adapter.displayName} 가격 동기화`,
+    schedule: `${(index * 5) % 60} ${PRICE_SYNC_HOURS} * * *`,
+    lockTtlMs: 60 * MINUTE,
+    maxAttempts: 3,
+    backoffMs: 5 * MINUTE,
+    run: async ({ etlLogId, params }) => {
+      const regions = Array.isArray(params.regions) ? params.regions.map(String) : undefined
+      const result = await priceSyncService.sync(adapter, { regions, etlLogId })
+
+      return {
+        status: result.updated > 0 ? 'success' : 'failed',
+        recordsProcessed: result.updated,
+        message: priceSyncService.describeResult(result),
+        details: result
+      }
+    }
+  }))
+}
+
+// 프로브 / Spot 신호를 수집한 조합의 Azure 용량 스코어 재계산 (CapacityScore + 이력)
+async function refreshAzureCapacityScores(combinations: WorkerCombination[]): Promise<void> {
+  for (const combo of combinations) {
+    const score = await azureCapacityScoringEngine.calculateCapacityScore(combo.region, combo.vmSize)
+    await azureCapacityScoringEngine.saveCapacityScore(score)
+  }
+}
+
+const capacityCheckJob: JobDefinition = {
+  name: 'capacity_check',
+  jobType: 'capacity_check',
+  providerCode: 'azure',
+  description: 'Azure 용량 프로브',
+  schedule: '*/15 * * * *',
+  lockTtlMs: (CAPACITY_WORKER_CONFIG.maxRunTimeMinutes + 5) * MINUTE,
+  maxAttempts: 2,
+  backoffMs: MINUTE,
+  run: async ({ params }) => {
+    // 실제 VM 생성도 데모 모드도 아니면 실행하지 않음
+    if (!azureCapacityService.isProbeEnabled()) {
+      return { status: 'skipped', recordsProcessed: 0, message: 'Azure 용량 프로브 비활성화 (AZURE_SUBSCRIPTION_ID / AZURE_CAPACITY_DEMO 미설정)' }
+    }
+
+    if (azureCapacityService.createsRealVms()) {
+      const budget = await azureProbeBudgetService.getStatus(azureCapacityService.getSubscriptionId())
+      if (budget.exhausted) {
+        return { status: 'skipped', recordsProcessed: 0, message: '프로브 예산 소진', details: { budget } }
+      }
+    }
+
+    const startTime = Date.now()
+    const maxCombinations = typeof params.maxCombinations === 'number' ? params.maxCombinations : 8
+    const plan = await createCheckPlan(Math.min(maxCombinations, CAPACITY_WORKER_CONFIG.batchSizeLimit))
+    if (plan.combinations.length === 0) {
+      return { status: 'skipped', recordsProcessed: 0, message: plan.totalCombinations === 0 ? '프로브 대상 없음 (Azure 가격 데이터 / 관심 목록 없음)' : '최근에 모든 조합이 체크됨', details: { plan } }
+    }
+
+    const results = await executeCheckPlan(plan, startTime)
+    await refreshAzureCapacityScores(plan.combinations)
+    return { ...summarizeWorkerRun(results.completed, results.errors), recordsProcessed: results.completed, details: { plan, results } }
+  }
+}
+
+// 비용 없는 SKU 제한 / 쿼터 조회 (예산과 무관하게 용량 체크보다 넓게 갱신)
+const skuCheckJob: JobDefinition = {
+  name: 'sku_check',
+  jobType: 'sku_check',
+  providerCode: 'azure',
+  description: 'Azure SKU 제한 / 쿼터 조회',
+  schedule: '10 * * * *',
+  lockTtlMs: (CAPACITY_WORKER_CONFIG.maxRunTimeMinutes + 5) * MINUTE,
+  maxAttempts: 2,
+  backoffMs: MINUTE,
+  run: async ({ params }) => {
+    if (!azureCapacityService.isProbeEnabled()) {
+      return { status: 'skipped', recordsProcessed: 0, message: 'Azure 용량 프로브 비활성화 (AZURE_SUBSCRIPTION_ID / AZURE_CAPACITY_DEMO 미설정)' }
+    }
+
+    const startTime = Date.now()
+    const maxCombinations = typeof params.maxCombinations === 'number' ? params.maxCombinations : 50
+    const plan = await createSkuCheckPlan(maxCombinations)
+    if (plan.combinations.length === 0) {
+      return { status: 'skipped', recordsProcessed: 0, message: plan.totalCombinations === 0 ? '조회 대상 없음 (Azure 가격 데이터 / 관심 목록 없음)' : '최근에 모든 조합이 조회됨', details: { plan } }
+    }
+
+    const results = await executeSkuCheckPlan(plan, startTime)
+    await refreshAzureCapacityScores(plan.combinations)
+    return { ...summarizeWorkerRun(results.completed, results.errors), recordsProcessed: results.completed, details: { plan, results } }
+  }
+}
+
+// 정리되지 않은 테스트 VM 삭제 재시도 (백그라운드 삭제 실패 / 프로세스 중단 대비)
+const probeReaperJob: JobDefinition = {
+  name: 'probe_reaper',
+  jobType: 'probe_cleanup',
+  providerCode: 'azure',
+  description: 'Azure 테스트 VM 정리',
+  schedule: '*/10 * * * *',
+  lockTtlMs: 30 * MINUTE,
+  maxAttempts: 1, // 다음 슬롯에서 다시 시도
+  backoffMs: MINUTE,
+  run: async ({ params }) => {
+    const result = await azureCapacityService.reapUncleanedProbes({
+      minAgeMinutes: typeof params.minAgeMinutes === 'number' ? params.minAgeMinutes : undefined
+    })
+    const cleaned = result.deleted + result.alreadyGone
+
+    if (result.skipped) {
+      return { status: 'skipped', recordsProcessed: 0, message: result.skipped, details: result }
+    }
+
+    return {
+      status: result.failed === 0 ? 'success' : cleaned > 0 ? 'partial_success' : 'failed',
+      recordsProcessed: cleaned,
+      message: [
+        result.failed > 0 ? `${result.failed}개 삭제 실패: ${result.errors.slice(0, 3).join(', ')}` : null,
+        result.abandoned > 0 ? `${result.abandoned}개는 재시도 한도 초과 (수동 정리 필요)` : null
+      ].filter(Boolean).join(', ') || undefined,
+      details: result
+    }
+  }
+}
+
+const spotCollectionJob: JobDefinition = {
+  name: 'spot_collection',
+  jobType: 'spot_collection',
+  providerCode: 'azure',
+  description: 'Azure Spot 신호 수집',
+  schedule: '5,20,35,50 * * * *',
+  lockTtlMs: (SPOT_WORKER_CONFIG.maxRunTimeMinutes + 5) * MINUTE,
+  maxAttempts: 2,
+  backoffMs: MINUTE,
+  run: async ({ params }) => {
+    const startTime = Date.now()
+    const maxCombinations = typeof params.maxCombinations === 'number' ? params.maxCombinations : 12
+    const plan = await createSpotCollectionPlan(Math.min(maxCombinations, SPOT_WORKER_CONFIG.batchSizeLimit))
+    if (plan.combinations.length === 0) {
+      return { status: 'skipped', recordsProcessed: 0, message: plan.totalCombinations === 0 ? '수집 대상 없음 (Azure Spot 가격 데이터 / 관심 목록 없음)' : '최근에 모든 조합이 수집됨', details: { plan } }
+    }
+
+    const results = await executeSpotCollectionPlan(plan, startTime)
+    await refreshAzureCapacityScores(plan.combinations)
+    return { ...summarizeWorkerRun(results.successful, results.errors), recordsProcessed: results.successful, details: { plan, results } }
+  }
+}
+
+// 일별 환율 스냅샷 (USD 기준 환율표를 ExchangeRate 테이블에 저장, 환율 API 장애 시 마지막 저장 환율로 변환)
+const fxSyncJob: JobDefinition = {
+  name: 'fx_sync',
+  jobType: 'fx_sync',
+  description: '일별 환율 스냅샷 저장',
+  schedule: '5 0 * * *',
+  lockTtlMs: 10 * MINUTE,
+  maxAttempts: 3,
+  backoffMs: 15 * MINUTE,
+  run: async () => {
+    const snapshot = await exchangeRateService.snapshotDailyRates()
+    return {
+      status: 'success',
+      recordsProcessed: snapshot.currencies,
+      message: `${snapshot.rateDate} 환율 ${snapshot.currencies}개 저장 (${snapshot.source})`,
+      details: snapshot
+    }
+  }
+}
+
+// AWS Spot 배치 점수 + ODCR dry-run 수집 후 해당 조합 스코어 재계산 (인스턴스를 만들지 않으므로 비용 없음)
+const awsCapacityCheckJob: JobDefinition = {
+  name: 'aws_capacity_check',
+  jobType: 'aws_capacity_check',
+  providerCode: 'aws',
+  description: 'AWS Spot 배치 점수 / ODCR dry-run',
+  schedule: '25 * * * *',
+  lockTtlMs: 30 * MINUTE,
+  maxAttempts: 2,
+  backoffMs: MINUTE,
+  run: async ({ params }) => {
+    if (!awsCapacityService.isProbeEnabled()) {
+      return { status: 'skipped', recordsProcessed: 0, message: 'AWS 용량 프로브 비활성화 (AWS_CAPACITY_PROBE_ENABLED / AWS_EC2_ENDPOINT 미설정)' }
+    }
+
+    const cycle = await awsCapacityService.runProbeCycle({
+      maxInstanceTypes: typeof params.maxInstanceTypes === 'number' ? params.maxInstanceTypes : undefined,
+      maxDryRuns: typeof params.maxDryRuns === 'number' ? params.maxDryRuns : undefined
+    })
+    if (cycle.instanceTypes === 0) {
+      return { status: 'skipped', recordsProcessed: 0, message: '프로브 대상 없음 (AWS 가격 데이터 없음)' }
+    }
+
+    for (const combo of cycle.combinations) {
+      const score = await awsCapacityScoringEngine.calculateCapacityScore(combo.region, combo.instanceType)
+      await awsCapacityScoringEngine.saveCapacityScore(score)
+    }
+
+    const recorded = cycle.placementProbes + cycle.dryRuns
+    return { ...summarizeWorkerRun(recorded, cycle.errors), recordsProcessed: recorded, details: cycle }
+  }
+}
+
+// 개발 모드 HMR로 모듈이 다시 로드되어도 tick 타이머는 하나만 유지
+const globalForScheduler = globalThis as unknown as {
+  jobScheduler: JobScheduler | undefined
+}
+
+export const jobScheduler = globalForScheduler.jobScheduler ?? new JobScheduler([
+  ...priceSyncJobs(),
+  fxSyncJob,
+  capacityCheckJob,
+  skuCheckJob,
+  probeReaperJob,
+  spotCollectionJob,
+  awsCapacityCheckJob
+])
+
+globalForScheduler.jobScheduler = jobScheduler
@@ -0,0 +1,199 @@
+// Spot 중단 관측 서비스 (SpotEvictionObservation)
+// 워크로드가 보고한 Spot VM 실행 기록을 리전/VM 크기별로 모아 실측 중단율을 계산한다.
+// 중단율 = 종료된 실행 중 중단(eviction)으로 끝난 비율, 시간 감쇠 가중치 + Beta 사후분포로 추정.
+import { prisma } from './prisma';
+import { decayWeight, estimateSuccessRate } from './capacity-stats';
+
+export interface SpotEvictionReport {
+  region: string;
+  instanceType: string;
+  workloadId?: string;
+  startedAt: Date;
+  endedAt?: Date | null;
+  evicted: boolean;
+  reason?: string;
+  source?: string;
+}
+
+export interface SpotEvictionIngestResult {
+  created: number;
+  updated: number;
+}
+
+export interface EmpiricalEvictionRate {
+  region: string;
+  instanceType: string;
+  rate: number; // 사후 평균 중단율 (0-1)
+  lower: number; // 신용구간 하한
+  upper: number; // 신용구간 상한
+  runs: number; // 창 안에서 종료된 실행 수
+  evictions: number; // 그 중 중단된 실행 수
+  effectiveSamples: number; // 감쇠 가중치 합
+  sufficient: boolean; // 실측값을 쓸 만큼 관측이 충분한지
+  lastObservedAt: Date | null;
+}
+
+export interface SpotEvictionConfig {
+  windowDays: number; // 집계 창 (일)
+  decayHalfLifeHours: number; // 오래된 관측일수록 가중치 감소
+  minEffectiveSamples: number; // 이보다 적으면 가격 비율 추정식으로 대체
+}
+
+type ObservationRow = {
+  region: string;
+  instanceType: string;
+  endedAt: Date | null;
+  evicted: boolean;
+};
+
+export class SpotEvictionService {
+  private config: SpotEvictionConfig;
+
+  constructor(config: SpotEvictionConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 중단 관측 보고 저장 (workloadId가 있으면 같은 실행의 이전 보고를 갱신)
+   */
+  async recordObservations(provider: string, reports: SpotEvictionReport[]): Promise<SpotEvictionIngestResult> {
+    let created = 0;
+    let updated = 0;
+
+    for (const report of reports) {
+      const data = {
+        region: report.region,
+        instanceType: report.instanceType,
+        startedAt: report.startedAt,
+        endedAt: report.endedAt ?? null,
+        evicted: report.evicted,
+        reason: report.reason ?? null,
+        source: report.source ?? null,
+        reportedAt: new Date()
+      };
+
+      if (!report.workloadId) {
+        await prisma.spotEvictionObservation.create({ data: { provider, ...data } });
+        created++;
+        continue;
+      }
+
+      const where = { provider_workloadId: { provider, workloadId: report.workloadId } };
+      const existing = await prisma.spotEvictionObservation.findUnique({ where, select: { id: true } });
+      await prisma.spotEvictionObservation.upsert({
+        where,
+        update: data,
+        create: { provider, workloadId: report.workloadId, ...data }
+      });
+      if (existing) {
+        updated++;
+      } else {
+        created++;
+      }
+    }
+
+    return { created, updated };
+  }
+
+  /**
+   * 리전/VM 크기 하나의 실측 중단율
+   */
+  async getEmpiricalRate(
+    provider: string,
+    region: string,
+    instanceType: string,
+    now: Date = new Date()
+  ): Promise<EmpiricalEvictionRate> {
+    const rows = await this.loadFinishedRuns(provider, now, { region, instanceType });
+    return this.aggregate(region, instanceType, rows, now);
+  }
+
+  /**
+   * 관측이 있는 모든 리전/VM 크기의 실측 중단율 (조회 API용)
+   */
+  async getEmpiricalRates(
+    provider: string,
+    filter: { region?: string; instanceType?: string } = {},
+    now: Date = new Date()
+  ): Promise<EmpiricalEvictionRate[]> {
+    const rows = await this.loadFinishedRuns(provider, now, filter);
+
+    const groups = new Map<string, ObservationRow[]>();
+    for (const row of rows) {
+      const key = `${row.region}:${row.instanceType}`;
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(row);
+    }
+
+    return Array.from(groups.values())
+      .map(group => this.aggregate(group[0].region, group[0].instanceType, group, now))
+      .sort((a, b) => b.rate - a.rate);
+  }
+
+  getConfig(): SpotEvictionConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 집계 창 안에서 종료된 실행만 조회 (실행 중인 기록은 결과를 모르므로 제외)
+   */
+  private async loadFinishedRuns(
+    provider: string,
+    now: Date,
+    filter: { region?: string; instanceType?: string }
+  ): Promise<ObservationRow[]> {
+    const since = new Date(now.getTime() - this.config.windowDays * 24 * 60 * 60 * 1000);
+
+    return prisma.spotEvictionObservation.findMany({
+      where: {
+        provider,
+        endedAt: { gte: since, lte: now },
+        ...(filter.region && { region: filter.region }),
+        ...(filter.instanceType && { instanceType: filter.instanceType })
+      },
+      select: { region: true, instanceType: true, endedAt: true, evicted: true },
+      orderBy: { endedAt: 'desc' }
+    });
+  }
+
+  /**
+   * 종료 시각 기준 감쇠 가중치로 중단 / 정상 종료를 합산해 Beta 사후분포 추정
+   */
+  private aggregate(region: string, instanceType: string, rows: ObservationRow[], now: Date): EmpiricalEvictionRate {
+    let evictedWeight = 0;
+    let completedWeight = 0;
+
+    for (const row of rows) {
+      const weight = decayWeight(row.endedAt!, now.getTime(), this.config.decayHalfLifeHours);
+      if (row.evicted) {
+        evictedWeight += weight;
+      } else {
+        completedWeight += weight;
+      }
+    }
+
+    const estimate = estimateSuccessRate(evictedWeight, completedWeight);
+
+    return {
+      region,
+      instanceType,
+      rate: estimate.mean,
+      lower: estimate.lower,
+      upper: estimate.upper,
+      runs: rows.length,
+      evictions: rows.filter(row => row.evicted).length,
+      effectiveSamples: estimate.effectiveSamples,
+      sufficient: estimate.effectiveSamples >= this.config.minEffectiveSamples,
+      lastObservedAt: rows[0]?.endedAt ?? null
+    };
+  }
+}
+
+// 기본 설정으로 초기화된 인스턴스
+export const spotEvictionService = new SpotEvictionService({
+  windowDays: 28,
+  decayHalfLifeHours: 7 * 24,
+  minEffectiveSamples: 10
+});
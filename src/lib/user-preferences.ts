@@ -0,0 +1,93 @@
+// 사용자 선호 설정 서비스 (UserPreference, 세션 쿠키 단위)
+// 로그인 없이 브라우저별 세션 ID로 통화 / 세금 표시 설정을 저장한다.
+import { randomUUID } from 'crypto'
+import { prisma } from './prisma'
+import { DEFAULT_PRICING_PREFERENCES, getTaxRule, PricingPreferences } from './pricing-presentation'
+
+export const SESSION_COOKIE = 'gpu_price_session'
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 365 // 1년 (초)
+
+export interface UserPreferences extends PricingPreferences {
+  preferredRegions: string[]
+  updatedAt: string | null // 저장된 적 없으면 null (기본값)
+}
+
+export type UserPreferencesUpdate = Partial<Omit<UserPreferences, 'updatedAt'>>
+
+export class UserPreferenceService {
+  /**
+   * 새 세션 ID 발급
+   */
+  createSessionId(): string {
+    return randomUUID()
+  }
+
+  /**
+   * 세션 설정 조회 (저장된 설정이 없으면 기본값)
+   */
+  async get(sessionId: string | null): Promise<UserPreferences> {
+    const row = sessionId ? await prisma.userPreference.findUnique({ where: { sessionId } }) : null
+    if (!row) {
+      return { ...DEFAULT_PRICING_PREFERENCES, preferredRegions: [], updatedAt: null }
+    }
+
+    return {
+      currency: row.preferredCurrency,
+      buyerCountry: row.buyerCountry,
+      includeVat: row.includeVat,
+      vatRate: row.vatRate,
+      includeWithholding: row.includeWithholding,
+      withholdingRate: row.withholdingRate,
+      preferredRegions: this.parseRegions(row.preferredRegions),
+      updatedAt: row.updatedAt.toISOString()
+    }
+  }
+
+  /**
+   * 세션 설정 부분 갱신
+   * 구매자 국가만 바꾸고 세율을 지정하지 않으면 해당 국가 표준 세율로 맞춘다.
+   */
+  async update(sessionId: string, update: UserPreferencesUpdate): Promise<UserPreferences> {
+    const current = await this.get(sessionId)
+    const countryChanged = update.buyerCountry !== undefined && update.buyerCountry !== current.buyerCountry
+    const rule = getTaxRule(update.buyerCountry ?? current.buyerCountry)
+
+    const next = {
+      ...current,
+      ...update,
+      vatRate: update.vatRate ?? (countryChanged ? rule.vatRate : current.vatRate),
+      withholdingRate: update.withholdingRate ?? (countryChanged ? rule.withholdingRate : current.withholdingRate)
+    }
+
+    const data = {
+      preferredCurrency: next.currency,
+      buyerCountry: next.buyerCountry,
+      includeVat: next.includeVat,
+      vatRate: next.vatRate,
+      includeWithholding: next.includeWithholding,
+      withholdingRate: next.withholdingRate,
+      preferredRegions: JSON.stringify(next.preferredRegions)
+    }
+
+    await prisma.userPreference.upsert({
+      where: { sessionId },
+      update: data,
+      create: { sessionId, ...data }
+    })
+
+    return this.get(sessionId)
+  }
+
+  private parseRegions(value: string | null): string[] {
+    if (!value) return []
+    try {
+      const parsed = JSON.parse(value)
+      return Array.isArray(parsed) ? parsed.map(String) : []
+    } catch {
+      return []
+    }
+  }
+}
+
+// 싱글톤 인스턴스
+export const userPreferenceService = new UserPreferenceService()